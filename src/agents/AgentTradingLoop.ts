@@ -13,6 +13,8 @@
 import { MatchingEngine } from '../engine/matcher/MatchingEngine.js';
 import { EscrowLedger } from '../engine/escrow/EscrowLedger.js';
 import { EventBus } from '../events/EventBus.js';
+import { DoctrineViolationError, OrderEscalatedError } from '../core/DoctrineEngine.js';
+import { fromMicros, notional, toMicros } from '../engine/money/Money.js';
 import { LLMPricingEngine, LLMProvider } from './LLMPricingEngine.js';
 
 export interface TradingAgent {
@@ -75,7 +77,7 @@ export class AgentTradingLoop {
   registerAgent(agent: TradingAgent): void {
     if (this.hasAgent(agent.id)) return;
     if (!this.escrow.getWallet(agent.id)) {
-      this.escrow.createWallet(agent.id, 10000);
+      this.escrow.createWallet(agent.id, toMicros(10000));
     }
 
     if (agent.provider) {
@@ -144,7 +146,7 @@ export class AgentTradingLoop {
       const prices = this.matchingEngine.getBestPrices(market.id, 'yes' as any);
       const marketInfo: MarketInfo = {
         ...market,
-        midPrice: prices?.midPrice ?? market.midPrice ?? 0.5,
+        midPrice: fromMicros(prices?.midPrice) ?? market.midPrice ?? 0.5,
       };
 
       // Call the LLM to get a genuine probability estimate
@@ -190,8 +192,10 @@ export class AgentTradingLoop {
         if (quantity <= 0) continue;
       }
 
+      // The LLM prices in decimals; the engine takes micros
+      const price = toMicros(pricing.suggestedPrice);
       const balance = this.escrow.getBalance(agent.id);
-      if (!balance || balance.available < pricing.suggestedPrice * quantity) continue;
+      if (!balance || balance.available < notional(price, quantity)) continue;
 
       try {
         await this.matchingEngine.processOrder(agent.id, market.id, {
@@ -199,7 +203,7 @@ export class AgentTradingLoop {
           side: pricing.side as any,
           outcome: pricing.outcome as any,
           order_type: 'limit' as any,
-          price: pricing.suggestedPrice,
+          price,
           quantity,
           metadata: {
             strategy: agent.strategy,
@@ -244,7 +248,9 @@ export class AgentTradingLoop {
           timestamp: new Date().toISOString(),
         });
       } catch (err: any) {
-        if (!err.message.includes('Insufficient')) {
+        // Doctrine rejections and escalations are already logged and published
+        const doctrine = err instanceof DoctrineViolationError || err instanceof OrderEscalatedError;
+        if (!doctrine && !err.message.includes('Insufficient')) {
           console.error(`[TradingLoop] ${agent.name} order failed: ${err.message}`);
         }
       }
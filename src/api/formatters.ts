@@ -0,0 +1,325 @@
+/**
+ * TRUTH-NET API Formatters
+ * The boundary between the engine's integer micros and the API's decimals
+ *
+ * Engine objects carry money and prices as integer micros. Everything the
+ * API sends out (HTTP responses, WebSocket and webhook payloads) goes
+ * through these helpers, which convert to decimal USDC and prices and
+ * render dates as ISO strings.
+ */
+
+import { Order, Trade, Wallet, WalletTransaction, OrderBookLevel, Position } from '../types.js';
+import { Micros, fromMicros } from '../engine/money/Money.js';
+import { InvariantReport } from '../engine/escrow/EscrowLedger.js';
+import { ClearinghouseSummary, LiquidationEvent, MarginAccount, MarginRiskReport, NovatedTrade } from '../clearinghouse/MarginEngine.js';
+import { LedgerEntry } from '../engine/escrow/GeneralLedger.js';
+import { AgentFeeRates, FeeSchedule } from '../engine/fees/FeeSchedule.js';
+import { MarketLifecycle } from '../markets/MarketRegistry.js';
+import { ProvisionalResolution } from '../oracle/ResolutionChallenges.js';
+import { DoctrineViolation, Escalation } from '../core/DoctrineEngine.js';
+
+export function formatOrder(order: Order) {
+  return {
+    id: order.id,
+    agent_id: order.agent_id,
+    market_id: order.market_id,
+    side: order.side,
+    outcome: order.outcome,
+    order_type: order.order_type,
+    price: fromMicros(order.price) ?? null,
+    quantity: order.quantity,
+    filled_qty: order.filled_qty,
+    remaining_qty: order.remaining_qty,
+    locked_amount: fromMicros(order.locked_amount),
+    avg_fill_price: fromMicros(order.avg_fill_price) ?? null,
+    status: order.status,
+    time_in_force: order.time_in_force,
+    post_only: order.post_only ?? false,
+    stop_price: fromMicros(order.stop_price) ?? null,
+    triggered_at: order.triggered_at?.toISOString() ?? null,
+    expires_at: order.expires_at?.toISOString() ?? null,
+    client_order_id: order.client_order_id ?? null,
+    created_at: order.created_at.toISOString(),
+    updated_at: order.updated_at.toISOString(),
+    filled_at: order.filled_at?.toISOString() ?? null,
+  };
+}
+
+export function formatTrade(trade: Trade) {
+  return {
+    id: trade.id,
+    market_id: trade.market_id,
+    buy_order_id: trade.buy_order_id,
+    sell_order_id: trade.sell_order_id,
+    buyer_id: trade.buyer_id,
+    seller_id: trade.seller_id,
+    outcome: trade.outcome,
+    price: fromMicros(trade.price),
+    quantity: trade.quantity,
+    buyer_fee: fromMicros(trade.buyer_fee),
+    seller_fee: fromMicros(trade.seller_fee),
+    match_type: trade.match_type,
+    executed_at: trade.executed_at.toISOString(),
+  };
+}
+
+export function formatWallet(wallet: Wallet) {
+  return {
+    id: wallet.id,
+    agent_id: wallet.agent_id,
+    currency: wallet.currency,
+    available: fromMicros(wallet.available),
+    locked: fromMicros(wallet.locked),
+    total: fromMicros(wallet.available + wallet.locked),
+    created_at: wallet.created_at.toISOString(),
+    updated_at: wallet.updated_at.toISOString(),
+  };
+}
+
+export function formatBalance(balance: { available: Micros; locked: Micros; total: Micros } | undefined) {
+  return {
+    available: fromMicros(balance?.available ?? 0),
+    locked: fromMicros(balance?.locked ?? 0),
+    total: fromMicros(balance?.total ?? 0),
+  };
+}
+
+export function formatTransaction(tx: WalletTransaction) {
+  return {
+    id: tx.id,
+    wallet_id: tx.wallet_id,
+    tx_type: tx.tx_type,
+    amount: fromMicros(tx.amount),
+    balance_before: fromMicros(tx.balance_before),
+    balance_after: fromMicros(tx.balance_after),
+    reference_type: tx.reference_type ?? null,
+    reference_id: tx.reference_id ?? null,
+    description: tx.description ?? null,
+    created_at: tx.created_at.toISOString(),
+  };
+}
+
+export function formatPosition(position: Position, mark: { price?: Micros; unrealized_pnl: Micros }) {
+  return {
+    id: position.id,
+    agent_id: position.agent_id,
+    market_id: position.market_id,
+    outcome: position.outcome,
+    quantity: position.quantity,
+    avg_entry_price: fromMicros(position.avg_entry_price) ?? null,
+    total_cost: fromMicros(position.total_cost),
+    mark_price: fromMicros(mark.price) ?? null,
+    unrealized_pnl: fromMicros(mark.unrealized_pnl),
+    realized_pnl: fromMicros(position.realized_pnl),
+    redeemable: fromMicros(position.redeemable),
+    created_at: position.created_at.toISOString(),
+    updated_at: position.updated_at.toISOString(),
+  };
+}
+
+export function formatMarginAccount(account: MarginAccount) {
+  return {
+    agent_id: account.agent_id,
+    status: account.status,
+    cash_balance: fromMicros(account.cash_balance),
+    margin_used: fromMicros(account.margin_used),
+    margin_available: fromMicros(account.margin_available),
+    margin_loans: fromMicros(account.margin_loans),
+    exposure: fromMicros(account.exposure),
+    worst_case_loss: fromMicros(account.worst_case_loss),
+    equity: fromMicros(account.equity),
+    margin_ratio: account.margin_ratio,
+    maintenance_margin: fromMicros(account.maintenance_margin),
+    positions: account.positions.map(p => ({
+      ...formatPosition(p, { price: p.mark_price, unrealized_pnl: p.unrealized_pnl }),
+      market_value: fromMicros(p.market_value),
+      margin_requirement: fromMicros(p.margin_requirement),
+    })),
+    last_updated: account.last_updated.toISOString(),
+  };
+}
+
+export function formatMarginRiskReport(report: MarginRiskReport) {
+  return {
+    ...report,
+    equity: fromMicros(report.equity),
+    initial_margin: fromMicros(report.initial_margin),
+    maintenance_margin: fromMicros(report.maintenance_margin),
+    gross_exposure: fromMicros(report.gross_exposure),
+    worst_case_loss: fromMicros(report.worst_case_loss),
+    standalone_loss: fromMicros(report.standalone_loss),
+    groups: report.groups.map(group => ({
+      ...group,
+      worst_case_loss: fromMicros(group.worst_case_loss),
+      standalone_loss: fromMicros(group.standalone_loss),
+      scenarios: group.scenarios.map(scenario => ({ ...scenario, loss: fromMicros(scenario.loss) })),
+    })),
+  };
+}
+
+export function formatClearinghouseSummary(summary: ClearinghouseSummary) {
+  return {
+    ...summary,
+    total_equity: fromMicros(summary.total_equity),
+    total_margin_used: fromMicros(summary.total_margin_used),
+    total_margin_loans: fromMicros(summary.total_margin_loans),
+    insurance_fund: fromMicros(summary.insurance_fund),
+  };
+}
+
+export function formatLiquidation(liquidation: LiquidationEvent) {
+  return {
+    ...liquidation,
+    equity_before: fromMicros(liquidation.equity_before),
+    equity_after: fromMicros(liquidation.equity_after),
+    total_value: fromMicros(liquidation.total_value),
+    loss_absorbed: fromMicros(liquidation.loss_absorbed),
+    deleveraged: fromMicros(liquidation.deleveraged),
+    uncovered: fromMicros(liquidation.uncovered),
+    steps: liquidation.steps.map(step => ({
+      ...step,
+      at: step.at.toISOString(),
+      limit_price: fromMicros(step.limit_price),
+      avg_price: fromMicros(step.avg_price),
+      amount: fromMicros(step.amount),
+    })),
+    started_at: liquidation.started_at.toISOString(),
+    executed_at: liquidation.executed_at.toISOString(),
+  };
+}
+
+export function formatDoctrineViolation(violation: DoctrineViolation) {
+  return {
+    ...violation,
+    timestamp: violation.timestamp.toISOString(),
+  };
+}
+
+export function formatEscalation(escalation: Escalation) {
+  return {
+    ...escalation,
+    order: {
+      ...escalation.order,
+      price: fromMicros(escalation.order.price),
+      stop_price: fromMicros(escalation.order.stop_price),
+    },
+    held_amount: fromMicros(escalation.held_amount),
+    created_at: escalation.created_at.toISOString(),
+    expires_at: escalation.expires_at.toISOString(),
+    decision: escalation.decision && {
+      ...escalation.decision,
+      decided_at: escalation.decision.decided_at.toISOString(),
+    },
+  };
+}
+
+export function formatNovatedTrade(novation: NovatedTrade) {
+  const leg = (l: NovatedTrade['leg_a']) => ({ ...l, price: fromMicros(l.price), financed: fromMicros(l.financed) });
+  return {
+    ...novation,
+    leg_a: leg(novation.leg_a),
+    leg_b: leg(novation.leg_b),
+    executed_at: novation.executed_at.toISOString(),
+  };
+}
+
+export function formatBookLevel(level: OrderBookLevel) {
+  return {
+    price: fromMicros(level.price),
+    quantity: level.quantity,
+    order_count: level.order_count,
+  };
+}
+
+export function formatLedgerEntry(entry: LedgerEntry) {
+  return { ...entry, amount: fromMicros(entry.amount), created_at: entry.created_at.toISOString() };
+}
+
+export function formatInvariantReport(report: InvariantReport) {
+  const totals = Object.fromEntries(
+    Object.entries(report.totals).map(([key, value]) => [key, fromMicros(value)])
+  );
+  return {
+    ...report,
+    checked_at: report.checked_at.toISOString(),
+    violations: report.violations.map(v => ({
+      ...v,
+      expected: fromMicros(v.expected),
+      actual: fromMicros(v.actual),
+    })),
+    totals,
+  };
+}
+
+/**
+ * settlements.completed payload with payouts and P&L in decimal USDC
+ */
+export function formatSettlementEvent(event: any) {
+  return {
+    ...event,
+    payouts: (event.payouts ?? []).map((p: any) => ({
+      ...p,
+      payout: fromMicros(p.payout),
+      profit_loss: fromMicros(p.profit_loss),
+    })),
+  };
+}
+
+export function formatFeeSchedule(schedule: ReturnType<FeeSchedule['getSchedule']>) {
+  return {
+    ...schedule,
+    tiers: schedule.tiers.map(t => ({ ...t, min_volume: fromMicros(t.min_volume) })),
+  };
+}
+
+export function formatAgentFeeRates(rates: AgentFeeRates) {
+  return {
+    ...rates,
+    market_id: rates.market_id ?? null,
+    volume: fromMicros(rates.volume),
+  };
+}
+
+export function formatMarketLifecycle(market: MarketLifecycle) {
+  return {
+    ...market,
+    reason: market.reason ?? null,
+    opens_at: market.opens_at.toISOString(),
+    closes_at: market.closes_at.toISOString(),
+    updated_at: market.updated_at.toISOString(),
+  };
+}
+
+/**
+ * settlements.unwound payload with refunds in decimal USDC
+ */
+export function formatUnwindEvent(event: any) {
+  return {
+    ...event,
+    refunds: (event.refunds ?? []).map((r: any) => ({ ...r, amount: fromMicros(r.amount) })),
+  };
+}
+
+export function formatProvisionalResolution(resolution: ProvisionalResolution) {
+  const { challenge } = resolution;
+  return {
+    ...resolution,
+    proposed_at: resolution.proposed_at.toISOString(),
+    challenge_window_ends_at: resolution.challenge_window_ends_at.toISOString(),
+    challenge: challenge ? {
+      ...challenge,
+      bond: fromMicros(challenge.bond),
+      filed_at: challenge.filed_at.toISOString(),
+      decided_at: challenge.decided_at?.toISOString() ?? null,
+    } : null,
+    final_outcome: resolution.final_outcome ?? null,
+    finalized_at: resolution.finalized_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * markets.resolution_challenged payload with the bond in decimal USDC
+ */
+export function formatChallengeEvent(event: any) {
+  return { ...event, bond: fromMicros(event.bond) };
+}
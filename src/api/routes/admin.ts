@@ -0,0 +1,356 @@
+/**
+ * TRUTH-NET Admin Routes
+ *
+ * Finance / operations endpoints (admin JWT required):
+ * - Ledger invariant check (is every cent accounted for?)
+ * - Account balances of the double-entry ledger
+ * - Ledger entries for reconciliation
+ * - Market lifecycle transitions (halt, resume, close, cancel)
+ * - Binary-market resolvers and adjudication of disputed outcomes
+ * - Verdicts on challenged resolutions
+ * - Insurance fund top-ups and manual liquidation of margin accounts
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { LiquidationError, MarginEngine } from '../../clearinghouse/MarginEngine.js';
+import { EscrowLedger } from '../../engine/escrow/EscrowLedger.js';
+import { fromMicros, toMicros } from '../../engine/money/Money.js';
+import { MarketRegistry } from '../../markets/MarketRegistry.js';
+import { AttestationError, AttestationService } from '../../oracle/AttestationService.js';
+import { ChallengeError, ResolutionChallenges } from '../../oracle/ResolutionChallenges.js';
+import { MarketStatus, OutcomeToken } from '../../types.js';
+import { adminMiddleware } from './auth.js';
+import {
+  AdjudicationRequestSchema,
+  InsuranceFundingRequestSchema,
+  MarketTransitionRequestSchema,
+  RegisterResolverRequestSchema,
+  VerdictRequestSchema,
+} from '../schemas/index.js';
+import {
+  formatInvariantReport,
+  formatLedgerEntry,
+  formatLiquidation,
+  formatMarketLifecycle,
+  formatProvisionalResolution,
+} from '../formatters.js';
+
+export function createAdminRoutes(
+  escrow: EscrowLedger,
+  registry: MarketRegistry,
+  attestations: AttestationService,
+  challenges: ResolutionChallenges,
+  margin: MarginEngine,
+) {
+  return async function adminRoutes(fastify: FastifyInstance): Promise<void> {
+    fastify.addHook('preHandler', adminMiddleware());
+
+    /**
+     * GET /v1/admin/ledger/invariants
+     * Verify double-entry invariants; 409 when any imbalance is found
+     */
+    fastify.get('/admin/ledger/invariants', async (_request: FastifyRequest, reply: FastifyReply) => {
+      const report = escrow.verifyInvariants();
+
+      return reply.status(report.ok ? 200 : 409).send({
+        success: report.ok,
+        data: formatInvariantReport(report),
+        ...(report.ok ? {} : {
+          error: {
+            code: 'LEDGER_IMBALANCE',
+            message: `${report.violations.length} ledger invariant violation(s)`,
+          },
+        }),
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * GET /v1/admin/ledger/accounts
+     * Balance of every ledger account
+     */
+    fastify.get('/admin/ledger/accounts', async (_request: FastifyRequest, reply: FastifyReply) => {
+      const accounts = escrow.getAccountBalances()
+        .map(({ account, balance }) => ({ account, balance: fromMicros(balance) }));
+
+      return reply.send({
+        success: true,
+        data: { accounts, total: accounts.length },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * GET /v1/admin/ledger/entries?account=&reference_id=&limit=
+     * Ledger entries, optionally filtered by account or reference
+     */
+    fastify.get('/admin/ledger/entries', async (
+      request: FastifyRequest<{ Querystring: { account?: string; reference_id?: string; limit?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const { account, reference_id } = request.query;
+      const limit = Math.min(parseInt(request.query.limit ?? '100') || 100, 1000);
+      const entries = escrow.getLedgerEntries({ account, reference_id, limit });
+
+      return reply.send({
+        success: true,
+        data: { entries: entries.map(formatLedgerEntry), total: entries.length },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * POST /v1/admin/markets/:id/transition
+     * Move a market through its lifecycle; 409 on an illegal transition
+     */
+    fastify.post('/admin/markets/:id/transition', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const parseResult = MarketTransitionRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      if (!registry.get(id)) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: 'MARKET_NOT_FOUND',
+            message: `Market ${id} is not registered`,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const market = await registry.transition(
+          id,
+          parseResult.data.status as MarketStatus,
+          parseResult.data.reason ?? 'admin'
+        );
+        return reply.send({
+          success: true,
+          data: formatMarketLifecycle(market),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: 'ILLEGAL_TRANSITION',
+            message: (error as Error).message,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    /**
+     * GET /v1/admin/resolvers
+     * Registered binary-market resolvers
+     */
+    fastify.get('/admin/resolvers', async (_request: FastifyRequest, reply: FastifyReply) => {
+      const resolvers = attestations.listResolvers().map(r => ({
+        ...r,
+        name: r.name ?? null,
+        registered_at: r.registered_at.toISOString(),
+      }));
+
+      return reply.send({
+        success: true,
+        data: { resolvers, total: resolvers.length },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * POST /v1/admin/resolvers
+     * Register a resolver's Ed25519 public key (re-registering rotates it)
+     */
+    fastify.post('/admin/resolvers', async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = RegisterResolverRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const { id, public_key, name } = parseResult.data;
+        const resolver = attestations.registerResolver(id, public_key, name);
+        return reply.status(201).send({
+          success: true,
+          data: { ...resolver, name: resolver.name ?? null, registered_at: resolver.registered_at.toISOString() },
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'INVALID_PUBLIC_KEY',
+            message: (error as Error).message,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    /**
+     * POST /v1/admin/markets/:id/adjudicate
+     * Decide a disputed (or stalled) attestation round; the outcome is final
+     */
+    fastify.post('/admin/markets/:id/adjudicate', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const parseResult = AdjudicationRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const { outcome, reason } = parseResult.data;
+        const round = await attestations.adjudicate(request.params.id, outcome as OutcomeToken, reason);
+        return reply.send({
+          success: true,
+          data: round,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        if (!(error instanceof AttestationError)) throw error;
+        return reply.status(error.code === 'ROUND_NOT_FOUND' ? 404 : 409).send({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    /**
+     * POST /v1/admin/markets/:id/verdict
+     * Rule on a challenged resolution with an outcome (or a scalar
+     * market's value): the bond is slashed if the provisional outcome is
+     * upheld and returned if it is overturned
+     */
+    fastify.post('/admin/markets/:id/verdict', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const parseResult = VerdictRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const { outcome, value, reason } = parseResult.data;
+        const resolution = await challenges.decide(request.params.id, { outcome, value }, reason);
+        return reply.send({
+          success: true,
+          data: formatProvisionalResolution(resolution),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        if (!(error instanceof ChallengeError)) throw error;
+        return reply.status(error.code === 'INVALID_VERDICT' ? 400 : 409).send({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    /**
+     * POST /v1/admin/margin/insurance
+     * Move treasury funds into the insurance fund that absorbs liquidation
+     * deficits
+     */
+    fastify.post('/admin/margin/insurance', async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = InsuranceFundingRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { amount, description } = parseResult.data;
+      await escrow.fundInsurance(toMicros(amount), description);
+      return reply.send({
+        success: true,
+        data: { insurance_fund: fromMicros(escrow.getInsuranceBalance()) },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * POST /v1/admin/margin/:agentId/liquidate
+     * Liquidate a borrower's margin account now, whatever its margin ratio
+     */
+    fastify.post('/admin/margin/:agentId/liquidate', async (
+      request: FastifyRequest<{ Params: { agentId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const liquidation = await margin.liquidate(request.params.agentId, 'manual');
+        return reply.send({
+          success: true,
+          data: formatLiquidation(liquidation),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        if (!(error instanceof LiquidationError)) throw error;
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+  };
+}
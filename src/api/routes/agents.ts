@@ -1,15 +1,17 @@
 /**
  * TRUTH-NET Agent Wallet Routes
- * Handles wallet operations (deposit, withdraw, balance)
+ * Handles wallet operations (deposit, withdraw, balance) and positions
  * 
  * NOTE: Agent CRUD operations moved to governance.ts
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { Wallet } from '../../types.js';
 import { EscrowLedger } from '../../engine/escrow/EscrowLedger.js';
+import { PositionKeeper } from '../../settlement/PositionKeeper.js';
+import { fromMicros, toMicros } from '../../engine/money/Money.js';
+import { formatPosition, formatWallet } from '../formatters.js';
 
-export function createAgentRoutes(escrow: EscrowLedger) {
+export function createAgentRoutes(escrow: EscrowLedger, positions: PositionKeeper) {
   return async function agentRoutes(fastify: FastifyInstance): Promise<void> {
     
     /**
@@ -37,6 +39,43 @@ export function createAgentRoutes(escrow: EscrowLedger) {
       });
     });
 
+    /**
+     * GET /v1/agents/:id/positions?market_id=&open=true
+     * Agent positions with average entry, mark-to-market and realized P&L
+     */
+    fastify.get('/agents/:id/positions', async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: { market_id?: string; open?: string };
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+      const { market_id, open } = request.query;
+
+      let result = positions.getAgentPositions(id, market_id);
+      if (open === 'true') {
+        result = result.filter(p => p.quantity > 0 || p.redeemable > 0);
+      }
+
+      const formatted = result.map(p => formatPosition(p, {
+        price: positions.getMarkPrice(p.market_id, p.outcome),
+        unrealized_pnl: positions.getUnrealizedPnl(p),
+      }));
+
+      return reply.send({
+        success: true,
+        data: {
+          agent_id: id,
+          positions: formatted,
+          total: formatted.length,
+          realized_pnl: fromMicros(result.reduce((sum, p) => sum + p.realized_pnl, 0)),
+          unrealized_pnl: fromMicros(result.reduce((sum, p) => sum + positions.getUnrealizedPnl(p), 0)),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
     /**
      * POST /v1/agents/:id/deposit
      * Deposit funds to agent wallet
@@ -68,14 +107,14 @@ export function createAgentRoutes(escrow: EscrowLedger) {
           escrow.createWallet(id, 0);
         }
         
-        const tx = await escrow.deposit(id, amount);
+        const tx = await escrow.deposit(id, toMicros(amount));
         const wallet = escrow.getWallet(id)!;
 
         return reply.send({
           success: true,
           data: {
             transaction_id: tx.id,
-            amount: tx.amount,
+            amount: fromMicros(tx.amount),
             balance: formatWallet(wallet),
           },
           timestamp: new Date().toISOString(),
@@ -130,14 +169,14 @@ export function createAgentRoutes(escrow: EscrowLedger) {
       }
 
       try {
-        const tx = await escrow.withdraw(id, amount);
+        const tx = await escrow.withdraw(id, toMicros(amount));
         const updatedWallet = escrow.getWallet(id)!;
 
         return reply.send({
           success: true,
           data: {
             transaction_id: tx.id,
-            amount: Math.abs(tx.amount),
+            amount: fromMicros(Math.abs(tx.amount)),
             balance: formatWallet(updatedWallet),
           },
           timestamp: new Date().toISOString(),
@@ -155,17 +194,3 @@ export function createAgentRoutes(escrow: EscrowLedger) {
     });
   };
 }
-
-// Helper function
-function formatWallet(wallet: Wallet) {
-  return {
-    id: wallet.id,
-    agent_id: wallet.agent_id,
-    currency: wallet.currency,
-    available: wallet.available,
-    locked: wallet.locked,
-    total: wallet.available + wallet.locked,
-    created_at: wallet.created_at.toISOString(),
-    updated_at: wallet.updated_at.toISOString(),
-  };
-}
@@ -7,7 +7,9 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { EscrowLedger } from '../../engine/escrow/EscrowLedger.js';
+import { formatBalance } from '../formatters.js';
 import { EventBus } from '../../events/EventBus.js';
+import { getAgentManager } from '../../core/AgentManager.js';
 
 // ============================================================================
 // TYPES
@@ -42,6 +44,11 @@ if (JWT_SECRET === DEFAULT_JWT_SECRET && process.env.NODE_ENV === 'production')
 
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
+// Accounts registered with one of these emails get the admin role
+const ADMIN_EMAILS = new Set(
+  (process.env.ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean)
+);
+
 function validatePassword(password: string): string | null {
   if (password.length < 8) return 'Password must be at least 8 characters';
   if (!/[A-Z]/.test(password)) return 'Password must contain at least one uppercase letter';
@@ -100,6 +107,52 @@ export function authMiddleware() {
   };
 }
 
+/**
+ * The agent a request acts for: the X-Agent-ID header, the agent of a JWT's
+ * user, or a bearer API key as-is. Null when the request carries none.
+ */
+export function extractAgentId(request: FastifyRequest): string | null {
+  const agentIdHeader = request.headers['x-agent-id'];
+  if (agentIdHeader && typeof agentIdHeader === 'string') {
+    return agentIdHeader;
+  }
+
+  const authHeader = request.headers['authorization'];
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    const token = authHeader.slice(7);
+    const payload = verifyToken(token);
+    if (payload?.userId) {
+      const agents = getAgentManager().getAllAgents();
+      const userAgent = agents.find((a: any) => a.id.includes(payload.userId) || a.name?.includes(payload.userId));
+      return userAgent ? userAgent.id : payload.userId;
+    }
+    // Token is not a JWT (could be an API key) — use as-is
+    return token;
+  }
+
+  return null;
+}
+
+/**
+ * Like authMiddleware, but only lets admin tokens through
+ */
+export function adminMiddleware() {
+  const authenticate = authMiddleware();
+
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    await authenticate(request, reply);
+    if (reply.sent) return;
+
+    if ((request as any).userRole !== 'admin') {
+      return reply.status(403).send({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'Admin role required' },
+        timestamp: new Date().toISOString(),
+      });
+    }
+  };
+}
+
 // ============================================================================
 // ROUTE FACTORY
 // ============================================================================
@@ -164,7 +217,7 @@ export function createAuthRoutes(escrow: EscrowLedger, eventBus: EventBus) {
         email: email.toLowerCase(),
         passwordHash,
         displayName: displayName || email.split('@')[0],
-        role: 'user',
+        role: ADMIN_EMAILS.has(email.toLowerCase()) ? 'admin' : 'user',
         onboarded: false,
         createdAt: now,
         updatedAt: now,
@@ -249,7 +302,7 @@ export function createAuthRoutes(escrow: EscrowLedger, eventBus: EventBus) {
             onboarded: user.onboarded,
           },
           token,
-          balance: escrow.getBalance(userId),
+          balance: formatBalance(escrow.getBalance(userId)),
         },
         timestamp: new Date().toISOString(),
       });
@@ -299,7 +352,7 @@ export function createAuthRoutes(escrow: EscrowLedger, eventBus: EventBus) {
             role: user.role,
             onboarded: user.onboarded,
           },
-          balance: escrow.getBalance(user.id),
+          balance: formatBalance(escrow.getBalance(user.id)),
         },
         timestamp: new Date().toISOString(),
       });
@@ -18,8 +18,11 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
 import { MatchingEngine } from '../../engine/matcher/MatchingEngine.js';
 import { EscrowLedger } from '../../engine/escrow/EscrowLedger.js';
+import { fromMicros, toMicros } from '../../engine/money/Money.js';
 import { EventBus } from '../../events/EventBus.js';
 import { getRatingEngine } from '../../rating/RatingEngine.js';
+import { DoctrineViolationError, OrderEscalatedError } from '../../core/DoctrineEngine.js';
+import { formatDoctrineViolation, formatEscalation } from '../formatters.js';
 
 interface ExternalAgent {
   id: string;
@@ -75,7 +78,7 @@ export function createExternalAgentRoutes(
           if (pred.marketId === marketId && !pred.resolved) {
             pred.resolved = true;
             pred.wasCorrect = payout.won;
-            pred.pnlImpact = payout.profit_loss;
+            pred.pnlImpact = fromMicros(payout.profit_loss);
             pred.resolvedAt = new Date();
           }
         }
@@ -129,7 +132,7 @@ export function createExternalAgentRoutes(
       externalAgents.set(agentId, agent);
       agentsByApiKey.set(apiKey, agentId);
 
-      escrow.createWallet(agentId, 5000);
+      escrow.createWallet(agentId, toMicros(5000));
       ratingEngine.initializeRating(agentId);
 
       eventBus.publish('external_agent.registered', {
@@ -201,7 +204,7 @@ export function createExternalAgentRoutes(
       }
 
       const prices = matchingEngine.getBestPrices(market_id, 'yes' as any);
-      const currentPrice = prices?.midPrice ?? 0.5;
+      const currentPrice = fromMicros(prices?.midPrice) ?? 0.5;
       const edge = probability - currentPrice;
 
       if (Math.abs(edge) < 0.01) {
@@ -224,11 +227,11 @@ export function createExternalAgentRoutes(
         : Math.max(0.05, currentPrice - Math.abs(edge) * 0.5);
 
       const balance = escrow.getBalance(id);
-      const maxStake = balance ? balance.available * 0.2 : 100;
-      const quantity = Math.max(1, Math.min(
+      const maxStake = balance ? fromMicros(balance.available) * 0.2 : 100;
+      const quantity = Math.max(1, Math.floor(Math.min(
         stake || Math.floor(maxStake * confidence),
         maxStake,
-      ));
+      )));
 
       try {
         const result = await matchingEngine.processOrder(id, market_id, {
@@ -236,7 +239,7 @@ export function createExternalAgentRoutes(
           side: side as any,
           outcome: 'yes' as any,
           order_type: 'limit' as any,
-          price: Math.round(price * 100) / 100,
+          price: toMicros(Math.round(price * 100) / 100),
           quantity,
           metadata: {
             source: 'external_api',
@@ -303,6 +306,20 @@ export function createExternalAgentRoutes(
           timestamp: new Date().toISOString(),
         });
       } catch (err: any) {
+        if (err instanceof DoctrineViolationError) {
+          return reply.status(err.code === 'RATE_LIMIT' ? 429 : 403).send({
+            success: false,
+            error: { code: err.code, message: err.message, violation: formatDoctrineViolation(err.violation) },
+            timestamp: new Date().toISOString(),
+          });
+        }
+        if (err instanceof OrderEscalatedError) {
+          return reply.status(202).send({
+            success: true,
+            data: { action: side, escalation: formatEscalation(err.escalation) },
+            timestamp: new Date().toISOString(),
+          });
+        }
         return reply.status(400).send({
           success: false,
           error: { code: 'ORDER_FAILED', message: err.message },
@@ -0,0 +1,37 @@
+/**
+ * TRUTH-NET Fee Routes
+ *
+ * Public fee schedule:
+ * - Maker/taker rates per volume tier and the tier each plan unlocks
+ * - Market-maker rebate and per-market overrides
+ * - Effective rates for an agent (optionally in one market)
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { MatchingEngine } from '../../engine/matcher/MatchingEngine.js';
+import { formatAgentFeeRates, formatFeeSchedule } from '../formatters.js';
+
+export function createFeeRoutes(engine: MatchingEngine) {
+  return async function feeRoutes(fastify: FastifyInstance): Promise<void> {
+    /**
+     * GET /v1/fees?agent_id=&market_id=
+     * The fee schedule, plus the agent's effective rates when agent_id is given
+     */
+    fastify.get('/fees', async (
+      request: FastifyRequest<{ Querystring: { agent_id?: string; market_id?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const fees = engine.getFeeSchedule();
+      const { agent_id, market_id } = request.query;
+
+      return reply.send({
+        success: true,
+        data: {
+          schedule: formatFeeSchedule(fees.getSchedule()),
+          ...(agent_id ? { agent: formatAgentFeeRates(fees.getAgentRates(agent_id, market_id)) } : {}),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    });
+  };
+}
@@ -6,15 +6,18 @@
  * - Doctrine configuration
  * - Control functions (pause, resume, kill switch)
  * - Force close positions
+ * - Escalation queue (approve / veto held orders)
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { EventBus } from '../../events/EventBus.js';
-import { getDoctrineEngine, DoctrineConfig } from '../../core/DoctrineEngine.js';
+import { getDoctrineEngine, DoctrineConfig, Escalation, EscalationError, EscalationStatus } from '../../core/DoctrineEngine.js';
 import { getAgentManager, CreateAgentRequest, AgentConfig } from '../../core/AgentManager.js';
 import { getRatingEngine } from '../../rating/RatingEngine.js';
 import { getActiveTradingLoop } from '../../boot/PlatformSeeder.js';
-import { authMiddleware } from './auth.js';
+import { adminMiddleware, authMiddleware } from './auth.js';
+import { EscalationDecisionRequestSchema } from '../schemas/index.js';
+import { formatEscalation } from '../formatters.js';
 
 export function createGovernanceRoutes(eventBus: EventBus) {
   const doctrineEngine = getDoctrineEngine(eventBus);
@@ -281,6 +284,11 @@ export function createGovernanceRoutes(eventBus: EventBus) {
           error: { code: 'AGENT_NOT_FOUND', message: 'Agent not found' },
         });
       }
+
+      // Platform agents are not managed: pause them at the pre-trade gate too
+      if (!managedSuccess) {
+        doctrineEngine.pauseAgent(request.params.id, request.body?.reason);
+      }
       
       return reply.send({
         success: true,
@@ -308,6 +316,10 @@ export function createGovernanceRoutes(eventBus: EventBus) {
           error: { code: 'AGENT_NOT_FOUND', message: 'Agent not found' },
         });
       }
+
+      if (!managedSuccess) {
+        doctrineEngine.resumeAgent(request.params.id);
+      }
       
       return reply.send({
         success: true,
@@ -488,38 +500,78 @@ export function createGovernanceRoutes(eventBus: EventBus) {
       });
     });
     
+    // =========================================================================
+    // ESCALATION QUEUE
+    // =========================================================================
+    
     /**
-     * POST /v1/doctrine/escalation/:id/approve
-     * Approve an escalation
+     * GET /v1/doctrine/escalations
+     * Orders held for approval, newest first (?status=pending&agent_id=&limit=)
      */
-    fastify.post('/doctrine/escalation/:id/approve', async (
-      request: FastifyRequest<{ Params: { id: string } }>,
+    fastify.get('/doctrine/escalations', async (
+      request: FastifyRequest<{ Querystring: { status?: EscalationStatus; agent_id?: string; limit?: string } }>,
       reply: FastifyReply
     ) => {
-      eventBus.publish('escalation.approved', { id: request.params.id });
+      const escalations = doctrineEngine.getEscalations(
+        { status: request.query.status, agent_id: request.query.agent_id },
+        parseInt(request.query.limit || '50')
+      );
+      
       return reply.send({
         success: true,
-        message: 'Escalation approved',
+        data: { escalations: escalations.map(formatEscalation), total: escalations.length },
         timestamp: new Date().toISOString(),
       });
     });
     
     /**
-     * POST /v1/doctrine/escalation/:id/veto
-     * Veto an escalation
+     * GET /v1/doctrine/escalations/:id
+     * One escalation with its decision
      */
-    fastify.post('/doctrine/escalation/:id/veto', async (
+    fastify.get('/doctrine/escalations/:id', async (
       request: FastifyRequest<{ Params: { id: string } }>,
       reply: FastifyReply
     ) => {
-      eventBus.publish('escalation.vetoed', { id: request.params.id });
+      const escalation = doctrineEngine.getEscalation(request.params.id);
+      if (!escalation) {
+        return reply.status(404).send({
+          success: false,
+          error: { code: 'ESCALATION_NOT_FOUND', message: `Escalation ${request.params.id} not found` },
+          timestamp: new Date().toISOString(),
+        });
+      }
+      
       return reply.send({
         success: true,
-        message: 'Escalation vetoed',
+        data: formatEscalation(escalation),
         timestamp: new Date().toISOString(),
       });
     });
     
+    /**
+     * POST /v1/doctrine/escalation/:id/approve
+     * Submit the held order (requires admin); body: { reason }
+     */
+    fastify.post<{ Params: { id: string } }>('/doctrine/escalation/:id/approve', {
+      preHandler: adminMiddleware(),
+    }, async (request, reply) => {
+      return decideEscalation(request, reply, (decidedBy, reason) =>
+        doctrineEngine.approveEscalation(request.params.id, decidedBy, reason)
+      );
+    });
+    
+    /**
+     * POST /v1/doctrine/escalation/:id/veto
+     * Drop the held order and release its escrow (requires admin); body: { reason }
+     */
+    fastify.post<{ Params: { id: string } }>('/doctrine/escalation/:id/veto', {
+      preHandler: adminMiddleware(),
+    }, async (request, reply) => {
+      return decideEscalation(request, reply, (decidedBy, reason) =>
+        doctrineEngine.vetoEscalation(request.params.id, decidedBy, reason)
+      );
+    });
+    
     // =========================================================================
     // A2A DISCOVERY
     // =========================================================================
@@ -546,3 +598,52 @@ export function createGovernanceRoutes(eventBus: EventBus) {
     });
   };
 }
+
+async function decideEscalation(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  decide: (decidedBy: string, reason: string) => Promise<Escalation>
+) {
+  // Attributed to the authenticated admin, not to anything in the body
+  const parseResult = EscalationDecisionRequestSchema.safeParse(request.body);
+  if (!parseResult.success) {
+    return reply.status(400).send({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request body',
+        details: parseResult.error.flatten(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const escalation = await decide((request as any).userId, parseResult.data.reason);
+    if (escalation.status === 'failed') {
+      return reply.status(409).send({
+        success: false,
+        error: {
+          code: 'ESCALATED_ORDER_FAILED',
+          message: escalation.decision?.error ?? 'The approved order was not placed',
+        },
+        timestamp: new Date().toISOString(),
+      });
+    }
+    return reply.send({
+      success: true,
+      data: formatEscalation(escalation),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (!(error instanceof EscalationError)) throw error;
+    return reply.status(error.code === 'ESCALATION_NOT_FOUND' ? 404 : 409).send({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
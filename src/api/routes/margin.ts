@@ -0,0 +1,135 @@
+/**
+ * TRUTH-NET Margin Routes
+ *
+ * The CCP clearinghouse (clearinghouse/MarginEngine.ts):
+ * - Summary of the accounts borrowing from the CCP
+ * - An agent's margin account: wallet, margin loans and marked positions
+ * - The worst-case loss its margin is set from, by group and scenario
+ * - Open novated trades
+ * - Liquidations, step by step
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { MarginEngine } from '../../clearinghouse/MarginEngine.js';
+import {
+  formatClearinghouseSummary,
+  formatLiquidation,
+  formatMarginAccount,
+  formatMarginRiskReport,
+  formatNovatedTrade,
+} from '../formatters.js';
+
+export function createMarginRoutes(margin: MarginEngine, enabled: boolean) {
+  return async function marginRoutes(fastify: FastifyInstance): Promise<void> {
+    /**
+     * GET /v1/margin
+     * Clearinghouse summary and the margin accounts of every borrower
+     */
+    fastify.get('/margin', async (_request, reply: FastifyReply) => {
+      return reply.send({
+        success: true,
+        data: {
+          margin_trading: enabled,
+          summary: formatClearinghouseSummary(margin.getAllAccountsSummary()),
+          accounts: margin.getMarginAccounts().map(formatMarginAccount),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * GET /v1/margin/novations?market_id=
+     * Novated trades of markets that have not settled yet
+     */
+    fastify.get('/margin/novations', async (
+      request: FastifyRequest<{ Querystring: { market_id?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const novations = margin.getNovatedTrades(request.query.market_id);
+      return reply.send({
+        success: true,
+        data: {
+          novations: novations.map(formatNovatedTrade),
+          total: novations.length,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * GET /v1/margin/liquidations?agent_id=&limit=
+     * Liquidations, most recent first
+     */
+    fastify.get('/margin/liquidations', async (
+      request: FastifyRequest<{ Querystring: { agent_id?: string; limit?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const limit = request.query.limit ? parseInt(request.query.limit, 10) : 50;
+      const liquidations = margin.getLiquidations(request.query.agent_id, limit);
+      return reply.send({
+        success: true,
+        data: {
+          liquidations: liquidations.map(formatLiquidation),
+          total: liquidations.length,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * GET /v1/margin/liquidations/:id
+     * One liquidation with every step it took
+     */
+    fastify.get('/margin/liquidations/:id', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const liquidation = margin.getLiquidation(request.params.id);
+      if (!liquidation) {
+        return reply.status(404).send({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Liquidation not found' },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: formatLiquidation(liquidation),
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * GET /v1/margin/:agentId
+     * An agent's margin account
+     */
+    fastify.get('/margin/:agentId', async (
+      request: FastifyRequest<{ Params: { agentId: string } }>,
+      reply: FastifyReply
+    ) => {
+      return reply.send({
+        success: true,
+        data: formatMarginAccount(margin.getAccount(request.params.agentId)),
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * GET /v1/margin/:agentId/risk
+     * Worst-case loss behind an agent's margin: its markets grouped by
+     * declared correlations and shared tags, with the loss in every
+     * scenario of each group
+     */
+    fastify.get('/margin/:agentId/risk', async (
+      request: FastifyRequest<{ Params: { agentId: string } }>,
+      reply: FastifyReply
+    ) => {
+      return reply.send({
+        success: true,
+        data: formatMarginRiskReport(margin.getRiskReport(request.params.agentId)),
+        timestamp: new Date().toISOString(),
+      });
+    });
+  };
+}
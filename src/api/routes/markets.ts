@@ -5,20 +5,59 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
-import { CreateMarketRequestSchema } from '../schemas/index.js';
-import { Market, MarketStatus, OutcomeToken } from '../../types.js';
+import {
+  AttestationRequestSchema,
+  ChallengeRequestSchema,
+  CreateMarketRequestSchema,
+  DisputeRequestSchema,
+  ResolutionDryRunRequestSchema,
+} from '../schemas/index.js';
+import { Market, MarketCorrelation, MarketResolvedEvent, MarketStatus, MarketType, OutcomeToken } from '../../types.js';
 import { MatchingEngine } from '../../engine/matcher/MatchingEngine.js';
 import { OracleEngine } from '../../oracle/OracleEngine.js';
+import { AttestationError, AttestationService } from '../../oracle/AttestationService.js';
+import { ChallengeError, ResolutionChallenges } from '../../oracle/ResolutionChallenges.js';
+import { EvidenceStore } from '../../oracle/EvidenceStore.js';
 import { getMarketSeeder } from '../../oracle/MarketSeeder.js';
 import { getLiveNewsMarkets } from './liveNews.js';
 import { EventBus } from '../../events/EventBus.js';
+import { MarketRegistry, MarketStatusChange } from '../../markets/MarketRegistry.js';
+import { marketOutcomes, marketTypeOf, validateMarketTerms } from '../../markets/outcomes.js';
 import { seededMarkets, getActiveTradingLoop } from '../../boot/PlatformSeeder.js';
+import { fromMicros, rateToBps } from '../../engine/money/Money.js';
+import { formatBookLevel, formatProvisionalResolution } from '../formatters.js';
+import { authMiddleware, extractAgentId } from './auth.js';
 
 // In-memory store (production would use PostgreSQL)
 const markets: Map<string, Market> = new Map();
 let marketsSeeded = false;
 
-export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine, eventBus?: EventBus) {
+export function createMarketRoutes(
+  engine: MatchingEngine,
+  oracle: OracleEngine,
+  eventBus?: EventBus,
+  registry?: MarketRegistry,
+  attestations?: AttestationService,
+  challenges?: ResolutionChallenges,
+  evidence?: EvidenceStore,
+) {
+  // Keep stored markets in step with the lifecycle registry
+  eventBus?.subscribe('markets.status_changed', (change: MarketStatusChange) => {
+    const market = markets.get(change.market_id);
+    if (market) {
+      market.status = change.to;
+      market.updated_at = new Date(change.changed_at);
+    }
+  });
+
+  eventBus?.subscribe('markets.resolved', (event: MarketResolvedEvent) => {
+    const market = markets.get(event.market_id);
+    if (market) {
+      market.outcome = event.outcome;
+      market.resolution_value = event.value;
+    }
+  });
+
   // Seed markets on first load
   const seedMarkets = async () => {
     if (marketsSeeded || !eventBus) return;
@@ -29,6 +68,7 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
     for (const market of seededMarkets) {
       markets.set(market.id, market);
       engine.initializeMarket(market.id);
+      await registry?.register(market.id, { opens_at: market.opens_at, closes_at: market.closes_at });
     }
     
     marketsSeeded = true;
@@ -72,6 +112,24 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
         });
       }
 
+      const terms = {
+        market_type: data.market_type as MarketType | undefined,
+        outcomes: data.outcomes,
+        scalar_range: data.scalar_range,
+      };
+      const termsError = validateMarketTerms(terms, data.resolution_schema)
+        ?? validateCorrelations(data.correlations ?? [], marketTypeOf(terms));
+      if (termsError) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'INVALID_MARKET_TERMS',
+            message: termsError,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Create market
       const market: Market = {
         id: uuidv4(),
@@ -79,6 +137,9 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
         title: data.title,
         description: data.description,
         resolution_schema: data.resolution_schema,
+        market_type: marketTypeOf(terms),
+        outcomes: terms.outcomes,
+        scalar_range: terms.scalar_range,
         opens_at: new Date(data.opens_at),
         closes_at: new Date(data.closes_at),
         resolves_at: new Date(data.resolves_at),
@@ -91,6 +152,7 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
         open_interest: 0,
         category: data.category,
         tags: data.tags ?? [],
+        correlations: data.correlations,
         metadata: data.metadata ?? {},
         created_at: new Date(),
         updated_at: new Date(),
@@ -102,14 +164,18 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
         market.last_price_no = 0.50;
       }
 
-      // Activate if opens_at is in the past
-      if (market.opens_at <= new Date()) {
+      // Store and initialize order books; the registry activates the
+      // market once opens_at has passed
+      markets.set(market.id, market);
+      engine.initializeMarket(market.id, market.outcomes);
+      if (registry) {
+        market.status = (await registry.register(market.id, market)).status;
+      } else if (market.opens_at <= new Date()) {
         market.status = MarketStatus.ACTIVE;
       }
-
-      // Store and initialize order books
-      markets.set(market.id, market);
-      engine.initializeMarket(market.id);
+      if (data.fee_rate !== undefined) {
+        await engine.getFeeSchedule().setMarketOverride(market.id, { taker_bps: rateToBps(data.fee_rate) });
+      }
 
       // Schedule resolution
       oracle.scheduleResolution(market);
@@ -293,27 +359,22 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
         });
       }
 
-      const yesBook = engine.getBestPrices(id, OutcomeToken.YES);
-      const noBook = engine.getBestPrices(id, OutcomeToken.NO);
+      // One entry per order book: yes / no, or each categorical outcome
+      const prices = Object.fromEntries(marketOutcomes(market).map(outcome => {
+        const book = engine.getBestPrices(id, outcome);
+        return [outcome, {
+          best_bid: fromMicros(book?.bestBid) ?? null,
+          best_ask: fromMicros(book?.bestAsk) ?? null,
+          spread: fromMicros(book?.spread) ?? null,
+          last_trade: fromMicros(book?.lastTradePrice) ?? null,
+        }];
+      }));
 
       return reply.send({
         success: true,
         data: {
           ...formatMarket(market),
-          prices: {
-            yes: {
-              best_bid: yesBook?.bestBid ?? null,
-              best_ask: yesBook?.bestAsk ?? null,
-              spread: yesBook?.spread ?? null,
-              last_trade: yesBook?.lastTradePrice ?? null,
-            },
-            no: {
-              best_bid: noBook?.bestBid ?? null,
-              best_ask: noBook?.bestAsk ?? null,
-              spread: noBook?.spread ?? null,
-              last_trade: noBook?.lastTradePrice ?? null,
-            },
-          },
+          prices,
         },
         timestamp: new Date().toISOString(),
       });
@@ -364,9 +425,19 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
         });
       }
 
-      const token = outcome === 'no' ? OutcomeToken.NO : OutcomeToken.YES;
+      const token = outcome.toLowerCase();
+      if (!marketOutcomes(market).includes(token)) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'INVALID_OUTCOME',
+            message: `outcome must be one of: ${marketOutcomes(market).join(', ')}`,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
 
-      engine.initializeMarket(id);
+      engine.initializeMarket(id, market.outcomes);
 
       const snapshot = engine.getOrderBookSnapshot(id, token, parseInt(depth));
 
@@ -388,17 +459,300 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
         data: {
           market_id: snapshot.market_id,
           outcome: snapshot.outcome,
-          bids: snapshot.bids,
-          asks: snapshot.asks,
-          best_bid: prices?.bestBid ?? null,
-          best_ask: prices?.bestAsk ?? null,
-          spread: prices?.spread ?? null,
+          bids: snapshot.bids.map(formatBookLevel),
+          asks: snapshot.asks.map(formatBookLevel),
+          best_bid: fromMicros(prices?.bestBid) ?? null,
+          best_ask: fromMicros(prices?.bestAsk) ?? null,
+          spread: fromMicros(prices?.spread) ?? null,
           timestamp: snapshot.timestamp.toISOString(),
         },
         timestamp: new Date().toISOString(),
       });
     });
 
+    /**
+     * GET /v1/markets/:id/attestations
+     * Attestation round of a binary market: resolvers, quorum, every
+     * attestation and dispute, and the dispute window
+     */
+    fastify.get('/markets/:id/attestations', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const round = attestations?.getRound(request.params.id);
+      if (!round) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: 'ROUND_NOT_FOUND',
+            message: `Market ${request.params.id} has no attestation round`,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: round,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * POST /v1/markets/:id/attestations
+     * Submit a resolver's signed outcome. The signature is Ed25519 over
+     * JSON {market_id, resolver_id, outcome, attested_at}, in that key order.
+     */
+    fastify.post('/markets/:id/attestations', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const parseResult = AttestationRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const round = await attestationService().submitAttestation(request.params.id, {
+          ...parseResult.data,
+          outcome: parseResult.data.outcome as OutcomeToken,
+        });
+        return reply.status(201).send({
+          success: true,
+          data: round,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        return attestationFailure(reply, error);
+      }
+    });
+
+    /**
+     * POST /v1/markets/:id/disputes
+     * Contest a proposed outcome during its dispute window by posting the
+     * resolution bond out of the authenticated agent's wallet
+     */
+    fastify.post('/markets/:id/disputes', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const agentId = extractAgentId(request);
+      if (!agentId) return unauthorized(reply);
+
+      const parseResult = DisputeRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const { disputer_id, reason } = parseResult.data;
+        if (disputer_id && disputer_id !== agentId) {
+          return forbidden(reply, 'Cannot dispute on behalf of another agent');
+        }
+        const round = await attestationService().dispute(request.params.id, agentId, reason);
+        return reply.status(201).send({
+          success: true,
+          data: round,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        return attestationFailure(reply, error);
+      }
+    });
+
+    /**
+     * GET /v1/markets/:id/resolution
+     * Provisional or final resolution, its challenge window and any
+     * challenge with its verdict
+     */
+    fastify.get('/markets/:id/resolution', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const resolution = challenges?.getResolution(request.params.id);
+      if (!resolution) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: 'RESOLUTION_NOT_FOUND',
+            message: `Market ${request.params.id} has no resolution yet`,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: formatProvisionalResolution(resolution),
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * POST /v1/markets/resolution/dry-run
+     * What a resolution schema would decide right now: extracted value,
+     * outcome and errors, for it and its alternate sources. Nothing is
+     * published. With a fixture (or fixtures by URL) nothing is fetched;
+     * otherwise only allowlisted public hosts are (see oracle/resolvers/egress.ts).
+     * Requires a signed-in user.
+     */
+    fastify.post('/markets/resolution/dry-run', {
+      preHandler: authMiddleware(),
+    }, async (request: FastifyRequest, reply: FastifyReply) => {
+      const parseResult = ResolutionDryRunRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { resolution_schema, fixture, fixtures } = parseResult.data;
+      const offline = fixture !== undefined || fixtures !== undefined;
+      const result = await oracle.dryRun(
+        resolution_schema,
+        offline ? { body: fixture, bodies: fixtures } : undefined
+      );
+
+      if (!result.valid) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'INVALID_RESOLUTION_SCHEMA',
+            message: result.error ?? 'Invalid resolution schema',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { ...result, offline },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * GET /v1/markets/:id/resolution-evidence
+     * Signed evidence bundles of every resolution attempt, with the
+     * platform public key that verifies them. include_bodies=true adds
+     * the archived response bodies, keyed by their SHA-256.
+     */
+    fastify.get('/markets/:id/resolution-evidence', async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: { include_bodies?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const bundles = evidence?.list(request.params.id) ?? [];
+      if (!evidence || bundles.length === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: 'EVIDENCE_NOT_FOUND',
+            message: `Market ${request.params.id} has no resolution evidence`,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      let bodies: Record<string, string> | undefined;
+      if (request.query.include_bodies === 'true') {
+        bodies = {};
+        for (const { bundle } of bundles) {
+          for (const fetch of bundle.fetches) {
+            const hash = fetch.response?.body_sha256;
+            const body = hash ? evidence.getBody(hash) : undefined;
+            if (hash && body !== undefined) bodies[hash] = body;
+          }
+        }
+      }
+
+      return reply.send({
+        success: true,
+        data: {
+          market_id: request.params.id,
+          public_key: evidence.getPublicKey(),
+          algorithm: 'ed25519',
+          bundles,
+          bodies,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * POST /v1/markets/:id/challenges
+     * Challenge a provisional resolution by posting the resolution bond out
+     * of the authenticated agent's wallet; the market is re-resolved from
+     * its alternate sources
+     */
+    fastify.post('/markets/:id/challenges', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const agentId = extractAgentId(request);
+      if (!agentId) return unauthorized(reply);
+
+      const parseResult = ChallengeRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        if (!challenges) {
+          throw new ChallengeError('RESOLUTION_NOT_FOUND', 'Resolution challenges are not enabled');
+        }
+        const { agent_id, reason } = parseResult.data;
+        if (agent_id && agent_id !== agentId) {
+          return forbidden(reply, 'Cannot challenge on behalf of another agent');
+        }
+        const resolution = await challenges.challenge(request.params.id, agentId, reason);
+        return reply.status(201).send({
+          success: true,
+          data: formatProvisionalResolution(resolution),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        if (!(error instanceof ChallengeError)) throw error;
+        return reply.status(CHALLENGE_ERROR_STATUS[error.code]).send({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
     /**
      * GET /v1/markets/:id/trades
      * Get recent trades
@@ -457,6 +811,86 @@ export function createMarketRoutes(engine: MatchingEngine, oracle: OracleEngine,
       });
     });
   };
+
+  function attestationService(): AttestationService {
+    if (!attestations) {
+      throw new AttestationError('ROUND_NOT_FOUND', 'Attestation resolution is not enabled');
+    }
+    return attestations;
+  }
+}
+
+const ATTESTATION_ERROR_STATUS: Record<AttestationError['code'], number> = {
+  UNKNOWN_RESOLVER: 403,
+  RESOLVER_NOT_DESIGNATED: 403,
+  INVALID_SIGNATURE: 401,
+  INVALID_ATTESTATION: 400,
+  DUPLICATE_ATTESTATION: 409,
+  ROUND_NOT_FOUND: 404,
+  ROUND_CLOSED: 409,
+  INSUFFICIENT_BALANCE: 400,
+};
+
+const CHALLENGE_ERROR_STATUS: Record<ChallengeError['code'], number> = {
+  RESOLUTION_NOT_FOUND: 404,
+  CHALLENGE_WINDOW_CLOSED: 409,
+  INSUFFICIENT_BALANCE: 400,
+  NO_OPEN_CHALLENGE: 409,
+  INVALID_VERDICT: 400,
+};
+
+function unauthorized(reply: FastifyReply) {
+  return reply.status(401).send({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'Valid API key required',
+    },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function forbidden(reply: FastifyReply, message: string) {
+  return reply.status(403).send({
+    success: false,
+    error: {
+      code: 'FORBIDDEN',
+      message,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function attestationFailure(reply: FastifyReply, error: unknown) {
+  if (!(error instanceof AttestationError)) throw error;
+
+  return reply.status(ATTESTATION_ERROR_STATUS[error.code]).send({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Correlations are declared between binary or scalar markets that exist
+ */
+function validateCorrelations(correlations: MarketCorrelation[], type: MarketType): string | undefined {
+  if (correlations.length > 0 && type === MarketType.CATEGORICAL) {
+    return 'Categorical markets cannot declare correlations';
+  }
+  for (const correlation of correlations) {
+    const other = markets.get(correlation.market_id);
+    if (!other) {
+      return `Correlated market ${correlation.market_id} does not exist`;
+    }
+    if (marketTypeOf(other) === MarketType.CATEGORICAL) {
+      return `Correlated market ${correlation.market_id} is categorical`;
+    }
+  }
+  return undefined;
 }
 
 function safeISO(d: any): string {
@@ -473,11 +907,16 @@ function formatMarket(market: Market) {
     title: market.title,
     description: market.description ?? null,
     resolution_schema: market.resolution_schema,
+    market_type: marketTypeOf(market),
+    outcomes: market.market_type === MarketType.CATEGORICAL ? market.outcomes ?? [] : null,
+    scalar_range: market.scalar_range ?? null,
     opens_at: safeISO(market.opens_at),
     closes_at: safeISO(market.closes_at),
     resolves_at: safeISO(market.resolves_at),
     status: market.status,
     outcome: market.outcome ?? null,
+    resolution_value: market.resolution_value ?? null,
+    resolution_data: market.resolution_data ?? null,
     min_order_size: market.min_order_size ?? 1,
     max_position: market.max_position ?? 10000,
     fee_rate: market.fee_rate ?? 0.002,
@@ -488,6 +927,7 @@ function formatMarket(market: Market) {
     last_price_no: market.last_price_no ?? null,
     category: market.category ?? null,
     tags: market.tags ?? [],
+    correlations: market.correlations ?? [],
     created_at: safeISO(market.created_at),
     updated_at: safeISO((market as any).updated_at ?? market.created_at),
   };
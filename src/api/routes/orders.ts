@@ -4,13 +4,18 @@
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { PlaceOrderRequestSchema } from '../schemas/index.js';
-import { Order, OrderSide, OrderType, OutcomeToken, OrderStatus } from '../../types.js';
-import { MatchingEngine } from '../../engine/matcher/MatchingEngine.js';
+import { PlaceOrderRequestSchema, AmendOrderRequestSchema } from '../schemas/index.js';
+import { Order, OrderSide, OrderType, OrderStatus, TimeInForce } from '../../types.js';
+import { MatchingEngine, MarketNotTradingError } from '../../engine/matcher/MatchingEngine.js';
 import { markets } from './markets.js';
+import { marketOutcomes } from '../../markets/outcomes.js';
 import { seededMarkets } from '../../boot/PlatformSeeder.js';
 import { getLiveNewsMarkets } from './liveNews.js';
 import { getAgentManager } from '../../core/AgentManager.js';
+import { fromMicros, toMicros } from '../../engine/money/Money.js';
+import { formatDoctrineViolation, formatEscalation, formatOrder } from '../formatters.js';
+import { DoctrineViolationError, OrderEscalatedError } from '../../core/DoctrineEngine.js';
+import { extractAgentId } from './auth.js';
 
 // In-memory order store (production would use PostgreSQL)
 const orders: Map<string, Order> = new Map();
@@ -98,15 +103,30 @@ export function createOrderRoutes(engine: MatchingEngine) {
         });
       }
 
+      if (!marketOutcomes(market).includes(data.outcome)) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'INVALID_OUTCOME',
+            message: `outcome must be one of: ${marketOutcomes(market).join(', ')}`,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       try {
         // Process order through matching engine
         const { order, result } = await engine.processOrder(agentId, data.market_id, {
           market_id: data.market_id,
           side: data.side as OrderSide,
-          outcome: data.outcome as OutcomeToken,
+          outcome: data.outcome,
           order_type: data.order_type as OrderType,
-          price: data.price,
+          price: toMicros(data.price),
           quantity: data.quantity,
+          time_in_force: data.time_in_force as TimeInForce | undefined,
+          post_only: data.post_only,
+          stop_price: toMicros(data.stop_price),
+          expires_at: data.expires_at,
           client_order_id: data.client_order_id,
           metadata: data.metadata,
         });
@@ -129,7 +149,7 @@ export function createOrderRoutes(engine: MatchingEngine) {
             order: formatOrder(order),
             trades: result.trades.map(t => ({
               id: t.id,
-              price: t.price,
+              price: fromMicros(t.price),
               quantity: t.quantity,
               executed_at: t.executed_at.toISOString(),
             })),
@@ -139,6 +159,20 @@ export function createOrderRoutes(engine: MatchingEngine) {
           timestamp: new Date().toISOString(),
         });
       } catch (error) {
+        if (error instanceof MarketNotTradingError) {
+          return reply.status(409).send(marketNotTrading(error));
+        }
+        if (error instanceof DoctrineViolationError) {
+          return reply.status(error.code === 'RATE_LIMIT' ? 429 : 403).send(doctrineRejected(error));
+        }
+        if (error instanceof OrderEscalatedError) {
+          // Held for approval: see GET /v1/doctrine/escalations
+          return reply.status(202).send({
+            success: true,
+            data: { escalation: formatEscalation(error.escalation) },
+            timestamp: new Date().toISOString(),
+          });
+        }
         return reply.status(400).send({
           success: false,
           error: {
@@ -179,6 +213,128 @@ export function createOrderRoutes(engine: MatchingEngine) {
       });
     });
 
+    /**
+     * PATCH /v1/orders/:id
+     * Amend price and/or quantity of a resting order (cancel/replace)
+     */
+    fastify.patch('/orders/:id', async (
+      request: FastifyRequest<{ Params: { id: string } }>,
+      reply: FastifyReply
+    ) => {
+      const agentId = extractAgentId(request);
+      if (!agentId) {
+        return reply.status(401).send({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Valid API key required',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const parseResult = AmendOrderRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: parseResult.error.flatten(),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const order = orders.get(id);
+
+      if (!order) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: 'ORDER_NOT_FOUND',
+            message: `Order ${id} not found`,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (order.agent_id !== agentId) {
+        return reply.status(403).send({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Cannot amend another agent\'s order',
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (!['open', 'partial'].includes(order.status)) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'ORDER_NOT_AMENDABLE',
+            message: `Order ${id} cannot be amended (status: ${order.status})`,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      try {
+        const amended = await engine.amendOrder(id, agentId, {
+          price: toMicros(parseResult.data.price),
+          quantity: parseResult.data.quantity,
+        });
+        if (!amended) {
+          return reply.status(400).send({
+            success: false,
+            error: {
+              code: 'ORDER_NOT_AMENDABLE',
+              message: `Order ${id} is not resting on the book`,
+            },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        orders.set(id, amended.order);
+        for (const filledOrder of amended.result.updated_orders) {
+          orders.set(filledOrder.id, filledOrder);
+        }
+
+        return reply.send({
+          success: true,
+          data: {
+            order: formatOrder(amended.order),
+            trades: amended.result.trades.map(t => ({
+              id: t.id,
+              price: fromMicros(t.price),
+              quantity: t.quantity,
+              executed_at: t.executed_at.toISOString(),
+            })),
+            fills_count: amended.result.trades.length,
+          },
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        if (error instanceof MarketNotTradingError) {
+          return reply.status(409).send(marketNotTrading(error));
+        }
+        if (error instanceof DoctrineViolationError) {
+          return reply.status(error.code === 'RATE_LIMIT' ? 429 : 403).send(doctrineRejected(error));
+        }
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'AMEND_FAILED',
+            message: String(error),
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
     /**
      * DELETE /v1/orders/:id
      * Cancel an open order
@@ -224,7 +380,7 @@ export function createOrderRoutes(engine: MatchingEngine) {
         });
       }
 
-      if (!['open', 'partial'].includes(order.status)) {
+      if (!['open', 'partial', 'pending'].includes(order.status)) {
         return reply.status(400).send({
           success: false,
           error: {
@@ -246,7 +402,7 @@ export function createOrderRoutes(engine: MatchingEngine) {
           data: {
             order_id: id,
             status: 'cancelled',
-            released_amount: order.locked_amount,
+            released_amount: fromMicros(order.locked_amount),
           },
           timestamp: new Date().toISOString(),
         });
@@ -313,58 +469,27 @@ export function createOrderRoutes(engine: MatchingEngine) {
   };
 }
 
-function formatOrder(order: Order) {
+function marketNotTrading(error: MarketNotTradingError) {
   return {
-    id: order.id,
-    agent_id: order.agent_id,
-    market_id: order.market_id,
-    side: order.side,
-    outcome: order.outcome,
-    order_type: order.order_type,
-    price: order.price ?? null,
-    quantity: order.quantity,
-    filled_qty: order.filled_qty,
-    remaining_qty: order.remaining_qty,
-    locked_amount: order.locked_amount,
-    avg_fill_price: order.avg_fill_price ?? null,
-    status: order.status,
-    expires_at: order.expires_at?.toISOString() ?? null,
-    client_order_id: order.client_order_id ?? null,
-    created_at: order.created_at.toISOString(),
-    updated_at: order.updated_at.toISOString(),
-    filled_at: order.filled_at?.toISOString() ?? null,
+    success: false,
+    error: {
+      code: 'MARKET_NOT_TRADING',
+      message: error.message,
+    },
+    timestamp: new Date().toISOString(),
   };
 }
 
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'truthnet-dev-secret-change-in-production';
-
-function extractAgentId(request: FastifyRequest): string | null {
-  const agentIdHeader = request.headers['x-agent-id'];
-  if (agentIdHeader && typeof agentIdHeader === 'string') {
-    return agentIdHeader;
-  }
-
-  const authHeader = request.headers['authorization'];
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.slice(7);
-    try {
-      const payload = jwt.verify(token, JWT_SECRET) as { userId: string };
-      if (payload.userId) {
-        const agentManager = getAgentManager();
-        const agents = agentManager.getAllAgents();
-        const userAgent = agents.find((a: any) => a.id.includes(payload.userId) || a.name?.includes(payload.userId));
-        if (userAgent) return userAgent.id;
-        return payload.userId;
-      }
-    } catch {
-      // Token is not a JWT (could be an API key) — use as-is
-    }
-    return token;
-  }
-
-  return null;
+function doctrineRejected(error: DoctrineViolationError) {
+  return {
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+      violation: formatDoctrineViolation(error.violation),
+    },
+    timestamp: new Date().toISOString(),
+  };
 }
 
 export { orders, agentOrders };
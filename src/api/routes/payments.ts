@@ -16,6 +16,8 @@ import Stripe from 'stripe';
 import jwt from 'jsonwebtoken';
 import { EscrowLedger } from '../../engine/escrow/EscrowLedger.js';
 import { EventBus } from '../../events/EventBus.js';
+import { fromMicros, toMicros } from '../../engine/money/Money.js';
+import { formatBalance } from '../formatters.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'truthnet-dev-secret-change-in-production';
 
@@ -263,7 +265,7 @@ export function createPaymentRoutes(escrow: EscrowLedger, eventBus: EventBus) {
 
             if (userId && amount > 0) {
               try {
-                await escrow.depositFromStripe(userId, amount, sessionId);
+                await escrow.depositFromStripe(userId, toMicros(amount), sessionId);
                 processedSessions.add(sessionId);
 
                 if (!userDeposits.has(userId)) {
@@ -396,10 +398,10 @@ export function createPaymentRoutes(escrow: EscrowLedger, eventBus: EventBus) {
 
       // Check balance
       const balance = escrow.getBalance(userId);
-      if (!balance || balance.available < amount) {
+      if (!balance || balance.available < toMicros(amount)) {
         return reply.status(400).send({
           success: false,
-          error: { code: 'INSUFFICIENT_BALANCE', message: `Available: $${balance?.available || 0}` },
+          error: { code: 'INSUFFICIENT_BALANCE', message: `Available: $${fromMicros(balance?.available ?? 0)}` },
           timestamp: new Date().toISOString(),
         });
       }
@@ -415,7 +417,7 @@ export function createPaymentRoutes(escrow: EscrowLedger, eventBus: EventBus) {
 
       withdrawalRequests.set(id, withdrawal);
 
-      const lockResult = await escrow.lock(userId, amount, 'withdrawal', id);
+      const lockResult = await escrow.lock(userId, toMicros(amount), 'withdrawal', id);
       if (lockResult && !lockResult.success) {
         withdrawalRequests.delete(id);
         return reply.status(400).send({
@@ -483,7 +485,7 @@ export function createPaymentRoutes(escrow: EscrowLedger, eventBus: EventBus) {
 
       try {
         const sessionId = `internal-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-        await escrow.depositFromStripe(userId, amount, sessionId);
+        await escrow.depositFromStripe(userId, toMicros(amount), sessionId);
 
         if (!userDeposits.has(userId)) {
           userDeposits.set(userId, []);
@@ -508,11 +510,7 @@ export function createPaymentRoutes(escrow: EscrowLedger, eventBus: EventBus) {
           success: true,
           data: {
             deposited: amount,
-            balance: {
-              available: balance?.available ?? 0,
-              locked: balance?.locked ?? 0,
-              total: balance?.total ?? 0,
-            },
+            balance: formatBalance(balance),
           },
           timestamp: new Date().toISOString(),
         });
@@ -546,11 +544,7 @@ export function createPaymentRoutes(escrow: EscrowLedger, eventBus: EventBus) {
 
       return reply.send({
         success: true,
-        data: {
-          available: balance?.available ?? 0,
-          locked: balance?.locked ?? 0,
-          total: balance?.total ?? 0,
-        },
+        data: formatBalance(balance),
         timestamp: new Date().toISOString(),
       });
     });
@@ -597,7 +591,7 @@ export function createPaymentRoutes(escrow: EscrowLedger, eventBus: EventBus) {
       const effectiveAmount = Math.min(amount, DEMO_CREDIT_LIMIT - alreadyCredited);
 
       try {
-        await escrow.depositFromStripe(userId, effectiveAmount, `demo-${Date.now()}`);
+        await escrow.depositFromStripe(userId, toMicros(effectiveAmount), `demo-${Date.now()}`);
         demoCreditTotals.set(userId, alreadyCredited + effectiveAmount);
 
         return reply.send({
@@ -605,7 +599,7 @@ export function createPaymentRoutes(escrow: EscrowLedger, eventBus: EventBus) {
           data: {
             credited: effectiveAmount,
             remaining_demo_allowance: DEMO_CREDIT_LIMIT - (alreadyCredited + effectiveAmount),
-            balance: escrow.getBalance(userId),
+            balance: formatBalance(escrow.getBalance(userId)),
           },
           timestamp: new Date().toISOString(),
         });
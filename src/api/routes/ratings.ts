@@ -124,7 +124,8 @@ export function createRatingRoutes(ratingEngine: RatingEngine, eventBus: EventBu
         });
       }
 
-      const history = rating.score_history.slice(-days);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const history = rating.score_history.filter(point => point.date >= since);
       const snapshots = ratingEngine.getSnapshots(agentId);
 
       return reply.send({
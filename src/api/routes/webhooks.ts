@@ -8,6 +8,7 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { EventBus } from '../../events/EventBus.js';
 import { v4 as uuidv4 } from 'uuid';
+import { formatSettlementEvent, formatUnwindEvent, formatChallengeEvent } from '../formatters.js';
 
 // ============================================================================
 // TYPES
@@ -124,14 +125,29 @@ export function createWebhookRoutes(eventBus: EventBus) {
     'ratings.certified',
     'ratings.updated',
     'settlements.completed',
+    'settlements.unwound',
     'markets.resolved',
+    'markets.status_changed',
+    'markets.resolution_proposed',
+    'markets.resolution_disputed',
+    'markets.resolution_provisional',
+    'markets.resolution_challenged',
+    'markets.resolution_escalated',
   ];
 
+  // Payloads carrying engine micros are converted to decimals
+  const formatters: Record<string, (data: any) => any> = {
+    'settlements.completed': formatSettlementEvent,
+    'settlements.unwound': formatUnwindEvent,
+    'markets.resolution_challenged': formatChallengeEvent,
+  };
+
   for (const eventName of WEBHOOK_EVENTS) {
     eventBus.subscribe(eventName, (data: any) => {
+      const payload = formatters[eventName]?.(data) ?? data;
       for (const webhook of webhooks.values()) {
         if (webhook.active && webhook.events.includes(eventName)) {
-          deliverWebhook(webhook, eventName, data).catch(console.error);
+          deliverWebhook(webhook, eventName, payload).catch(console.error);
         }
       }
     });
@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { ResolutionCondition } from '../../types.js';
 
 // ============================================================================
 // BASE SCHEMAS
@@ -17,6 +18,9 @@ export const PriceSchema = z.number().min(0.01).max(0.99);
 
 export const QuantitySchema = z.number().positive();
 
+/** Order quantities are whole shares (the engine works in integer micros) */
+export const ShareQuantitySchema = z.number().int().positive();
+
 // ============================================================================
 // AGENT SCHEMAS
 // ============================================================================
@@ -58,38 +62,157 @@ export const WalletResponseSchema = z.object({
 // MARKET SCHEMAS
 // ============================================================================
 
-export const ResolutionConditionSchema = z.object({
-  operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists']),
-  value: z.union([z.string(), z.number(), z.boolean()]),
-});
+/** Literal, { path } into the response, or { expr } arithmetic over paths and numbers */
+const ConditionValueSchema = z.union([
+  z.string().max(1000),
+  z.number(),
+  z.boolean(),
+  z.object({ path: z.string().startsWith('$').max(500) }).strict(),
+  z.object({ expr: z.string().min(1).max(500) }).strict(),
+]);
+
+const ComparisonConditionSchema = z.object({
+  operator: z.enum([
+    'eq', 'neq', 'ieq', 'gt', 'gte', 'lt', 'lte', 'between', 'contains', 'matches', 'before', 'after', 'exists',
+  ]),
+  left: ConditionValueSchema.optional(),
+  value: z.union([ConditionValueSchema, z.tuple([ConditionValueSchema, ConditionValueSchema])]).optional(),
+  flags: z.string().regex(/^[imsu]*$/).optional(),
+}).strict();
 
-export const HttpJsonResolutionSchemaSchema = z.object({
+/** Operator semantics and deeper checks live in oracle/resolvers/conditions.ts */
+export const ResolutionConditionSchema: z.ZodType<ResolutionCondition> = z.lazy(() => z.union([
+  ComparisonConditionSchema,
+  z.object({ all: z.array(ResolutionConditionSchema).min(1).max(20) }).strict(),
+  z.object({ any: z.array(ResolutionConditionSchema).min(1).max(20) }).strict(),
+  z.object({ not: ResolutionConditionSchema }).strict(),
+]));
+
+const HttpJsonSourceSchema = z.object({
   type: z.literal('http_json'),
   source_url: z.string().url(),
   method: z.enum(['GET', 'POST']),
   headers: z.record(z.string()).optional(),
   body: z.record(z.unknown()).optional(),
   json_path: z.string().startsWith('$'),
-  condition: ResolutionConditionSchema,
+  condition: ResolutionConditionSchema.optional(),
+  retry_count: z.number().int().positive().max(10).optional(),
+  timeout_ms: z.number().int().positive().max(60000).optional(),
+});
+
+const GraphQLSourceSchema = z.object({
+  type: z.literal('graphql'),
+  endpoint: z.string().url(),
+  query: z.string().min(1).max(20000),
+  variables: z.record(z.unknown()).optional(),
+  headers: z.record(z.string()).optional(),
+  json_path: z.string().startsWith('$'),   // Evaluated against the response's `data`
+  condition: ResolutionConditionSchema.optional(),
   retry_count: z.number().int().positive().max(10).optional(),
   timeout_ms: z.number().int().positive().max(60000).optional(),
 });
 
+/** Consulted when a provisional resolution is challenged */
+const AlternateSourcesSchema = z.array(
+  z.discriminatedUnion('type', [HttpJsonSourceSchema, GraphQLSourceSchema])
+).max(5);
+
+const ChallengeWindowSchema = z.number().int().min(0).max(30 * 24 * 60 * 60 * 1000);
+
+export const HttpJsonResolutionSchemaSchema = HttpJsonSourceSchema.extend({
+  alternate_sources: AlternateSourcesSchema.optional(),
+  challenge_window_ms: ChallengeWindowSchema.optional(),
+});
+
+export const GraphQLResolutionSchemaSchema = GraphQLSourceSchema.extend({
+  alternate_sources: AlternateSourcesSchema.optional(),
+  challenge_window_ms: ChallengeWindowSchema.optional(),
+});
+
 export const BinaryResolutionSchemaSchema = z.object({
   type: z.literal('binary'),
   description: z.string().max(2000).optional(),
+  resolvers: z.array(z.string().min(1).max(100)).min(1).max(50).optional(),
+  quorum: z.number().int().positive().optional(),
+  dispute_window_ms: ChallengeWindowSchema.optional(),
+});
+
+/** A multi_source vote: weight before reliability scaling, identity for reliability tracking */
+const SourceWeightFields = {
+  weight: z.number().positive().optional(),
+  source_id: z.string().min(1).max(200).optional(),
+};
+
+export const MultiSourceResolutionSchemaSchema = z.object({
+  type: z.literal('multi_source'),
+  sources: z.array(z.discriminatedUnion('type', [
+    HttpJsonSourceSchema.extend(SourceWeightFields),
+    GraphQLSourceSchema.extend(SourceWeightFields),
+  ])).min(2).max(10),
+  min_agreement: z.number().int().positive().optional(),
+  min_sources: z.number().int().positive().optional(),
+  max_disagreement: z.number().min(0).max(0.5).optional(),
+  challenge_window_ms: ChallengeWindowSchema.optional(),
+});
+
+export const GitHubResolutionSchemaSchema = z.object({
+  type: z.literal('github'),
+  repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/),
+  metric: z.enum(['stars', 'forks', 'open_issues', 'watchers']),
+  condition: ResolutionConditionSchema.optional(),
+  challenge_window_ms: ChallengeWindowSchema.optional(),
+});
+
+export const WeatherResolutionSchemaSchema = z.object({
+  type: z.literal('weather'),
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  metric: z.enum(['temp', 'wind', 'precip']),
+  condition: ResolutionConditionSchema.optional(),
+  challenge_window_ms: ChallengeWindowSchema.optional(),
+});
+
+export const ManualResolutionSchemaSchema = z.object({
+  type: z.literal('manual'),
+  description: z.string().max(2000).optional(),
 });
 
 export const ResolutionSchemaSchema = z.discriminatedUnion('type', [
   HttpJsonResolutionSchemaSchema,
+  GraphQLResolutionSchemaSchema,
+  MultiSourceResolutionSchemaSchema,
+  GitHubResolutionSchemaSchema,
+  WeatherResolutionSchemaSchema,
+  ManualResolutionSchemaSchema,
   BinaryResolutionSchemaSchema,
 ]);
 
+/** Outcome ids of a categorical market; deeper checks live in markets/outcomes.ts */
+export const OutcomeIdSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/);
+
+/** An order book's outcome: yes / no, or a categorical outcome id */
+export const OutcomeSchema = z.string().min(1).max(64).transform(o => o.toLowerCase());
+
+export const ScalarRangeSchema = z.object({
+  lower: z.number().finite(),
+  upper: z.number().finite(),
+  unit: z.string().max(20).optional(),
+}).refine(range => range.lower < range.upper, { message: 'lower must be below upper' });
+
+/** This market's YES side against another binary or scalar market's */
+export const MarketCorrelationSchema = z.object({
+  market_id: z.string().min(1).max(255),
+  relation: z.enum(['same', 'opposite', 'implies', 'excludes']),
+});
+
 export const CreateMarketRequestSchema = z.object({
   ticker: z.string().min(1).max(50).regex(/^[A-Z0-9-]+$/),
   title: z.string().min(1).max(500),
   description: z.string().max(5000).optional(),
   resolution_schema: ResolutionSchemaSchema,
+  market_type: z.enum(['binary', 'categorical', 'scalar']).optional(),
+  outcomes: z.array(OutcomeIdSchema).min(2).max(20).optional(),
+  scalar_range: ScalarRangeSchema.optional(),
   opens_at: TimestampSchema,
   closes_at: TimestampSchema,
   resolves_at: TimestampSchema,
@@ -98,6 +221,7 @@ export const CreateMarketRequestSchema = z.object({
   fee_rate: z.number().min(0).max(0.1).optional(),
   category: z.string().max(100).optional(),
   tags: z.array(z.string().max(50)).max(20).optional(),
+  correlations: z.array(MarketCorrelationSchema).max(20).optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
@@ -110,8 +234,12 @@ export const MarketResponseSchema = z.object({
   opens_at: TimestampSchema,
   closes_at: TimestampSchema,
   resolves_at: TimestampSchema,
+  market_type: z.enum(['binary', 'categorical', 'scalar']),
+  outcomes: z.array(z.string()).nullable(),
+  scalar_range: z.object({ lower: z.number(), upper: z.number(), unit: z.string().optional() }).nullable(),
   status: z.enum(['pending', 'active', 'halted', 'resolving', 'settled', 'cancelled']),
-  outcome: z.enum(['yes', 'no']).nullable(),
+  outcome: z.string().nullable(),
+  resolution_value: z.number().nullable(),
   min_order_size: z.number(),
   max_position: z.number(),
   fee_rate: z.number(),
@@ -122,27 +250,116 @@ export const MarketResponseSchema = z.object({
   last_price_no: z.number().nullable(),
   category: z.string().nullable(),
   tags: z.array(z.string()),
+  correlations: z.array(MarketCorrelationSchema),
   created_at: TimestampSchema,
   updated_at: TimestampSchema,
 });
 
+export const MarketTransitionRequestSchema = z.object({
+  status: z.enum(['active', 'halted', 'resolving', 'settled', 'cancelled']),
+  reason: z.string().max(500).optional(),
+});
+
+export const InsuranceFundingRequestSchema = z.object({
+  amount: z.number().positive().max(1_000_000_000),
+  description: z.string().max(500).optional(),
+});
+
+/** Approves or vetoes an escalated order; the deciding admin comes from the session */
+export const EscalationDecisionRequestSchema = z.object({
+  reason: z.string().min(1).max(2000),
+});
+
+/** attested_at must be the exact string that was signed */
+export const AttestationRequestSchema = z.object({
+  resolver_id: z.string().min(1).max(100),
+  outcome: z.enum(['yes', 'no']),
+  attested_at: TimestampSchema,
+  signature: z.string().min(1).max(200),
+  evidence_url: z.string().url().optional(),
+});
+
+// The disputer is the authenticated agent; disputer_id, if sent, must match it
+export const DisputeRequestSchema = z.object({
+  disputer_id: z.string().min(1).max(100).optional(),
+  reason: z.string().min(1).max(2000),
+});
+
+/** Decides a disputed attestation round or a challenged resolution */
+export const AdjudicationRequestSchema = z.object({
+  outcome: z.enum(['yes', 'no']),
+  reason: z.string().min(1).max(2000),
+});
+
+/** An outcome of the market, or the value of a scalar market */
+export const VerdictRequestSchema = z.object({
+  outcome: z.string().min(1).max(64).optional(),
+  value: z.number().finite().optional(),
+  reason: z.string().min(1).max(2000),
+}).refine(data => data.outcome !== undefined || data.value !== undefined, {
+  message: 'outcome or value is required',
+});
+
+/** Body (or bodies by URL) served instead of fetching; GraphQL fixtures are whole responses */
+export const ResolutionDryRunRequestSchema = z.object({
+  resolution_schema: ResolutionSchemaSchema,
+  fixture: z.unknown().optional(),
+  fixtures: z.record(z.unknown()).optional(),
+});
+
+/** The challenger is the authenticated agent; agent_id, if sent, must match it */
+export const ChallengeRequestSchema = z.object({
+  agent_id: z.string().min(1).max(100).optional(),
+  reason: z.string().min(1).max(2000),
+});
+
+export const RegisterResolverRequestSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().max(255).optional(),
+  public_key: z.string().min(1).max(1000),   // Ed25519 SPKI PEM
+});
+
 // ============================================================================
 // ORDER SCHEMAS
 // ============================================================================
 
+export const OrderTypeSchema = z.enum(['limit', 'market', 'stop', 'stop_limit']);
+
+export const TimeInForceSchema = z.enum(['gtc', 'ioc', 'fok', 'gtd']);
+
 export const PlaceOrderRequestSchema = z.object({
   market_id: UUIDSchema,
   side: z.enum(['buy', 'sell']),
-  outcome: z.enum(['yes', 'no']),
-  order_type: z.enum(['limit', 'market']),
+  outcome: OutcomeSchema,
+  order_type: OrderTypeSchema,
   price: PriceSchema.optional(),
-  quantity: QuantitySchema,
+  quantity: ShareQuantitySchema,
+  time_in_force: TimeInForceSchema.optional(),
+  post_only: z.boolean().optional(),
+  stop_price: PriceSchema.optional(),
   expires_at: TimestampSchema.optional(),
   client_order_id: z.string().max(100).optional(),
   metadata: z.record(z.unknown()).optional(),
 }).refine(
-  data => data.order_type === 'market' || data.price !== undefined,
+  data => !['limit', 'stop_limit'].includes(data.order_type) || data.price !== undefined,
   { message: 'Limit orders require a price' }
+).refine(
+  data => !['stop', 'stop_limit'].includes(data.order_type) || data.stop_price !== undefined,
+  { message: 'Stop orders require a stop_price' }
+).refine(
+  data => data.time_in_force !== 'gtd' || data.expires_at !== undefined,
+  { message: 'GTD orders require expires_at' }
+).refine(
+  data => !data.post_only || data.order_type === 'limit',
+  { message: 'post_only is only supported for limit orders' }
+);
+
+export const AmendOrderRequestSchema = z.object({
+  price: PriceSchema.optional(),
+  quantity: ShareQuantitySchema.optional(),
+}).refine(
+  data => data.price !== undefined || data.quantity !== undefined,
+  { message: 'Amendment requires a price or quantity' }
 );
 
 export const OrderResponseSchema = z.object({
@@ -150,8 +367,8 @@ export const OrderResponseSchema = z.object({
   agent_id: UUIDSchema,
   market_id: UUIDSchema,
   side: z.enum(['buy', 'sell']),
-  outcome: z.enum(['yes', 'no']),
-  order_type: z.enum(['limit', 'market']),
+  outcome: z.string(),
+  order_type: OrderTypeSchema,
   price: z.number().nullable(),
   quantity: z.number(),
   filled_qty: z.number(),
@@ -159,6 +376,10 @@ export const OrderResponseSchema = z.object({
   locked_amount: z.number(),
   avg_fill_price: z.number().nullable(),
   status: z.enum(['pending', 'open', 'partial', 'filled', 'cancelled', 'expired', 'rejected']),
+  time_in_force: TimeInForceSchema,
+  post_only: z.boolean(),
+  stop_price: z.number().nullable(),
+  triggered_at: TimestampSchema.nullable(),
   expires_at: TimestampSchema.nullable(),
   client_order_id: z.string().nullable(),
   created_at: TimestampSchema,
@@ -178,7 +399,7 @@ export const OrderBookLevelSchema = z.object({
 
 export const OrderBookSnapshotSchema = z.object({
   market_id: UUIDSchema,
-  outcome: z.enum(['yes', 'no']),
+  outcome: z.string(),
   bids: z.array(OrderBookLevelSchema),
   asks: z.array(OrderBookLevelSchema),
   best_bid: z.number().nullable(),
@@ -196,7 +417,7 @@ export const TradeResponseSchema = z.object({
   market_id: UUIDSchema,
   buyer_id: UUIDSchema,
   seller_id: UUIDSchema,
-  outcome: z.enum(['yes', 'no']),
+  outcome: z.string(),
   price: z.number(),
   quantity: z.number(),
   buyer_fee: z.number(),
@@ -234,7 +455,17 @@ export type AgentResponse = z.infer<typeof AgentResponseSchema>;
 export type WalletResponse = z.infer<typeof WalletResponseSchema>;
 export type CreateMarketRequest = z.infer<typeof CreateMarketRequestSchema>;
 export type MarketResponse = z.infer<typeof MarketResponseSchema>;
+export type MarketTransitionRequest = z.infer<typeof MarketTransitionRequestSchema>;
+export type InsuranceFundingRequest = z.infer<typeof InsuranceFundingRequestSchema>;
+export type AttestationRequest = z.infer<typeof AttestationRequestSchema>;
+export type DisputeRequest = z.infer<typeof DisputeRequestSchema>;
+export type AdjudicationRequest = z.infer<typeof AdjudicationRequestSchema>;
+export type VerdictRequest = z.infer<typeof VerdictRequestSchema>;
+export type ChallengeRequest = z.infer<typeof ChallengeRequestSchema>;
+export type ResolutionDryRunRequest = z.infer<typeof ResolutionDryRunRequestSchema>;
+export type RegisterResolverRequest = z.infer<typeof RegisterResolverRequestSchema>;
 export type PlaceOrderRequest = z.infer<typeof PlaceOrderRequestSchema>;
+export type AmendOrderRequest = z.infer<typeof AmendOrderRequestSchema>;
 export type OrderResponse = z.infer<typeof OrderResponseSchema>;
 export type OrderBookSnapshot = z.infer<typeof OrderBookSnapshotSchema>;
 export type TradeResponse = z.infer<typeof TradeResponseSchema>;
@@ -12,6 +12,7 @@
 import { WebSocketServer as WSServer, WebSocket } from 'ws';
 import { IncomingMessage, Server as HttpServer } from 'http';
 import { EventBus } from '../../events/EventBus.js';
+import { formatOrder, formatTrade, formatUnwindEvent, formatChallengeEvent } from '../formatters.js';
 import { 
   BinaryProtocolEncoder, 
   BinaryProtocolDecoder, 
@@ -279,18 +280,21 @@ export class TruthNetWebSocket {
    * Subscribe to EventBus events and broadcast
    */
   private subscribeToEvents(): void {
-    // Trade events
-    this.eventBus.subscribe('trades.executed', (data) => {
-      this.broadcast('trades', 'executed', data);
+    // Trade events (engine micros are converted to decimals for clients)
+    this.eventBus.subscribe('trades.executed', (data: any) => {
+      this.broadcast('trades', 'executed', { trade: formatTrade(data.trade) });
     });
 
     // Order events
-    this.eventBus.subscribe('orders.created', (data) => {
-      this.broadcast('orders', 'created', data);
+    this.eventBus.subscribe('orders.created', (data: any) => {
+      this.broadcast('orders', 'created', {
+        order: formatOrder(data.order),
+        trades: (data.trades ?? []).map(formatTrade),
+      });
     });
 
-    this.eventBus.subscribe('orders.cancelled', (data) => {
-      this.broadcast('orders', 'cancelled', data);
+    this.eventBus.subscribe('orders.cancelled', (data: any) => {
+      this.broadcast('orders', 'cancelled', { ...data, order: formatOrder(data.order) });
     });
 
     // Market events
@@ -302,6 +306,34 @@ export class TruthNetWebSocket {
       this.broadcast('markets', 'resolved', data);
     });
 
+    this.eventBus.subscribe('markets.status_changed', (data) => {
+      this.broadcast('markets', 'status_changed', data);
+    });
+
+    this.eventBus.subscribe('markets.resolution_proposed', (data) => {
+      this.broadcast('markets', 'resolution_proposed', data);
+    });
+
+    this.eventBus.subscribe('markets.resolution_disputed', (data) => {
+      this.broadcast('markets', 'resolution_disputed', data);
+    });
+
+    this.eventBus.subscribe('markets.resolution_provisional', (data) => {
+      this.broadcast('markets', 'resolution_provisional', data);
+    });
+
+    this.eventBus.subscribe('markets.resolution_challenged', (data) => {
+      this.broadcast('markets', 'resolution_challenged', formatChallengeEvent(data));
+    });
+
+    this.eventBus.subscribe('markets.resolution_escalated', (data) => {
+      this.broadcast('markets', 'resolution_escalated', data);
+    });
+
+    this.eventBus.subscribe('settlements.unwound', (data) => {
+      this.broadcast('markets', 'unwound', formatUnwindEvent(data));
+    });
+
     // Agent events
     this.eventBus.subscribe('agents.reputation_updated', (data) => {
       this.broadcast('agents', 'reputation_updated', data);
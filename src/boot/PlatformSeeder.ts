@@ -22,6 +22,11 @@ import { SettlementService } from '../settlement/SettlementService.js';
 import { AgentTradingLoop, TradingAgent, AgentStrategy } from '../agents/AgentTradingLoop.js';
 import { getRatingEngine } from '../rating/RatingEngine.js';
 import { LLMProvider } from '../agents/LLMPricingEngine.js';
+import { EngineJournal } from '../engine/journal/EngineJournal.js';
+import { MarketRegistry } from '../markets/MarketRegistry.js';
+import { PositionKeeper } from '../settlement/PositionKeeper.js';
+import { complementPrice, fromMicros, notional, toMicros } from '../engine/money/Money.js';
+import { MarketResolvedEvent, OutcomeToken } from '../types.js';
 
 // ============================================================================
 // SEED AGENTS — Real LLM-backed agents with differentiated personalities
@@ -312,6 +317,7 @@ let regenPool = [...REGENERATION_MARKETS];
 let regenMatchingEngine: MatchingEngine | null = null;
 let regenEventBus: EventBus | null = null;
 let regenTradingLoop: AgentTradingLoop | null = null;
+let regenRegistry: MarketRegistry | null = null;
 
 function shuffleArray<T>(arr: T[]): T[] {
   for (let i = arr.length - 1; i > 0; i--) {
@@ -351,6 +357,9 @@ function spawnRegenerationMarket(category: string): void {
   const now = Date.now();
   const closesAt = new Date(now + newMarket.resolvesInMinutes * 60 * 1000);
   const resolvesAt = new Date(closesAt.getTime() + 30000);
+  regenRegistry?.register(newMarket.id, { opens_at: new Date(now), closes_at: closesAt }).catch(err => {
+    console.error(`[Seeder] Failed to register market ${newMarket.id}: ${err.message}`);
+  });
 
   seededMarkets.set(newMarket.id, {
     id: newMarket.id,
@@ -455,13 +464,24 @@ export async function seedPlatform(
   matchingEngine: MatchingEngine,
   escrow: EscrowLedger,
   eventBus: EventBus,
+  journal?: EngineJournal,
+  registry?: MarketRegistry,
+  positions?: PositionKeeper,
 ): Promise<{ settlement: SettlementService; tradingLoop: AgentTradingLoop }> {
   console.log('\n[Seeder] ═══════════════════════════════════════════════');
   console.log('[Seeder] Initializing TRUTH-NET with LLM-backed agents...');
 
-  const settlement = new SettlementService(escrow, eventBus);
+  const settlement = new SettlementService(escrow, eventBus, positions);
   console.log('[Seeder] Settlement Service online');
 
+  // Rebuild books, wallets and settlements from the journal before seeding
+  if (journal) {
+    settlement.attachJournal(journal);
+    const recovery = await journal.recover();
+    console.log(`[Seeder] Journal recovered: snapshot #${recovery.snapshot_seq}, ${recovery.replayed} commands replayed (state ${recovery.state_hash.slice(0, 12)})`);
+    journal.startSnapshots();
+  }
+
   const ratingEngine = getRatingEngine(eventBus);
 
   // Detect which LLM providers are available
@@ -487,7 +507,12 @@ export async function seedPlatform(
 
   for (const agent of agents) {
     if (!escrow.getWallet(agent.id)) {
-      escrow.createWallet(agent.id, 10000);
+      escrow.createWallet(agent.id, toMicros(10000));
+    }
+    // Liquidity providers earn the maker rebate
+    const fees = matchingEngine.getFeeSchedule();
+    if (agent.strategy === 'market_maker' && !fees.isMarketMaker(agent.id)) {
+      await fees.setMarketMaker(agent.id, true);
     }
     ratingEngine.initializeRating(agent.id);
   }
@@ -500,6 +525,7 @@ export async function seedPlatform(
 
     const closesAt = new Date(now + market.resolvesInMinutes * 60 * 1000);
     const resolvesAt = new Date(closesAt.getTime() + 30000);
+    await registry?.register(market.id, { opens_at: new Date(now), closes_at: closesAt });
 
     seededMarkets.set(market.id, {
       id: market.id,
@@ -552,6 +578,7 @@ export async function seedPlatform(
   regenMatchingEngine = matchingEngine;
   regenEventBus = eventBus;
   regenTradingLoop = tradingLoop;
+  regenRegistry = registry ?? null;
   shuffleArray(regenPool);
 
   // Track volume from trades
@@ -559,15 +586,18 @@ export async function seedPlatform(
     const trade = data.trade || data;
     const market = seededMarkets.get(trade.market_id);
     if (market) {
-      const value = trade.price * trade.quantity;
+      // Seeded market stats are kept in decimals for the API
+      const value = fromMicros(notional(trade.price, trade.quantity));
+      const price = fromMicros(trade.price);
+      const complement = fromMicros(complementPrice(trade.price));
       if (trade.outcome === 'yes' || trade.outcome === 'YES') {
         market.volume_yes += value;
-        market.last_price_yes = trade.price;
-        market.last_price_no = 1 - trade.price;
+        market.last_price_yes = price;
+        market.last_price_no = complement;
       } else {
         market.volume_no += value;
-        market.last_price_no = trade.price;
-        market.last_price_yes = 1 - trade.price;
+        market.last_price_no = price;
+        market.last_price_yes = complement;
       }
     }
   });
@@ -623,14 +653,15 @@ function resolveMarket(market: SeedMarket, eventBus: EventBus) {
 
   console.log(`[Seeder] Resolving market "${market.title}" -> ${outcome.toUpperCase()}`);
 
-  eventBus.publish('markets.resolved', {
+  const event: MarketResolvedEvent = {
     market_id: market.id,
-    ticker: market.ticker,
-    title: market.title,
-    outcome,
-    winning_outcome: outcome,
+    outcome: outcome as OutcomeToken,
+    source: 'seeder',
+    confidence: 1,
+    resolution_data: { ticker: market.ticker, title: market.title },
     resolved_at: new Date().toISOString(),
-  });
+  };
+  eventBus.publish('markets.resolved', event);
 
   // Remove resolved market from trading loop's active set
   if (regenTradingLoop) {
@@ -1,94 +1,195 @@
 /**
  * TRUTH-NET Margin Engine & CCP Novation
- * 
+ *
  * Central Counterparty Clearinghouse Implementation:
  * - CCP Novation: Every trade bifurcated (Agent A <-> TRUTH-NET <-> Agent B)
- * - Initial Margin: 20%
- * - Maintenance Margin: 10%
- * - Auto-Liquidation when equity < 10%
+ * - Initial Margin: 20% of the portfolio's worst-case loss
+ * - Maintenance Margin: 10% of it
+ * - Margin call below maintenance, auto-liquidation when equity < 5%
+ *
+ * In margin trading mode (MARGIN_TRADING=true) the matching engine clears
+ * every trade through this engine: orders lock only the initial margin
+ * their leg adds to the agent's portfolio, and at execution the CCP
+ * finances the rest of each leg from a margin loan (EscrowLedger.financeTradeLeg), so trade escrow still holds
+ * the 1.00 per share settlement pays out. Loans are repaid when the market
+ * settles.
+ *
+ * Margin accounts are views, never a separate book: cash and loans come
+ * from the EscrowLedger, positions are the PositionKeeper positions that
+ * settlement pays out on, marked at the last trade price fed in from
+ * trades.executed.
+ *
+ * Margin is set from the worst-case loss over the ways the agent's markets
+ * can resolve (clearinghouse/PortfolioRisk.ts), not per position: markets
+ * grouped by declared correlations or shared tags offset each other in
+ * the scenarios their declarations allow.
+ *
+ * Liquidation closes an account out through the order book, in order:
+ * 1. Cancel the agent's open orders, releasing their locked margin
+ * 2. Reducing IOC orders for every open position, no worse than the
+ *    slippage limit below the mark (the CCP finances them in full)
+ * 3. The insurance fund absorbs the deficit left at the marks
+ * 4. Auto-deleveraging, the last resort: shares the book did not absorb
+ *    are closed against the most profitable holders of the opposite
+ *    outcome, at the price that leaves them any deficit the fund could
+ *    not cover
+ * Every step is recorded on the LiquidationEvent. With a journal attached
+ * a liquidation is one journaled command, so replay re-runs it step by step.
+ *
+ * Balances, prices and margin are integer micros (engine/money/Money.ts).
  */
 
 import { EventBus } from '../events/EventBus.js';
-import { v4 as uuidv4 } from 'uuid';
+import { EscrowLedger } from '../engine/escrow/EscrowLedger.js';
+import { engineClock } from '../engine/journal/EngineClock.js';
+import { EngineJournal, reviveDates } from '../engine/journal/EngineJournal.js';
+import type { ClearingLeg, MatchingEngine, TradeClearing } from '../engine/matcher/MatchingEngine.js';
+import { oppositeOutcome } from '../markets/outcomes.js';
+import { PositionKeeper } from '../settlement/PositionKeeper.js';
+import { MarketLookup, PortfolioRisk, RiskPosition, assessPortfolio } from './PortfolioRisk.js';
+import { Order, OrderSide, OrderType, Outcome, Position, TimeInForce, Trade } from '../types.js';
+import {
+  Micros,
+  ONE_SHARE,
+  applyBps,
+  complementPrice,
+  divRound,
+  notional,
+} from '../engine/money/Money.js';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+export type MarginStatus = 'healthy' | 'warning' | 'margin_call' | 'liquidating';
+
 export interface MarginAccount {
   agent_id: string;
-  
+
   // Balances
-  cash_balance: number;
-  margin_used: number;
-  margin_available: number;
-  
+  cash_balance: Micros;       // Wallet total (available + locked)
+  margin_used: Micros;        // Initial margin on the worst-case loss
+  margin_available: Micros;   // Wallet available, free to post as margin
+  margin_loans: Micros;       // Owed to the CCP for financed trade legs
+
   // Positions
-  positions: Position[];
-  
+  positions: MarginPosition[];
+
   // Margin metrics
-  equity: number;
-  margin_ratio: number;
-  maintenance_margin: number;
-  
+  exposure: Micros;           // Open shares at their marks
+  worst_case_loss: Micros;    // Over the outcome scenarios of the open positions
+  equity: Micros;             // Cash + positions at their marks - loans
+  margin_ratio: number;       // Equity / worst-case loss
+  maintenance_margin: Micros;
+
   // Status
-  status: 'healthy' | 'warning' | 'margin_call' | 'liquidating';
+  status: MarginStatus;
   last_updated: Date;
 }
 
-export interface Position {
-  id: string;
-  market_id: string;
-  ticker: string;
-  side: 'yes' | 'no';
-  size: number;
-  entry_price: number;
-  current_price: number;
-  unrealized_pnl: number;
-  realized_pnl: number;
-  margin_requirement: number;
-  opened_at: Date;
+/**
+ * A live position (settlement/PositionKeeper) marked to market
+ */
+export interface MarginPosition extends Position {
+  mark_price: Micros;          // Last trade price, or the average entry until the outcome trades
+  market_value: Micros;        // Shares at the mark plus redeemable sets
+  unrealized_pnl: Micros;
+  margin_requirement: Micros;  // Initial margin on the shares alone, before portfolio offsets
+}
+
+/**
+ * An account's margin with the scenario breakdown it is set from
+ */
+export interface MarginRiskReport extends PortfolioRisk {
+  agent_id: string;
+  equity: Micros;
+  initial_margin: Micros;
+  maintenance_margin: Micros;
+  margin_ratio: number;
+  status: MarginStatus;
 }
 
 export interface NovatedTrade {
   id: string;
   original_trade_id: string;
-  
+
   // Leg A: Agent -> CCP
-  leg_a: {
-    counterparty: string; // Agent ID
-    direction: 'buy' | 'sell';
-    price: number;
-    size: number;
-  };
-  
+  leg_a: NovatedLeg;
+
   // Leg B: CCP -> Agent
-  leg_b: {
-    counterparty: string; // Agent ID
-    direction: 'buy' | 'sell';
-    price: number;
-    size: number;
-  };
-  
+  leg_b: NovatedLeg;
+
   // CCP is in the middle
   ccp_id: 'TRUTH-NET-CCP';
-  
+
   market_id: string;
-  outcome: 'yes' | 'no';
+  outcome: Outcome;
   executed_at: Date;
   status: 'pending' | 'cleared' | 'settled' | 'defaulted';
 }
 
+export interface ClearinghouseSummary {
+  total_accounts: number;
+  total_equity: Micros;
+  total_margin_used: Micros;
+  total_margin_loans: Micros;
+  accounts_by_status: Record<MarginStatus, number>;
+  open_novations: number;
+  insurance_fund: Micros;
+  liquidations: number;
+}
+
+export interface NovatedLeg {
+  counterparty: string; // Agent ID
+  direction: 'buy' | 'sell';
+  price: Micros;
+  size: number;
+  financed: Micros;     // Collateral the CCP financed for this leg
+}
+
 export interface LiquidationEvent {
   id: string;
   agent_id: string;
-  positions_liquidated: string[];
-  total_value: number;
-  loss_absorbed: number;
   trigger_reason: 'margin_call' | 'maintenance_breach' | 'manual';
+  status: 'completed' | 'partial';  // partial: shares left open or a deficit left uncovered
+  positions_liquidated: string[];
+  equity_before: Micros;
+  equity_after: Micros;
+  total_value: Micros;      // What the closed shares fetched (book and ADL)
+  loss_absorbed: Micros;    // Deficit covered by the insurance fund
+  deleveraged: Micros;      // Deficit shifted onto ADL counterparties
+  uncovered: Micros;        // Deficit still owed to the CCP
+  steps: LiquidationStep[];
+  started_at: Date;
   executed_at: Date;
 }
 
+export interface LiquidationStep {
+  kind: 'cancel_orders' | 'reducing_order' | 'insurance' | 'auto_deleverage';
+  at: Date;
+  market_id?: string;
+  position_id?: string;
+  outcome?: Outcome;           // Of the position being reduced
+  order_ids?: string[];
+  counterparty_id?: string;    // ADL counterparty
+  quantity?: number;           // Shares the orders offered
+  filled?: number;             // Shares closed
+  limit_price?: Micros;        // Worst price accepted, in the position's outcome
+  avg_price?: Micros;
+  amount?: Micros;             // Margin released, or deficit covered
+  error?: string;
+}
+
+export class LiquidationError extends Error {
+  constructor(
+    public readonly code: 'MARGIN_TRADING_DISABLED' | 'NOTHING_TO_LIQUIDATE' | 'LIQUIDATION_IN_PROGRESS',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'LiquidationError';
+  }
+}
+
 // ============================================================================
 // MARGIN CONSTANTS
 // ============================================================================
@@ -96,377 +197,767 @@ export interface LiquidationEvent {
 export const MARGIN_CONSTANTS = {
   INITIAL_MARGIN_RATE: 0.20,      // 20% initial margin
   MAINTENANCE_MARGIN_RATE: 0.10,  // 10% maintenance margin
-  LIQUIDATION_THRESHOLD: 0.10,    // Liquidate when equity < 10%
+  INITIAL_MARGIN_BPS: 2_000,      // Same rates in bps, for amounts in micros
+  MAINTENANCE_MARGIN_BPS: 1_000,
+  LIQUIDATION_THRESHOLD: 0.05,    // Liquidate when equity < 5% (margin call below maintenance)
   WARNING_THRESHOLD: 0.15,        // Warning when equity < 15%
   MAX_LEVERAGE: 5,                // 5x max leverage
+  LIQUIDATION_SLIPPAGE_BPS: 1_000, // Reducing orders fill no worse than 10% off the mark
+  LIQUIDATION_RETRY_MS: 60_000,   // Retry a partial liquidation at most once a minute
 } as const;
 
+/** Events published when an account moves into a status */
+const STATUS_EVENTS: Partial<Record<MarginStatus, string>> = {
+  warning: 'margin.warning',
+  margin_call: 'margin.margin_call',
+  liquidating: 'margin.liquidation_required',
+};
+
 // ============================================================================
 // MARGIN ENGINE
 // ============================================================================
 
-export class MarginEngine {
-  private accounts: Map<string, MarginAccount> = new Map();
-  private novatedTrades: Map<string, NovatedTrade> = new Map();
-  private liquidationQueue: LiquidationEvent[] = [];
-  
-  constructor(private eventBus: EventBus) {
+export class MarginEngine implements TradeClearing {
+  private accounts: Map<string, MarginAccount> = new Map(); // borrowers, as last evaluated
+  private novatedTrades: Map<string, NovatedTrade> = new Map(); // trade id → open novation
+  private marks: Map<string, Micros> = new Map(); // market:outcome → mark price
+  private liquidations: LiquidationEvent[] = [];
+  private liquidating: Set<string> = new Set();    // agents being liquidated now
+  private lastLiquidation: Map<string, number> = new Map(); // agent → last attempt (ms)
+  private engine?: MatchingEngine;
+  private markets?: MarketLookup;
+  private journal?: EngineJournal;
+
+  constructor(
+    private eventBus: EventBus,
+    private escrow: EscrowLedger,
+    private positions: PositionKeeper
+  ) {
+    this.eventBus.subscribe('trades.executed', (data: any) => {
+      const trade: Trade = data.trade || data;
+      this.updatePositionPrices(trade.market_id, trade.outcome, trade.price);
+    });
+    for (const channel of ['settlements.completed', 'settlements.unwound']) {
+      this.eventBus.subscribe(channel, (data: any) => this.closeMarket(data.market_id));
+    }
+
     // Start margin monitoring loop
     this.startMonitoringLoop();
   }
-  
+
+  /**
+   * Place liquidation orders through the matching engine (margin mode)
+   */
+  attachMatchingEngine(engine: MatchingEngine): void {
+    this.engine = engine;
+  }
+
+  /**
+   * Group positions by the tags and declared correlations of their markets
+   */
+  attachMarkets(markets: MarketLookup): void {
+    this.markets = markets;
+  }
+
   // ===========================================================================
   // ACCOUNT MANAGEMENT
   // ===========================================================================
-  
+
   /**
-   * Get or create margin account for agent
+   * Margin account of an agent, computed from its wallet, margin loans and
+   * live positions
    */
   getAccount(agentId: string): MarginAccount {
-    let account = this.accounts.get(agentId);
-    
-    if (!account) {
-      account = {
-        agent_id: agentId,
-        cash_balance: 100000, // Default starting balance
-        margin_used: 0,
-        margin_available: 100000,
-        positions: [],
-        equity: 100000,
-        margin_ratio: 1,
-        maintenance_margin: 0,
-        status: 'healthy',
-        last_updated: new Date(),
-      };
-      this.accounts.set(agentId, account);
-    }
-    
+    const balance = this.escrow.getBalance(agentId) ?? { available: 0, locked: 0, total: 0 };
+    const loans = this.escrow.getMarginDebt(agentId);
+    const positions = this.positions.getAgentPositions(agentId)
+      .filter(p => p.quantity > 0 || p.redeemable > 0)
+      .map(p => this.markPosition(p));
+
+    const exposure = positions.reduce((sum, p) => sum + p.market_value - p.redeemable, 0);
+    const equity = balance.total + positions.reduce((sum, p) => sum + p.market_value, 0) - loans;
+    const risk = this.worstCaseLoss(this.riskPositions(positions));
+
+    const account: MarginAccount = {
+      agent_id: agentId,
+      cash_balance: balance.total,
+      margin_used: applyBps(risk, MARGIN_CONSTANTS.INITIAL_MARGIN_BPS),
+      margin_available: balance.available,
+      margin_loans: loans,
+      positions,
+      exposure,
+      worst_case_loss: risk,
+      equity,
+      margin_ratio: risk > 0 ? equity / risk : (equity < 0 ? 0 : 1),
+      maintenance_margin: applyBps(risk, MARGIN_CONSTANTS.MAINTENANCE_MARGIN_BPS),
+      status: 'healthy',
+      last_updated: new Date(),
+    };
+    account.status = this.statusOf(account);
+
     return account;
   }
-  
-  /**
-   * Deposit funds to margin account
-   */
-  deposit(agentId: string, amount: number): MarginAccount {
-    const account = this.getAccount(agentId);
-    account.cash_balance += amount;
-    account.margin_available += amount;
-    account.equity += amount;
-    account.last_updated = new Date();
-    
-    this.recalculateMarginRatio(account);
-    this.eventBus.publish('margin.deposit', { agent_id: agentId, amount });
-    
-    return account;
+
+  private markOf(position: Position): Micros {
+    return this.marks.get(markKey(position.market_id, position.outcome))
+      ?? position.avg_entry_price
+      ?? 0;
   }
-  
+
+  private markPosition(position: Position): MarginPosition {
+    const mark = this.markOf(position);
+    const shares = notional(mark, position.quantity);
+
+    return {
+      ...position,
+      mark_price: mark,
+      market_value: shares + position.redeemable,
+      unrealized_pnl: shares - position.total_cost,
+      margin_requirement: applyBps(shares, MARGIN_CONSTANTS.INITIAL_MARGIN_BPS),
+    };
+  }
+
   /**
-   * Withdraw funds from margin account
+   * Margin of an account with the groups and scenarios behind it
    */
-  withdraw(agentId: string, amount: number): MarginAccount {
+  getRiskReport(agentId: string): MarginRiskReport {
     const account = this.getAccount(agentId);
-    
-    if (amount > account.margin_available) {
-      throw new Error('Insufficient available margin for withdrawal');
-    }
-    
-    account.cash_balance -= amount;
-    account.margin_available -= amount;
-    account.equity -= amount;
-    account.last_updated = new Date();
-    
-    this.recalculateMarginRatio(account);
-    this.eventBus.publish('margin.withdraw', { agent_id: agentId, amount });
-    
-    return account;
+    const risk = assessPortfolio(this.riskPositions(account.positions), this.markets);
+
+    return {
+      agent_id: agentId,
+      equity: account.equity,
+      initial_margin: account.margin_used,
+      maintenance_margin: account.maintenance_margin,
+      margin_ratio: account.margin_ratio,
+      status: account.status,
+      ...risk,
+    };
+  }
+
+  private riskPositions(positions: MarginPosition[]): RiskPosition[] {
+    return positions.map(p => ({
+      market_id: p.market_id,
+      outcome: p.outcome,
+      quantity: p.quantity,
+      value: p.market_value - p.redeemable,
+    }));
+  }
+
+  private worstCaseLoss(positions: RiskPosition[]): Micros {
+    return assessPortfolio(positions, this.markets).worst_case_loss;
   }
-  
+
   // ===========================================================================
   // CCP NOVATION
   // ===========================================================================
-  
+
+  /**
+   * Initial margin an agent posts on a leg: what the leg's shares, valued
+   * at its collateral, add to the initial margin on the portfolio's
+   * worst-case loss. A leg that hedges the portfolio posts nothing.
+   * Accounts on a margin call get no new credit and post the full
+   * collateral.
+   */
+  postedCollateral(agentId: string, leg: ClearingLeg, collateral: Micros): Micros {
+    const status = this.accounts.get(agentId)?.status;
+    if (status === 'margin_call' || status === 'liquidating') {
+      return collateral;
+    }
+
+    const held = this.riskPositions(
+      this.positions.getAgentPositions(agentId)
+        .filter(p => p.quantity > 0)
+        .map(p => this.markPosition(p))
+    );
+    const before = this.worstCaseLoss(held);
+    const after = this.worstCaseLoss([...held, { ...leg, value: collateral }]);
+    return Math.min(collateral, applyBps(Math.max(0, after - before), MARGIN_CONSTANTS.INITIAL_MARGIN_BPS));
+  }
+
   /**
    * Novate a trade through the CCP
    * Every trade becomes: Agent A <-> TRUTH-NET-CCP <-> Agent B
+   *
+   * The matching engine has moved each side's posted margin into trade
+   * escrow; the CCP finances the rest of each leg.
    */
-  novateTrade(
-    buyerAgentId: string,
-    sellerAgentId: string,
-    marketId: string,
-    outcome: 'yes' | 'no',
-    price: number,
-    size: number
-  ): NovatedTrade {
-    const tradeId = uuidv4();
-    
+  async novateTrade(trade: Trade, financed: { buyer: Micros; seller: Micros }): Promise<void> {
+    const legs: Array<['buyer' | 'seller', string, Micros]> = [
+      ['buyer', trade.buyer_id, financed.buyer],
+      ['seller', trade.seller_id, financed.seller],
+    ];
+    for (const [role, agentId, amount] of legs) {
+      if (amount <= 0) continue;
+      await this.escrow.financeTradeLeg(agentId, amount, trade.id, trade.market_id, role, trade.match_type);
+      this.track(agentId);
+    }
+
     // Create novated trade with CCP in the middle
     const novatedTrade: NovatedTrade = {
-      id: uuidv4(),
-      original_trade_id: tradeId,
+      id: engineClock.newId(),
+      original_trade_id: trade.id,
       leg_a: {
-        counterparty: buyerAgentId,
+        counterparty: trade.buyer_id,
         direction: 'buy',
-        price,
-        size,
+        price: trade.price,
+        size: trade.quantity,
+        financed: financed.buyer,
       },
       leg_b: {
-        counterparty: sellerAgentId,
+        counterparty: trade.seller_id,
         direction: 'sell',
-        price,
-        size,
+        price: trade.price,
+        size: trade.quantity,
+        financed: financed.seller,
       },
       ccp_id: 'TRUTH-NET-CCP',
-      market_id: marketId,
-      outcome,
-      executed_at: new Date(),
-      status: 'pending',
+      market_id: trade.market_id,
+      outcome: trade.outcome,
+      executed_at: trade.executed_at,
+      status: 'cleared',
     };
-    
-    // Check margin requirements for both parties
-    const buyerMarginOk = this.checkMarginRequirement(buyerAgentId, price * size);
-    const sellerMarginOk = this.checkMarginRequirement(sellerAgentId, (1 - price) * size);
-    
-    if (!buyerMarginOk) {
-      throw new Error(`Buyer ${buyerAgentId} has insufficient margin`);
+
+    this.novatedTrades.set(trade.id, novatedTrade);
+    await this.eventBus.publish('ccp.trade_novated', novatedTrade);
+  }
+
+  /**
+   * Start monitoring an agent that borrows from the CCP
+   */
+  private track(agentId: string): void {
+    if (!this.accounts.has(agentId)) {
+      this.accounts.set(agentId, this.getAccount(agentId));
     }
-    
-    if (!sellerMarginOk) {
-      throw new Error(`Seller ${sellerAgentId} has insufficient margin`);
+  }
+
+  /**
+   * Drop a settled or cancelled market's novations; its loans have been
+   * repaid or returned
+   */
+  private closeMarket(marketId: string): void {
+    for (const [tradeId, novation] of this.novatedTrades) {
+      if (novation.market_id === marketId) this.novatedTrades.delete(tradeId);
+    }
+
+    for (const agentId of [...this.accounts.keys()]) {
+      const account = this.evaluate(agentId);
+      if (account.margin_loans === 0 && account.positions.length === 0) {
+        this.accounts.delete(agentId);
+      }
     }
-    
-    // Lock margin for both parties
-    this.lockMargin(buyerAgentId, price * size * MARGIN_CONSTANTS.INITIAL_MARGIN_RATE);
-    this.lockMargin(sellerAgentId, (1 - price) * size * MARGIN_CONSTANTS.INITIAL_MARGIN_RATE);
-    
-    // Create positions
-    this.createPosition(buyerAgentId, marketId, outcome, 'yes', size, price);
-    this.createPosition(sellerAgentId, marketId, outcome, 'no', size, 1 - price);
-    
-    // Mark trade as cleared
-    novatedTrade.status = 'cleared';
-    this.novatedTrades.set(novatedTrade.id, novatedTrade);
-    
-    this.eventBus.publish('ccp.trade_novated', novatedTrade);
-    
-    return novatedTrade;
-  }
-  
+  }
+
   // ===========================================================================
   // MARGIN CALCULATIONS
   // ===========================================================================
-  
+
+  private statusOf(account: MarginAccount): MarginStatus {
+    if (account.margin_ratio < MARGIN_CONSTANTS.LIQUIDATION_THRESHOLD) {
+      return 'liquidating';
+    } else if (account.margin_ratio < MARGIN_CONSTANTS.MAINTENANCE_MARGIN_RATE) {
+      return 'margin_call';
+    } else if (account.margin_ratio < MARGIN_CONSTANTS.WARNING_THRESHOLD) {
+      return 'warning';
+    }
+    return 'healthy';
+  }
+
   /**
-   * Check if agent has sufficient margin for a trade
+   * Recompute a borrower's account, publishing its new status when it
+   * changes and liquidating it when it falls below the threshold
    */
-  checkMarginRequirement(agentId: string, notionalValue: number): boolean {
+  private evaluate(agentId: string): MarginAccount {
+    const previous = this.accounts.get(agentId)?.status ?? 'healthy';
     const account = this.getAccount(agentId);
-    const requiredMargin = notionalValue * MARGIN_CONSTANTS.INITIAL_MARGIN_RATE;
-    return account.margin_available >= requiredMargin;
+    this.accounts.set(agentId, account);
+
+    if (account.status === 'liquidating') {
+      this.scheduleLiquidation(account, previous !== 'liquidating');
+    }
+
+    const channel = STATUS_EVENTS[account.status];
+    if (account.status !== previous && channel) {
+      this.eventBus.publish(channel, {
+        agent_id: agentId,
+        status: account.status,
+        equity: account.equity,
+        exposure: account.exposure,
+        maintenance_margin: account.maintenance_margin,
+        margin_ratio: account.margin_ratio,
+        margin_loans: account.margin_loans,
+      });
+    }
+
+    return account;
   }
-  
+
   /**
-   * Lock margin for a position
+   * Update position prices (called from market data feed): a trade marks
+   * its outcome at the trade price and the opposite outcome at the
+   * complement, then borrowers in the market are re-evaluated
    */
-  private lockMargin(agentId: string, amount: number): void {
-    const account = this.getAccount(agentId);
-    account.margin_used += amount;
-    account.margin_available -= amount;
-    account.last_updated = new Date();
-    this.recalculateMarginRatio(account);
+  updatePositionPrices(marketId: string, outcome: Outcome, price: Micros): void {
+    this.marks.set(markKey(marketId, outcome), price);
+    this.marks.set(markKey(marketId, oppositeOutcome(outcome)), complementPrice(price));
+
+    for (const account of [...this.accounts.values()]) {
+      const holds = this.positions.getAgentPositions(account.agent_id, marketId)
+        .some(p => p.quantity > 0 || p.redeemable > 0);
+      if (holds) this.evaluate(account.agent_id);
+    }
   }
-  
+
+  // ===========================================================================
+  // AUTO-LIQUIDATION
+  // ===========================================================================
+
   /**
-   * Release margin when position closes
+   * Liquidate an account that fell below the threshold, after the order
+   * or event that pushed it there has finished. A partial liquidation is
+   * retried while shares are left open, at most once per retry interval.
    */
-  private releaseMargin(agentId: string, amount: number): void {
-    const account = this.getAccount(agentId);
-    account.margin_used -= amount;
-    account.margin_available += amount;
-    account.last_updated = new Date();
-    this.recalculateMarginRatio(account);
+  private scheduleLiquidation(account: MarginAccount, breached: boolean): void {
+    if (!this.engine || account.margin_loans === 0 || this.liquidating.has(account.agent_id)) return;
+
+    const lastAttempt = this.lastLiquidation.get(account.agent_id) ?? 0;
+    const retry = account.exposure > 0 && Date.now() - lastAttempt >= MARGIN_CONSTANTS.LIQUIDATION_RETRY_MS;
+    if (!breached && !retry) return;
+
+    this.lastLiquidation.set(account.agent_id, Date.now());
+    setImmediate(() => {
+      this.liquidate(account.agent_id, 'maintenance_breach').catch(err => {
+        console.error(`[MarginEngine] Liquidation of ${account.agent_id} failed: ${err.message}`);
+      });
+    });
   }
-  
+
   /**
-   * Create a position for an agent
+   * Close out an account: cancel its orders, reduce its positions through
+   * the book, cover the deficit from the insurance fund and deleverage
+   * profitable counterparties for what is left
    */
-  private createPosition(
+  async liquidate(
     agentId: string,
-    marketId: string,
-    outcome: 'yes' | 'no',
-    side: 'yes' | 'no',
-    size: number,
-    entryPrice: number
-  ): Position {
-    const account = this.getAccount(agentId);
-    
-    const position: Position = {
-      id: uuidv4(),
-      market_id: marketId,
-      ticker: `POS-${marketId.slice(0, 8)}`,
-      side,
-      size,
-      entry_price: entryPrice,
-      current_price: entryPrice,
-      unrealized_pnl: 0,
-      realized_pnl: 0,
-      margin_requirement: size * entryPrice * MARGIN_CONSTANTS.INITIAL_MARGIN_RATE,
-      opened_at: new Date(),
-    };
-    
-    account.positions.push(position);
-    account.maintenance_margin += size * MARGIN_CONSTANTS.MAINTENANCE_MARGIN_RATE;
-    account.last_updated = new Date();
-    
-    return position;
-  }
-  
-  /**
-   * Recalculate margin ratio and update status
-   */
-  private recalculateMarginRatio(account: MarginAccount): void {
-    // Calculate total equity
-    const unrealizedPnl = account.positions.reduce((sum, p) => sum + p.unrealized_pnl, 0);
-    account.equity = account.cash_balance + unrealizedPnl;
-    
-    // Calculate margin ratio
-    if (account.margin_used > 0) {
-      account.margin_ratio = account.equity / account.margin_used;
-    } else {
-      account.margin_ratio = 1;
+    reason: LiquidationEvent['trigger_reason'] = 'manual'
+  ): Promise<LiquidationEvent> {
+    const engine = this.engine;
+    if (!engine) {
+      throw new LiquidationError('MARGIN_TRADING_DISABLED', 'Liquidation requires margin trading (MARGIN_TRADING=true)');
     }
-    
-    // Update status based on margin ratio
-    if (account.margin_ratio < MARGIN_CONSTANTS.LIQUIDATION_THRESHOLD) {
-      account.status = 'liquidating';
-      this.triggerLiquidation(account);
-    } else if (account.margin_ratio < MARGIN_CONSTANTS.MAINTENANCE_MARGIN_RATE) {
-      account.status = 'margin_call';
-      this.eventBus.publish('margin.margin_call', { agent_id: account.agent_id });
-    } else if (account.margin_ratio < MARGIN_CONSTANTS.WARNING_THRESHOLD) {
-      account.status = 'warning';
-      this.eventBus.publish('margin.warning', { agent_id: account.agent_id });
-    } else {
-      account.status = 'healthy';
+    if (this.liquidating.has(agentId)) {
+      throw new LiquidationError('LIQUIDATION_IN_PROGRESS', `Agent ${agentId} is already being liquidated`);
     }
+
+    const liquidation = await this.journaled('margin.liquidate', [agentId, reason], () =>
+      this.applyLiquidate(agentId, reason)
+    );
+    await this.eventBus.publish('liquidation.executed', liquidation);
+    return liquidation;
   }
-  
-  // ===========================================================================
-  // AUTO-LIQUIDATION
-  // ===========================================================================
-  
-  /**
-   * Trigger liquidation for an account
-   */
-  private triggerLiquidation(account: MarginAccount): void {
-    if (account.positions.length === 0) return;
-    
+
+  private async applyLiquidate(
+    agentId: string,
+    reason: LiquidationEvent['trigger_reason']
+  ): Promise<LiquidationEvent> {
+    const engine = this.engine!;
+    const before = this.getAccount(agentId);
+    if (before.margin_loans === 0) {
+      throw new LiquidationError('NOTHING_TO_LIQUIDATE', `Agent ${agentId} has no margin loans`);
+    }
+    // A breach may have been cured between scheduling and running
+    if (reason === 'maintenance_breach' && before.status !== 'liquidating') {
+      throw new LiquidationError('NOTHING_TO_LIQUIDATE', `Agent ${agentId} is no longer below the liquidation threshold`);
+    }
+
+    this.liquidating.add(agentId);
     const liquidation: LiquidationEvent = {
-      id: uuidv4(),
-      agent_id: account.agent_id,
+      id: engineClock.newId(),
+      agent_id: agentId,
+      trigger_reason: reason,
+      status: 'completed',
       positions_liquidated: [],
+      equity_before: before.equity,
+      equity_after: before.equity,
       total_value: 0,
       loss_absorbed: 0,
-      trigger_reason: 'maintenance_breach',
-      executed_at: new Date(),
+      deleveraged: 0,
+      uncovered: 0,
+      steps: [],
+      started_at: engineClock.now(),
+      executed_at: engineClock.now(),
     };
-    
-    // Force-close all positions at mid-price
-    for (const position of account.positions) {
-      const midPrice = position.current_price;
-      const closeValue = position.size * midPrice;
-      const pnl = (midPrice - position.entry_price) * position.size * (position.side === 'yes' ? 1 : -1);
-      
-      liquidation.positions_liquidated.push(position.id);
-      liquidation.total_value += closeValue;
-      
-      if (pnl < 0) {
-        liquidation.loss_absorbed += Math.abs(pnl);
+
+    try {
+      // 1. Cancel open orders, releasing their margin
+      const orders = engine.getAgentOrders(agentId);
+      if (orders.length > 0) {
+        const released = orders.reduce((sum, o) => sum + o.locked_amount, 0);
+        for (const order of orders) {
+          await engine.cancelOrder(order.id, agentId);
+        }
+        liquidation.steps.push({
+          kind: 'cancel_orders',
+          at: engineClock.now(),
+          order_ids: orders.map(o => o.id),
+          amount: released,
+        });
       }
-      
-      // Apply P&L to account
-      account.cash_balance += pnl;
-      
-      // Release margin
-      this.releaseMargin(account.agent_id, position.margin_requirement);
+
+      // 2. Reducing orders into the book, within the slippage limit
+      const tick = engine.getPriceIncrement();
+      for (const position of this.openPositions(agentId)) {
+        const mark = this.markOf(position);
+        const limit = Math.max(tick, floorToTick(mark - applyBps(mark, MARGIN_CONSTANTS.LIQUIDATION_SLIPPAGE_BPS), tick));
+        const step: LiquidationStep = {
+          kind: 'reducing_order',
+          at: engineClock.now(),
+          market_id: position.market_id,
+          position_id: position.id,
+          outcome: position.outcome,
+          quantity: position.quantity,
+          limit_price: limit,
+          filled: 0,
+        };
+
+        try {
+          const { order, result } = await this.placeReducingOrder(
+            agentId, position, position.quantity, limit, TimeInForce.IOC, liquidation.id
+          );
+          this.recordFills(liquidation, step, position, result.trades, order.id);
+        } catch (err: any) {
+          step.error = err.message;
+        }
+        liquidation.steps.push(step);
+      }
+
+      // 3. The insurance fund absorbs the deficit at the marks
+      const deficit = Math.max(0, -this.getAccount(agentId).equity);
+      if (deficit > 0 && this.escrow.getInsuranceBalance() > 0) {
+        const covered = await this.escrow.coverMarginDeficit(agentId, deficit, liquidation.id);
+        if (covered > 0) {
+          liquidation.loss_absorbed = covered;
+          liquidation.steps.push({ kind: 'insurance', at: engineClock.now(), amount: covered });
+        }
+      }
+
+      // 4. Auto-deleverage the shares the book did not absorb
+      await this.autoDeleverage(liquidation, tick);
+    } finally {
+      this.liquidating.delete(agentId);
     }
-    
-    // Clear positions
-    account.positions = [];
-    account.maintenance_margin = 0;
-    account.status = 'healthy';
-    
-    this.liquidationQueue.push(liquidation);
-    this.eventBus.publish('liquidation.executed', liquidation);
-    
-    console.log(`[MarginEngine] Liquidated agent ${account.agent_id}: ${liquidation.positions_liquidated.length} positions`);
-  }
-  
+
+    const after = this.evaluateAfterLiquidation(agentId);
+    liquidation.equity_after = after.equity;
+    liquidation.uncovered = Math.max(0, -after.equity);
+    if (after.exposure > 0 || liquidation.uncovered > 0) {
+      liquidation.status = 'partial';
+    }
+    liquidation.executed_at = engineClock.now();
+
+    this.liquidations.push(liquidation);
+
+    console.log(`[MarginEngine] Liquidated agent ${agentId} (${liquidation.status}): ` +
+      `${liquidation.positions_liquidated.length} positions, ${liquidation.steps.length} steps`);
+    return liquidation;
+  }
+
   /**
-   * Update position prices (called from market data feed)
+   * Close what is still open against profitable holders of the opposite
+   * outcome, most profitable first. The price is the mark, raised by the
+   * share of the remaining deficit each position carries so that the
+   * counterparties absorb it (capped one tick below 1.00).
    */
-  updatePositionPrices(marketId: string, yesPrice: number): void {
-    for (const account of this.accounts.values()) {
-      for (const position of account.positions) {
-        if (position.market_id === marketId) {
-          const newPrice = position.side === 'yes' ? yesPrice : (1 - yesPrice);
-          position.current_price = newPrice;
-          position.unrealized_pnl = (newPrice - position.entry_price) * position.size;
+  private async autoDeleverage(liquidation: LiquidationEvent, tick: Micros): Promise<void> {
+    const agentId = liquidation.agent_id;
+    const open = this.openPositions(agentId);
+    if (open.length === 0) return;
+
+    const deficit = Math.max(0, -this.getAccount(agentId).equity);
+    const openValue = open.reduce((sum, p) => sum + notional(this.markOf(p), p.quantity), 0);
+
+    for (const position of open) {
+      const mark = this.markOf(position);
+      const value = notional(mark, position.quantity);
+      const share = openValue > 0 ? Math.round(deficit * (value / openValue)) : 0;
+      const price = Math.min(ONE_SHARE - tick, ceilToTick(mark + divRound(share, position.quantity), tick));
+
+      let remaining = position.quantity;
+      for (const counterparty of this.deleverageCandidates(position)) {
+        if (remaining <= 0) break;
+        const quantity = Math.min(remaining, counterparty.quantity);
+        const step: LiquidationStep = {
+          kind: 'auto_deleverage',
+          at: engineClock.now(),
+          market_id: position.market_id,
+          position_id: position.id,
+          outcome: position.outcome,
+          counterparty_id: counterparty.agent_id,
+          quantity,
+          limit_price: price,
+          filled: 0,
+          order_ids: [],
+        };
+
+        let crossed = 0;
+        try {
+          // The liquidated agent's order rests, filling against the book
+          // first; the counterparty's crosses what is left of it
+          const resting = await this.placeReducingOrder(
+            agentId, position, quantity, price, TimeInForce.GTC, liquidation.id
+          );
+          step.order_ids = [resting.order.id];
+          this.recordFills(liquidation, step, position, resting.result.trades, resting.order.id);
+
+          const bookFilled = step.filled ?? 0;
+          if (bookFilled < quantity) {
+            const crossing = await this.placeReducingOrder(
+              counterparty.agent_id, counterparty, quantity - bookFilled, complementPrice(price), TimeInForce.IOC, liquidation.id
+            );
+            step.order_ids.push(crossing.order.id);
+            this.recordFills(liquidation, step, position, crossing.result.trades, resting.order.id);
+            crossed = (step.filled ?? 0) - bookFilled;
+          }
+          await this.engine!.cancelOrder(resting.order.id, agentId);
+        } catch (err: any) {
+          step.error = err.message;
         }
+
+        liquidation.steps.push(step);
+        liquidation.deleveraged += Math.max(0, notional(price - mark, crossed));
+        remaining -= step.filled ?? 0;
       }
-      
-      this.recalculateMarginRatio(account);
     }
   }
-  
+
+  /**
+   * Profitable holders of the opposite outcome, most profitable first
+   */
+  private deleverageCandidates(position: Position): Position[] {
+    const opposite = oppositeOutcome(position.outcome);
+    return this.positions.getMarketPositions(position.market_id)
+      .filter(p => p.outcome === opposite && p.agent_id !== position.agent_id && p.quantity > 0)
+      .map(p => ({ position: p, pnl: notional(this.markOf(p), p.quantity) - p.total_cost }))
+      .filter(c => c.pnl > 0)
+      .sort((a, b) => b.pnl - a.pnl)
+      .map(c => c.position);
+  }
+
+  /**
+   * Place an order that only closes shares of a position: sell the
+   * outcome held or, when it has no book (a negated categorical outcome),
+   * buy the outcome it negates. `price` is the worst price accepted in the
+   * position's outcome.
+   */
+  private placeReducingOrder(
+    agentId: string,
+    position: Position,
+    quantity: number,
+    price: Micros,
+    timeInForce: TimeInForce,
+    liquidationId: string
+  ): Promise<{ order: Order; result: { trades: Trade[] } }> {
+    const books = this.engine!.getMarketBooks(position.market_id);
+    const direct = books?.hasOutcome(position.outcome) ?? true;
+
+    return this.engine!.processOrder(agentId, position.market_id, {
+      market_id: position.market_id,
+      side: direct ? OrderSide.SELL : OrderSide.BUY,
+      outcome: direct ? position.outcome : oppositeOutcome(position.outcome),
+      order_type: OrderType.LIMIT,
+      price: direct ? price : complementPrice(price),
+      quantity,
+      time_in_force: timeInForce,
+      metadata: { liquidation_id: liquidationId },
+    }, { liquidation: true });
+  }
+
+  /**
+   * Add the fills of a liquidated agent's order to a step, priced in the
+   * position's outcome
+   */
+  private recordFills(
+    liquidation: LiquidationEvent,
+    step: LiquidationStep,
+    position: Position,
+    trades: Trade[],
+    orderId: string
+  ): void {
+    let filled = 0;
+    let value = 0;
+    for (const trade of trades) {
+      if (trade.buy_order_id !== orderId && trade.sell_order_id !== orderId) continue;
+      const price = trade.outcome === position.outcome ? trade.price : complementPrice(trade.price);
+      filled += trade.quantity;
+      value += notional(price, trade.quantity);
+    }
+
+    const before = step.filled ?? 0;
+    step.filled = before + filled;
+    if (filled > 0) {
+      step.avg_price = divRound(notional(step.avg_price ?? 0, before) + value, step.filled);
+      liquidation.total_value += value;
+      if (!liquidation.positions_liquidated.includes(position.id)) {
+        liquidation.positions_liquidated.push(position.id);
+      }
+    }
+  }
+
+  private openPositions(agentId: string): Position[] {
+    return this.positions.getAgentPositions(agentId).filter(p => p.quantity > 0);
+  }
+
+  private evaluateAfterLiquidation(agentId: string): MarginAccount {
+    const account = this.getAccount(agentId);
+    this.accounts.set(agentId, account);
+    return account;
+  }
+
+  /**
+   * Liquidations, most recent first, optionally of one agent
+   */
+  getLiquidations(agentId?: string, limit: number = 50): LiquidationEvent[] {
+    return this.liquidations
+      .filter(l => !agentId || l.agent_id === agentId)
+      .slice(-limit)
+      .reverse();
+  }
+
+  getLiquidation(id: string): LiquidationEvent | undefined {
+    return this.liquidations.find(l => l.id === id);
+  }
+
+  // ===========================================================================
+  // JOURNAL AND SNAPSHOTS
+  // ===========================================================================
+
+  /**
+   * Journal liquidations and include tracked accounts, novations, marks and
+   * liquidations in snapshots. Margin loans and the insurance fund are
+   * EscrowLedger state and snapshot with it.
+   */
+  attachJournal(journal: EngineJournal): void {
+    this.journal = journal;
+
+    journal.register('margin.liquidate', (agentId: string, reason: LiquidationEvent['trigger_reason']) =>
+      this.applyLiquidate(agentId, reason));
+
+    journal.addParticipant('margin_engine', this);
+  }
+
+  private journaled<T>(type: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    return this.journal ? this.journal.record(type, args, fn) : fn();
+  }
+
+  /**
+   * Accounts are views, so only which agents are tracked and the status
+   * they were last evaluated at is kept
+   */
+  toSnapshot(): unknown {
+    return {
+      accounts: [...this.accounts.values()]
+        .map(a => ({ agent_id: a.agent_id, status: a.status }))
+        .sort((a, b) => a.agent_id.localeCompare(b.agent_id)),
+      novated_trades: [...this.novatedTrades.entries()].sort(([a], [b]) => a.localeCompare(b)),
+      marks: [...this.marks.entries()].sort(([a], [b]) => a.localeCompare(b)),
+      liquidations: this.liquidations,
+    };
+  }
+
+  restoreSnapshot(state: unknown): void {
+    const saved = state as {
+      accounts: Array<{ agent_id: string; status: MarginStatus }>;
+      novated_trades: Array<[string, NovatedTrade]>;
+      marks: Array<[string, Micros]>;
+      liquidations: LiquidationEvent[];
+    };
+
+    // Balances are re-read as the monitoring loop next evaluates them
+    this.accounts = new Map(saved.accounts.map(({ agent_id, status }) =>
+      [agent_id, { ...this.getAccount(agent_id), status }]
+    ));
+    this.novatedTrades = new Map(saved.novated_trades.map(([tradeId, n]) =>
+      [tradeId, reviveDates({ ...n }, ['executed_at'])]
+    ));
+    this.marks = new Map(saved.marks);
+    this.liquidations = saved.liquidations.map(l => ({
+      ...reviveDates({ ...l }, ['started_at', 'executed_at']),
+      steps: l.steps.map(step => reviveDates({ ...step }, ['at'])),
+    }));
+  }
+
   // ===========================================================================
   // MONITORING
   // ===========================================================================
-  
+
   /**
    * Start the margin monitoring loop
    */
   private startMonitoringLoop(): void {
     setInterval(() => {
-      for (const account of this.accounts.values()) {
-        this.recalculateMarginRatio(account);
+      for (const agentId of [...this.accounts.keys()]) {
+        this.evaluate(agentId);
       }
     }, 5000); // Check every 5 seconds
   }
-  
+
+  /**
+   * Accounts currently borrowing from the CCP, as last evaluated
+   */
+  getMarginAccounts(): MarginAccount[] {
+    return Array.from(this.accounts.values());
+  }
+
   /**
    * Get all accounts summary
    */
-  getAllAccountsSummary(): object {
-    const accounts = Array.from(this.accounts.values());
-    
+  getAllAccountsSummary(): ClearinghouseSummary {
+    const accounts = this.getMarginAccounts();
+
     return {
       total_accounts: accounts.length,
       total_equity: accounts.reduce((sum, a) => sum + a.equity, 0),
       total_margin_used: accounts.reduce((sum, a) => sum + a.margin_used, 0),
+      total_margin_loans: accounts.reduce((sum, a) => sum + a.margin_loans, 0),
       accounts_by_status: {
         healthy: accounts.filter(a => a.status === 'healthy').length,
         warning: accounts.filter(a => a.status === 'warning').length,
         margin_call: accounts.filter(a => a.status === 'margin_call').length,
         liquidating: accounts.filter(a => a.status === 'liquidating').length,
       },
-      recent_liquidations: this.liquidationQueue.slice(-10),
+      open_novations: this.novatedTrades.size,
+      insurance_fund: this.escrow.getInsuranceBalance(),
+      liquidations: this.liquidations.length,
     };
   }
-  
+
   /**
-   * Get all novated trades
+   * Novated trades of markets that have not settled yet
    */
-  getNovatedTrades(): NovatedTrade[] {
-    return Array.from(this.novatedTrades.values());
+  getNovatedTrades(marketId?: string): NovatedTrade[] {
+    return Array.from(this.novatedTrades.values())
+      .filter(n => !marketId || n.market_id === marketId);
   }
 }
 
+function markKey(marketId: string, outcome: Outcome): string {
+  return `${marketId}:${outcome}`;
+}
+
+function floorToTick(price: Micros, tick: Micros): Micros {
+  return Math.floor(price / tick) * tick;
+}
+
+function ceilToTick(price: Micros, tick: Micros): Micros {
+  return Math.ceil(price / tick) * tick;
+}
+
 // Singleton instance
 let marginEngine: MarginEngine | null = null;
 
-export function getMarginEngine(eventBus: EventBus): MarginEngine {
+export function getMarginEngine(eventBus: EventBus, escrow: EscrowLedger, positions: PositionKeeper): MarginEngine {
   if (!marginEngine) {
-    marginEngine = new MarginEngine(eventBus);
+    marginEngine = new MarginEngine(eventBus, escrow, positions);
   }
   return marginEngine;
 }
@@ -0,0 +1,231 @@
+/**
+ * TRUTH-NET Portfolio Risk
+ *
+ * Worst-case loss of an agent's positions over the ways their markets can
+ * resolve, which MarginEngine sets initial and maintenance margin from.
+ *
+ * Markets linked by a declared correlation or a shared tag form a group.
+ * A group's scenarios are the joint outcomes of its markets that the
+ * declared correlations allow, and its worst case is the largest loss
+ * against the marks in any of them: YES on "Fed cuts in March" and YES on
+ * "Fed holds through March", declared `opposite`, always collect one of
+ * the two payouts, so the pair needs little margin.
+ *
+ * Grouping never costs margin: with every joint outcome allowed, a group's
+ * worst case is the sum of its markets' own worst cases. A group with more
+ * than MAX_SCENARIOS joint outcomes is split along its declared
+ * correlations alone, then into single markets.
+ *
+ * Scalar markets count as binary: a share pays linearly in the value, so
+ * the worst case is at a bound (YES at the upper, NO at the lower).
+ */
+
+import { holdsOutcome, marketOutcomes, marketTypeOf } from '../markets/outcomes.js';
+import { Market, MarketCorrelation, MarketType, Outcome, OutcomeToken } from '../types.js';
+import { Micros, shareValue } from '../engine/money/Money.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Joint outcomes enumerated per group before it is split */
+export const MAX_SCENARIOS = 4_096;
+
+/**
+ * Market definitions (tags, declared correlations, outcomes) the risk
+ * model groups positions by; a Map of markets will do
+ */
+export interface MarketLookup {
+  get(marketId: string): Market | undefined;
+}
+
+/**
+ * Shares held in one outcome, at their marked value
+ */
+export interface RiskPosition {
+  market_id: string;
+  outcome: Outcome;
+  quantity: number;
+  value: Micros;
+}
+
+export interface RiskScenario {
+  outcomes: Record<string, Outcome>; // market id → resolved outcome
+  loss: Micros;                      // Against the marks; negative is a gain
+}
+
+export interface RiskGroup {
+  market_ids: string[];
+  tags: string[];               // Tags the group's markets share
+  correlations: Array<MarketCorrelation & { from_market_id: string }>;
+  scenarios: RiskScenario[];    // Worst first
+  worst_case_loss: Micros;
+  standalone_loss: Micros;      // Sum of the markets' own worst cases
+}
+
+export interface PortfolioRisk {
+  gross_exposure: Micros;       // Marked value of the shares held
+  worst_case_loss: Micros;
+  standalone_loss: Micros;
+  groups: RiskGroup[];          // Largest worst case first
+}
+
+interface RiskMarket {
+  market_id: string;
+  outcomes: Outcome[];
+  binary: boolean;              // Binary or scalar: YES / NO scenarios
+  tags: string[];
+  correlations: MarketCorrelation[];
+}
+
+// ============================================================================
+// ASSESSMENT
+// ============================================================================
+
+/**
+ * Worst-case loss of a set of positions, by group and scenario. Markets
+ * the lookup does not know are binary and stand alone.
+ */
+export function assessPortfolio(positions: RiskPosition[], markets?: MarketLookup): PortfolioRisk {
+  const held = positions.filter(p => p.quantity > 0);
+  const members = new Map<string, RiskMarket>();
+  for (const position of held) {
+    if (!members.has(position.market_id)) {
+      members.set(position.market_id, riskMarket(position.market_id, markets?.get(position.market_id)));
+    }
+  }
+
+  const groups = components([...members.values()], (a, b) => declared(a, b) || sharesTag(a, b))
+    .flatMap(group => assessGroup(group, held, true))
+    .sort((a, b) => b.worst_case_loss - a.worst_case_loss);
+
+  return {
+    gross_exposure: held.reduce((sum, p) => sum + p.value, 0),
+    worst_case_loss: groups.reduce((sum, g) => sum + g.worst_case_loss, 0),
+    standalone_loss: groups.reduce((sum, g) => sum + g.standalone_loss, 0),
+    groups,
+  };
+}
+
+function assessGroup(group: RiskMarket[], positions: RiskPosition[], byTags: boolean): RiskGroup[] {
+  const count = group.reduce((product, m) => product * m.outcomes.length, 1);
+  if (count <= MAX_SCENARIOS) {
+    return [riskGroup(group, positions)];
+  }
+  if (byTags) {
+    return components(group, declared).flatMap(sub => assessGroup(sub, positions, false));
+  }
+  return group.map(market => riskGroup([market], positions));
+}
+
+function riskGroup(group: RiskMarket[], positions: RiskPosition[]): RiskGroup {
+  const ids = new Set(group.map(m => m.market_id));
+  const held = positions.filter(p => ids.has(p.market_id));
+  const correlations = group.flatMap(market =>
+    market.binary
+      ? market.correlations
+        .filter(c => ids.has(c.market_id) && group.some(m => m.market_id === c.market_id && m.binary))
+        .map(c => ({ ...c, from_market_id: market.market_id }))
+      : []
+  );
+
+  const scenarios = jointOutcomes(group)
+    .filter(outcomes => correlations.every(c => allows(c, outcomes)))
+    .map(outcomes => ({ outcomes, loss: lossIn(held, outcomes) }))
+    .sort((a, b) => b.loss - a.loss);
+
+  const standalone = group.reduce((sum, market) => {
+    const own = held.filter(p => p.market_id === market.market_id);
+    const worst = Math.max(...market.outcomes.map(o => lossIn(own, { [market.market_id]: o })));
+    return sum + Math.max(0, worst);
+  }, 0);
+
+  return {
+    market_ids: [...ids],
+    tags: sharedTags(group),
+    correlations,
+    scenarios,
+    // Contradictory declarations allow no scenario: fall back to standalone
+    worst_case_loss: scenarios.length > 0 ? Math.max(0, scenarios[0].loss) : standalone,
+    standalone_loss: standalone,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function riskMarket(marketId: string, market?: Market): RiskMarket {
+  return {
+    market_id: marketId,
+    outcomes: market ? marketOutcomes(market) : [OutcomeToken.YES, OutcomeToken.NO],
+    binary: !market || marketTypeOf(market) !== MarketType.CATEGORICAL,
+    tags: market?.tags ?? [],
+    correlations: market?.correlations ?? [],
+  };
+}
+
+function declared(a: RiskMarket, b: RiskMarket): boolean {
+  return a.correlations.some(c => c.market_id === b.market_id)
+    || b.correlations.some(c => c.market_id === a.market_id);
+}
+
+function sharesTag(a: RiskMarket, b: RiskMarket): boolean {
+  return a.tags.some(tag => b.tags.includes(tag));
+}
+
+function sharedTags(group: RiskMarket[]): string[] {
+  const tags = group.flatMap(m => [...new Set(m.tags)]);
+  return [...new Set(tags.filter((tag, i) => tags.indexOf(tag) !== i))];
+}
+
+/**
+ * Connected components of the markets under a link
+ */
+function components(markets: RiskMarket[], linked: (a: RiskMarket, b: RiskMarket) => boolean): RiskMarket[][] {
+  const unvisited = new Set(markets);
+  const result: RiskMarket[][] = [];
+
+  for (const start of markets) {
+    if (!unvisited.delete(start)) continue;
+    const component = [start];
+    for (let i = 0; i < component.length; i++) {
+      for (const other of unvisited) {
+        if (linked(component[i], other)) {
+          unvisited.delete(other);
+          component.push(other);
+        }
+      }
+    }
+    result.push(component);
+  }
+  return result;
+}
+
+function jointOutcomes(group: RiskMarket[]): Array<Record<string, Outcome>> {
+  return group.reduce<Array<Record<string, Outcome>>>(
+    (scenarios, market) => scenarios.flatMap(s => market.outcomes.map(o => ({ ...s, [market.market_id]: o }))),
+    [{}]
+  );
+}
+
+function allows(correlation: MarketCorrelation & { from_market_id: string }, outcomes: Record<string, Outcome>): boolean {
+  const from = outcomes[correlation.from_market_id] === OutcomeToken.YES;
+  const to = outcomes[correlation.market_id] === OutcomeToken.YES;
+  switch (correlation.relation) {
+    case 'same': return from === to;
+    case 'opposite': return from !== to;
+    case 'implies': return !from || to;
+    case 'excludes': return !(from && to);
+  }
+}
+
+/**
+ * Marked value lost if the markets resolve to the outcomes
+ */
+function lossIn(positions: RiskPosition[], outcomes: Record<string, Outcome>): Micros {
+  return positions.reduce((loss, p) => {
+    const payout = holdsOutcome(p.outcome, outcomes[p.market_id]) ? shareValue(p.quantity) : 0;
+    return loss + p.value - payout;
+  }, 0);
+}
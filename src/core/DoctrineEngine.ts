@@ -4,10 +4,29 @@
  * The 'Policy Layer' that sits between Agents and the OrderBook.
  * Enforces human-defined governance constraints on all agent trades.
  * 
+ * It is the matching engine's pre-trade check: every order placed through
+ * MatchingEngine.processOrder (REST, external agents, the trading loop,
+ * MCP tools) is validated first, and a rejected order throws a
+ * DoctrineViolationError whose code is the violated rule. Warnings are
+ * recorded and published but let the order through.
+ * 
+ * Orders past a soft threshold (size, drawdown, restricted topics) are
+ * escalated instead: their escrow is held and the order waits in the
+ * escalation queue until a Commander approves it (the order is submitted),
+ * vetoes it or it expires (the escrow is released). Every decision is
+ * recorded with who made it and why. With a journal attached, escalations
+ * and their decisions are journaled like the escrow they hold.
+ * 
+ * An amendment that adds exposure is checked like a new order, but one past
+ * a soft threshold is rejected (AMENDMENT_NEEDS_APPROVAL): a resting order
+ * cannot be held.
+ * 
  * Constraint Checks:
  * - Max_Position_Size: Reject if trade > X% of agent budget
- * - Risk_Floor: Reject if Brier Score < threshold
+ * - Max_Total_Exposure: Reject if open cost basis + trade > Y% of budget
+ * - Risk_Floor: Reject if Brier skill (1 - Brier score) or Truth score < threshold
  * - Topic_Restriction: Only allow trades on permitted tags
+ * - Rate_Limit: Reject beyond N orders per minute
  * 
  * Control Functions:
  * - forceClose: Instantly liquidate a position
@@ -17,6 +36,17 @@
 
 import { EventBus } from '../events/EventBus.js';
 import { v4 as uuidv4 } from 'uuid';
+import { OrderSide, Outcome, PlaceOrderRequest } from '../types.js';
+import type { MatchingEngine, PlaceOrderOptions, PreTradeCheck } from '../engine/matcher/MatchingEngine.js';
+import type { EscrowLedger } from '../engine/escrow/EscrowLedger.js';
+import type { MarketLookup } from '../clearinghouse/PortfolioRisk.js';
+import type { PositionKeeper } from '../settlement/PositionKeeper.js';
+import type { AgentRating } from '../rating/RatingEngine.js';
+import { complementPrice, fromMicros, Micros, ONE_SHARE } from '../engine/money/Money.js';
+import { oppositeOutcome } from '../markets/outcomes.js';
+import { engineClock } from '../engine/journal/EngineClock.js';
+import { EngineJournal, reviveDates } from '../engine/journal/EngineJournal.js';
+import { washTradingDetector } from './CircuitBreaker.js';
 
 // ============================================================================
 // TYPES
@@ -28,7 +58,7 @@ export interface DoctrineConfig {
   max_total_exposure_pct: number;     // Max % of budget across all positions (default: 80%)
   
   // Risk thresholds
-  min_brier_score: number;            // Minimum Brier score to trade (default: 0.6)
+  min_brier_score: number;            // Minimum Brier skill, 1 - Brier score, to trade (default: 0.6)
   min_truth_score: number;            // Minimum Truth score to trade (default: 0.4)
   
   // Trading restrictions
@@ -42,16 +72,40 @@ export interface DoctrineConfig {
   // Drawdown protection
   max_drawdown_pct: number;           // Max drawdown before auto-pause (default: 20%)
   emergency_liquidation_pct: number;  // Drawdown to trigger liquidation (default: 40%)
+  
+  // Escalation (soft thresholds: held for Commander approval)
+  escalation_position_size_pct: number; // Trades above X% of budget are escalated (default: 15%)
+  escalation_drawdown_pct: number;    // Trades at X% drawdown are escalated (default: 10%)
+  restricted_topics: string[];        // Topics whose trades are escalated
+  escalation_ttl_ms: number;          // Pending escalations expire after (default: 5 min)
 }
 
+/**
+ * Rule a trade violated; the rejection code orders are refused with
+ */
+export type DoctrineRule =
+  | 'GLOBAL_PAUSE'
+  | 'AGENT_PAUSED'
+  | 'WASH_TRADING_PAUSED'
+  | 'MAX_POSITION_SIZE'
+  | 'MAX_TOTAL_EXPOSURE'
+  | 'BRIER_SCORE_FLOOR'
+  | 'TRUTH_SCORE_FLOOR'
+  | 'BLOCKED_TOPIC'
+  | 'TOPIC_NOT_ALLOWED'
+  | 'RATE_LIMIT'
+  | 'MIN_INTERVAL'
+  | 'MAX_DRAWDOWN'
+  | 'AMENDMENT_NEEDS_APPROVAL';
+
 export interface DoctrineViolation {
   id: string;
   agent_id: string;
-  rule: string;
+  rule: DoctrineRule;
   description: string;
   trade_details: {
     market_id: string;
-    side: 'yes' | 'no';
+    side: Outcome;
     size: number;
     price: number;
   };
@@ -63,9 +117,90 @@ export interface TradeRequest {
   agent_id: string;
   market_id: string;
   market_topic?: string;
-  side: 'yes' | 'no';
-  size: number;
-  price: number;
+  side: Outcome;                      // Outcome the trade acquires
+  size: number;                       // Shares
+  price: number;                      // Dollars paid per share
+}
+
+/**
+ * Soft threshold an escalated trade crossed
+ */
+export type EscalationRule = 'ESCALATION_POSITION_SIZE' | 'ESCALATION_DRAWDOWN' | 'RESTRICTED_TOPIC';
+
+export type EscalationStatus = 'pending' | 'approved' | 'vetoed' | 'expired' | 'failed';
+
+export interface EscalationDecision {
+  action: 'approve' | 'veto' | 'expire';
+  decided_by: string;                 // Admin user id, or 'system' on expiry
+  reason: string;
+  decided_at: Date;
+  order_id?: string;                  // Order submitted on approval
+  error?: string;                     // Why the approved order was not placed
+}
+
+/**
+ * An order held for Commander approval, with its escrow
+ */
+export interface Escalation {
+  id: string;
+  agent_id: string;
+  market_id: string;
+  order: PlaceOrderRequest;
+  trade_details: DoctrineViolation['trade_details'];
+  budget_pct: number;                 // Trade value as % of the agent's budget
+  reasons: { rule: EscalationRule; description: string }[];
+  held_amount: Micros;                // Escrow locked while pending
+  status: EscalationStatus;
+  created_at: Date;
+  expires_at: Date;
+  decision?: EscalationDecision;
+}
+
+/**
+ * What escalate() hands the journaled create command
+ */
+type NewEscalation = Omit<Escalation, 'id' | 'status' | 'created_at' | 'expires_at' | 'decision'>;
+
+/**
+ * Ratings the Brier and Truth score floors read (rating/RatingEngine.ts)
+ */
+export interface RatingLookup {
+  getRating(agentId: string): AgentRating | undefined;
+}
+
+/**
+ * Thrown by the pre-trade check when doctrine rejects an order
+ */
+export class DoctrineViolationError extends Error {
+  readonly code: DoctrineRule;
+
+  constructor(public readonly violation: DoctrineViolation) {
+    super(violation.description);
+    this.name = 'DoctrineViolationError';
+    this.code = violation.rule;
+  }
+}
+
+/**
+ * Thrown by the pre-trade check when an order is held for approval
+ */
+export class OrderEscalatedError extends Error {
+  readonly code = 'ESCALATED';
+
+  constructor(public readonly escalation: Escalation) {
+    super(`Order held for approval: ${escalation.reasons.map(r => r.description).join('; ')}`);
+    this.name = 'OrderEscalatedError';
+  }
+}
+
+export class EscalationError extends Error {
+  constructor(
+    public readonly code: 'ESCALATION_NOT_FOUND' | 'ESCALATION_NOT_PENDING' | 'ESCALATION_EXPIRED',
+    message: string
+  ) {
+    super(message);
+    this.name = 'EscalationError';
+  }
 }
 
 export interface AgentDoctrineState {
@@ -77,8 +212,8 @@ export interface AgentDoctrineState {
   position_count: number;
   recent_trades: { timestamp: Date; market_id: string }[];
   violations: DoctrineViolation[];
-  brier_score: number;
-  truth_score: number;
+  brier_score: number;                // Brier skill, 1 - Brier score (higher is better)
+  truth_score: number;                // 0-1
   peak_equity: number;
   current_drawdown: number;
 }
@@ -98,23 +233,75 @@ const DEFAULT_DOCTRINE: DoctrineConfig = {
   min_trade_interval_ms: 1000,
   max_drawdown_pct: 20,
   emergency_liquidation_pct: 40,
+  escalation_position_size_pct: 15,
+  escalation_drawdown_pct: 10,
+  restricted_topics: [],
+  escalation_ttl_ms: 5 * 60 * 1000,
 };
 
+// Budget of an agent without an escrow wallet
+const DEFAULT_BUDGET = 100000;
+
 // ============================================================================
 // DOCTRINE ENGINE
 // ============================================================================
 
-export class DoctrineEngine {
+export class DoctrineEngine implements PreTradeCheck {
   private globalPaused: boolean = false;
   private agentStates: Map<string, AgentDoctrineState> = new Map();
   private agentDoctrines: Map<string, DoctrineConfig> = new Map();
   private violations: DoctrineViolation[] = [];
+  private markets?: MarketLookup;
+  private positions?: PositionKeeper;
+  private ratings?: RatingLookup;
+  private engine?: MatchingEngine;
+  private escrow?: EscrowLedger;
+  private escalations: Map<string, Escalation> = new Map();
+  private deciding: Set<string> = new Set();       // Escalations being approved or vetoed
+  private escalationSweep: ReturnType<typeof setInterval> | null = null;
+  private journal?: EngineJournal;
   
   constructor(private eventBus: EventBus) {
     // Subscribe to relevant events
-    this.eventBus.subscribe('trade.executed', this.handleTradeExecuted.bind(this));
     this.eventBus.subscribe('market.price_update', this.handlePriceUpdate.bind(this));
   }
+
+  /**
+   * Market definitions topic restrictions match against (category and tags)
+   */
+  attachMarkets(markets: MarketLookup): void {
+    this.markets = markets;
+  }
+
+  /**
+   * Live positions exposure is measured from
+   */
+  attachPositions(positions: PositionKeeper): void {
+    this.positions = positions;
+  }
+
+  /**
+   * Ratings the score floors apply to; unrated agents keep the defaults
+   */
+  attachRatings(ratings: RatingLookup): void {
+    this.ratings = ratings;
+  }
+
+  /**
+   * Engine approved escalations are submitted to; without it and the
+   * escrow nothing is escalated
+   */
+  attachMatchingEngine(engine: MatchingEngine): void {
+    this.engine = engine;
+  }
+
+  /**
+   * Escrow agents' budgets are read from, which also holds an escalated
+   * order's collateral while it is pending
+   */
+  attachEscrow(escrow: EscrowLedger): void {
+    this.escrow = escrow;
+  }
   
   // ===========================================================================
   // AGENT DOCTRINE MANAGEMENT
@@ -143,7 +330,7 @@ export class DoctrineEngine {
   /**
    * Initialize agent state
    */
-  initializeAgent(agentId: string, budget: number, brierScore: number = 0.5, truthScore: number = 0.5): void {
+  initializeAgent(agentId: string, budget: number, brierScore: number = 0.75, truthScore: number = 0.5): void {
     const state: AgentDoctrineState = {
       agent_id: agentId,
       is_paused: false,
@@ -172,6 +359,98 @@ export class DoctrineEngine {
   // TRADE VALIDATION (DOCTRINE FILTER)
   // ===========================================================================
   
+  /**
+   * Pre-trade check for the matching engine: throws DoctrineViolationError
+   * when doctrine rejects the order, and counts it toward the rate limits
+   * otherwise. An order past a soft threshold is then held and throws
+   * OrderEscalatedError, unless it is the approved order of an escalation.
+   * A market order is valued at the worst price, 1.00 a share.
+   */
+  async checkOrder(
+    agentId: string,
+    marketId: string,
+    request: PlaceOrderRequest,
+    options: PlaceOrderOptions = {}
+  ): Promise<void> {
+    const price = request.price ?? ONE_SHARE;
+    const buying = request.side === OrderSide.BUY;
+    const market = this.markets?.get(marketId);
+
+    if (!this.agentStates.has(agentId)) {
+      this.initializeAgent(agentId, this.budgetOf(agentId) ?? DEFAULT_BUDGET);
+    }
+    this.refreshAgent(agentId);
+
+    const trade: TradeRequest = {
+      agent_id: agentId,
+      market_id: marketId,
+      market_topic: market ? [market.category, ...market.tags].filter(Boolean).join(' ') : undefined,
+      side: buying ? request.outcome : oppositeOutcome(request.outcome),
+      size: request.quantity,
+      price: fromMicros(buying ? price : complementPrice(price)),
+    };
+    const violation = this.validateTrade(trade);
+    if (violation && violation.severity !== 'warning') {
+      throw new DoctrineViolationError(violation);
+    }
+
+    const state = this.agentStates.get(agentId)!;
+    state.recent_trades.push({ timestamp: new Date(), market_id: marketId });
+    if (state.recent_trades.length > 100) {
+      state.recent_trades.shift();
+    }
+
+    if (options.escalation_id && this.deciding.has(options.escalation_id)) return;
+    const reasons = this.escalationReasons(trade, state);
+    // A resting order cannot be held mid-amendment, so the amendment is refused
+    if (reasons.length > 0 && options.amend_order_id) {
+      throw new DoctrineViolationError(this.createViolation(agentId, trade, 'AMENDMENT_NEEDS_APPROVAL',
+        `Amendment crosses approval thresholds: ${reasons.map(r => r.description).join('; ')}`, 'rejected'));
+    }
+    if (reasons.length > 0 && this.engine && this.escrow) {
+      throw new OrderEscalatedError(await this.escalate(trade, request, reasons));
+    }
+  }
+
+  /**
+   * Bring an agent's budget, exposure and scores up to date from the
+   * attached escrow, positions and ratings
+   */
+  private refreshAgent(agentId: string): void {
+    const state = this.agentStates.get(agentId)!;
+
+    if (this.positions) {
+      const open = this.positions.getAgentPositions(agentId).filter(p => p.quantity > 0);
+      state.total_exposure = open.reduce((sum, p) => sum + fromMicros(p.total_cost), 0);
+      state.position_count = open.length;
+    }
+
+    const budget = this.budgetOf(agentId);
+    if (budget !== undefined) {
+      state.current_budget = budget;
+    }
+
+    const rating = this.ratings?.getRating(agentId);
+    if (rating) {
+      state.brier_score = 1 - rating.brier_score;
+      state.truth_score = rating.truth_score / 100;
+    }
+  }
+
+  /**
+   * An agent's budget in dollars: its escrow wallet (available and locked)
+   * plus the cost basis of its open positions. Undefined without a wallet.
+   */
+  private budgetOf(agentId: string): number | undefined {
+    const balance = this.escrow?.getBalance(agentId);
+    if (!balance) return undefined;
+
+    const invested = (this.positions?.getAgentPositions(agentId) ?? [])
+      .filter(p => p.quantity > 0)
+      .reduce((sum, p) => sum + p.total_cost, 0);
+    return fromMicros(balance.total + invested);
+  }
+
   /**
    * Validate a trade against doctrine constraints
    * Returns null if valid, or a DoctrineViolation if rejected
@@ -190,9 +469,9 @@ export class DoctrineEngine {
     const doctrine = this.getAgentDoctrine(agent_id);
     
     if (!state) {
-      // Auto-initialize with default budget if not exists
-      this.initializeAgent(agent_id, 100000);
-      return null;
+      // Auto-initialize with the wallet's budget if not exists
+      this.initializeAgent(agent_id, this.budgetOf(agent_id) ?? DEFAULT_BUDGET);
+      return this.validateTrade(request);
     }
     
     // Check agent pause
@@ -201,6 +480,12 @@ export class DoctrineEngine {
         `Agent is paused: ${state.pause_reason || 'No reason specified'}`, 'rejected');
     }
     
+    // Check wash trading pause (CircuitBreaker)
+    if (washTradingDetector.isPaused(agent_id)) {
+      return this.createViolation(agent_id, request, 'WASH_TRADING_PAUSED',
+        'Agent is paused for suspected wash trading', 'rejected');
+    }
+    
     // Check position size limit
     const tradeValue = size * price;
     const maxPositionValue = state.current_budget * (doctrine.max_position_size_pct / 100);
@@ -292,7 +577,7 @@ export class DoctrineEngine {
   private createViolation(
     agentId: string, 
     request: TradeRequest, 
-    rule: string, 
+    rule: DoctrineRule, 
     description: string,
     severity: 'warning' | 'rejected' | 'critical'
   ): DoctrineViolation {
@@ -325,6 +610,316 @@ export class DoctrineEngine {
     return violation;
   }
   
+  // ===========================================================================
+  // ESCALATION QUEUE
+  // ===========================================================================
+  
+  /**
+   * Soft thresholds the trade crosses
+   */
+  private escalationReasons(request: TradeRequest, state: AgentDoctrineState): Escalation['reasons'] {
+    const doctrine = this.getAgentDoctrine(request.agent_id);
+    const reasons: Escalation['reasons'] = [];
+    
+    const budgetPct = (request.size * request.price / state.current_budget) * 100;
+    if (budgetPct > doctrine.escalation_position_size_pct) {
+      reasons.push({
+        rule: 'ESCALATION_POSITION_SIZE',
+        description: `Trade is ${budgetPct.toFixed(1)}% of budget (approval above ${doctrine.escalation_position_size_pct}%)`,
+      });
+    }
+    
+    if (state.current_drawdown >= doctrine.escalation_drawdown_pct) {
+      reasons.push({
+        rule: 'ESCALATION_DRAWDOWN',
+        description: `Agent drawdown ${state.current_drawdown.toFixed(2)}% (approval from ${doctrine.escalation_drawdown_pct}%)`,
+      });
+    }
+    
+    const topic = request.market_topic?.toLowerCase();
+    const restricted = topic && doctrine.restricted_topics.find(t => topic.includes(t.toLowerCase()));
+    if (restricted) {
+      reasons.push({
+        rule: 'RESTRICTED_TOPIC',
+        description: `Market topic "${request.market_topic}" is restricted (${restricted})`,
+      });
+    }
+    
+    return reasons;
+  }
+  
+  /**
+   * Hold the order's escrow and queue it for approval
+   */
+  private async escalate(
+    trade: TradeRequest,
+    order: PlaceOrderRequest,
+    reasons: Escalation['reasons']
+  ): Promise<Escalation> {
+    const state = this.agentStates.get(trade.agent_id)!;
+    const doctrine = this.getAgentDoctrine(trade.agent_id);
+    const pending: NewEscalation = {
+      agent_id: trade.agent_id,
+      market_id: trade.market_id,
+      order,
+      trade_details: { market_id: trade.market_id, side: trade.side, size: trade.size, price: trade.price },
+      budget_pct: (trade.size * trade.price / state.current_budget) * 100,
+      reasons,
+      held_amount: this.engine!.escrowRequired(trade.agent_id, trade.market_id, order),
+    };
+    
+    return this.journaled('escalation.create', [pending, doctrine.escalation_ttl_ms], () =>
+      this.applyEscalate(pending, doctrine.escalation_ttl_ms)
+    );
+  }
+  
+  private async applyEscalate(pending: NewEscalation, ttlMs: number): Promise<Escalation> {
+    const now = engineClock.now();
+    const escalation: Escalation = {
+      id: engineClock.newId(),
+      ...pending,
+      status: 'pending',
+      created_at: now,
+      expires_at: new Date(now.getTime() + ttlMs),
+    };
+    
+    if (escalation.held_amount > 0) {
+      const lock = await this.escrow!.lock(escalation.agent_id, escalation.held_amount, 'escalation', escalation.id);
+      if (!lock.success) {
+        throw new Error(`Insufficient funds: ${lock.error}`);
+      }
+    }
+    
+    this.escalations.set(escalation.id, escalation);
+    this.eventBus.publish('escalation.created', escalation);
+    console.log(`[Doctrine] ESCALATED: Agent ${escalation.agent_id} - ${escalation.reasons.map(r => r.rule).join(', ')}`);
+    
+    return escalation;
+  }
+  
+  /**
+   * Submit a pending escalation's order. Doctrine's hard limits still
+   * apply; if the order is rejected the escalation is marked failed.
+   */
+  async approveEscalation(id: string, decidedBy: string, reason: string): Promise<Escalation> {
+    const escalation = await this.pendingEscalation(id);
+    
+    this.deciding.add(id);
+    try {
+      // The engine skips its pre-trade check inside a journaled command, so
+      // the hard limits are checked here and the verdict journaled
+      let rejection: string | null = null;
+      if (this.journal) {
+        try {
+          await this.checkOrder(escalation.agent_id, escalation.market_id, escalation.order, { escalation_id: id });
+        } catch (error) {
+          if (!(error instanceof DoctrineViolationError)) throw error;
+          rejection = error.message;
+        }
+      }
+      
+      return await this.journaled('escalation.approve', [id, decidedBy, reason, rejection], () =>
+        this.applyApprove(id, decidedBy, reason, rejection)
+      );
+    } finally {
+      this.deciding.delete(id);
+    }
+  }
+  
+  private async applyApprove(
+    id: string,
+    decidedBy: string,
+    reason: string,
+    rejection: string | null
+  ): Promise<Escalation> {
+    const escalation = this.escalationById(id);
+    await this.releaseHeld(escalation);
+    
+    if (rejection !== null) {
+      this.decide(escalation, 'failed', { action: 'approve', decided_by: decidedBy, reason, error: rejection });
+      return escalation;
+    }
+    
+    try {
+      const { order } = await this.engine!.processOrder(
+        escalation.agent_id, escalation.market_id, escalation.order, { escalation_id: id }
+      );
+      this.decide(escalation, 'approved', { action: 'approve', decided_by: decidedBy, reason, order_id: order.id });
+    } catch (error: any) {
+      this.decide(escalation, 'failed', { action: 'approve', decided_by: decidedBy, reason, error: error.message });
+    }
+    return escalation;
+  }
+  
+  /**
+   * Drop a pending escalation, releasing its escrow
+   */
+  async vetoEscalation(id: string, decidedBy: string, reason: string): Promise<Escalation> {
+    await this.pendingEscalation(id);
+    
+    this.deciding.add(id);
+    try {
+      return await this.journaled('escalation.veto', [id, decidedBy, reason], () =>
+        this.applyVeto(id, decidedBy, reason)
+      );
+    } finally {
+      this.deciding.delete(id);
+    }
+  }
+  
+  private async applyVeto(id: string, decidedBy: string, reason: string): Promise<Escalation> {
+    const escalation = this.escalationById(id);
+    await this.releaseHeld(escalation);
+    this.decide(escalation, 'vetoed', { action: 'veto', decided_by: decidedBy, reason });
+    return escalation;
+  }
+  
+  /**
+   * Expire pending escalations past their deadline, releasing their escrow
+   */
+  async sweepExpiredEscalations(now: Date = new Date()): Promise<Escalation[]> {
+    const expired: Escalation[] = [];
+    
+    for (const escalation of this.escalations.values()) {
+      if (escalation.status === 'pending' && escalation.expires_at <= now && !this.deciding.has(escalation.id)) {
+        this.deciding.add(escalation.id);
+        try {
+          expired.push(await this.journaled('escalation.expire', [escalation.id], () =>
+            this.applyExpire(escalation.id)
+          ));
+        } finally {
+          this.deciding.delete(escalation.id);
+        }
+      }
+    }
+    
+    return expired;
+  }
+  
+  private async applyExpire(id: string): Promise<Escalation> {
+    const escalation = this.escalationById(id);
+    await this.releaseHeld(escalation);
+    this.decide(escalation, 'expired', { action: 'expire', decided_by: 'system', reason: 'Escalation expired' });
+    return escalation;
+  }
+  
+  startEscalationSweeper(intervalMs: number = 5000): void {
+    if (this.escalationSweep) return;
+    
+    this.escalationSweep = setInterval(() => {
+      this.sweepExpiredEscalations().catch(err => {
+        console.error(`[Doctrine] Escalation sweep failed: ${err.message}`);
+      });
+    }, intervalMs);
+  }
+  
+  stopEscalationSweeper(): void {
+    if (this.escalationSweep) {
+      clearInterval(this.escalationSweep);
+      this.escalationSweep = null;
+    }
+  }
+  
+  getEscalation(id: string): Escalation | undefined {
+    return this.escalations.get(id);
+  }
+  
+  /**
+   * Escalations, newest first
+   */
+  getEscalations(filter: { status?: EscalationStatus; agent_id?: string } = {}, limit: number = 50): Escalation[] {
+    return Array.from(this.escalations.values())
+      .filter(e => (!filter.status || e.status === filter.status) && (!filter.agent_id || e.agent_id === filter.agent_id))
+      .reverse()
+      .slice(0, limit);
+  }
+  
+  private escalationById(id: string): Escalation {
+    const escalation = this.escalations.get(id);
+    if (!escalation) {
+      throw new EscalationError('ESCALATION_NOT_FOUND', `Escalation ${id} not found`);
+    }
+    return escalation;
+  }
+  
+  private async pendingEscalation(id: string): Promise<Escalation> {
+    const escalation = this.escalationById(id);
+    if (escalation.status === 'pending' && escalation.expires_at <= new Date()) {
+      await this.sweepExpiredEscalations();
+    }
+    if (escalation.status === 'expired') {
+      throw new EscalationError('ESCALATION_EXPIRED', `Escalation ${id} expired at ${escalation.expires_at.toISOString()}`);
+    }
+    if (escalation.status !== 'pending' || this.deciding.has(id)) {
+      throw new EscalationError('ESCALATION_NOT_PENDING', `Escalation ${id} is ${escalation.status}`);
+    }
+    return escalation;
+  }
+  
+  private async releaseHeld(escalation: Escalation): Promise<void> {
+    if (escalation.held_amount > 0) {
+      await this.escrow!.release(escalation.agent_id, escalation.held_amount, 'escalation', escalation.id);
+    }
+  }
+  
+  private decide(
+    escalation: Escalation,
+    status: EscalationStatus,
+    decision: Omit<EscalationDecision, 'decided_at'>
+  ): void {
+    escalation.status = status;
+    escalation.decision = { ...decision, decided_at: engineClock.now() };
+    
+    this.eventBus.publish(`escalation.${status}`, escalation);
+    console.log(`[Doctrine] Escalation ${escalation.id} ${status} by ${decision.decided_by}: ${decision.reason}`);
+  }
+  
+  // ===========================================================================
+  // JOURNAL AND SNAPSHOTS
+  // ===========================================================================
+  
+  /**
+   * Journal escalations and their decisions and include the queue in
+   * snapshots, so a restart neither loses a pending escalation nor leaves
+   * its escrow locked
+   */
+  attachJournal(journal: EngineJournal): void {
+    this.journal = journal;
+    
+    journal.register('escalation.create', (pending: NewEscalation, ttlMs: number) =>
+      this.applyEscalate(pending, ttlMs));
+    journal.register('escalation.approve', (id: string, decidedBy: string, reason: string, rejection: string | null) =>
+      this.applyApprove(id, decidedBy, reason, rejection));
+    journal.register('escalation.veto', (id: string, decidedBy: string, reason: string) =>
+      this.applyVeto(id, decidedBy, reason));
+    journal.register('escalation.expire', (id: string) =>
+      this.applyExpire(id));
+    
+    journal.addParticipant('doctrine_escalations', this);
+  }
+  
+  private journaled<T>(type: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    return this.journal ? this.journal.record(type, args, fn) : fn();
+  }
+  
+  /**
+   * Escalations in creation order, which getEscalations() lists by
+   */
+  toSnapshot(): unknown {
+    return { escalations: [...this.escalations.values()] };
+  }
+  
+  restoreSnapshot(state: unknown): void {
+    const saved = state as { escalations: Escalation[] };
+    this.escalations = new Map(saved.escalations.map(e => {
+      const escalation = reviveDates({ ...e }, ['created_at', 'expires_at']);
+      if (escalation.decision) {
+        escalation.decision = reviveDates({ ...escalation.decision }, ['decided_at']);
+      }
+      return [escalation.id, escalation];
+    }));
+  }
+  
   // ===========================================================================
   // CONTROL FUNCTIONS
   // ===========================================================================
@@ -363,7 +958,7 @@ export class DoctrineEngine {
   pauseAgent(agentId: string, reason?: string): boolean {
     const state = this.agentStates.get(agentId);
     if (!state) {
-      this.initializeAgent(agentId, 100000);
+      this.initializeAgent(agentId, this.budgetOf(agentId) ?? DEFAULT_BUDGET);
     }
     
     const agentState = this.agentStates.get(agentId)!;
@@ -427,28 +1022,6 @@ export class DoctrineEngine {
   // EVENT HANDLERS
   // ===========================================================================
   
-  private handleTradeExecuted(event: any): void {
-    const { agent_id, market_id, size, price } = event;
-    
-    const state = this.agentStates.get(agent_id);
-    if (!state) return;
-    
-    // Update recent trades
-    state.recent_trades.push({
-      timestamp: new Date(),
-      market_id,
-    });
-    
-    // Keep only last 100 trades
-    if (state.recent_trades.length > 100) {
-      state.recent_trades.shift();
-    }
-    
-    // Update exposure
-    state.total_exposure += size * price;
-    state.position_count++;
-  }
-  
   private handlePriceUpdate(event: any): void {
     // Update drawdown calculations
     for (const state of this.agentStates.values()) {
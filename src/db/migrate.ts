@@ -0,0 +1,184 @@
+/**
+ * TRUTH-NET Migration Runner
+ *
+ * Applies the versioned SQL files in src/db/migrations in filename order.
+ * Each migration runs in its own transaction and is recorded in
+ * schema_migrations with a checksum; editing an applied migration is an
+ * error (add a new one instead). An advisory lock keeps concurrent runners
+ * from racing.
+ *
+ * Usage:
+ *   npm run db:migrate            # apply pending migrations
+ *   npm run db:migrate -- --status
+ */
+
+import 'dotenv/config';
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import pg from 'pg';
+import { createPool, resolveDBConfig } from './pool.js';
+
+export interface Migration {
+  version: string;     // e.g. "0001"
+  name: string;        // e.g. "core_ledger"
+  file: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied_at?: Date;
+}
+
+const MIGRATION_LOCK_ID = 741_200_001;
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+
+export const DEFAULT_MIGRATIONS_DIR = process.env.MIGRATIONS_DIR
+  || path.join(path.dirname(fileURLToPath(import.meta.url)), 'migrations');
+
+/**
+ * Read migration files from disk, sorted by version
+ */
+export function loadMigrations(dir: string = DEFAULT_MIGRATIONS_DIR): Migration[] {
+  return fs.readdirSync(dir)
+    .filter(file => MIGRATION_FILE.test(file))
+    .sort()
+    .map(file => {
+      const [, version, name] = file.match(MIGRATION_FILE)!;
+      const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+      return {
+        version,
+        name,
+        file,
+        sql,
+        checksum: createHash('sha256').update(sql).digest('hex'),
+      };
+    });
+}
+
+async function ensureMigrationsTable(client: pg.PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version     TEXT PRIMARY KEY,
+      name        TEXT NOT NULL,
+      checksum    TEXT NOT NULL,
+      applied_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+/**
+ * Apply all pending migrations. Returns the migrations that were applied.
+ */
+export async function runMigrations(
+  pool: pg.Pool,
+  dir: string = DEFAULT_MIGRATIONS_DIR
+): Promise<Migration[]> {
+  const migrations = loadMigrations(dir);
+  const client = await pool.connect();
+  const applied: Migration[] = [];
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await ensureMigrationsTable(client);
+
+    const { rows } = await client.query<{ version: string; checksum: string }>(
+      'SELECT version, checksum FROM schema_migrations'
+    );
+    const done = new Map(rows.map(r => [r.version, r.checksum]));
+
+    for (const migration of migrations) {
+      const checksum = done.get(migration.version);
+      if (checksum !== undefined) {
+        if (checksum !== migration.checksum) {
+          throw new Error(`Migration ${migration.file} was modified after it was applied`);
+        }
+        continue;
+      }
+
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw new Error(`Migration ${migration.file} failed: ${(error as Error).message}`);
+      }
+
+      applied.push(migration);
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+
+  return applied;
+}
+
+/**
+ * Applied/pending state of every migration on disk
+ */
+export async function getMigrationStatus(
+  pool: pg.Pool,
+  dir: string = DEFAULT_MIGRATIONS_DIR
+): Promise<MigrationStatus[]> {
+  const client = await pool.connect();
+  try {
+    await ensureMigrationsTable(client);
+    const { rows } = await client.query<{ version: string; applied_at: Date }>(
+      'SELECT version, applied_at FROM schema_migrations'
+    );
+    const appliedAt = new Map(rows.map(r => [r.version, r.applied_at]));
+
+    return loadMigrations(dir).map(m => ({
+      version: m.version,
+      name: m.name,
+      applied_at: appliedAt.get(m.version),
+    }));
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+async function main(): Promise<void> {
+  const pool = createPool(resolveDBConfig());
+
+  try {
+    if (process.argv.includes('--status')) {
+      for (const m of await getMigrationStatus(pool)) {
+        console.log(`${m.version}_${m.name}  ${m.applied_at ? `applied ${m.applied_at.toISOString()}` : 'pending'}`);
+      }
+      return;
+    }
+
+    const applied = await runMigrations(pool);
+    if (applied.length === 0) {
+      console.log('[Migrate] Database is up to date');
+    } else {
+      for (const m of applied) {
+        console.log(`[Migrate] Applied ${m.file}`);
+      }
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(error => {
+    console.error(`[Migrate] ${error.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,285 @@
+-- TRUTH-NET Migration 0001: Core ledger
+-- Agents, wallets, wallet transactions, markets, orders, trades and positions.
+-- Columns mirror the interfaces in src/types.ts. Ids are TEXT because the
+-- engine uses both UUIDs and readable ids (e.g. 'agent-gpt4o-001').
+
+-- ============================================================================
+-- CUSTOM TYPES
+-- ============================================================================
+
+CREATE TYPE agent_status AS ENUM ('active', 'suspended', 'banned');
+
+CREATE TYPE market_status AS ENUM (
+    'pending',
+    'active',
+    'halted',
+    'resolving',
+    'settled',
+    'cancelled'
+);
+
+CREATE TYPE order_side AS ENUM ('buy', 'sell');
+CREATE TYPE order_type AS ENUM ('limit', 'market', 'stop', 'stop_limit');
+CREATE TYPE time_in_force AS ENUM ('gtc', 'ioc', 'fok', 'gtd');
+CREATE TYPE order_status AS ENUM (
+    'pending',
+    'open',
+    'partial',
+    'filled',
+    'cancelled',
+    'expired',
+    'rejected'
+);
+
+CREATE TYPE outcome_token AS ENUM ('yes', 'no');
+CREATE TYPE match_type AS ENUM ('direct', 'mint', 'burn');
+
+CREATE TYPE tx_type AS ENUM (
+    'deposit',
+    'withdrawal',
+    'escrow_lock',
+    'escrow_release',
+    'trade_debit',
+    'trade_credit',
+    'settlement_payout',
+    'fee'
+);
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- ---------------------------------------------------------------------------
+-- AGENTS
+-- ---------------------------------------------------------------------------
+CREATE TABLE agents (
+    id              TEXT PRIMARY KEY,
+    name            VARCHAR(255) NOT NULL,
+    description     TEXT,
+    api_key_hash    VARCHAR(128) UNIQUE,           -- NULL for platform-seeded agents
+    provider        VARCHAR(255),
+    model           VARCHAR(255),
+
+    truth_score     DECIMAL(6,2) DEFAULT 0,        -- 0-100 composite rating
+    grade           VARCHAR(3) DEFAULT 'NR',
+    certified       BOOLEAN DEFAULT FALSE,
+    certified_at    TIMESTAMPTZ,
+
+    brier_score     DECIMAL(5,4) DEFAULT 0.2500,
+    sharpe_ratio    DECIMAL(8,4) DEFAULT 0,
+    max_drawdown    DECIMAL(5,4) DEFAULT 0,
+    total_trades    INTEGER DEFAULT 0,
+    winning_trades  INTEGER DEFAULT 0,
+    total_staked    DECIMAL(20,8) DEFAULT 0,
+    total_pnl       DECIMAL(20,8) DEFAULT 0,
+
+    status          agent_status DEFAULT 'active',
+    metadata        JSONB DEFAULT '{}',
+
+    created_at      TIMESTAMPTZ DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ DEFAULT NOW(),
+    last_active_at  TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT truth_score_range CHECK (truth_score >= 0 AND truth_score <= 100)
+);
+
+CREATE INDEX idx_agents_status ON agents(status);
+
+-- ---------------------------------------------------------------------------
+-- WALLETS
+-- ---------------------------------------------------------------------------
+CREATE TABLE wallets (
+    id              TEXT PRIMARY KEY,
+    agent_id        TEXT NOT NULL REFERENCES agents(id) ON DELETE CASCADE,
+    currency        VARCHAR(10) NOT NULL DEFAULT 'USDC',
+    available       DECIMAL(20,8) NOT NULL DEFAULT 0,
+    locked          DECIMAL(20,8) NOT NULL DEFAULT 0,
+    created_at      TIMESTAMPTZ DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(agent_id, currency),
+    CONSTRAINT positive_balance CHECK (available >= 0 AND locked >= 0)
+);
+
+-- ---------------------------------------------------------------------------
+-- WALLET_TRANSACTIONS: Immutable log of every balance change
+-- ---------------------------------------------------------------------------
+CREATE TABLE wallet_transactions (
+    id              TEXT PRIMARY KEY,
+    seq             BIGINT GENERATED ALWAYS AS IDENTITY,  -- Insertion order
+    wallet_id       TEXT NOT NULL REFERENCES wallets(id) ON DELETE CASCADE,
+    tx_type         tx_type NOT NULL,
+    amount          DECIMAL(20,8) NOT NULL,
+    balance_before  DECIMAL(20,8) NOT NULL,
+    balance_after   DECIMAL(20,8) NOT NULL,
+    reference_type  VARCHAR(50),
+    reference_id    TEXT,
+    description     TEXT,
+    metadata        JSONB DEFAULT '{}',
+    created_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_wallet_tx_wallet ON wallet_transactions(wallet_id, seq);
+CREATE INDEX idx_wallet_tx_ref ON wallet_transactions(reference_type, reference_id);
+
+-- ---------------------------------------------------------------------------
+-- MARKETS
+-- ---------------------------------------------------------------------------
+CREATE TABLE markets (
+    id                TEXT PRIMARY KEY,
+    ticker            VARCHAR(50) NOT NULL UNIQUE,
+    title             VARCHAR(500) NOT NULL,
+    description       TEXT,
+    resolution_schema JSONB NOT NULL,
+
+    opens_at          TIMESTAMPTZ NOT NULL,
+    closes_at         TIMESTAMPTZ NOT NULL,
+    resolves_at       TIMESTAMPTZ NOT NULL,
+
+    status            market_status DEFAULT 'pending',
+    outcome           outcome_token,
+    resolution_data   JSONB,
+
+    min_order_size    DECIMAL(20,8) DEFAULT 1,
+    max_position      DECIMAL(20,8) DEFAULT 100000,
+    fee_rate          DECIMAL(5,4) DEFAULT 0.0020,
+
+    volume_yes        DECIMAL(20,8) DEFAULT 0,
+    volume_no         DECIMAL(20,8) DEFAULT 0,
+    open_interest     DECIMAL(20,8) DEFAULT 0,
+    last_price_yes    DECIMAL(5,4),
+    last_price_no     DECIMAL(5,4),
+
+    category          VARCHAR(100),
+    tags              TEXT[] DEFAULT '{}',
+    metadata          JSONB DEFAULT '{}',
+
+    created_at        TIMESTAMPTZ DEFAULT NOW(),
+    updated_at        TIMESTAMPTZ DEFAULT NOW(),
+    settled_at        TIMESTAMPTZ,
+
+    CONSTRAINT valid_timing CHECK (opens_at < closes_at AND closes_at <= resolves_at),
+    CONSTRAINT valid_fee CHECK (fee_rate >= 0 AND fee_rate < 1)
+);
+
+CREATE INDEX idx_markets_status ON markets(status);
+CREATE INDEX idx_markets_resolves ON markets(resolves_at) WHERE status = 'active';
+
+-- ---------------------------------------------------------------------------
+-- ORDERS
+-- ---------------------------------------------------------------------------
+CREATE TABLE orders (
+    id              TEXT PRIMARY KEY,
+    agent_id        TEXT NOT NULL REFERENCES agents(id),
+    market_id       TEXT NOT NULL REFERENCES markets(id),
+
+    side            order_side NOT NULL,
+    outcome         outcome_token NOT NULL,
+    order_type      order_type NOT NULL,
+    time_in_force   time_in_force NOT NULL DEFAULT 'gtc',
+    post_only       BOOLEAN DEFAULT FALSE,
+
+    price           DECIMAL(5,4),                  -- NULL for market / stop orders
+    stop_price      DECIMAL(5,4),
+    quantity        DECIMAL(20,8) NOT NULL,
+    filled_qty      DECIMAL(20,8) DEFAULT 0,
+    remaining_qty   DECIMAL(20,8) NOT NULL,
+    locked_amount   DECIMAL(20,8) NOT NULL DEFAULT 0,
+    avg_fill_price  DECIMAL(5,4),
+
+    status          order_status DEFAULT 'pending',
+    expires_at      TIMESTAMPTZ,
+    triggered_at    TIMESTAMPTZ,
+    client_order_id VARCHAR(100),
+    metadata        JSONB DEFAULT '{}',
+
+    created_at      TIMESTAMPTZ DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ DEFAULT NOW(),
+    filled_at       TIMESTAMPTZ,
+
+    CONSTRAINT valid_price CHECK (price IS NULL OR (price >= 0.01 AND price <= 0.99)),
+    CONSTRAINT valid_quantity CHECK (quantity > 0),
+    CONSTRAINT valid_remaining CHECK (remaining_qty >= 0 AND remaining_qty <= quantity)
+);
+
+CREATE INDEX idx_orders_agent ON orders(agent_id);
+CREATE INDEX idx_orders_market ON orders(market_id);
+CREATE INDEX idx_orders_book ON orders(market_id, outcome, side, price, created_at)
+    WHERE status IN ('open', 'partial');
+
+-- ---------------------------------------------------------------------------
+-- TRADES
+-- ---------------------------------------------------------------------------
+CREATE TABLE trades (
+    id              TEXT PRIMARY KEY,
+    market_id       TEXT NOT NULL REFERENCES markets(id),
+
+    -- NULL when the trade was booked directly through the ledger
+    buy_order_id    TEXT REFERENCES orders(id),
+    sell_order_id   TEXT REFERENCES orders(id),
+    buyer_id        TEXT NOT NULL REFERENCES agents(id),
+    seller_id       TEXT NOT NULL REFERENCES agents(id),
+
+    outcome         outcome_token NOT NULL,
+    price           DECIMAL(5,4) NOT NULL,
+    quantity        DECIMAL(20,8) NOT NULL,
+    buyer_fee       DECIMAL(20,8) DEFAULT 0,
+    seller_fee      DECIMAL(20,8) DEFAULT 0,
+    match_type      match_type NOT NULL DEFAULT 'direct',
+
+    is_settled      BOOLEAN DEFAULT FALSE,
+    settlement_id   TEXT,
+    executed_at     TIMESTAMPTZ DEFAULT NOW(),
+    settled_at      TIMESTAMPTZ
+);
+
+CREATE INDEX idx_trades_market ON trades(market_id);
+CREATE INDEX idx_trades_buyer ON trades(buyer_id);
+CREATE INDEX idx_trades_seller ON trades(seller_id);
+CREATE INDEX idx_trades_executed ON trades(executed_at DESC);
+
+-- ---------------------------------------------------------------------------
+-- POSITIONS
+-- ---------------------------------------------------------------------------
+CREATE TABLE positions (
+    id              TEXT PRIMARY KEY,
+    agent_id        TEXT NOT NULL REFERENCES agents(id),
+    market_id       TEXT NOT NULL REFERENCES markets(id),
+    outcome         outcome_token NOT NULL,
+
+    quantity        DECIMAL(20,8) DEFAULT 0,
+    avg_entry_price DECIMAL(5,4),
+    total_cost      DECIMAL(20,8) DEFAULT 0,
+    realized_pnl    DECIMAL(20,8) DEFAULT 0,
+
+    created_at      TIMESTAMPTZ DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(agent_id, market_id, outcome)
+);
+
+CREATE INDEX idx_positions_market ON positions(market_id);
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER tr_agents_updated BEFORE UPDATE ON agents
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER tr_markets_updated BEFORE UPDATE ON markets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER tr_orders_updated BEFORE UPDATE ON orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER tr_positions_updated BEFORE UPDATE ON positions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
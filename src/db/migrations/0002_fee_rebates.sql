@@ -0,0 +1,5 @@
+-- TRUTH-NET Migration 0002: Fee rebates
+-- Maker rebates are paid from the platform fee account and recorded as
+-- their own wallet transaction type.
+
+ALTER TYPE tx_type ADD VALUE IF NOT EXISTS 'fee_rebate';
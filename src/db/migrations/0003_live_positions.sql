@@ -0,0 +1,11 @@
+-- TRUTH-NET Migration 0003: Live positions
+-- PositionKeeper writes every position change behind to this table.
+-- Complete sets closed out before settlement are tracked as `redeemable`,
+-- average prices keep full micro precision, and positions may reference
+-- markets that only exist in memory (seeded and live-news markets).
+
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS redeemable DECIMAL(20,8) DEFAULT 0;
+ALTER TABLE positions ALTER COLUMN avg_entry_price TYPE DECIMAL(9,6);
+ALTER TABLE positions DROP CONSTRAINT IF EXISTS positions_market_id_fkey;
+
+CREATE INDEX IF NOT EXISTS idx_positions_agent ON positions(agent_id);
@@ -0,0 +1,6 @@
+-- TRUTH-NET Migration 0004: Resolution bonds
+-- A challenged resolution that is upheld forfeits the challenger's bond to
+-- the CCP fund, recorded as its own wallet transaction type. Posting and
+-- returning a bond are ordinary escrow locks and releases.
+
+ALTER TYPE tx_type ADD VALUE IF NOT EXISTS 'bond_slash';
@@ -0,0 +1,26 @@
+-- TRUTH-NET Migration 0005: Persistent ratings
+-- RatingEngine writes each agent's rating, score history, P&L history,
+-- grade changes and certifications behind as one JSONB document, and the
+-- open predictions of unsettled markets likewise. rating_inputs is the
+-- ordered log of trades and settlements the ratings were computed from;
+-- `npm run ratings:rebuild` replays it. Agent and market ids may refer to
+-- rows that only exist in memory, so there are no foreign keys.
+
+CREATE TABLE IF NOT EXISTS rating_agents (
+    agent_id        VARCHAR(255) PRIMARY KEY,
+    state           JSONB NOT NULL,
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS rating_predictions (
+    market_id       VARCHAR(255) PRIMARY KEY,
+    predictions     JSONB NOT NULL,
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS rating_inputs (
+    seq             BIGSERIAL PRIMARY KEY,
+    kind            VARCHAR(20) NOT NULL CHECK (kind IN ('trade', 'settlement')),
+    payload         JSONB NOT NULL,
+    recorded_at     TIMESTAMPTZ NOT NULL
+);
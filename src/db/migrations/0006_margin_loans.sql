@@ -0,0 +1,6 @@
+-- TRUTH-NET Migration 0006: Margin loan repayments
+-- In margin trading mode the CCP finances part of each trade leg. When the
+-- market settles the loan is repaid out of the agent's wallet, recorded as
+-- its own wallet transaction type. Drawing a loan moves no wallet funds.
+
+ALTER TYPE tx_type ADD VALUE IF NOT EXISTS 'margin_repayment';
@@ -0,0 +1,33 @@
+-- TRUTH-NET Migration 0007: Escrow state
+-- EscrowLedger state outside wallets, so a restart with LEDGER_DRIVER=postgres
+-- resumes with the collateral it held: open trade escrows, margin loans and
+-- the balance of every other ledger account (fees, CCP, insurance fund,
+-- treasury, Stripe clearing, settlement pools). Each write-behind replaces
+-- the three tables as a whole.
+
+CREATE TABLE trade_escrows (
+    trade_id        TEXT PRIMARY KEY,
+    buyer_id        TEXT NOT NULL,
+    seller_id       TEXT NOT NULL,
+    buyer_amount    DECIMAL(20,8) NOT NULL,
+    seller_amount   DECIMAL(20,8) NOT NULL,
+    match_type      match_type NOT NULL,
+    buyer_financed  DECIMAL(20,8),
+    seller_financed DECIMAL(20,8),
+    created_at      TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE margin_loans (
+    market_id       TEXT NOT NULL,
+    agent_id        TEXT NOT NULL,
+    amount          DECIMAL(20,8) NOT NULL,
+    updated_at      TIMESTAMPTZ NOT NULL,
+
+    PRIMARY KEY (market_id, agent_id)
+);
+
+-- Balances may be negative: external accounts carry the funds they put in
+CREATE TABLE ledger_balances (
+    account         TEXT PRIMARY KEY,
+    balance         DECIMAL(20,8) NOT NULL
+);
@@ -0,0 +1,17 @@
+-- TRUTH-NET Migration 0008: Categorical outcomes
+-- Outcomes are no longer only YES / NO: a categorical market trades one
+-- token per outcome id and its negation "!id" (see markets/outcomes). The
+-- outcome columns become text, held to YES / NO, an outcome id or its
+-- negation.
+
+ALTER TABLE markets   ALTER COLUMN outcome TYPE TEXT USING outcome::TEXT;
+ALTER TABLE orders    ALTER COLUMN outcome TYPE TEXT USING outcome::TEXT;
+ALTER TABLE trades    ALTER COLUMN outcome TYPE TEXT USING outcome::TEXT;
+ALTER TABLE positions ALTER COLUMN outcome TYPE TEXT USING outcome::TEXT;
+
+DROP TYPE outcome_token;
+
+ALTER TABLE markets   ADD CONSTRAINT markets_outcome_check   CHECK (outcome ~ '^!?[a-z0-9][a-z0-9_-]{0,63}$');
+ALTER TABLE orders    ADD CONSTRAINT orders_outcome_check    CHECK (outcome ~ '^!?[a-z0-9][a-z0-9_-]{0,63}$');
+ALTER TABLE trades    ADD CONSTRAINT trades_outcome_check    CHECK (outcome ~ '^!?[a-z0-9][a-z0-9_-]{0,63}$');
+ALTER TABLE positions ADD CONSTRAINT positions_outcome_check CHECK (outcome ~ '^!?[a-z0-9][a-z0-9_-]{0,63}$');
@@ -0,0 +1,74 @@
+/**
+ * TRUTH-NET PostgreSQL Connection Pool
+ *
+ * Shared by the ledger and the migration runner. DATABASE_URL wins over the
+ * individual DB_* variables when both are set.
+ */
+
+import pg from 'pg';
+
+export interface DBConfig {
+  connectionString?: string;
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+  password: string;
+  maxConnections: number;
+  ssl?: boolean;
+}
+
+/**
+ * Resolve connection settings from explicit config, then the environment
+ */
+export function resolveDBConfig(config?: Partial<DBConfig>): DBConfig {
+  return {
+    connectionString: config?.connectionString || process.env.DATABASE_URL || undefined,
+    host: config?.host || process.env.DB_HOST || 'localhost',
+    port: config?.port || parseInt(process.env.DB_PORT || '5432'),
+    database: config?.database || process.env.DB_NAME || 'truthnet',
+    user: config?.user || process.env.DB_USER || 'truthnet',
+    password: config?.password || process.env.DB_PASSWORD || '',
+    maxConnections: config?.maxConnections || parseInt(process.env.DATABASE_POOL_SIZE || '20'),
+    ssl: config?.ssl ?? (process.env.DB_SSL === 'true'),
+  };
+}
+
+export function createPool(config: DBConfig): pg.Pool {
+  const ssl = config.ssl ? { rejectUnauthorized: false } : undefined;
+
+  if (config.connectionString) {
+    return new pg.Pool({ connectionString: config.connectionString, max: config.maxConnections, ssl });
+  }
+
+  return new pg.Pool({
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    max: config.maxConnections,
+    ssl,
+  });
+}
+
+/**
+ * Run fn inside a transaction, committing on success and rolling back on error
+ */
+export async function withTransaction<T>(
+  pool: pg.Pool,
+  fn: (client: pg.PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -51,7 +51,10 @@ CREATE TYPE tx_type AS ENUM (
     'trade_debit',
     'trade_credit',
     'settlement_payout',
-    'fee'
+    'fee',
+    'fee_rebate',
+    'bond_slash',
+    'margin_repayment'
 );
 
 -- ============================================================================
@@ -336,16 +339,17 @@ CREATE TABLE positions (
     id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     
     agent_id        UUID NOT NULL REFERENCES agents(id),
-    market_id       UUID NOT NULL REFERENCES markets(id),
+    market_id       UUID NOT NULL,                 -- Seeded markets live only in memory
     outcome         outcome_token NOT NULL,
     
     -- Position details
     quantity        DECIMAL(20,8) DEFAULT 0,       -- Net position (can be negative for shorts)
-    avg_entry_price DECIMAL(5,4),
+    avg_entry_price DECIMAL(9,6),
     total_cost      DECIMAL(20,8) DEFAULT 0,
     
     -- Realized P&L
     realized_pnl    DECIMAL(20,8) DEFAULT 0,
+    redeemable      DECIMAL(20,8) DEFAULT 0,       -- Closed complete sets, paid at settlement
     
     -- Timestamps
     created_at      TIMESTAMPTZ DEFAULT NOW(),
@@ -6,15 +6,27 @@
  * - Atomic balance updates
  * - Immutable transaction log
  * - No negative balances
+ * - Optional command journal for deterministic replay
+ * - Optional write-behind persistence (e.g. PostgresLedger)
+ * - Every movement mirrored in a double-entry GeneralLedger, checked by
+ *   verifyInvariants()
+ * - All amounts are integer micros (engine/money/Money.ts), so balances
+ *   reconcile exactly
+ * - Margin trading: the CCP finances part of a trade leg through a margin
+ *   loan, repaid out of the agent's wallet when the market settles
  */
 
-import { v4 as uuidv4 } from 'uuid';
 import {
   Wallet,
   WalletTransaction,
   TransactionType,
   EscrowLockResult,
+  MatchType,
 } from '../../types.js';
+import { engineClock } from '../journal/EngineClock.js';
+import { EngineJournal, reviveDates } from '../journal/EngineJournal.js';
+import { GeneralLedger, Accounts, LedgerEntry, LedgerSnapshot, MARGIN_LOAN_PREFIX, mayBeNegative } from './GeneralLedger.js';
+import { Micros, assertMicros, formatMicros } from '../money/Money.js';
 
 /**
  * In-memory wallet state (production would use PostgreSQL with row-level locking)
@@ -26,23 +38,111 @@ interface WalletState {
 
 /**
  * Trade escrow - funds locked for pending trades
+ *
+ * For a complementary (mint/burn) match the buyer and seller legs come from
+ * different outcome books, but together they still collateralise one full
+ * 1.00 payout per share, exactly like a direct match.
  */
-interface TradeEscrow {
+export interface TradeEscrow {
   trade_id: string;
   buyer_id: string;
   seller_id: string;
-  buyer_amount: number;
-  seller_amount: number;
+  buyer_amount: Micros;
+  seller_amount: Micros;
+  match_type: MatchType;
+  buyer_financed?: Micros;   // Parts of the legs financed by the CCP (margin trading)
+  seller_financed?: Micros;
   created_at: Date;
 }
 
+/**
+ * CCP credit an agent has drawn to trade a market on margin
+ */
+export interface MarginLoan {
+  agent_id: string;
+  market_id: string;
+  amount: Micros;
+  updated_at: Date;
+}
+
+/**
+ * One broken accounting rule found by verifyInvariants()
+ */
+export interface InvariantViolation {
+  code: 'LEDGER_UNBALANCED' | 'RUNNING_TOTAL_DRIFT' | 'WALLET_MISMATCH' | 'ESCROW_MISMATCH' | 'LOAN_MISMATCH' | 'NEGATIVE_BALANCE';
+  account?: string;
+  expected: Micros;
+  actual: Micros;
+  message: string;
+}
+
+export interface MarketSettlementResult {
+  pooled: Micros;
+  paid: Micros;
+  shortfall: Micros;
+  residual: Micros;
+  margin_repaid: Micros;
+  margin_insured: Micros;      // Unpaid margin loans absorbed by the insurance fund
+  margin_outstanding: Micros;  // Margin loans neither the borrowers nor the fund covered
+}
+
+export interface InvariantReport {
+  ok: boolean;
+  checked_at: Date;
+  entries: number;
+  accounts: number;
+  violations: InvariantViolation[];
+  totals: {
+    stripe_deposits: Micros;     // Funds received through Stripe clearing
+    treasury_credits: Micros;    // Platform-granted credits net of manual withdrawals
+    agent_available: Micros;
+    agent_locked: Micros;
+    trade_escrow: Micros;
+    settlement_pools: Micros;
+    fees: Micros;
+    ccp: Micros;
+    insurance: Micros;           // Margin insurance fund
+    margin_loans: Micros;        // Owed to the CCP by margin traders
+  };
+}
+
+/**
+ * Escrow state outside wallets: open trade escrows, margin loans and the
+ * balance of every ledger account that is not an agent's wallet
+ */
+export interface PersistedEscrowState {
+  trade_escrows: TradeEscrow[];
+  margin_loans: MarginLoan[];
+  balances: Array<{ account: string; balance: Micros }>;
+}
+
+/**
+ * Durable storage for wallets and their transaction log, and the escrow
+ * state outside them. The in-memory ledger stays authoritative; every
+ * change is written behind in order, and loaded back on startup.
+ */
+export interface WalletStore {
+  saveWallet(wallet: Wallet, transactions: WalletTransaction[]): Promise<void>;
+  loadWallets(): Promise<Array<{ wallet: Wallet; transactions: WalletTransaction[] }>>;
+  /** Replaces the stored escrow state */
+  saveEscrowState(state: PersistedEscrowState): Promise<void>;
+  /** Undefined until escrow state was first saved */
+  loadEscrowState(): Promise<PersistedEscrowState | undefined>;
+}
+
 /**
  * Escrow Ledger - manages all fund movements
  */
 export class EscrowLedger {
   private wallets: Map<string, WalletState> = new Map();
   private tradeEscrows: Map<string, TradeEscrow> = new Map();
+  private marginLoans: Map<string, MarginLoan> = new Map(); // market:agent → loan
   private currency: string = 'USDC';
+  private ledger = new GeneralLedger();
+  private journal?: EngineJournal;
+  private store?: WalletStore;
+  private storeQueue: Promise<void> = Promise.resolve();
+  private escrowStateQueued = false;
 
   // -------------------------------------------------------------------------
   // Wallet Management
@@ -51,24 +151,37 @@ export class EscrowLedger {
   /**
    * Create a new wallet for an agent
    */
-  createWallet(agentId: string, initialBalance: number = 0): Wallet {
+  createWallet(agentId: string, initialBalance: Micros = 0): Wallet {
+    if (!this.journal) return this.applyCreateWallet(agentId, initialBalance);
+    return this.journal.recordSync('wallet.create', [agentId, initialBalance], () =>
+      this.applyCreateWallet(agentId, initialBalance)
+    );
+  }
+
+  private applyCreateWallet(agentId: string, initialBalance: Micros): Wallet {
+    assertMicros(initialBalance, 'Initial balance');
     if (this.wallets.has(agentId)) {
       throw new Error(`Wallet already exists for agent ${agentId}`);
     }
 
     const wallet: Wallet = {
-      id: uuidv4(),
+      id: engineClock.newId(),
       agent_id: agentId,
       currency: this.currency,
       available: initialBalance,
       locked: 0,
-      created_at: new Date(),
-      updated_at: new Date(),
+      created_at: engineClock.now(),
+      updated_at: engineClock.now(),
     };
 
     const transactions: WalletTransaction[] = [];
 
     if (initialBalance > 0) {
+      this.ledger.post(Accounts.TREASURY, Accounts.available(agentId), initialBalance, {
+        description: 'Initial deposit',
+        reference_type: 'wallet',
+        reference_id: wallet.id,
+      });
       transactions.push(this.createTransaction(
         wallet.id,
         TransactionType.DEPOSIT,
@@ -80,6 +193,8 @@ export class EscrowLedger {
     }
 
     this.wallets.set(agentId, { wallet, transactions });
+    this.persist(wallet, transactions);
+    this.persistEscrowState();
     return wallet;
   }
 
@@ -93,7 +208,7 @@ export class EscrowLedger {
   /**
    * Get wallet balance
    */
-  getBalance(agentId: string): { available: number; locked: number; total: number } | undefined {
+  getBalance(agentId: string): { available: Micros; locked: Micros; total: Micros } | undefined {
     const state = this.wallets.get(agentId);
     if (!state) return undefined;
 
@@ -120,7 +235,27 @@ export class EscrowLedger {
   /**
    * Deposit funds to available balance
    */
-  async deposit(agentId: string, amount: number, description?: string): Promise<WalletTransaction> {
+  async deposit(agentId: string, amount: Micros, description?: string): Promise<WalletTransaction> {
+    return this.journaled('wallet.deposit', [agentId, amount, description], () =>
+      this.applyDeposit(agentId, amount, description)
+    );
+  }
+
+  private async applyDeposit(agentId: string, amount: Micros, description?: string): Promise<WalletTransaction> {
+    return this.applyCredit(agentId, amount, description ?? 'Deposit', Accounts.TREASURY);
+  }
+
+  /**
+   * Credit available balance from an external account
+   */
+  private applyCredit(
+    agentId: string,
+    amount: Micros,
+    description: string,
+    source: string,
+    referenceId?: string
+  ): WalletTransaction {
+    assertMicros(amount, 'Deposit amount');
     if (amount <= 0) {
       throw new Error('Deposit amount must be positive');
     }
@@ -132,7 +267,13 @@ export class EscrowLedger {
 
     const balanceBefore = state.wallet.available;
     state.wallet.available += amount;
-    state.wallet.updated_at = new Date();
+    state.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(source, Accounts.available(agentId), amount, {
+      description,
+      reference_type: 'deposit',
+      reference_id: referenceId,
+    });
 
     const tx = this.createTransaction(
       state.wallet.id,
@@ -140,17 +281,26 @@ export class EscrowLedger {
       amount,
       balanceBefore,
       state.wallet.available,
-      description ?? 'Deposit'
+      description,
+      referenceId ? 'deposit' : undefined,
+      referenceId
     );
 
-    state.transactions.push(tx);
+    this.appendTransaction(state, tx);
     return tx;
   }
 
   /**
    * Withdraw funds from available balance
    */
-  async withdraw(agentId: string, amount: number, description?: string): Promise<WalletTransaction> {
+  async withdraw(agentId: string, amount: Micros, description?: string): Promise<WalletTransaction> {
+    return this.journaled('wallet.withdraw', [agentId, amount, description], () =>
+      this.applyWithdraw(agentId, amount, description)
+    );
+  }
+
+  private async applyWithdraw(agentId: string, amount: Micros, description?: string): Promise<WalletTransaction> {
+    assertMicros(amount, 'Withdrawal amount');
     if (amount <= 0) {
       throw new Error('Withdrawal amount must be positive');
     }
@@ -161,12 +311,16 @@ export class EscrowLedger {
     }
 
     if (state.wallet.available < amount) {
-      throw new Error(`Insufficient available balance: ${state.wallet.available} < ${amount}`);
+      throw new Error(`Insufficient available balance: ${formatMicros(state.wallet.available)} < ${formatMicros(amount)}`);
     }
 
     const balanceBefore = state.wallet.available;
     state.wallet.available -= amount;
-    state.wallet.updated_at = new Date();
+    state.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(Accounts.available(agentId), Accounts.TREASURY, amount, {
+      description: description ?? 'Withdrawal',
+    });
 
     const tx = this.createTransaction(
       state.wallet.id,
@@ -177,7 +331,7 @@ export class EscrowLedger {
       description ?? 'Withdrawal'
     );
 
-    state.transactions.push(tx);
+    this.appendTransaction(state, tx);
     return tx;
   }
 
@@ -190,7 +344,13 @@ export class EscrowLedger {
    */
   private processedStripeSessionIds = new Set<string>();
 
-  async depositFromStripe(userId: string, amount: number, stripeSessionId: string): Promise<WalletTransaction> {
+  async depositFromStripe(userId: string, amount: Micros, stripeSessionId: string): Promise<WalletTransaction> {
+    return this.journaled('wallet.stripe_deposit', [userId, amount, stripeSessionId], () =>
+      this.applyDepositFromStripe(userId, amount, stripeSessionId)
+    );
+  }
+
+  private async applyDepositFromStripe(userId: string, amount: Micros, stripeSessionId: string): Promise<WalletTransaction> {
     // Idempotency: prevent double-credit for same Stripe session
     if (this.processedStripeSessionIds.has(stripeSessionId)) {
       throw new Error(`Stripe session ${stripeSessionId} already processed`);
@@ -205,15 +365,23 @@ export class EscrowLedger {
       this.createWallet(userId, 0);
     }
 
-    this.processedStripeSessionIds.add(stripeSessionId);
+    const tx = this.applyCredit(
+      userId,
+      amount,
+      `Stripe deposit (session: ${stripeSessionId.slice(0, 16)}...)`,
+      Accounts.STRIPE_CLEARING,
+      stripeSessionId
+    );
 
-    return this.deposit(userId, amount, `Stripe deposit (session: ${stripeSessionId.slice(0, 16)}...)`);
+    // Only a credited session counts as processed, so a failed one can be retried
+    this.processedStripeSessionIds.add(stripeSessionId);
+    return tx;
   }
 
   /**
    * Request withdrawal (locks funds, admin must approve)
    */
-  async requestWithdrawal(userId: string, amount: number): Promise<EscrowLockResult> {
+  async requestWithdrawal(userId: string, amount: Micros): Promise<EscrowLockResult> {
     return this.lock(userId, amount, 'withdrawal_pending');
   }
 
@@ -226,10 +394,22 @@ export class EscrowLedger {
    */
   async lock(
     agentId: string,
-    amount: number,
+    amount: Micros,
     referenceType: string,
     referenceId?: string
   ): Promise<EscrowLockResult> {
+    return this.journaled('escrow.lock', [agentId, amount, referenceType, referenceId], () =>
+      this.applyLock(agentId, amount, referenceType, referenceId)
+    );
+  }
+
+  private async applyLock(
+    agentId: string,
+    amount: Micros,
+    referenceType: string,
+    referenceId?: string
+  ): Promise<EscrowLockResult> {
+    assertMicros(amount, 'Lock amount');
     if (amount <= 0) {
       return { success: false, locked_amount: 0, error: 'Lock amount must be positive' };
     }
@@ -243,14 +423,20 @@ export class EscrowLedger {
       return {
         success: false,
         locked_amount: 0,
-        error: `Insufficient available balance: ${state.wallet.available.toFixed(4)} < ${amount.toFixed(4)}`,
+        error: `Insufficient available balance: ${formatMicros(state.wallet.available)} < ${formatMicros(amount)}`,
       };
     }
 
     const balanceBefore = state.wallet.available;
     state.wallet.available -= amount;
     state.wallet.locked += amount;
-    state.wallet.updated_at = new Date();
+    state.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(Accounts.available(agentId), Accounts.locked(agentId), amount, {
+      description: `Escrow lock for ${referenceType}`,
+      reference_type: referenceType,
+      reference_id: referenceId,
+    });
 
     const tx = this.createTransaction(
       state.wallet.id,
@@ -263,7 +449,7 @@ export class EscrowLedger {
       referenceId
     );
 
-    state.transactions.push(tx);
+    this.appendTransaction(state, tx);
 
     return {
       success: true,
@@ -277,10 +463,22 @@ export class EscrowLedger {
    */
   async release(
     agentId: string,
-    amount: number,
+    amount: Micros,
+    referenceType: string,
+    referenceId?: string
+  ): Promise<WalletTransaction> {
+    return this.journaled('escrow.release', [agentId, amount, referenceType, referenceId], () =>
+      this.applyRelease(agentId, amount, referenceType, referenceId)
+    );
+  }
+
+  private async applyRelease(
+    agentId: string,
+    amount: Micros,
     referenceType: string,
     referenceId?: string
   ): Promise<WalletTransaction> {
+    assertMicros(amount, 'Release amount');
     if (amount <= 0) {
       throw new Error('Release amount must be positive');
     }
@@ -291,13 +489,19 @@ export class EscrowLedger {
     }
 
     if (state.wallet.locked < amount) {
-      throw new Error(`Insufficient locked balance: ${state.wallet.locked} < ${amount}`);
+      throw new Error(`Insufficient locked balance: ${formatMicros(state.wallet.locked)} < ${formatMicros(amount)}`);
     }
 
     const balanceBefore = state.wallet.available;
     state.wallet.locked -= amount;
     state.wallet.available += amount;
-    state.wallet.updated_at = new Date();
+    state.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(Accounts.locked(agentId), Accounts.available(agentId), amount, {
+      description: `Escrow release for ${referenceType}`,
+      reference_type: referenceType,
+      reference_id: referenceId,
+    });
 
     const tx = this.createTransaction(
       state.wallet.id,
@@ -310,7 +514,7 @@ export class EscrowLedger {
       referenceId
     );
 
-    state.transactions.push(tx);
+    this.appendTransaction(state, tx);
     return tx;
   }
 
@@ -319,21 +523,42 @@ export class EscrowLedger {
    */
   async transferToTradeEscrow(
     agentId: string,
-    amount: number,
-    tradeId: string
+    amount: Micros,
+    tradeId: string,
+    role: 'buyer' | 'seller',
+    matchType: MatchType = MatchType.DIRECT
   ): Promise<void> {
+    return this.journaled('escrow.transfer', [agentId, amount, tradeId, role, matchType], () =>
+      this.applyTransferToTradeEscrow(agentId, amount, tradeId, role, matchType)
+    );
+  }
+
+  private async applyTransferToTradeEscrow(
+    agentId: string,
+    amount: Micros,
+    tradeId: string,
+    role: 'buyer' | 'seller',
+    matchType: MatchType
+  ): Promise<void> {
+    assertMicros(amount, 'Trade collateral');
     const state = this.wallets.get(agentId);
     if (!state) {
       throw new Error(`No wallet found for agent ${agentId}`);
     }
 
     if (state.wallet.locked < amount) {
-      throw new Error(`Insufficient locked balance for trade: ${state.wallet.locked} < ${amount}`);
+      throw new Error(`Insufficient locked balance for trade: ${formatMicros(state.wallet.locked)} < ${formatMicros(amount)}`);
     }
 
     // Reduce locked balance (funds now in trade escrow)
     state.wallet.locked -= amount;
-    state.wallet.updated_at = new Date();
+    state.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(Accounts.locked(agentId), Accounts.tradeEscrow(tradeId), amount, {
+      description: `Trade collateral (${role})`,
+      reference_type: 'trade',
+      reference_id: tradeId,
+    });
 
     const tx = this.createTransaction(
       state.wallet.id,
@@ -341,14 +566,83 @@ export class EscrowLedger {
       -amount,
       state.wallet.available + state.wallet.locked + amount,
       state.wallet.available + state.wallet.locked,
-      `Trade escrow transfer`,
+      matchType === MatchType.DIRECT
+        ? `Trade escrow transfer`
+        : `Trade escrow transfer (complete set ${matchType})`,
       'trade',
       tradeId
     );
+    tx.metadata = { role, match_type: matchType };
 
-    state.transactions.push(tx);
+    this.appendTransaction(state, tx);
 
     // Track in trade escrow
+    const escrow = this.tradeEscrowFor(tradeId, matchType);
+    if (role === 'buyer') {
+      escrow.buyer_id = agentId;
+      escrow.buyer_amount += amount;
+    } else {
+      escrow.seller_id = agentId;
+      escrow.seller_amount += amount;
+    }
+  }
+
+  /**
+   * Fund the rest of a margin trader's trade leg from CCP credit: the
+   * amount moves from the agent's margin loan for the market into trade
+   * escrow, so the escrow still holds the full 1.00 per share settlement
+   * pays out. The loan is repaid when the market settles.
+   */
+  async financeTradeLeg(
+    agentId: string,
+    amount: Micros,
+    tradeId: string,
+    marketId: string,
+    role: 'buyer' | 'seller',
+    matchType: MatchType = MatchType.DIRECT
+  ): Promise<void> {
+    return this.journaled('escrow.finance', [agentId, amount, tradeId, marketId, role, matchType], () =>
+      this.applyFinanceTradeLeg(agentId, amount, tradeId, marketId, role, matchType)
+    );
+  }
+
+  private async applyFinanceTradeLeg(
+    agentId: string,
+    amount: Micros,
+    tradeId: string,
+    marketId: string,
+    role: 'buyer' | 'seller',
+    matchType: MatchType
+  ): Promise<void> {
+    assertMicros(amount, 'Financed collateral');
+    if (amount <= 0) {
+      throw new Error('Financed collateral must be positive');
+    }
+    if (!this.wallets.has(agentId)) {
+      throw new Error(`No wallet found for agent ${agentId}`);
+    }
+
+    this.ledger.post(Accounts.marginLoan(agentId, marketId), Accounts.tradeEscrow(tradeId), amount, {
+      description: `Trade collateral financed by the CCP (${role})`,
+      reference_type: 'trade',
+      reference_id: tradeId,
+    });
+
+    const loan = this.marginLoanFor(agentId, marketId);
+    loan.amount += amount;
+    loan.updated_at = engineClock.now();
+
+    const escrow = this.tradeEscrowFor(tradeId, matchType);
+    if (role === 'buyer') {
+      escrow.buyer_id = agentId;
+      escrow.buyer_financed = (escrow.buyer_financed ?? 0) + amount;
+    } else {
+      escrow.seller_id = agentId;
+      escrow.seller_financed = (escrow.seller_financed ?? 0) + amount;
+    }
+  }
+
+  private tradeEscrowFor(tradeId: string, matchType: MatchType): TradeEscrow {
     let escrow = this.tradeEscrows.get(tradeId);
     if (!escrow) {
       escrow = {
@@ -357,12 +651,258 @@ export class EscrowLedger {
         seller_id: '',
         buyer_amount: 0,
         seller_amount: 0,
-        created_at: new Date(),
+        match_type: matchType,
+        created_at: engineClock.now(),
       };
       this.tradeEscrows.set(tradeId, escrow);
     }
+    return escrow;
+  }
 
-    // This simplified version doesn't track buyer vs seller separately
+  private marginLoanFor(agentId: string, marketId: string): MarginLoan {
+    const key = `${marketId}:${agentId}`;
+    let loan = this.marginLoans.get(key);
+    if (!loan) {
+      loan = { agent_id: agentId, market_id: marketId, amount: 0, updated_at: engineClock.now() };
+      this.marginLoans.set(key, loan);
+    }
+    return loan;
+  }
+
+  /**
+   * Outstanding margin loans, optionally of one agent or in one market
+   */
+  getMarginLoans(filter: { agent_id?: string; market_id?: string } = {}): MarginLoan[] {
+    return [...this.marginLoans.values()].filter(loan =>
+      (!filter.agent_id || loan.agent_id === filter.agent_id) &&
+      (!filter.market_id || loan.market_id === filter.market_id)
+    );
+  }
+
+  /**
+   * Everything an agent owes the CCP across markets
+   */
+  getMarginDebt(agentId: string): Micros {
+    return this.getMarginLoans({ agent_id: agentId }).reduce((sum, loan) => sum + loan.amount, 0);
+  }
+
+  // -------------------------------------------------------------------------
+  // Insurance Fund
+  // -------------------------------------------------------------------------
+
+  /**
+   * Move platform treasury funds into the margin insurance fund
+   */
+  async fundInsurance(amount: Micros, description?: string): Promise<void> {
+    return this.journaled('escrow.fund_insurance', [amount, description], () =>
+      this.applyFundInsurance(amount, description)
+    );
+  }
+
+  private async applyFundInsurance(amount: Micros, description?: string): Promise<void> {
+    assertMicros(amount, 'Insurance funding');
+    if (amount <= 0) {
+      throw new Error('Insurance funding must be positive');
+    }
+
+    this.ledger.post(Accounts.TREASURY, Accounts.INSURANCE, amount, {
+      description: description ?? 'Insurance fund top-up',
+      reference_type: 'insurance',
+    });
+  }
+
+  getInsuranceBalance(): Micros {
+    return this.ledger.balance(Accounts.INSURANCE);
+  }
+
+  /**
+   * Absorb a liquidated agent's deficit: the insurance fund pays down the
+   * agent's margin loans, largest first, by up to `amount` (no more than
+   * the fund holds or the agent owes). Returns the amount covered.
+   */
+  async coverMarginDeficit(agentId: string, amount: Micros, liquidationId: string): Promise<Micros> {
+    return this.journaled('escrow.cover_deficit', [agentId, amount, liquidationId], () =>
+      this.applyCoverMarginDeficit(agentId, amount, liquidationId)
+    );
+  }
+
+  private async applyCoverMarginDeficit(agentId: string, amount: Micros, liquidationId: string): Promise<Micros> {
+    assertMicros(amount, 'Deficit');
+    let remaining = Math.min(amount, this.getInsuranceBalance());
+    let covered = 0;
+
+    const loans = this.getMarginLoans({ agent_id: agentId }).sort((a, b) => b.amount - a.amount);
+    for (const loan of loans) {
+      if (remaining <= 0) break;
+      const paid = Math.min(remaining, loan.amount);
+
+      this.ledger.post(Accounts.INSURANCE, Accounts.marginLoan(agentId, loan.market_id), paid, {
+        description: `Insurance fund covers liquidation deficit of ${agentId}`,
+        reference_type: 'liquidation',
+        reference_id: liquidationId,
+      });
+      this.reduceMarginLoan(loan, paid);
+
+      remaining -= paid;
+      covered += paid;
+    }
+
+    return covered;
+  }
+
+  /**
+   * Get the escrow held for a trade
+   */
+  getTradeEscrow(tradeId: string): TradeEscrow | undefined {
+    return this.tradeEscrows.get(tradeId);
+  }
+
+  /**
+   * Move a trading fee from the agent's locked funds to the platform fee account
+   */
+  async collectFee(agentId: string, amount: Micros, tradeId: string): Promise<WalletTransaction> {
+    return this.journaled('escrow.fee', [agentId, amount, tradeId], () =>
+      this.applyCollectFee(agentId, amount, tradeId)
+    );
+  }
+
+  private async applyCollectFee(agentId: string, amount: Micros, tradeId: string): Promise<WalletTransaction> {
+    assertMicros(amount, 'Fee amount');
+    if (amount <= 0) {
+      throw new Error('Fee amount must be positive');
+    }
+
+    const state = this.wallets.get(agentId);
+    if (!state) {
+      throw new Error(`No wallet found for agent ${agentId}`);
+    }
+
+    if (state.wallet.locked < amount) {
+      throw new Error(`Insufficient locked balance for fee: ${formatMicros(state.wallet.locked)} < ${formatMicros(amount)}`);
+    }
+
+    state.wallet.locked -= amount;
+    state.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(Accounts.locked(agentId), Accounts.FEES, amount, {
+      description: 'Trading fee',
+      reference_type: 'trade',
+      reference_id: tradeId,
+    });
+
+    const tx = this.createTransaction(
+      state.wallet.id,
+      TransactionType.FEE,
+      -amount,
+      state.wallet.available + state.wallet.locked + amount,
+      state.wallet.available + state.wallet.locked,
+      'Trading fee',
+      'trade',
+      tradeId
+    );
+
+    this.appendTransaction(state, tx);
+    return tx;
+  }
+
+  /**
+   * Pay a maker rebate from the platform fee account to the agent's
+   * available funds
+   */
+  async payRebate(agentId: string, amount: Micros, tradeId: string): Promise<WalletTransaction> {
+    return this.journaled('escrow.rebate', [agentId, amount, tradeId], () =>
+      this.applyPayRebate(agentId, amount, tradeId)
+    );
+  }
+
+  private async applyPayRebate(agentId: string, amount: Micros, tradeId: string): Promise<WalletTransaction> {
+    assertMicros(amount, 'Rebate amount');
+    if (amount <= 0) {
+      throw new Error('Rebate amount must be positive');
+    }
+
+    const state = this.wallets.get(agentId);
+    if (!state) {
+      throw new Error(`No wallet found for agent ${agentId}`);
+    }
+
+    const feeBalance = this.ledger.balance(Accounts.FEES);
+    if (feeBalance < amount) {
+      throw new Error(`Insufficient fee account balance for rebate: ${formatMicros(feeBalance)} < ${formatMicros(amount)}`);
+    }
+
+    const balanceBefore = state.wallet.available + state.wallet.locked;
+    state.wallet.available += amount;
+    state.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(Accounts.FEES, Accounts.available(agentId), amount, {
+      description: 'Maker rebate',
+      reference_type: 'trade',
+      reference_id: tradeId,
+    });
+
+    const tx = this.createTransaction(
+      state.wallet.id,
+      TransactionType.FEE_REBATE,
+      amount,
+      balanceBefore,
+      balanceBefore + amount,
+      'Maker rebate',
+      'trade',
+      tradeId
+    );
+
+    this.appendTransaction(state, tx);
+    return tx;
+  }
+
+  /**
+   * Forfeit a resolution bond: the bond, locked when the challenge was
+   * filed, moves from the agent's locked funds to the CCP fund
+   */
+  async slashBond(agentId: string, amount: Micros, challengeId: string): Promise<WalletTransaction> {
+    return this.journaled('escrow.slash_bond', [agentId, amount, challengeId], () =>
+      this.applySlashBond(agentId, amount, challengeId)
+    );
+  }
+
+  private async applySlashBond(agentId: string, amount: Micros, challengeId: string): Promise<WalletTransaction> {
+    assertMicros(amount, 'Bond amount');
+    if (amount <= 0) {
+      throw new Error('Bond amount must be positive');
+    }
+
+    const state = this.wallets.get(agentId);
+    if (!state) {
+      throw new Error(`No wallet found for agent ${agentId}`);
+    }
+
+    if (state.wallet.locked < amount) {
+      throw new Error(`Insufficient locked balance for bond: ${formatMicros(state.wallet.locked)} < ${formatMicros(amount)}`);
+    }
+
+    state.wallet.locked -= amount;
+    state.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(Accounts.locked(agentId), Accounts.CCP, amount, {
+      description: 'Resolution bond slashed',
+      reference_type: 'resolution_bond',
+      reference_id: challengeId,
+    });
+
+    const tx = this.createTransaction(
+      state.wallet.id,
+      TransactionType.BOND_SLASH,
+      -amount,
+      state.wallet.available + state.wallet.locked + amount,
+      state.wallet.available + state.wallet.locked,
+      'Resolution bond slashed',
+      'resolution_bond',
+      challengeId
+    );
+
+    this.appendTransaction(state, tx);
+    return tx;
   }
 
   // -------------------------------------------------------------------------
@@ -370,14 +910,277 @@ export class EscrowLedger {
   // -------------------------------------------------------------------------
 
   /**
-   * Settle a trade - distribute funds to winner
+   * Pay out a resolved market from the collateral of its trades.
+   * Trade escrows are pooled per market, winners are paid from the pool, a
+   * shortfall is covered by the CCP fund and any residual is swept into it,
+   * so the pool always ends at zero. Margin loans in the market are then
+   * repaid out of each borrower's available balance, payout included; the
+   * insurance fund absorbs what the balance does not cover, and anything
+   * beyond the fund stays owed.
+   */
+  async settleMarketEscrows(
+    marketId: string,
+    tradeIds: string[],
+    payouts: Array<{ agent_id: string; amount: Micros }>
+  ): Promise<MarketSettlementResult> {
+    return this.journaled('escrow.settle_market', [marketId, tradeIds, payouts], () =>
+      this.applySettleMarketEscrows(marketId, tradeIds, payouts)
+    );
+  }
+
+  private async applySettleMarketEscrows(
+    marketId: string,
+    tradeIds: string[],
+    payouts: Array<{ agent_id: string; amount: Micros }>
+  ): Promise<MarketSettlementResult> {
+    const pool = Accounts.marketPool(marketId);
+    const reference = { reference_type: 'settlement', reference_id: marketId };
+    let pooled = 0;
+
+    // Validate before anything is posted so a bad payout leaves the market untouched
+    for (const p of payouts) {
+      assertMicros(p.amount, `Payout to ${p.agent_id}`);
+    }
+
+    for (const tradeId of tradeIds) {
+      const held = this.ledger.balance(Accounts.tradeEscrow(tradeId));
+      if (held > 0) {
+        this.ledger.post(Accounts.tradeEscrow(tradeId), pool, held, {
+          description: `Trade collateral pooled for market ${marketId}`,
+          ...reference,
+        });
+        pooled += held;
+      }
+      this.tradeEscrows.delete(tradeId);
+    }
+
+    const payable = payouts.filter(p => p.amount > 0 && this.wallets.has(p.agent_id));
+    for (const p of payouts) {
+      if (p.amount > 0 && !this.wallets.has(p.agent_id)) {
+        console.error(`[EscrowLedger] No wallet for ${p.agent_id}; payout ${formatMicros(p.amount)} retained by CCP`);
+      }
+    }
+
+    const owed = payable.reduce((sum, p) => sum + p.amount, 0);
+    const shortfall = owed - this.ledger.balance(pool);
+    if (shortfall > 0) {
+      this.ledger.post(Accounts.CCP, pool, shortfall, {
+        description: `CCP covers settlement shortfall for market ${marketId}`,
+        ...reference,
+      });
+    }
+
+    for (const p of payable) {
+      const state = this.wallets.get(p.agent_id)!;
+      const balanceBefore = state.wallet.available;
+      state.wallet.available += p.amount;
+      state.wallet.updated_at = engineClock.now();
+
+      this.ledger.post(pool, Accounts.available(p.agent_id), p.amount, {
+        description: `Settlement payout for market ${marketId}`,
+        ...reference,
+      });
+
+      this.appendTransaction(state, this.createTransaction(
+        state.wallet.id,
+        TransactionType.SETTLEMENT_PAYOUT,
+        p.amount,
+        balanceBefore,
+        state.wallet.available,
+        `Settlement payout for market ${marketId}`,
+        'settlement',
+        marketId
+      ));
+    }
+
+    const residual = this.ledger.balance(pool);
+    if (residual > 0) {
+      this.ledger.post(pool, Accounts.CCP, residual, {
+        description: `Settlement residual for market ${marketId}`,
+        ...reference,
+      });
+    }
+
+    const { repaid, insured, outstanding } = this.repayMarginLoans(marketId);
+
+    return {
+      pooled,
+      paid: owed,
+      shortfall: Math.max(0, shortfall),
+      residual: Math.max(0, residual),
+      margin_repaid: repaid,
+      margin_insured: insured,
+      margin_outstanding: outstanding,
+    };
+  }
+
+  private repayMarginLoans(marketId: string): { repaid: Micros; insured: Micros; outstanding: Micros } {
+    let repaid = 0;
+    let insured = 0;
+    let outstanding = 0;
+
+    for (const loan of this.getMarginLoans({ market_id: marketId })) {
+      const state = this.wallets.get(loan.agent_id);
+      const amount = Math.min(loan.amount, state?.wallet.available ?? 0);
+
+      if (state && amount > 0) {
+        const balanceBefore = state.wallet.available + state.wallet.locked;
+        state.wallet.available -= amount;
+        state.wallet.updated_at = engineClock.now();
+
+        this.ledger.post(Accounts.available(loan.agent_id), Accounts.marginLoan(loan.agent_id, marketId), amount, {
+          description: `Margin loan repaid for market ${marketId}`,
+          reference_type: 'settlement',
+          reference_id: marketId,
+        });
+
+        this.appendTransaction(state, this.createTransaction(
+          state.wallet.id,
+          TransactionType.MARGIN_REPAYMENT,
+          -amount,
+          balanceBefore,
+          balanceBefore - amount,
+          `Margin loan repaid for market ${marketId}`,
+          'settlement',
+          marketId
+        ));
+      }
+
+      this.reduceMarginLoan(loan, amount);
+      repaid += amount;
+
+      const cover = Math.min(loan.amount, this.getInsuranceBalance());
+      if (cover > 0) {
+        this.ledger.post(Accounts.INSURANCE, Accounts.marginLoan(loan.agent_id, marketId), cover, {
+          description: `Insurance fund covers unpaid margin loan for market ${marketId}`,
+          reference_type: 'settlement',
+          reference_id: marketId,
+        });
+        this.reduceMarginLoan(loan, cover);
+        insured += cover;
+      }
+
+      outstanding += loan.amount;
+      if (loan.amount > 0) {
+        console.error(`[EscrowLedger] ${loan.agent_id} still owes ${formatMicros(loan.amount)} of margin loan for market ${marketId}`);
+      }
+    }
+
+    return { repaid, insured, outstanding };
+  }
+
+  private reduceMarginLoan(loan: MarginLoan, amount: Micros): void {
+    loan.amount -= amount;
+    loan.updated_at = engineClock.now();
+    if (loan.amount <= 0) {
+      this.marginLoans.delete(`${loan.market_id}:${loan.agent_id}`);
+    }
+  }
+
+  /**
+   * Unwind the trades of a cancelled market at cost: each side gets back
+   * the collateral it put into trade escrow, and the CCP-financed parts go
+   * back to the margin loans they were drawn from. Fees are not refunded.
+   */
+  async refundMarketEscrows(
+    marketId: string,
+    tradeIds: string[]
+  ): Promise<Array<{ agent_id: string; amount: Micros }>> {
+    return this.journaled('escrow.refund_market', [marketId, tradeIds], () =>
+      this.applyRefundMarketEscrows(marketId, tradeIds)
+    );
+  }
+
+  private async applyRefundMarketEscrows(
+    marketId: string,
+    tradeIds: string[]
+  ): Promise<Array<{ agent_id: string; amount: Micros }>> {
+    const refunds = new Map<string, Micros>();
+    const reference = { reference_type: 'settlement', reference_id: marketId };
+
+    for (const tradeId of tradeIds) {
+      const escrow = this.tradeEscrows.get(tradeId);
+      if (!escrow) continue;
+
+      const financed: Array<[string, Micros]> = [
+        [escrow.buyer_id, escrow.buyer_financed ?? 0],
+        [escrow.seller_id, escrow.seller_financed ?? 0],
+      ];
+      for (const [agentId, amount] of financed) {
+        if (amount <= 0) continue;
+        this.ledger.post(Accounts.tradeEscrow(tradeId), Accounts.marginLoan(agentId, marketId), amount, {
+          description: `Financed collateral returned (market ${marketId} cancelled)`,
+          ...reference,
+        });
+        this.reduceMarginLoan(this.marginLoanFor(agentId, marketId), amount);
+      }
+
+      const legs: Array<[string, Micros]> = [
+        [escrow.buyer_id, escrow.buyer_amount],
+        [escrow.seller_id, escrow.seller_amount],
+      ];
+      for (const [agentId, amount] of legs) {
+        if (amount <= 0) continue;
+
+        const state = this.wallets.get(agentId);
+        if (!state) {
+          console.error(`[EscrowLedger] No wallet for ${agentId}; refund ${formatMicros(amount)} retained by CCP`);
+          this.ledger.post(Accounts.tradeEscrow(tradeId), Accounts.CCP, amount, {
+            description: `Unclaimed refund for cancelled market ${marketId}`,
+            ...reference,
+          });
+          continue;
+        }
+
+        const balanceBefore = state.wallet.available + state.wallet.locked;
+        state.wallet.available += amount;
+        state.wallet.updated_at = engineClock.now();
+
+        this.ledger.post(Accounts.tradeEscrow(tradeId), Accounts.available(agentId), amount, {
+          description: `Trade unwound at cost (market ${marketId} cancelled)`,
+          ...reference,
+        });
+
+        this.appendTransaction(state, this.createTransaction(
+          state.wallet.id,
+          TransactionType.TRADE_CREDIT,
+          amount,
+          balanceBefore,
+          balanceBefore + amount,
+          `Trade unwound at cost (market ${marketId} cancelled)`,
+          'trade',
+          tradeId
+        ));
+        refunds.set(agentId, (refunds.get(agentId) ?? 0) + amount);
+      }
+
+      this.tradeEscrows.delete(tradeId);
+    }
+
+    return [...refunds.entries()].map(([agent_id, amount]) => ({ agent_id, amount }));
+  }
+
+  /**
+   * Settle a trade - distribute funds to winner (paid from the CCP fund)
    */
   async settlePosition(
     winnerId: string,
     loserId: string,
-    payoutAmount: number,
+    payoutAmount: Micros,
+    marketId: string
+  ): Promise<void> {
+    return this.journaled('escrow.settle', [winnerId, loserId, payoutAmount, marketId], () =>
+      this.applySettlePosition(winnerId, loserId, payoutAmount, marketId)
+    );
+  }
+
+  private async applySettlePosition(
+    winnerId: string,
+    loserId: string,
+    payoutAmount: Micros,
     marketId: string
   ): Promise<void> {
+    assertMicros(payoutAmount, 'Payout amount');
     const winnerState = this.wallets.get(winnerId);
     const loserState = this.wallets.get(loserId);
 
@@ -388,9 +1191,16 @@ export class EscrowLedger {
     // Credit winner
     const winnerBefore = winnerState.wallet.available;
     winnerState.wallet.available += payoutAmount;
-    winnerState.wallet.updated_at = new Date();
+    winnerState.wallet.updated_at = engineClock.now();
+
+    this.ledger.post(Accounts.CCP, Accounts.available(winnerId), payoutAmount, {
+      description: `Settlement payout for market ${marketId}`,
+      reference_type: 'settlement',
+      reference_id: marketId,
+    });
 
-    winnerState.transactions.push(
+    this.appendTransaction(
+      winnerState,
       this.createTransaction(
         winnerState.wallet.id,
         TransactionType.SETTLEMENT_PAYOUT,
@@ -405,7 +1215,8 @@ export class EscrowLedger {
 
     // Loser's funds were already in escrow, just record the loss
     if (loserState) {
-      loserState.transactions.push(
+      this.appendTransaction(
+        loserState,
         this.createTransaction(
           loserState.wallet.id,
           TransactionType.SETTLEMENT_PAYOUT,
@@ -424,18 +1235,23 @@ export class EscrowLedger {
   // Utility Methods
   // -------------------------------------------------------------------------
 
+  private appendTransaction(state: WalletState, tx: WalletTransaction): void {
+    state.transactions.push(tx);
+    this.persist(state.wallet, [tx]);
+  }
+
   private createTransaction(
     walletId: string,
     txType: TransactionType,
-    amount: number,
-    balanceBefore: number,
-    balanceAfter: number,
+    amount: Micros,
+    balanceBefore: Micros,
+    balanceAfter: Micros,
     description?: string,
     referenceType?: string,
     referenceId?: string
   ): WalletTransaction {
     return {
-      id: uuidv4(),
+      id: engineClock.newId(),
       wallet_id: walletId,
       tx_type: txType,
       amount,
@@ -445,7 +1261,7 @@ export class EscrowLedger {
       reference_id: referenceId,
       description,
       metadata: {},
-      created_at: new Date(),
+      created_at: engineClock.now(),
     };
   }
 
@@ -460,11 +1276,352 @@ export class EscrowLedger {
     return result;
   }
 
+  // -------------------------------------------------------------------------
+  // Double-Entry Accounting
+  // -------------------------------------------------------------------------
+
+  getAccountBalances(): Array<{ account: string; balance: Micros }> {
+    return this.ledger.getBalances();
+  }
+
+  getLedgerEntries(filter?: { account?: string; reference_id?: string; limit?: number }): LedgerEntry[] {
+    return this.ledger.getEntries(filter);
+  }
+
+  /**
+   * Check that money is conserved and that wallets and trade escrows agree
+   * with the ledger, to the micro:
+   * - all account balances sum to zero
+   * - running balances match a full recomputation from the entries
+   * - every wallet's available / locked equals its ledger accounts
+   * - every open trade escrow equals its ledger account
+   * - every margin loan equals what its ledger account owes
+   * - no internal account other than a margin loan is negative
+   */
+  verifyInvariants(): InvariantReport {
+    const violations: InvariantViolation[] = [];
+    const differs = (a: Micros, b: Micros) => a !== b;
+
+    const recomputed = this.ledger.recomputeBalances();
+    let total = 0;
+    for (const [account, balance] of recomputed) {
+      total += balance;
+
+      const running = this.ledger.balance(account);
+      if (differs(running, balance)) {
+        violations.push({
+          code: 'RUNNING_TOTAL_DRIFT',
+          account,
+          expected: balance,
+          actual: running,
+          message: `Running balance of ${account} differs from its entries`,
+        });
+      }
+
+      if (!mayBeNegative(account) && balance < 0) {
+        violations.push({
+          code: 'NEGATIVE_BALANCE',
+          account,
+          expected: 0,
+          actual: balance,
+          message: `${account} is negative`,
+        });
+      }
+    }
+
+    if (differs(total, 0)) {
+      violations.push({
+        code: 'LEDGER_UNBALANCED',
+        expected: 0,
+        actual: total,
+        message: 'Account balances do not sum to zero',
+      });
+    }
+
+    for (const [agentId, { wallet }] of this.wallets) {
+      const checks: Array<[string, Micros]> = [
+        [Accounts.available(agentId), wallet.available],
+        [Accounts.locked(agentId), wallet.locked],
+      ];
+      for (const [account, actual] of checks) {
+        const expected = recomputed.get(account) ?? 0;
+        if (differs(expected, actual)) {
+          violations.push({
+            code: 'WALLET_MISMATCH',
+            account,
+            expected,
+            actual,
+            message: `Wallet of ${agentId} disagrees with ${account}`,
+          });
+        }
+      }
+    }
+
+    for (const escrow of this.tradeEscrows.values()) {
+      const account = Accounts.tradeEscrow(escrow.trade_id);
+      const expected = recomputed.get(account) ?? 0;
+      const actual = escrow.buyer_amount + escrow.seller_amount
+        + (escrow.buyer_financed ?? 0) + (escrow.seller_financed ?? 0);
+      if (differs(expected, actual)) {
+        violations.push({
+          code: 'ESCROW_MISMATCH',
+          account,
+          expected,
+          actual,
+          message: `Trade escrow ${escrow.trade_id} disagrees with its ledger account`,
+        });
+      }
+    }
+
+    for (const loan of this.marginLoans.values()) {
+      const account = Accounts.marginLoan(loan.agent_id, loan.market_id);
+      const expected = -(recomputed.get(account) ?? 0);
+      if (differs(expected, loan.amount)) {
+        violations.push({
+          code: 'LOAN_MISMATCH',
+          account,
+          expected,
+          actual: loan.amount,
+          message: `Margin loan of ${loan.agent_id} disagrees with its ledger account`,
+        });
+      }
+    }
+
+    const sumPrefix = (prefix: string, suffix = '') => {
+      let sum = 0;
+      for (const [account, balance] of recomputed) {
+        if (account.startsWith(prefix) && account.endsWith(suffix)) sum += balance;
+      }
+      return sum;
+    };
+
+    return {
+      ok: violations.length === 0,
+      checked_at: new Date(),
+      entries: this.ledger.getEntryCount(),
+      accounts: recomputed.size,
+      violations,
+      totals: {
+        stripe_deposits: -(recomputed.get(Accounts.STRIPE_CLEARING) ?? 0),
+        treasury_credits: -(recomputed.get(Accounts.TREASURY) ?? 0),
+        agent_available: sumPrefix('agent:', ':available'),
+        agent_locked: sumPrefix('agent:', ':locked'),
+        trade_escrow: sumPrefix('escrow:trade:'),
+        settlement_pools: sumPrefix('escrow:market:'),
+        fees: recomputed.get(Accounts.FEES) ?? 0,
+        ccp: recomputed.get(Accounts.CCP) ?? 0,
+        insurance: recomputed.get(Accounts.INSURANCE) ?? 0,
+        margin_loans: -sumPrefix(MARGIN_LOAN_PREFIX),
+      },
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+
+  /**
+   * Write every wallet change through to a store
+   */
+  attachStore(store: WalletStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Load persisted wallets (wallets already in memory are kept) and the
+   * escrow state around them. Stripe sessions already credited are
+   * recognised from the wallets' deposit transactions.
+   */
+  async loadFromStore(): Promise<number> {
+    if (!this.store) return 0;
+
+    const state = await this.store.loadEscrowState();
+    const balances: Array<{ account: string; balance: Micros }> = [];
+    let loaded = 0;
+
+    for (const { wallet, transactions } of await this.store.loadWallets()) {
+      if (this.wallets.has(wallet.agent_id)) continue;
+      this.wallets.set(wallet.agent_id, { wallet, transactions });
+      for (const tx of transactions) {
+        if (tx.tx_type === TransactionType.DEPOSIT && tx.reference_type === 'deposit' && tx.reference_id) {
+          this.processedStripeSessionIds.add(tx.reference_id);
+        }
+      }
+
+      if (state) {
+        balances.push(
+          { account: Accounts.available(wallet.agent_id), balance: wallet.available },
+          { account: Accounts.locked(wallet.agent_id), balance: wallet.locked },
+        );
+      } else {
+        // Stored before escrow state was: the platform funded every wallet
+        this.ledger.open(Accounts.available(wallet.agent_id), wallet.available, Accounts.TREASURY);
+        this.ledger.open(Accounts.locked(wallet.agent_id), wallet.locked, Accounts.TREASURY);
+      }
+      loaded++;
+    }
+
+    if (state) {
+      for (const escrow of state.trade_escrows) {
+        this.tradeEscrows.set(escrow.trade_id, escrow);
+      }
+      for (const loan of state.margin_loans) {
+        this.marginLoans.set(`${loan.market_id}:${loan.agent_id}`, loan);
+      }
+      this.ledger.openBalances([...balances, ...state.balances]);
+    }
+    return loaded;
+  }
+
+  /**
+   * Resolves once every queued write has reached the store
+   */
+  flushStore(): Promise<void> {
+    return this.storeQueue;
+  }
+
+  private persist(wallet: Wallet, transactions: WalletTransaction[]): void {
+    const store = this.store;
+    if (!store) return;
+
+    const snapshot = { ...wallet };
+    this.storeQueue = this.storeQueue
+      .then(() => store.saveWallet(snapshot, transactions))
+      .catch(err => {
+        console.error(`[EscrowLedger] Failed to persist wallet ${wallet.agent_id}: ${err.message}`);
+      });
+  }
+
+  /**
+   * Queue a write of the escrow state. Writes coalesce: one that has not
+   * started yet carries every later change too.
+   */
+  private persistEscrowState(): void {
+    const store = this.store;
+    if (!store || this.escrowStateQueued) return;
+
+    this.escrowStateQueued = true;
+    this.storeQueue = this.storeQueue
+      .then(() => {
+        this.escrowStateQueued = false;
+        return store.saveEscrowState({
+          trade_escrows: [...this.tradeEscrows.values()].map(e => ({ ...e })),
+          margin_loans: [...this.marginLoans.values()].map(l => ({ ...l })),
+          balances: this.ledger.getBalances().filter(b => !b.account.startsWith('agent:')),
+        });
+      })
+      .catch(err => {
+        console.error(`[EscrowLedger] Failed to persist escrow state: ${err.message}`);
+      });
+  }
+
+  // -------------------------------------------------------------------------
+  // Journal and Snapshots
+  // -------------------------------------------------------------------------
+
+  /**
+   * Journal every fund movement and include wallets in snapshots
+   */
+  attachJournal(journal: EngineJournal): void {
+    this.journal = journal;
+
+    journal.register('wallet.create', (agentId: string, initialBalance: Micros) =>
+      this.createWallet(agentId, initialBalance));
+    journal.register('wallet.deposit', (agentId: string, amount: Micros, description?: string) =>
+      this.deposit(agentId, amount, description ?? undefined));
+    journal.register('wallet.withdraw', (agentId: string, amount: Micros, description?: string) =>
+      this.withdraw(agentId, amount, description ?? undefined));
+    journal.register('wallet.stripe_deposit', (userId: string, amount: Micros, sessionId: string) =>
+      this.depositFromStripe(userId, amount, sessionId));
+    journal.register('escrow.lock', (agentId: string, amount: Micros, refType: string, refId?: string) =>
+      this.lock(agentId, amount, refType, refId ?? undefined));
+    journal.register('escrow.release', (agentId: string, amount: Micros, refType: string, refId?: string) =>
+      this.release(agentId, amount, refType, refId ?? undefined));
+    journal.register('escrow.transfer', (agentId: string, amount: Micros, tradeId: string, role: 'buyer' | 'seller', matchType: MatchType) =>
+      this.transferToTradeEscrow(agentId, amount, tradeId, role, matchType));
+    journal.register('escrow.settle', (winnerId: string, loserId: string, payout: Micros, marketId: string) =>
+      this.settlePosition(winnerId, loserId, payout, marketId));
+    journal.register('escrow.finance', (agentId: string, amount: Micros, tradeId: string, marketId: string, role: 'buyer' | 'seller', matchType: MatchType) =>
+      this.financeTradeLeg(agentId, amount, tradeId, marketId, role, matchType));
+    journal.register('escrow.fund_insurance', (amount: Micros, description?: string) =>
+      this.fundInsurance(amount, description ?? undefined));
+    journal.register('escrow.cover_deficit', (agentId: string, amount: Micros, liquidationId: string) =>
+      this.coverMarginDeficit(agentId, amount, liquidationId));
+    journal.register('escrow.fee', (agentId: string, amount: Micros, tradeId: string) =>
+      this.collectFee(agentId, amount, tradeId));
+    journal.register('escrow.rebate', (agentId: string, amount: Micros, tradeId: string) =>
+      this.payRebate(agentId, amount, tradeId));
+    journal.register('escrow.slash_bond', (agentId: string, amount: Micros, challengeId: string) =>
+      this.slashBond(agentId, amount, challengeId));
+    journal.register('escrow.refund_market', (marketId: string, tradeIds: string[]) =>
+      this.refundMarketEscrows(marketId, tradeIds));
+    journal.register('escrow.settle_market', (marketId: string, tradeIds: string[], payouts: Array<{ agent_id: string; amount: Micros }>) =>
+      this.settleMarketEscrows(marketId, tradeIds, payouts));
+
+    journal.addParticipant('escrow_ledger', this);
+  }
+
+  private async journaled<T>(type: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    try {
+      return await (this.journal ? this.journal.record(type, args, fn) : fn());
+    } finally {
+      this.persistEscrowState();
+    }
+  }
+
+  /**
+   * Serializable state of all wallets (sorted by agent), their transaction
+   * logs, trade escrows, processed Stripe sessions and ledger entries
+   */
+  /**
+   * Balances, open trade escrows and margin loans. Transaction and ledger
+   * entry history is left out, so a snapshot stays the size of the open
+   * state; wallets restored from one start with an empty history.
+   */
+  toSnapshot(): unknown {
+    return {
+      wallets: [...this.wallets.keys()].sort().map(agentId => this.wallets.get(agentId)!.wallet),
+      trade_escrows: [...this.tradeEscrows.values()],
+      margin_loans: [...this.marginLoans.values()],
+      processed_stripe_sessions: [...this.processedStripeSessionIds],
+      ledger: this.ledger.toSnapshot(),
+    };
+  }
+
+  restoreSnapshot(state: unknown): void {
+    const saved = state as {
+      wallets: Wallet[];
+      trade_escrows: TradeEscrow[];
+      margin_loans: MarginLoan[];
+      processed_stripe_sessions: string[];
+      ledger: LedgerSnapshot;
+    };
+
+    this.wallets.clear();
+    for (const wallet of saved.wallets) {
+      this.wallets.set(wallet.agent_id, {
+        wallet: reviveDates(wallet, ['created_at', 'updated_at']),
+        transactions: [],
+      });
+    }
+
+    this.tradeEscrows = new Map(
+      saved.trade_escrows.map(e => [e.trade_id, reviveDates(e, ['created_at'])])
+    );
+    this.marginLoans = new Map(
+      saved.margin_loans.map(l => [`${l.market_id}:${l.agent_id}`, reviveDates(l, ['updated_at'])])
+    );
+    this.processedStripeSessionIds = new Set(saved.processed_stripe_sessions);
+    this.ledger.restoreSnapshot(saved.ledger);
+  }
+
   /**
    * Reset ledger (for testing)
    */
   reset(): void {
     this.wallets.clear();
     this.tradeEscrows.clear();
+    this.marginLoans.clear();
+    this.ledger.reset();
   }
 }
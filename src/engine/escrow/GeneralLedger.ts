@@ -0,0 +1,221 @@
+/**
+ * TRUTH-NET General Ledger
+ * Double-entry record of every fund movement
+ *
+ * Each entry moves a positive amount from one account to another, so the
+ * balances of all accounts always sum to zero. Money enters the platform
+ * from an external account (Stripe clearing or the platform treasury),
+ * which therefore carries a negative balance equal to the funds it put in.
+ * Amounts are integer micros, so the zero sum is exact.
+ *
+ * Accounts:
+ * - agent:<id>:available     spendable wallet balance
+ * - agent:<id>:locked        funds locked for open orders / withdrawals
+ * - escrow:trade:<tradeId>   collateral held for an executed trade
+ * - escrow:market:<marketId> settlement pool while a market pays out
+ * - platform:fees            trading fees collected, net of maker rebates
+ * - platform:ccp             CCP / insurance fund (settlement residuals, slashed bonds)
+ * - platform:insurance       Margin insurance fund, absorbs liquidation deficits
+ * - margin:loan:<marketId>:<agentId>
+ *                            CCP credit financing an agent's margin trades in
+ *                            a market; negative by what the agent owes
+ * - platform:treasury        platform-granted credits and manual transfers
+ * - external:stripe_clearing Stripe deposits in transit
+ */
+
+import { engineClock } from '../journal/EngineClock.js';
+import { Micros, assertMicros } from '../money/Money.js';
+
+// ============================================================================
+// ACCOUNTS
+// ============================================================================
+
+export const Accounts = {
+  FEES: 'platform:fees',
+  CCP: 'platform:ccp',
+  INSURANCE: 'platform:insurance',
+  TREASURY: 'platform:treasury',
+  STRIPE_CLEARING: 'external:stripe_clearing',
+
+  available: (agentId: string) => `agent:${agentId}:available`,
+  locked: (agentId: string) => `agent:${agentId}:locked`,
+  tradeEscrow: (tradeId: string) => `escrow:trade:${tradeId}`,
+  marketPool: (marketId: string) => `escrow:market:${marketId}`,
+  marginLoan: (agentId: string, marketId: string) => `margin:loan:${marketId}:${agentId}`,
+} as const;
+
+/** Prefix of every margin loan account */
+export const MARGIN_LOAN_PREFIX = 'margin:loan:';
+
+/**
+ * External accounts are where funds enter the platform from
+ */
+export function isExternalAccount(account: string): boolean {
+  return account === Accounts.TREASURY || account === Accounts.STRIPE_CLEARING;
+}
+
+/**
+ * Accounts whose balance may be negative: external accounts, and margin
+ * loans, which carry the agent's debt to the CCP
+ */
+export function mayBeNegative(account: string): boolean {
+  return isExternalAccount(account) || account.startsWith(MARGIN_LOAN_PREFIX);
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LedgerEntry {
+  id: string;
+  seq: number;
+  from_account: string;
+  to_account: string;
+  amount: Micros;
+  reference_type?: string;
+  reference_id?: string;
+  description: string;
+  created_at: Date;
+}
+
+/** Balances at a snapshot; the entries that led to them are not kept */
+export interface LedgerSnapshot {
+  next_seq: number;
+  balances: Array<{ account: string; balance: Micros }>;
+}
+
+export interface PostingDetails {
+  description: string;
+  reference_type?: string;
+  reference_id?: string;
+}
+
+// ============================================================================
+// GENERAL LEDGER
+// ============================================================================
+
+export class GeneralLedger {
+  private entries: LedgerEntry[] = [];
+  private balances: Map<string, Micros> = new Map();
+  private opening: Map<string, Micros> = new Map();  // Balances carried in without their entries
+  private nextSeq = 1;
+
+  /**
+   * Move amount from one account to another
+   */
+  post(from: string, to: string, amount: Micros, details: PostingDetails): LedgerEntry {
+    assertMicros(amount, 'Ledger posting amount');
+    if (amount <= 0) {
+      throw new Error(`Ledger posting amount must be positive: ${amount}`);
+    }
+    if (from === to) {
+      throw new Error(`Ledger posting must move funds between two accounts (${from})`);
+    }
+
+    const entry: LedgerEntry = {
+      id: engineClock.newId(),
+      seq: this.nextSeq++,
+      from_account: from,
+      to_account: to,
+      amount,
+      reference_type: details.reference_type,
+      reference_id: details.reference_id,
+      description: details.description,
+      created_at: engineClock.now(),
+    };
+
+    this.entries.push(entry);
+    this.balances.set(from, this.balance(from) - amount);
+    this.balances.set(to, this.balance(to) + amount);
+    return entry;
+  }
+
+  balance(account: string): Micros {
+    return this.balances.get(account) ?? 0;
+  }
+
+  /**
+   * Balances of every account that has ever been posted to, sorted by name
+   */
+  getBalances(): Array<{ account: string; balance: Micros }> {
+    return [...this.balances.keys()].sort().map(account => ({
+      account,
+      balance: this.balances.get(account)!,
+    }));
+  }
+
+  /**
+   * Balances recomputed from the opening balances and the entries
+   * (independent of the running totals)
+   */
+  recomputeBalances(): Map<string, Micros> {
+    const result = new Map(this.opening);
+    for (const entry of this.entries) {
+      result.set(entry.from_account, (result.get(entry.from_account) ?? 0) - entry.amount);
+      result.set(entry.to_account, (result.get(entry.to_account) ?? 0) + entry.amount);
+    }
+    return result;
+  }
+
+  getEntries(filter?: { account?: string; reference_id?: string; limit?: number }): LedgerEntry[] {
+    let entries = this.entries;
+    if (filter?.account) {
+      entries = entries.filter(e => e.from_account === filter.account || e.to_account === filter.account);
+    }
+    if (filter?.reference_id) {
+      entries = entries.filter(e => e.reference_id === filter.reference_id);
+    }
+    return filter?.limit ? entries.slice(-filter.limit) : entries;
+  }
+
+  getEntryCount(): number {
+    return this.entries.length;
+  }
+
+  // -------------------------------------------------------------------------
+  // Snapshots
+  // -------------------------------------------------------------------------
+
+  toSnapshot(): LedgerSnapshot {
+    return { next_seq: this.nextSeq, balances: this.getBalances() };
+  }
+
+  /**
+   * Restore the balances as opening balances; entries start again empty
+   * and keep numbering from the snapshot
+   */
+  restoreSnapshot(snapshot: LedgerSnapshot): void {
+    this.entries = [];
+    this.opening = new Map(snapshot.balances.map(({ account, balance }) => [account, balance]));
+    this.balances = this.recomputeBalances();
+    this.nextSeq = snapshot.next_seq;
+  }
+
+  /**
+   * Seed an opening entry for a balance that predates the ledger
+   * (e.g. wallets loaded from a store written before double-entry existed)
+   */
+  open(account: string, amount: Micros, source: string): void {
+    if (amount > 0) {
+      this.post(source, account, amount, { description: 'Opening balance' });
+    }
+  }
+
+  /**
+   * Carry in balances whose entries live elsewhere (a store or the journal).
+   * They must sum to zero, like every posting does.
+   */
+  openBalances(balances: Array<{ account: string; balance: Micros }>): void {
+    for (const { account, balance } of balances) {
+      this.opening.set(account, (this.opening.get(account) ?? 0) + balance);
+      this.balances.set(account, this.balance(account) + balance);
+    }
+  }
+
+  reset(): void {
+    this.entries = [];
+    this.balances.clear();
+    this.opening.clear();
+    this.nextSeq = 1;
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * TRUTH-NET Fee Schedule
+ * Maker/taker fees with volume tiers, plan caps, market-maker rebates and
+ * per-market overrides
+ *
+ * The rate an agent pays is chosen in this order:
+ * 1. A per-market override, when the market has one for that side
+ * 2. The agent's volume tier (traded notional over the rolling window),
+ *    capped at the highest tier the agent's plan unlocks
+ * 3. Designated market makers earn a rebate instead of paying the maker fee
+ *
+ * Rates are basis points of trade value; a negative rate is a rebate.
+ * Plans are the ApiKey.tier subscription plans.
+ */
+
+import { engineClock } from '../journal/EngineClock.js';
+import { EngineJournal } from '../journal/EngineJournal.js';
+import { Micros, MICROS_PER_UNIT } from '../money/Money.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FeePlan = 'free' | 'developer' | 'pro' | 'enterprise';
+export type Liquidity = 'maker' | 'taker';
+
+export interface VolumeTier {
+  name: string;
+  min_volume: Micros; // Traded notional over the volume window
+  maker_bps: number;
+  taker_bps: number;
+}
+
+export interface MarketFeeOverride {
+  maker_bps?: number;
+  taker_bps?: number;
+}
+
+export interface FeeScheduleConfig {
+  tiers: VolumeTier[];                   // Ascending min_volume, first tier starts at 0
+  planMaxTier: Record<FeePlan, number>;  // Highest tier index each plan unlocks
+  marketMakerRebateBps: number;          // Paid to market makers on maker fills
+  volumeWindowDays: number;
+}
+
+export interface AgentFeeRates {
+  agent_id: string;
+  market_id?: string;
+  plan: FeePlan;
+  market_maker: boolean;
+  volume: Micros;
+  tier: string;
+  maker_bps: number;
+  taker_bps: number;
+}
+
+const DEFAULT_CONFIG: FeeScheduleConfig = {
+  tiers: [
+    { name: 'base', min_volume: 0, maker_bps: 10, taker_bps: 20 },
+    { name: 'silver', min_volume: 100_000 * MICROS_PER_UNIT, maker_bps: 8, taker_bps: 18 },
+    { name: 'gold', min_volume: 1_000_000 * MICROS_PER_UNIT, maker_bps: 5, taker_bps: 15 },
+    { name: 'platinum', min_volume: 10_000_000 * MICROS_PER_UNIT, maker_bps: 2, taker_bps: 12 },
+  ],
+  planMaxTier: { free: 0, developer: 1, pro: 2, enterprise: 3 },
+  marketMakerRebateBps: 2,
+  volumeWindowDays: 30,
+};
+
+/** Upper bound on any single rate (10%, the CreateMarketRequest fee_rate cap) */
+const MAX_FEE_BPS = 1_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// FEE SCHEDULE
+// ============================================================================
+
+export class FeeSchedule {
+  private config: FeeScheduleConfig;
+  private plans: Map<string, FeePlan> = new Map();
+  private marketMakers: Set<string> = new Set();
+  private overrides: Map<string, MarketFeeOverride> = new Map();
+  private volume: Map<string, Map<number, Micros>> = new Map(); // agentId → day → notional
+  private journal?: EngineJournal;
+
+  constructor(config: Partial<FeeScheduleConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.validateConfig();
+  }
+
+  // -------------------------------------------------------------------------
+  // Rates
+  // -------------------------------------------------------------------------
+
+  /**
+   * Rate in bps an agent pays for one side of a fill (negative = rebate)
+   */
+  rateFor(agentId: string, marketId: string, liquidity: Liquidity): number {
+    const rates = this.getAgentRates(agentId, marketId);
+    return liquidity === 'maker' ? rates.maker_bps : rates.taker_bps;
+  }
+
+  /**
+   * Effective maker and taker rates for an agent, optionally in one market
+   */
+  getAgentRates(agentId: string, marketId?: string): AgentFeeRates {
+    const plan = this.getPlan(agentId);
+    const volume = this.getVolume(agentId);
+    const tier = this.tierFor(volume, plan);
+    const override = marketId ? this.overrides.get(marketId) : undefined;
+    const marketMaker = this.marketMakers.has(agentId);
+
+    const makerBps = override?.maker_bps ?? tier.maker_bps;
+    return {
+      agent_id: agentId,
+      market_id: marketId,
+      plan,
+      market_maker: marketMaker,
+      volume,
+      tier: tier.name,
+      maker_bps: marketMaker ? -this.config.marketMakerRebateBps : makerBps,
+      taker_bps: override?.taker_bps ?? tier.taker_bps,
+    };
+  }
+
+  /**
+   * Highest rate any fill in the market can be charged; orders lock this
+   * much fee headroom
+   */
+  reserveBps(marketId: string): number {
+    const override = this.overrides.get(marketId);
+    const rates = this.config.tiers.flatMap(t => [
+      override?.maker_bps ?? t.maker_bps,
+      override?.taker_bps ?? t.taker_bps,
+    ]);
+    return Math.max(0, ...rates);
+  }
+
+  private tierFor(volume: Micros, plan: FeePlan): VolumeTier {
+    const maxTier = this.config.planMaxTier[plan];
+    let index = 0;
+    for (let i = 1; i <= maxTier && i < this.config.tiers.length; i++) {
+      if (volume >= this.config.tiers[i].min_volume) index = i;
+    }
+    return this.config.tiers[index];
+  }
+
+  // -------------------------------------------------------------------------
+  // Volume
+  // -------------------------------------------------------------------------
+
+  /**
+   * Add a fill's notional to the agent's rolling volume
+   */
+  recordVolume(agentId: string, amount: Micros): void {
+    const today = this.dayOf(engineClock.now());
+    const days = this.volume.get(agentId) ?? new Map<number, Micros>();
+    days.set(today, (days.get(today) ?? 0) + amount);
+
+    for (const day of days.keys()) {
+      if (day <= today - this.config.volumeWindowDays) days.delete(day);
+    }
+    this.volume.set(agentId, days);
+  }
+
+  /**
+   * Traded notional over the volume window
+   */
+  getVolume(agentId: string): Micros {
+    const days = this.volume.get(agentId);
+    if (!days) return 0;
+
+    const since = this.dayOf(engineClock.now()) - this.config.volumeWindowDays;
+    let total = 0;
+    for (const [day, amount] of days) {
+      if (day > since) total += amount;
+    }
+    return total;
+  }
+
+  private dayOf(date: Date): number {
+    return Math.floor(date.getTime() / DAY_MS);
+  }
+
+  // -------------------------------------------------------------------------
+  // Assignments
+  // -------------------------------------------------------------------------
+
+  /**
+   * Set the subscription plan that caps an agent's volume tier
+   */
+  async setAgentPlan(agentId: string, plan: FeePlan): Promise<void> {
+    return this.journaled('fees.plan', [agentId, plan], async () => {
+      if (!(plan in this.config.planMaxTier)) {
+        throw new Error(`Unknown fee plan: ${plan}`);
+      }
+      if (plan === 'free') {
+        this.plans.delete(agentId);
+      } else {
+        this.plans.set(agentId, plan);
+      }
+    });
+  }
+
+  getPlan(agentId: string): FeePlan {
+    return this.plans.get(agentId) ?? 'free';
+  }
+
+  /**
+   * Designate (or undesignate) an agent as a market maker
+   */
+  async setMarketMaker(agentId: string, enabled: boolean): Promise<void> {
+    return this.journaled('fees.market_maker', [agentId, enabled], async () => {
+      if (enabled) {
+        this.marketMakers.add(agentId);
+      } else {
+        this.marketMakers.delete(agentId);
+      }
+    });
+  }
+
+  isMarketMaker(agentId: string): boolean {
+    return this.marketMakers.has(agentId);
+  }
+
+  /**
+   * Pin the maker and/or taker rate of a market (null clears the override)
+   */
+  async setMarketOverride(marketId: string, override: MarketFeeOverride | null): Promise<void> {
+    return this.journaled('fees.market_override', [marketId, override], async () => {
+      if (!override) {
+        this.overrides.delete(marketId);
+        return;
+      }
+      for (const [label, bps] of Object.entries(override)) {
+        if (bps !== undefined) this.validateBps(bps, `Market ${label}`);
+      }
+      this.overrides.set(marketId, { ...override });
+    });
+  }
+
+  getMarketOverride(marketId: string): MarketFeeOverride | undefined {
+    return this.overrides.get(marketId);
+  }
+
+  // -------------------------------------------------------------------------
+  // Schedule
+  // -------------------------------------------------------------------------
+
+  /**
+   * The published schedule
+   */
+  getSchedule() {
+    return {
+      tiers: this.config.tiers.map(t => ({ ...t })),
+      plan_max_tier: { ...this.config.planMaxTier },
+      market_maker_rebate_bps: this.config.marketMakerRebateBps,
+      volume_window_days: this.config.volumeWindowDays,
+      market_overrides: Object.fromEntries(this.overrides),
+    };
+  }
+
+  private validateConfig(): void {
+    const { tiers, marketMakerRebateBps } = this.config;
+    if (tiers.length === 0 || tiers[0].min_volume !== 0) {
+      throw new Error('Fee schedule needs a first tier starting at zero volume');
+    }
+    for (let i = 0; i < tiers.length; i++) {
+      this.validateBps(tiers[i].maker_bps, `${tiers[i].name} maker`);
+      this.validateBps(tiers[i].taker_bps, `${tiers[i].name} taker`);
+      if (i > 0 && tiers[i].min_volume <= tiers[i - 1].min_volume) {
+        throw new Error('Fee tiers must be in ascending min_volume order');
+      }
+    }
+    if (marketMakerRebateBps < 0 || marketMakerRebateBps > MAX_FEE_BPS) {
+      throw new Error(`Invalid market maker rebate: ${marketMakerRebateBps} bps`);
+    }
+  }
+
+  private validateBps(bps: number, label: string): void {
+    if (!Number.isInteger(bps) || bps < 0 || bps > MAX_FEE_BPS) {
+      throw new Error(`${label} fee must be a whole number of bps between 0 and ${MAX_FEE_BPS}: ${bps}`);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Journal and Snapshots
+  // -------------------------------------------------------------------------
+
+  /**
+   * Journal plan, market-maker and override changes and include them (and
+   * rolling volume) in snapshots
+   */
+  attachJournal(journal: EngineJournal): void {
+    this.journal = journal;
+
+    journal.register('fees.plan', (agentId: string, plan: FeePlan) =>
+      this.setAgentPlan(agentId, plan));
+    journal.register('fees.market_maker', (agentId: string, enabled: boolean) =>
+      this.setMarketMaker(agentId, enabled));
+    journal.register('fees.market_override', (marketId: string, override: MarketFeeOverride | null) =>
+      this.setMarketOverride(marketId, override));
+
+    journal.addParticipant('fee_schedule', this);
+  }
+
+  private journaled<T>(type: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    return this.journal ? this.journal.record(type, args, fn) : fn();
+  }
+
+  toSnapshot(): unknown {
+    const sorted = <V>(map: Map<string, V>) => [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
+    return {
+      plans: sorted(this.plans),
+      market_makers: [...this.marketMakers].sort(),
+      overrides: sorted(this.overrides),
+      volume: sorted(this.volume).map(([agentId, days]) =>
+        [agentId, [...days.entries()].sort(([a], [b]) => a - b)]
+      ),
+    };
+  }
+
+  restoreSnapshot(state: unknown): void {
+    const saved = state as {
+      plans: Array<[string, FeePlan]>;
+      market_makers: string[];
+      overrides: Array<[string, MarketFeeOverride]>;
+      volume: Array<[string, Array<[number, Micros]>]>;
+    };
+
+    this.plans = new Map(saved.plans);
+    this.marketMakers = new Set(saved.market_makers);
+    this.overrides = new Map(saved.overrides);
+    this.volume = new Map(saved.volume.map(([agentId, days]) => [agentId, new Map(days)]));
+  }
+}
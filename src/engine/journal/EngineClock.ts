@@ -0,0 +1,80 @@
+/**
+ * TRUTH-NET Engine Clock
+ * Deterministic time and id source for journaled engine commands
+ *
+ * Every timestamp and id the engine produces while executing a command comes
+ * from here. Inside a command the clock is frozen at the command's timestamp
+ * and generated ids are captured; during replay the recorded timestamp and
+ * ids are handed back in the same order, so a replayed command produces
+ * byte-identical state.
+ *
+ * Outside of a command it behaves like `new Date()` and `uuidv4()`.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface CommandContext {
+  ts: Date;
+  ids: string[];       // Generated (live) or still to hand out (replay)
+  replaying: boolean;
+  closed: boolean;     // Set once the command has finished
+}
+
+export class EngineClock {
+  private storage = new AsyncLocalStorage<CommandContext>();
+
+  /**
+   * Current time (the command timestamp while a command is running)
+   */
+  now(): Date {
+    const ctx = this.active();
+    return ctx ? new Date(ctx.ts.getTime()) : new Date();
+  }
+
+  /**
+   * New unique id (recorded or replayed while a command is running)
+   */
+  newId(): string {
+    const ctx = this.active();
+    if (!ctx) return uuidv4();
+
+    if (ctx.replaying) {
+      const id = ctx.ids.shift();
+      if (!id) {
+        throw new Error('Journal replay diverged: command used more ids than were recorded');
+      }
+      return id;
+    }
+
+    const id = uuidv4();
+    ctx.ids.push(id);
+    return id;
+  }
+
+  /**
+   * Whether the caller is already inside a command
+   */
+  inCommand(): boolean {
+    return this.active() !== undefined;
+  }
+
+  /**
+   * Run fn as a command with the given context
+   */
+  run<T>(ctx: CommandContext, fn: () => T): T {
+    return this.storage.run(ctx, fn);
+  }
+
+  /**
+   * Timers and fire-and-forget promises started inside a command inherit its
+   * async context; once the command has finished they must see live time
+   */
+  private active(): CommandContext | undefined {
+    const ctx = this.storage.getStore();
+    return ctx && !ctx.closed ? ctx : undefined;
+  }
+}
+
+// Singleton instance
+export const engineClock = new EngineClock();
@@ -0,0 +1,380 @@
+/**
+ * TRUTH-NET Engine Journal
+ * Append-only command journal with periodic snapshots and replay
+ *
+ * Every command that reaches the matching engine, escrow ledger or
+ * settlement service (place, cancel, amend, expire, resolve, wallet
+ * operations) is executed one at a time and appended to journal.jsonl with
+ * its timestamp and the ids it generated. Snapshots of order books, wallets
+ * and settlement state are written next to it.
+ *
+ * Recovery loads the latest snapshot and replays every later journal entry
+ * through the same code paths, reproducing byte-identical books and
+ * balances (verified via state hashes).
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { engineClock, CommandContext } from './EngineClock.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface JournalEntry {
+  seq: number;
+  type: string;
+  ts: string;          // ISO 8601 command timestamp
+  args: unknown[];
+  ids: string[];       // Ids generated while executing, in order
+  error?: string;      // Commands that threw are replayed too (they may have moved state)
+}
+
+export interface JournalSnapshot {
+  seq: number;
+  created_at: string;
+  state_hash: string;
+  state: Record<string, unknown>;
+}
+
+/**
+ * A component whose state is captured in snapshots
+ */
+export interface SnapshotParticipant {
+  toSnapshot(): unknown;
+  restoreSnapshot(state: unknown): void;
+}
+
+export interface EngineJournalConfig {
+  dir: string;
+  snapshotIntervalMs: number;
+  snapshotsToKeep: number;
+}
+
+export interface RecoveryResult {
+  snapshot_seq: number;
+  replayed: number;
+  last_seq: number;
+  state_hash: string;
+}
+
+type ReplayHandler = (...args: any[]) => unknown;
+
+const DEFAULT_CONFIG: Omit<EngineJournalConfig, 'dir'> = {
+  snapshotIntervalMs: 5 * 60 * 1000,
+  snapshotsToKeep: 5,
+};
+
+const JOURNAL_FILE = 'journal.jsonl';
+const SNAPSHOT_PREFIX = 'snapshot-';
+
+/**
+ * Turn ISO strings back into Dates on a restored record
+ */
+export function reviveDates<T extends object>(record: T, fields: string[]): T {
+  const target = record as Record<string, unknown>;
+  for (const field of fields) {
+    if (typeof target[field] === 'string') {
+      target[field] = new Date(target[field] as string);
+    }
+  }
+  return record;
+}
+
+/**
+ * JSON with object keys sorted, so equal state always serializes to equal bytes
+ * regardless of the order in which fields were assigned
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+// ============================================================================
+// ENGINE JOURNAL
+// ============================================================================
+
+export class EngineJournal {
+  private config: EngineJournalConfig;
+  private seq = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+  private handlers: Map<string, ReplayHandler> = new Map();
+  private participants: Map<string, SnapshotParticipant> = new Map();
+  private snapshotInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: Partial<EngineJournalConfig> & { dir: string }) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    fs.mkdirSync(this.config.dir, { recursive: true });
+  }
+
+  // -------------------------------------------------------------------------
+  // Registration
+  // -------------------------------------------------------------------------
+
+  /**
+   * Register how to re-execute a command type during replay
+   */
+  register(type: string, handler: ReplayHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Register a component whose state is included in snapshots
+   */
+  addParticipant(name: string, participant: SnapshotParticipant): void {
+    this.participants.set(name, participant);
+  }
+
+  // -------------------------------------------------------------------------
+  // Recording
+  // -------------------------------------------------------------------------
+
+  /**
+   * Execute an async command and journal it.
+   * Commands run one at a time; a command issued from inside another (or
+   * during replay) runs inline as part of the outer command.
+   */
+  record<T>(type: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    if (engineClock.inCommand()) return fn();
+
+    const run = async (): Promise<T> => {
+      const ctx = this.openContext();
+      let error: string | undefined;
+      try {
+        return await engineClock.run(ctx, fn);
+      } catch (err) {
+        error = (err as Error).message ?? String(err);
+        throw err;
+      } finally {
+        ctx.closed = true;
+        this.append(type, args, ctx, error);
+      }
+    };
+
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Execute a synchronous command and journal it
+   */
+  recordSync<T>(type: string, args: unknown[], fn: () => T): T {
+    if (engineClock.inCommand()) return fn();
+
+    const ctx = this.openContext();
+    let error: string | undefined;
+    try {
+      return engineClock.run(ctx, fn);
+    } catch (err) {
+      error = (err as Error).message ?? String(err);
+      throw err;
+    } finally {
+      ctx.closed = true;
+      this.append(type, args, ctx, error);
+    }
+  }
+
+  private openContext(): CommandContext {
+    return { ts: new Date(), ids: [], replaying: false, closed: false };
+  }
+
+  private append(type: string, args: unknown[], ctx: CommandContext, error?: string): void {
+    const entry: JournalEntry = {
+      seq: ++this.seq,
+      type,
+      ts: ctx.ts.toISOString(),
+      args,
+      ids: ctx.ids,
+      ...(error !== undefined ? { error } : {}),
+    };
+    fs.appendFileSync(this.journalPath, JSON.stringify(entry) + '\n');
+  }
+
+  // -------------------------------------------------------------------------
+  // Snapshots
+  // -------------------------------------------------------------------------
+
+  /**
+   * Canonical serialization of every participant's state
+   */
+  captureState(): string {
+    const state: Record<string, unknown> = {};
+    for (const [name, participant] of this.participants) {
+      state[name] = participant.toSnapshot();
+    }
+    return canonicalJson(state);
+  }
+
+  /**
+   * SHA-256 of the canonical state
+   */
+  stateHash(): string {
+    return createHash('sha256').update(this.captureState()).digest('hex');
+  }
+
+  /**
+   * Write a snapshot once all in-flight commands have finished
+   */
+  async snapshot(): Promise<JournalSnapshot> {
+    const take = async (): Promise<JournalSnapshot> => {
+      const serialized = this.captureState();
+      const snapshot: JournalSnapshot = {
+        seq: this.seq,
+        created_at: new Date().toISOString(),
+        state_hash: createHash('sha256').update(serialized).digest('hex'),
+        state: JSON.parse(serialized),
+      };
+
+      const file = path.join(this.config.dir, `${SNAPSHOT_PREFIX}${String(snapshot.seq).padStart(12, '0')}.json`);
+      fs.writeFileSync(`${file}.tmp`, JSON.stringify(snapshot));
+      fs.renameSync(`${file}.tmp`, file);
+      this.pruneSnapshots();
+      return snapshot;
+    };
+
+    const result = this.queue.then(take, take);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  startSnapshots(intervalMs: number = this.config.snapshotIntervalMs): void {
+    if (this.snapshotInterval) return;
+
+    this.snapshotInterval = setInterval(() => {
+      this.snapshot().catch(err => {
+        console.error(`[Journal] Snapshot failed: ${err.message}`);
+      });
+    }, intervalMs);
+  }
+
+  stopSnapshots(): void {
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = null;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Recovery
+  // -------------------------------------------------------------------------
+
+  /**
+   * Restore the latest snapshot and replay every later journal entry.
+   * Runs in the command queue so nothing new is recorded meanwhile.
+   */
+  async recover(): Promise<RecoveryResult> {
+    const result = this.queue.then(() => this.replayAll());
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async replayAll(): Promise<RecoveryResult> {
+    const snapshot = this.loadLatestSnapshot();
+    let snapshotSeq = 0;
+
+    if (snapshot) {
+      for (const [name, participant] of this.participants) {
+        if (snapshot.state[name] !== undefined) {
+          participant.restoreSnapshot(snapshot.state[name]);
+        }
+      }
+
+      const restoredHash = this.stateHash();
+      if (restoredHash !== snapshot.state_hash) {
+        throw new Error(`Snapshot ${snapshot.seq} restored with hash ${restoredHash}, expected ${snapshot.state_hash}`);
+      }
+      snapshotSeq = snapshot.seq;
+    }
+
+    let replayed = 0;
+    this.seq = snapshotSeq;
+
+    for (const entry of this.readEntries()) {
+      if (entry.seq <= snapshotSeq) continue;
+
+      await this.replayEntry(entry);
+      this.seq = entry.seq;
+      replayed++;
+    }
+
+    return {
+      snapshot_seq: snapshotSeq,
+      replayed,
+      last_seq: this.seq,
+      state_hash: this.stateHash(),
+    };
+  }
+
+  private async replayEntry(entry: JournalEntry): Promise<void> {
+    const handler = this.handlers.get(entry.type);
+    if (!handler) {
+      throw new Error(`No replay handler registered for journal entry type ${entry.type}`);
+    }
+
+    const ctx: CommandContext = {
+      ts: new Date(entry.ts),
+      ids: [...entry.ids],
+      replaying: true,
+      closed: false,
+    };
+
+    try {
+      await engineClock.run(ctx, () => handler(...entry.args));
+    } catch (err) {
+      if (entry.error === undefined) {
+        throw new Error(`Journal replay diverged at seq ${entry.seq} (${entry.type}): ${(err as Error).message}`);
+      }
+    } finally {
+      ctx.closed = true;
+    }
+
+    if (entry.error === undefined && ctx.ids.length > 0) {
+      throw new Error(`Journal replay diverged at seq ${entry.seq} (${entry.type}): ${ctx.ids.length} recorded ids unused`);
+    }
+  }
+
+  private readEntries(): JournalEntry[] {
+    if (!fs.existsSync(this.journalPath)) return [];
+
+    return fs.readFileSync(this.journalPath, 'utf8')
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as JournalEntry);
+  }
+
+  private loadLatestSnapshot(): JournalSnapshot | undefined {
+    const latest = this.listSnapshots().pop();
+    if (!latest) return undefined;
+    return JSON.parse(fs.readFileSync(path.join(this.config.dir, latest), 'utf8')) as JournalSnapshot;
+  }
+
+  private listSnapshots(): string[] {
+    return fs.readdirSync(this.config.dir)
+      .filter(f => f.startsWith(SNAPSHOT_PREFIX) && f.endsWith('.json'))
+      .sort();
+  }
+
+  private pruneSnapshots(): void {
+    const snapshots = this.listSnapshots();
+    for (const file of snapshots.slice(0, Math.max(0, snapshots.length - this.config.snapshotsToKeep))) {
+      fs.unlinkSync(path.join(this.config.dir, file));
+    }
+  }
+
+  private get journalPath(): string {
+    return path.join(this.config.dir, JOURNAL_FILE);
+  }
+
+  // -------------------------------------------------------------------------
+  // Getters
+  // -------------------------------------------------------------------------
+
+  getLastSeq(): number {
+    return this.seq;
+  }
+}
@@ -4,43 +4,166 @@
  *
  * Asynchronous, low-latency order matching with:
  * - Price-time priority
+ * - Complementary YES/NO cross-matching (complete-set mint/burn)
+ * - Categorical markets: one book per outcome, matched directly
+ * - Time-in-force (GTC, IOC, FOK, GTD), post-only and stop orders
+ * - In-place amendment (cancel/replace) with queue-priority rules
+ * - Maker/taker fees from the fee schedule (engine/fees/FeeSchedule.ts)
+ * - Optional trading gate for market status and trading windows
+ * - Optional pre-trade risk check (doctrine, kill switch, paused agents)
+ * - Optional CCP clearing for margin trading (clearinghouse/MarginEngine.ts)
+ * - Optional command journal for deterministic replay
  * - Atomic escrow management
  * - Trade event emission
+ *
+ * Prices, escrow and fees are integer micros (engine/money/Money.ts).
  */
 
-import { v4 as uuidv4 } from 'uuid';
 import {
   Order,
   OrderSide,
   OrderStatus,
   OrderType,
-  OutcomeToken,
+  Outcome,
+  MatchType,
+  TimeInForce,
   Trade,
   MatchResult,
   PlaceOrderRequest,
+  AmendOrderRequest,
 } from '../../types.js';
-import { OrderBook, MarketOrderBooks } from '../orderbook/OrderBook.js';
+import { MarketOrderBooks } from '../orderbook/OrderBook.js';
 import { EscrowLedger } from '../escrow/EscrowLedger.js';
 import { EventBus } from '../../events/EventBus.js';
+import { engineClock } from '../journal/EngineClock.js';
+import { EngineJournal, reviveDates } from '../journal/EngineJournal.js';
+import { FeeSchedule, FeeScheduleConfig, Liquidity } from '../fees/FeeSchedule.js';
+import { oppositeOutcome } from '../../markets/outcomes.js';
+import {
+  Micros,
+  ONE_SHARE,
+  applyBps,
+  applyBpsDown,
+  assertMicros,
+  assertShares,
+  complementPrice,
+  divRound,
+  notional,
+  shareValue,
+} from '../money/Money.js';
 
 export interface MatchingEngineConfig {
   maxOrdersPerMatch: number; // Limit iterations per match cycle
-  minPriceIncrement: number; // Tick size (e.g., 0.01)
+  minPriceIncrement: Micros; // Tick size (10_000 = 0.01)
+  fees: Partial<FeeScheduleConfig>; // Maker/taker fee schedule overrides
+  expirySweepIntervalMs: number; // How often GTD orders are swept
 }
 
 const DEFAULT_CONFIG: MatchingEngineConfig = {
   maxOrdersPerMatch: 100,
-  minPriceIncrement: 0.01,
+  minPriceIncrement: 10_000,
+  fees: {},
+  expirySweepIntervalMs: 1000,
 };
 
+/** Market orders lock their estimated cost plus 5% */
+const MARKET_ORDER_BUFFER_BPS = 10_500;
+
+/**
+ * A resting order that an incoming order can trade against, with the fill
+ * price expressed in the incoming order's outcome
+ */
+interface CrossCandidate {
+  resting: Order;
+  price: Micros;
+  matchType: MatchType;
+}
+
+/**
+ * Terminal event to publish after orders.created when an order does not
+ * (or no longer) rest on the book
+ */
+interface OrderOutcomeEvent {
+  channel: 'orders.cancelled' | 'orders.rejected';
+  reason: string;
+}
+
+/**
+ * Decides whether a market accepts new orders (see markets/MarketRegistry.ts)
+ */
+export interface TradingGate {
+  /** Why the market rejects orders at `now`, or undefined when it trades */
+  rejectionReason(marketId: string, now: Date): string | undefined;
+}
+
+/**
+ * Pre-trade risk check every new order, and every amendment that adds
+ * exposure, passes before it is journaled (see core/DoctrineEngine.ts).
+ * Liquidation orders and replayed commands skip it.
+ */
+export interface PreTradeCheck {
+  /** Throws to reject (or hold) the order */
+  checkOrder(agentId: string, marketId: string, request: PlaceOrderRequest, options: PlaceOrderOptions): Promise<void>;
+}
+
+/**
+ * Shares a leg leaves its agent holding: a buy its outcome, a sell the
+ * opposite one
+ */
+export interface ClearingLeg {
+  market_id: string;
+  outcome: Outcome;
+  quantity: number;
+}
+
+/**
+ * Clears trades through the CCP in margin trading mode (see
+ * clearinghouse/MarginEngine.ts). Orders lock only the collateral the
+ * agent posts; at execution the CCP novates the trade and finances the
+ * rest of each leg, so trade escrow still holds 1.00 per share.
+ */
+export interface TradeClearing {
+  /** Part of a leg's collateral the agent posts itself */
+  postedCollateral(agentId: string, leg: ClearingLeg, collateral: Micros): Micros;
+  /** Take the trade onto the CCP, financing the unposted part of each leg */
+  novateTrade(trade: Trade, financed: { buyer: Micros; seller: Micros }): Promise<void>;
+}
+
+/**
+ * How an order is placed. Only the CCP places liquidation orders: they
+ * lock nothing, and the CCP finances their legs in full, fee-free.
+ */
+export interface PlaceOrderOptions {
+  liquidation?: boolean;
+  escalation_id?: string; // Approved escalation the order was held in
+  amend_order_id?: string; // Resting order the request amends (pre-trade check only)
+}
+
+/**
+ * Thrown when an order or amendment reaches a market that is not trading
+ */
+export class MarketNotTradingError extends Error {
+  constructor(public readonly marketId: string, public readonly reason: string) {
+    super(`Market ${marketId} is not accepting orders: ${reason}`);
+    this.name = 'MarketNotTradingError';
+  }
+}
+
 /**
  * Core matching engine for TRUTH-NET
  */
 export class MatchingEngine {
   private markets: Map<string, MarketOrderBooks> = new Map();
+  private stopOrders: Map<string, Order[]> = new Map(); // marketId -> untriggered stops
+  private sweepInterval: ReturnType<typeof setInterval> | null = null;
+  private journal?: EngineJournal;
+  private gate?: TradingGate;
+  private preTrade?: PreTradeCheck;
+  private clearing?: TradeClearing;
   private config: MatchingEngineConfig;
   private escrow: EscrowLedger;
   private eventBus: EventBus;
+  private fees: FeeSchedule;
 
   constructor(
     escrow: EscrowLedger,
@@ -50,6 +173,7 @@ export class MatchingEngine {
     this.escrow = escrow;
     this.eventBus = eventBus;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.fees = new FeeSchedule(this.config.fees);
   }
 
   // -------------------------------------------------------------------------
@@ -57,14 +181,22 @@ export class MatchingEngine {
   // -------------------------------------------------------------------------
 
   /**
-   * Initialize order books for a new market
+   * Initialize order books for a new market: YES / NO, or one book per
+   * outcome of a categorical market
    */
-  initializeMarket(marketId: string): void {
+  initializeMarket(marketId: string, outcomes?: Outcome[]): void {
     if (!this.markets.has(marketId)) {
-      this.markets.set(marketId, new MarketOrderBooks(marketId));
+      this.markets.set(marketId, new MarketOrderBooks(marketId, outcomes));
     }
   }
 
+  /**
+   * Fee schedule applied to every fill
+   */
+  getFeeSchedule(): FeeSchedule {
+    return this.fees;
+  }
+
   /**
    * Get order books for a market
    */
@@ -73,27 +205,80 @@ export class MatchingEngine {
   }
 
   /**
-   * Clear all orders for a market (on settlement or cancellation)
+   * Reject orders and amendments the gate does not allow
    */
-  clearMarket(marketId: string): Order[] {
-    const books = this.markets.get(marketId);
-    if (!books) return [];
+  attachTradingGate(gate: TradingGate): void {
+    this.gate = gate;
+  }
 
-    const clearedOrders: Order[] = [];
+  /**
+   * Escrow placing the order would lock now
+   */
+  escrowRequired(agentId: string, marketId: string, request: PlaceOrderRequest): Micros {
+    const books = this.markets.get(marketId) ?? new MarketOrderBooks(marketId);
+    return this.calculateEscrowRequired(
+      agentId,
+      request.side,
+      request.order_type,
+      request.price,
+      request.quantity,
+      books,
+      request.outcome
+    );
+  }
+
+  /**
+   * Run every new order past the check before it reaches the books
+   */
+  attachPreTradeCheck(check: PreTradeCheck): void {
+    this.preTrade = check;
+  }
 
-    // Collect all orders from both books
-    for (const outcome of [OutcomeToken.YES, OutcomeToken.NO]) {
-      const book = books.getBook(outcome);
-      const snapshot = book.getSnapshot(1000);
+  /**
+   * Trade on margin: clear every trade through the CCP
+   */
+  attachClearing(clearing: TradeClearing): void {
+    this.clearing = clearing;
+  }
 
-      for (const level of [...snapshot.bids, ...snapshot.asks]) {
-        // We'd need to extract individual orders - this is simplified
-        // In production, we'd iterate through order IDs
+  /**
+   * Cancel every resting and untriggered stop order in a market, releasing
+   * its escrow (on close, settlement or cancellation). The books are kept,
+   * so the last trade prices stay available.
+   */
+  async clearMarket(marketId: string, reason: string = 'market_closed'): Promise<Order[]> {
+    return this.journaled('order.clear_market', [marketId, reason], () =>
+      this.applyClearMarket(marketId, reason)
+    );
+  }
+
+  private async applyClearMarket(marketId: string, reason: string): Promise<Order[]> {
+    const cleared: Order[] = [];
+
+    const books = this.markets.get(marketId);
+    if (books) {
+      for (const book of books.getBooks()) {
+        for (const order of book.getAllOrders()) {
+          book.removeOrder(order.id);
+          cleared.push(await this.finalizeOrder(order, OrderStatus.CANCELLED, 'orders.cancelled', reason));
+        }
       }
     }
 
-    this.markets.delete(marketId);
-    return clearedOrders;
+    const stops = this.stopOrders.get(marketId) ?? [];
+    this.stopOrders.delete(marketId);
+    for (const stop of stops) {
+      cleared.push(await this.finalizeOrder(stop, OrderStatus.CANCELLED, 'orders.cancelled', reason));
+    }
+
+    return cleared;
+  }
+
+  private assertTrading(marketId: string): void {
+    const reason = this.gate?.rejectionReason(marketId, engineClock.now());
+    if (reason) {
+      throw new MarketNotTradingError(marketId, reason);
+    }
   }
 
   // -------------------------------------------------------------------------
@@ -102,40 +287,73 @@ export class MatchingEngine {
 
   /**
    * Process a new order
-   * Handles escrow locking, matching, and book insertion
+   * Handles validation, escrow locking, matching, and book insertion
    */
   async processOrder(
     agentId: string,
     marketId: string,
-    request: PlaceOrderRequest
+    request: PlaceOrderRequest,
+    options: PlaceOrderOptions = {}
   ): Promise<{ order: Order; result: MatchResult }> {
+    // Rejections are not journaled, so replay must not re-run the check
+    if (this.preTrade && !options.liquidation && !engineClock.inCommand()) {
+      await this.preTrade.checkOrder(agentId, marketId, request, options);
+    }
+    return this.journaled('order.place', [agentId, marketId, request, options], () =>
+      this.applyPlaceOrder(agentId, marketId, request, options)
+    );
+  }
+
+  private async applyPlaceOrder(
+    agentId: string,
+    marketId: string,
+    request: PlaceOrderRequest,
+    options: PlaceOrderOptions
+  ): Promise<{ order: Order; result: MatchResult }> {
+    this.assertTrading(marketId);
+    if (options.liquidation && !this.clearing) {
+      throw new Error('Liquidation orders require CCP clearing');
+    }
+
     // Validate market exists
     let books = this.markets.get(marketId);
     if (!books) {
       this.initializeMarket(marketId);
       books = this.markets.get(marketId)!;
     }
+    if (!books.hasOutcome(request.outcome)) {
+      throw new Error(`Market ${marketId} has no outcome '${request.outcome}'`);
+    }
 
-    const book = books.getBook(request.outcome);
+    const timeInForce = request.time_in_force
+      ?? (request.expires_at ? TimeInForce.GTD : TimeInForce.GTC);
+    const expiresAt = request.expires_at ? new Date(request.expires_at) : undefined;
+    this.validateOrderRequest(request, timeInForce, expiresAt);
 
-    // Calculate required escrow
-    const escrowRequired = this.calculateEscrowRequired(
+    // Calculate required escrow (none for a liquidation order)
+    const escrowRequired = options.liquidation ? 0 : this.calculateEscrowRequired(
+      agentId,
       request.side,
       request.order_type,
       request.price,
       request.quantity,
-      book
+      books,
+      request.outcome
     );
 
     // Lock escrow
-    const lockResult = await this.escrow.lock(agentId, escrowRequired, 'order');
-    if (!lockResult.success) {
-      throw new Error(`Insufficient funds: ${lockResult.error}`);
+    if (escrowRequired > 0) {
+      const lockResult = await this.escrow.lock(agentId, escrowRequired, 'order');
+      if (!lockResult.success) {
+        throw new Error(`Insufficient funds: ${lockResult.error}`);
+      }
     }
 
+    const isStop = request.order_type === OrderType.STOP || request.order_type === OrderType.STOP_LIMIT;
+
     // Create order object
     const order: Order = {
-      id: uuidv4(),
+      id: engineClock.newId(),
       agent_id: agentId,
       market_id: marketId,
       side: request.side,
@@ -146,80 +364,522 @@ export class MatchingEngine {
       filled_qty: 0,
       remaining_qty: request.quantity,
       locked_amount: escrowRequired,
-      status: OrderStatus.OPEN,
+      status: isStop ? OrderStatus.PENDING : OrderStatus.OPEN,
+      time_in_force: timeInForce,
+      post_only: request.post_only,
+      stop_price: request.stop_price,
+      expires_at: timeInForce === TimeInForce.GTD ? expiresAt : undefined,
       client_order_id: request.client_order_id,
       metadata: request.metadata ?? {},
-      created_at: new Date(),
-      updated_at: new Date(),
+      created_at: engineClock.now(),
+      updated_at: engineClock.now(),
     };
 
-    // Attempt matching
-    const matchResult = await this.matchOrder(order, book);
+    // Stop orders wait off-book until lastTradePrice reaches stop_price
+    if (isStop) {
+      const stops = this.stopOrders.get(marketId) ?? [];
+      stops.push(order);
+      this.stopOrders.set(marketId, stops);
 
-    // Update order status based on fill
-    if (order.remaining_qty === 0) {
-      order.status = OrderStatus.FILLED;
-      order.filled_at = new Date();
-    } else if (order.filled_qty > 0) {
-      order.status = OrderStatus.PARTIAL;
+      await this.eventBus.publish('orders.created', { order, trades: [] });
+      await this.triggerStopOrders(marketId);
+      return { order, result: { trades: [], updated_orders: [] } };
     }
 
-    // If limit order with remaining quantity, add to book
-    if (
-      order.order_type === OrderType.LIMIT &&
-      order.remaining_qty > 0 &&
-      order.price !== undefined
-    ) {
-      book.addOrder(order);
-    } else if (order.order_type === OrderType.MARKET && order.remaining_qty > 0) {
-      // Market order didn't fully fill - cancel remaining
-      order.status = order.filled_qty > 0 ? OrderStatus.PARTIAL : OrderStatus.CANCELLED;
-
-      // Release unused escrow
-      const usedEscrow = this.calculateUsedEscrow(order);
-      const unusedEscrow = order.locked_amount - usedEscrow;
-      if (unusedEscrow > 0) {
-        await this.escrow.release(agentId, unusedEscrow, 'order', order.id);
-      }
-    }
+    const { result: matchResult, event } = await this.executeOrder(order, books);
 
     // Emit order event
     await this.eventBus.publish('orders.created', {
       order,
       trades: matchResult.trades,
     });
+    if (event) {
+      await this.eventBus.publish(event.channel, { order, reason: event.reason });
+    }
+
+    // Trades may have moved lastTradePrice through resting stops
+    if (matchResult.trades.length > 0) {
+      await this.triggerStopOrders(marketId);
+    }
 
     return { order, result: matchResult };
   }
 
   /**
-   * Cancel an open order
+   * Cancel an open order (or an untriggered stop order)
    */
   async cancelOrder(orderId: string, agentId: string): Promise<Order | undefined> {
+    return this.journaled('order.cancel', [orderId, agentId], () =>
+      this.applyCancelOrder(orderId, agentId)
+    );
+  }
+
+  private async applyCancelOrder(orderId: string, agentId: string): Promise<Order | undefined> {
     // Find the order across all markets
     for (const [marketId, books] of this.markets) {
-      for (const outcome of [OutcomeToken.YES, OutcomeToken.NO]) {
-        const book = books.getBook(outcome);
+      for (const book of books.getBooks()) {
         const order = book.getOrder(orderId);
 
         if (order && order.agent_id === agentId) {
           book.removeOrder(orderId);
+          return this.finalizeOrder(order, OrderStatus.CANCELLED, 'orders.cancelled');
+        }
+      }
+
+      const stops = this.stopOrders.get(marketId) ?? [];
+      const stop = stops.find(o => o.id === orderId && o.agent_id === agentId);
+      if (stop) {
+        this.stopOrders.set(marketId, stops.filter(o => o.id !== orderId));
+        return this.finalizeOrder(stop, OrderStatus.CANCELLED, 'orders.cancelled');
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Amend a resting order's price and/or total quantity atomically.
+   *
+   * Priority rules:
+   * - Quantity reduction at the same price keeps the order's place in the
+   *   PriceLevel queue
+   * - Any price change or quantity increase loses priority: the order is
+   *   taken off the book and re-entered as if new (and may trade if the new
+   *   price crosses)
+   *
+   * Escrow moves by the difference between what is locked and what the
+   * amended remainder needs, as a single lock or release. If that lock
+   * fails, the order is left untouched.
+   */
+  async amendOrder(
+    orderId: string,
+    agentId: string,
+    amendment: AmendOrderRequest
+  ): Promise<{ order: Order; result: MatchResult } | undefined> {
+    // The amended remainder is checked as if placed now, like a new order
+    const found = this.findRestingOrder(orderId);
+    if (this.preTrade && !engineClock.inCommand() && found?.order.agent_id === agentId
+      && addsExposure(found.order, amendment)) {
+      const { order } = found;
+      await this.preTrade.checkOrder(agentId, order.market_id, {
+        market_id: order.market_id,
+        side: order.side,
+        outcome: order.outcome,
+        order_type: OrderType.LIMIT,
+        price: amendment.price ?? order.price,
+        quantity: (amendment.quantity ?? order.quantity) - order.filled_qty,
+      }, { amend_order_id: orderId });
+    }
+    return this.journaled('order.amend', [orderId, agentId, amendment], () =>
+      this.applyAmendOrder(orderId, agentId, amendment)
+    );
+  }
+
+  private async applyAmendOrder(
+    orderId: string,
+    agentId: string,
+    amendment: AmendOrderRequest
+  ): Promise<{ order: Order; result: MatchResult } | undefined> {
+    const found = this.findRestingOrder(orderId);
+    if (!found || found.order.agent_id !== agentId) return undefined;
+
+    const { order, books } = found;
+    const book = books.getBook(order.outcome);
+    this.assertTrading(order.market_id);
+
+    const newPrice = amendment.price ?? order.price!;
+    const newQuantity = amendment.quantity ?? order.quantity;
+    this.validatePrice(newPrice, 'price');
+    assertShares(newQuantity);
+
+    if (newQuantity <= order.filled_qty) {
+      throw new Error(`Quantity must exceed filled quantity (${order.filled_qty})`);
+    }
+    if (newPrice === order.price && newQuantity === order.quantity) {
+      throw new Error('Amendment does not change price or quantity');
+    }
 
-          try {
-            await this.escrow.release(agentId, order.locked_amount, 'order', orderId);
-          } catch {
-            // Wallet may not exist or funds already released
+    const priceChanged = newPrice !== order.price;
+    const newRemaining = newQuantity - order.filled_qty;
+
+    // Post-only orders must not become marketable through an amendment
+    if (order.post_only && priceChanged) {
+      const probe = { ...order, price: newPrice };
+      if (!this.getCrossableOrders(probe, books).next().done) {
+        throw new Error('Amended post_only order would cross the book');
+      }
+    }
+
+    // Escrow delta, in one step, before anything else changes
+    const required = this.calculateEscrowRequired(
+      agentId,
+      order.side,
+      OrderType.LIMIT,
+      newPrice,
+      newRemaining,
+      books,
+      order.outcome
+    );
+    const delta = required - order.locked_amount;
+    if (delta > 0) {
+      const lockResult = await this.escrow.lock(agentId, delta, 'order_amend', order.id);
+      if (!lockResult.success) {
+        throw new Error(`Insufficient funds: ${lockResult.error}`);
+      }
+    } else if (delta < 0) {
+      await this.escrow.release(agentId, -delta, 'order_amend', order.id);
+    }
+    order.locked_amount = required;
+
+    const previous = { price: order.price, quantity: order.quantity };
+    const empty: MatchResult = { trades: [], updated_orders: [], remaining_order: order };
+
+    if (!priceChanged && newQuantity < order.quantity) {
+      // Keep time priority: shrink in place
+      order.quantity = newQuantity;
+      book.updateOrderQuantity(order.id, order.side, newRemaining);
+      order.updated_at = engineClock.now();
+
+      await this.eventBus.publish('orders.amended', { order, previous, priority_kept: true });
+      return { order, result: empty };
+    }
+
+    // Lose time priority: pull, amend, and re-enter as a new arrival
+    book.removeOrder(order.id);
+    order.price = newPrice;
+    order.quantity = newQuantity;
+    order.remaining_qty = newRemaining;
+    order.created_at = engineClock.now();
+    order.updated_at = engineClock.now();
+
+    const { result, event } = await this.executeOrder(order, books);
+
+    await this.eventBus.publish('orders.amended', {
+      order,
+      previous,
+      priority_kept: false,
+      trades: result.trades,
+    });
+    if (event) {
+      await this.eventBus.publish(event.channel, { order, reason: event.reason });
+    }
+    if (result.trades.length > 0) {
+      await this.triggerStopOrders(order.market_id);
+    }
+
+    return { order, result };
+  }
+
+  /**
+   * An agent's resting and untriggered stop orders
+   */
+  getAgentOrders(agentId: string): Order[] {
+    const orders: Order[] = [];
+    for (const books of this.markets.values()) {
+      for (const book of books.getBooks()) {
+        orders.push(...book.getAllOrders().filter(o => o.agent_id === agentId));
+      }
+    }
+    for (const stops of this.stopOrders.values()) {
+      orders.push(...stops.filter(o => o.agent_id === agentId));
+    }
+    return orders;
+  }
+
+  /**
+   * Tick size every price must be a multiple of
+   */
+  getPriceIncrement(): Micros {
+    return this.config.minPriceIncrement;
+  }
+
+  /**
+   * Find a resting order on any book
+   */
+  private findRestingOrder(orderId: string): { order: Order; books: MarketOrderBooks } | undefined {
+    for (const books of this.markets.values()) {
+      for (const book of books.getBooks()) {
+        const order = book.getOrder(orderId);
+        if (order) return { order, books };
+      }
+    }
+    return undefined;
+  }
+
+  // -------------------------------------------------------------------------
+  // Time-in-Force and Stop Orders
+  // -------------------------------------------------------------------------
+
+  /**
+   * Start the periodic GTD expiry sweep
+   */
+  startExpirySweeper(intervalMs: number = this.config.expirySweepIntervalMs): void {
+    if (this.sweepInterval) return;
+
+    this.sweepInterval = setInterval(() => {
+      this.sweepExpiredOrders().catch(err => {
+        console.error(`[MatchingEngine] Expiry sweep failed: ${err.message}`);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the periodic GTD expiry sweep
+   */
+  stopExpirySweeper(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  /**
+   * Expire every resting or untriggered order whose expires_at has passed,
+   * releasing its escrow
+   */
+  async sweepExpiredOrders(now: Date = engineClock.now()): Promise<Order[]> {
+    // Only journal sweeps that actually expire something
+    if (!this.hasExpiredOrders(now)) return [];
+
+    return this.journaled('order.expire', [now.toISOString()], () => this.applyExpiry(now));
+  }
+
+  private hasExpiredOrders(now: Date): boolean {
+    for (const [marketId, books] of this.markets) {
+      for (const book of books.getBooks()) {
+        if (book.getAllOrders().some(o => o.expires_at && o.expires_at <= now)) {
+          return true;
+        }
+      }
+      if ((this.stopOrders.get(marketId) ?? []).some(o => o.expires_at && o.expires_at <= now)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async applyExpiry(now: Date): Promise<Order[]> {
+    const expired: Order[] = [];
+
+    for (const [marketId, books] of this.markets) {
+      for (const book of books.getBooks()) {
+        for (const order of book.getAllOrders()) {
+          if (order.expires_at && order.expires_at <= now) {
+            book.removeOrder(order.id);
+            expired.push(await this.finalizeOrder(order, OrderStatus.EXPIRED, 'orders.expired'));
           }
+        }
+      }
 
-          order.status = OrderStatus.CANCELLED;
-          order.updated_at = new Date();
-          await this.eventBus.publish('orders.cancelled', { order });
-          return order;
+      const stops = this.stopOrders.get(marketId);
+      if (stops) {
+        const live = stops.filter(o => !o.expires_at || o.expires_at > now);
+        if (live.length !== stops.length) {
+          this.stopOrders.set(marketId, live);
+          for (const order of stops.filter(o => !live.includes(o))) {
+            expired.push(await this.finalizeOrder(order, OrderStatus.EXPIRED, 'orders.expired'));
+          }
         }
       }
     }
 
-    return undefined;
+    return expired;
+  }
+
+  /**
+   * Get untriggered stop orders for a market
+   */
+  getStopOrders(marketId: string): Order[] {
+    return [...(this.stopOrders.get(marketId) ?? [])];
+  }
+
+  /**
+   * Trigger stop orders whose stop_price has been reached by the last trade
+   * in their outcome book. A BUY stop triggers at or above stop_price, a
+   * SELL stop at or below. Triggered orders can trade and move the price
+   * again, so this repeats until nothing else triggers.
+   */
+  private async triggerStopOrders(marketId: string): Promise<void> {
+    const books = this.markets.get(marketId);
+    if (!books) return;
+
+    for (;;) {
+      const stops = this.stopOrders.get(marketId) ?? [];
+      const next = stops.find(stop => {
+        const lastPrice = books.getBook(stop.outcome).lastTradePrice;
+        if (lastPrice === undefined || stop.stop_price === undefined) return false;
+        return stop.side === OrderSide.BUY
+          ? lastPrice >= stop.stop_price
+          : lastPrice <= stop.stop_price;
+      });
+      if (!next) return;
+
+      this.stopOrders.set(marketId, stops.filter(o => o.id !== next.id));
+
+      next.status = OrderStatus.OPEN;
+      next.triggered_at = engineClock.now();
+      next.updated_at = engineClock.now();
+      await this.eventBus.publish('orders.triggered', {
+        order: next,
+        last_trade_price: books.getBook(next.outcome).lastTradePrice,
+      });
+
+      const { event } = await this.executeOrder(next, books);
+      if (event) {
+        await this.eventBus.publish(event.channel, { order: next, reason: event.reason });
+      }
+    }
+  }
+
+  /**
+   * Validate order type / time-in-force combinations before any escrow moves
+   */
+  private validateOrderRequest(
+    request: PlaceOrderRequest,
+    timeInForce: TimeInForce,
+    expiresAt: Date | undefined
+  ): void {
+    const needsPrice = request.order_type === OrderType.LIMIT || request.order_type === OrderType.STOP_LIMIT;
+    if (needsPrice && request.price === undefined) {
+      throw new Error(`${request.order_type} orders require a price`);
+    }
+
+    assertShares(request.quantity);
+    if (request.price !== undefined) this.validatePrice(request.price, 'price');
+    if (request.stop_price !== undefined) this.validatePrice(request.stop_price, 'stop_price');
+
+    const isStop = request.order_type === OrderType.STOP || request.order_type === OrderType.STOP_LIMIT;
+    if (isStop && request.stop_price === undefined) {
+      throw new Error(`${request.order_type} orders require a stop_price`);
+    }
+
+    if (request.post_only && request.order_type !== OrderType.LIMIT) {
+      throw new Error('post_only is only supported for limit orders');
+    }
+
+    if (request.post_only && (timeInForce === TimeInForce.IOC || timeInForce === TimeInForce.FOK)) {
+      throw new Error(`post_only orders cannot be ${timeInForce.toUpperCase()}`);
+    }
+
+    if (timeInForce === TimeInForce.GTD) {
+      if (!expiresAt || isNaN(expiresAt.getTime())) {
+        throw new Error('GTD orders require a valid expires_at');
+      }
+      if (expiresAt <= engineClock.now()) {
+        throw new Error('expires_at must be in the future');
+      }
+    }
+  }
+
+  /**
+   * Prices must be whole micros strictly between 0 and 1.00
+   */
+  private validatePrice(price: Micros, label: string): void {
+    assertMicros(price, label);
+    if (price <= 0 || price >= ONE_SHARE) {
+      throw new Error(`${label} must be between 0 and ${ONE_SHARE} micros: ${price}`);
+    }
+  }
+
+  /**
+   * Run a live order (new, or a just-triggered stop) through post-only and
+   * fill-or-kill checks, matching, and book insertion / remainder handling
+   */
+  private async executeOrder(
+    order: Order,
+    books: MarketOrderBooks
+  ): Promise<{ result: MatchResult; event?: OrderOutcomeEvent }> {
+    const empty: MatchResult = { trades: [], updated_orders: [], remaining_order: order };
+
+    // Post-only: reject instead of taking liquidity
+    if (order.post_only && !this.getCrossableOrders(order, books).next().done) {
+      await this.releaseOrderEscrow(order);
+      this.setStatus(order, OrderStatus.REJECTED);
+      return { result: empty, event: { channel: 'orders.rejected', reason: 'post_only_would_cross' } };
+    }
+
+    // Fill-or-kill: make sure the whole quantity is available before touching anything
+    if (order.time_in_force === TimeInForce.FOK && this.getFillableQuantity(order, books) < order.quantity) {
+      await this.releaseOrderEscrow(order);
+      this.setStatus(order, OrderStatus.CANCELLED);
+      return { result: empty, event: { channel: 'orders.cancelled', reason: 'fok_not_fillable' } };
+    }
+
+    // Attempt matching (same book and complementary book)
+    const matchResult = await this.matchOrder(order, books);
+
+    // Update order status based on fill
+    if (order.remaining_qty === 0) {
+      order.status = OrderStatus.FILLED;
+      order.filled_at = engineClock.now();
+      await this.releaseOrderEscrow(order);
+      return { result: matchResult };
+    }
+
+    if (order.filled_qty > 0) {
+      order.status = OrderStatus.PARTIAL;
+    }
+
+    const restable = order.order_type === OrderType.LIMIT || order.order_type === OrderType.STOP_LIMIT;
+
+    // If limit order with remaining quantity, add to book
+    if (restable && order.price !== undefined && order.time_in_force !== TimeInForce.IOC) {
+      books.getBook(order.outcome).addOrder(order);
+      return { result: matchResult };
+    }
+
+    // Release unused escrow (fills already drew down locked_amount)
+    await this.releaseOrderEscrow(order);
+
+    if (!restable) {
+      // Market order didn't fully fill - cancel remaining
+      order.status = order.filled_qty > 0 ? OrderStatus.PARTIAL : OrderStatus.CANCELLED;
+      return { result: matchResult };
+    }
+
+    // IOC remainder is cancelled
+    this.setStatus(order, OrderStatus.CANCELLED);
+    return { result: matchResult, event: { channel: 'orders.cancelled', reason: 'ioc_remainder' } };
+  }
+
+  /**
+   * Quantity an order could fill right now (excluding its own agent's orders)
+   */
+  private getFillableQuantity(order: Order, books: MarketOrderBooks): number {
+    let available = 0;
+    let iterations = 0;
+
+    for (const { resting } of this.getCrossableOrders(order, books)) {
+      if (available >= order.quantity) break;
+      if (iterations >= this.config.maxOrdersPerMatch) break;
+      if (resting.agent_id === order.agent_id) continue;
+      if (resting.expires_at && resting.expires_at <= engineClock.now()) continue;
+      iterations++;
+      available += resting.remaining_qty;
+    }
+
+    return available;
+  }
+
+  /**
+   * Move an order that has left the book into a terminal status, release its
+   * escrow and publish the matching event
+   */
+  private async finalizeOrder(
+    order: Order,
+    status: OrderStatus,
+    channel: 'orders.cancelled' | 'orders.expired',
+    reason?: string
+  ): Promise<Order> {
+    await this.releaseOrderEscrow(order);
+    this.setStatus(order, status);
+    await this.eventBus.publish(channel, reason ? { order, reason } : { order });
+    return order;
+  }
+
+  private setStatus(order: Order, status: OrderStatus): void {
+    order.status = status;
+    order.updated_at = engineClock.now();
   }
 
   // -------------------------------------------------------------------------
@@ -227,15 +887,16 @@ export class MatchingEngine {
   // -------------------------------------------------------------------------
 
   /**
-   * Match an incoming order against the book
+   * Match an incoming order against the book and its complement
    */
-  private async matchOrder(order: Order, book: OrderBook): Promise<MatchResult> {
+  private async matchOrder(order: Order, books: MarketOrderBooks): Promise<MatchResult> {
     const trades: Trade[] = [];
     const updatedOrders: Order[] = [];
+    const book = books.getBook(order.outcome);
     let iterations = 0;
 
-    // Iterate through matchable orders
-    for (const restingOrder of book.getMatchableOrders(order.side, order.price)) {
+    // Iterate through matchable orders, best effective price first
+    for (const { resting: restingOrder, price: fillPrice, matchType } of this.getCrossableOrders(order, books)) {
       if (order.remaining_qty <= 0) break;
       if (iterations >= this.config.maxOrdersPerMatch) break;
       
@@ -244,12 +905,20 @@ export class MatchingEngine {
       
       iterations++;
 
+      const restingBook = books.getBook(restingOrder.outcome);
+
+      // Lazily expire GTD orders the sweeper has not reached yet
+      if (restingOrder.expires_at && restingOrder.expires_at <= engineClock.now()) {
+        restingBook.removeOrder(restingOrder.id);
+        await this.finalizeOrder(restingOrder, OrderStatus.EXPIRED, 'orders.expired');
+        continue;
+      }
+
       // Calculate fill quantity
       const fillQty = Math.min(order.remaining_qty, restingOrder.remaining_qty);
-      const fillPrice = restingOrder.price!; // Resting order always has price
 
       // Create trade
-      const trade = await this.executeTrade(order, restingOrder, fillQty, fillPrice);
+      const trade = await this.executeTrade(order, restingOrder, fillQty, fillPrice, matchType);
       trades.push(trade);
 
       // Update quantities
@@ -258,23 +927,28 @@ export class MatchingEngine {
       restingOrder.filled_qty += fillQty;
       restingOrder.remaining_qty -= fillQty;
 
-      // Update resting order in book
+      // Update resting order in its book
       if (restingOrder.remaining_qty <= 0) {
-        book.removeOrder(restingOrder.id);
+        restingBook.removeOrder(restingOrder.id);
         restingOrder.status = OrderStatus.FILLED;
-        restingOrder.filled_at = new Date();
+        restingOrder.filled_at = engineClock.now();
+        await this.releaseOrderEscrow(restingOrder);
       } else {
-        book.updateOrderQuantity(restingOrder.id, restingOrder.side, restingOrder.remaining_qty);
+        restingBook.updateOrderQuantity(restingOrder.id, restingOrder.side, restingOrder.remaining_qty);
         restingOrder.status = OrderStatus.PARTIAL;
       }
+      restingOrder.updated_at = engineClock.now();
 
       updatedOrders.push(restingOrder);
 
       // Update avg fill price
       order.avg_fill_price = this.calculateAvgFillPrice(order, trades);
 
-      // Record trade in book
+      // Record trade in both books so each reports a last price in its own terms
       book.recordTrade(fillPrice);
+      if (restingBook !== book) {
+        restingBook.recordTrade(restingOrder.price!);
+      }
     }
 
     return {
@@ -284,29 +958,96 @@ export class MatchingEngine {
     };
   }
 
+  /**
+   * Merge the matchable orders of the incoming order's own book with the
+   * same-side orders of the complementary book.
+   *
+   * A BUY YES at p crosses a resting BUY NO at q when p + q >= 1.00 (mint),
+   * and a SELL YES at p crosses a resting SELL NO at q when p + q <= 1.00
+   * (burn). The complementary order's effective price is 1 - q. Candidates
+   * are yielded by effective price; ties go to the earlier order. A
+   * categorical outcome has no complementary book, only its own.
+   */
+  private *getCrossableOrders(order: Order, books: MarketOrderBooks): Generator<CrossCandidate> {
+    const direct = books.getBook(order.outcome).getMatchableOrders(order.side, order.price);
+    const complement = books.getComplementBook(order.outcome)?.getMatchableOrders(
+      order.side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY,
+      order.price !== undefined ? complementPrice(order.price) : undefined
+    ) ?? [][Symbol.iterator]();
+    const complementType = order.side === OrderSide.BUY ? MatchType.MINT : MatchType.BURN;
+
+    let d = direct.next();
+    let c = complement.next();
+
+    while (!d.done || !c.done) {
+      let takeDirect: boolean;
+      if (c.done) {
+        takeDirect = true;
+      } else if (d.done) {
+        takeDirect = false;
+      } else {
+        const directPrice = d.value.price!;
+        const impliedPrice = complementPrice(c.value.price!);
+        if (directPrice === impliedPrice) {
+          takeDirect = d.value.created_at.getTime() <= c.value.created_at.getTime();
+        } else {
+          takeDirect = order.side === OrderSide.BUY
+            ? directPrice < impliedPrice
+            : directPrice > impliedPrice;
+        }
+      }
+
+      if (takeDirect) {
+        const resting = d.value as Order;
+        d = direct.next();
+        yield { resting, price: resting.price!, matchType: MatchType.DIRECT };
+      } else {
+        const resting = c.value as Order;
+        c = complement.next();
+        yield { resting, price: complementPrice(resting.price!), matchType: complementType };
+      }
+    }
+  }
+
   /**
    * Execute a trade between two orders
+   *
+   * The trade is always recorded in the incoming order's outcome. For a
+   * complementary match the resting order sits in the other book, so it
+   * takes the opposite leg: the buyer holds `outcome`, the seller holds its
+   * complement, exactly as for a direct match.
    */
   private async executeTrade(
     incomingOrder: Order,
     restingOrder: Order,
     quantity: number,
-    price: number
+    price: Micros,
+    matchType: MatchType = MatchType.DIRECT
   ): Promise<Trade> {
     // Determine buyer/seller
     const isBuyer = incomingOrder.side === OrderSide.BUY;
     const buyOrder = isBuyer ? incomingOrder : restingOrder;
     const sellOrder = isBuyer ? restingOrder : incomingOrder;
 
-    // Calculate fees (simplified - could be tiered)
-    const tradeValue = price * quantity;
-    const feeRate = 0.002; // 0.2%
-    const buyerFee = tradeValue * feeRate;
-    const sellerFee = tradeValue * feeRate;
+    // The incoming order takes liquidity, the resting order makes it. A
+    // maker rebate never exceeds the taker fee on the same fill, so the fee
+    // account always covers it.
+    const tradeValue = notional(price, quantity);
+    const posted = {
+      buyer: this.postedCollateral(buyOrder, quantity, tradeValue),
+      seller: this.postedCollateral(sellOrder, quantity, shareValue(quantity) - tradeValue),
+    };
+    const takerFee = this.fillFee(incomingOrder, 'taker', tradeValue, isBuyer ? posted.buyer : posted.seller);
+    let makerFee = this.fillFee(restingOrder, 'maker', tradeValue, isBuyer ? posted.seller : posted.buyer);
+    if (makerFee < 0) {
+      makerFee = -Math.min(-makerFee, takerFee);
+    }
+    const buyerFee = isBuyer ? takerFee : makerFee;
+    const sellerFee = isBuyer ? makerFee : takerFee;
 
     // Create trade record
     const trade: Trade = {
-      id: uuidv4(),
+      id: engineClock.newId(),
       market_id: incomingOrder.market_id,
       buy_order_id: buyOrder.id,
       sell_order_id: sellOrder.id,
@@ -317,12 +1058,15 @@ export class MatchingEngine {
       quantity,
       buyer_fee: buyerFee,
       seller_fee: sellerFee,
+      match_type: matchType,
       is_settled: false,
-      executed_at: new Date(),
+      executed_at: engineClock.now(),
     };
 
     // Process escrow movements
-    await this.processTradeEscrow(trade, buyOrder, sellOrder);
+    await this.processTradeEscrow(trade, buyOrder, sellOrder, posted);
+    this.fees.recordVolume(trade.buyer_id, tradeValue);
+    this.fees.recordVolume(trade.seller_id, tradeValue);
 
     // Emit trade event
     await this.eventBus.publish('trades.executed', { trade });
@@ -330,35 +1074,99 @@ export class MatchingEngine {
     return trade;
   }
 
+  /**
+   * Fee for one side of a fill, negative for a rebate. A fee is capped at
+   * the headroom the order still has locked beyond its leg of the trade, in
+   * case the market's rates were raised after the order was placed.
+   */
+  private fillFee(order: Order, liquidity: Liquidity, tradeValue: Micros, legCost: Micros): Micros {
+    const bps = this.fees.rateFor(order.agent_id, order.market_id, liquidity);
+    if (bps < 0) {
+      return -applyBpsDown(tradeValue, -bps);
+    }
+    return Math.min(applyBps(tradeValue, bps), Math.max(0, order.locked_amount - legCost));
+  }
+
+  /**
+   * Collateral an order posts for its leg of a fill: all of it, or on
+   * margin what the CCP requires, never more than the order still has
+   * locked (the CCP finances any rounding difference)
+   */
+  private postedCollateral(order: Order, quantity: number, collateral: Micros): Micros {
+    if (!this.clearing) return collateral;
+    const leg = clearingLeg(order.market_id, order.side, order.outcome, quantity);
+    const required = this.clearing.postedCollateral(order.agent_id, leg, collateral);
+    return Math.min(collateral, required, order.locked_amount);
+  }
+
   /**
    * Process escrow for a trade
    */
   private async processTradeEscrow(
     trade: Trade,
     buyOrder: Order,
-    sellOrder: Order
+    sellOrder: Order,
+    posted: { buyer: Micros; seller: Micros }
   ): Promise<void> {
     // For prediction markets:
     // - Buyer pays: price * quantity (e.g., 0.60 * 1000 = 600)
     // - Seller risk: (1 - price) * quantity (e.g., 0.40 * 1000 = 400)
     // - On resolution: winner gets 1.00 * quantity
+    //
+    // For a mint the "seller" is a NO buyer at q = 1 - price, so its
+    // (1 - price) leg is exactly the q * quantity it locked. The seller leg
+    // is taken as the remainder of the complete set, so the two legs always
+    // sum to exactly 1.00 per share.
+    //
+    // Fees go straight to the platform fee account, so the trade escrow
+    // holds exactly the 1.00 per share that settlement pays out. Fees are
+    // collected before a rebate is paid out of that account.
+    //
+    // On margin each side transfers only its posted collateral and the CCP
+    // finances the rest of its leg when it novates the trade.
 
-    const buyerCost = trade.price * trade.quantity;
-    const sellerRisk = (1 - trade.price) * trade.quantity;
+    const buyerCost = notional(trade.price, trade.quantity);
+    const sellerRisk = shareValue(trade.quantity) - buyerCost;
 
     // Transfer from buyer's locked to trade escrow
-    await this.escrow.transferToTradeEscrow(
-      buyOrder.agent_id,
-      buyerCost + trade.buyer_fee,
-      trade.id
-    );
+    if (posted.buyer > 0) {
+      await this.escrow.transferToTradeEscrow(
+        buyOrder.agent_id,
+        posted.buyer,
+        trade.id,
+        'buyer',
+        trade.match_type
+      );
+    }
 
     // Transfer from seller's locked to trade escrow
-    await this.escrow.transferToTradeEscrow(
-      sellOrder.agent_id,
-      sellerRisk + trade.seller_fee,
-      trade.id
-    );
+    if (posted.seller > 0) {
+      await this.escrow.transferToTradeEscrow(
+        sellOrder.agent_id,
+        posted.seller,
+        trade.id,
+        'seller',
+        trade.match_type
+      );
+    }
+
+    if (this.clearing) {
+      await this.clearing.novateTrade(trade, {
+        buyer: buyerCost - posted.buyer,
+        seller: sellerRisk - posted.seller,
+      });
+    }
+
+    const legs: Array<[Order, Micros]> = [[buyOrder, trade.buyer_fee], [sellOrder, trade.seller_fee]];
+    for (const [order, fee] of legs) {
+      if (fee > 0) await this.escrow.collectFee(order.agent_id, fee, trade.id);
+    }
+    for (const [order, fee] of legs) {
+      if (fee < 0) await this.escrow.payRebate(order.agent_id, -fee, trade.id);
+    }
+
+    buyOrder.locked_amount = Math.max(0, buyOrder.locked_amount - posted.buyer - Math.max(0, trade.buyer_fee));
+    sellOrder.locked_amount = Math.max(0, sellOrder.locked_amount - posted.seller - Math.max(0, trade.seller_fee));
   }
 
   // -------------------------------------------------------------------------
@@ -366,82 +1174,235 @@ export class MatchingEngine {
   // -------------------------------------------------------------------------
 
   /**
-   * Calculate escrow required for an order
+   * Calculate escrow required for an order: the collateral of its leg (on
+   * margin, the part the agent posts) plus fee headroom
    */
   private calculateEscrowRequired(
+    agentId: string,
     side: OrderSide,
     orderType: OrderType,
-    price: number | undefined,
+    price: Micros | undefined,
     quantity: number,
-    book: OrderBook
-  ): number {
+    books: MarketOrderBooks,
+    outcome: Outcome
+  ): Micros {
+    // Fee headroom: fees are charged on trade value, which never exceeds
+    // 1.00 per share on either leg (including complementary fills), at no
+    // more than the market's highest rate
+    const feeReserve = applyBps(shareValue(quantity), this.fees.reserveBps(books.marketId));
+    const collateral = this.legCollateral(side, orderType, price, quantity, books, outcome);
+    const posted = this.clearing
+      ? Math.min(collateral, this.clearing.postedCollateral(
+        agentId, clearingLeg(books.marketId, side, outcome, quantity), collateral
+      ))
+      : collateral;
+    return posted + feeReserve;
+  }
+
+  /**
+   * Full collateral of an order's leg, at its limit price or, for market
+   * and stop orders, an estimate of the worst fill
+   */
+  private legCollateral(
+    side: OrderSide,
+    orderType: OrderType,
+    price: Micros | undefined,
+    quantity: number,
+    books: MarketOrderBooks,
+    outcome: Outcome
+  ): Micros {
+    const book = books.getBook(outcome);
+    const complement = books.getComplementBook(outcome);
+    const tick = this.config.minPriceIncrement;
+
+    // Stop orders trigger at an unknown future price, so lock the worst case
+    if (orderType === OrderType.STOP) {
+      return notional(ONE_SHARE - tick, quantity);
+    }
+
     if (side === OrderSide.BUY) {
       // Buyer needs: price * quantity
       if (orderType === OrderType.MARKET) {
-        // Use worst-case price (0.99) or best ask + buffer
-        const estimatedPrice = book.bestAsk ?? 0.99;
-        return estimatedPrice * quantity * 1.05; // 5% buffer
+        // Use worst-case price (0.99) or best ask + buffer. NO bids count as
+        // YES asks at 1 - bid (and vice versa).
+        const impliedAsk = complement?.bestBid !== undefined
+          ? complementPrice(complement.bestBid)
+          : undefined;
+        const asks = [book.bestAsk, impliedAsk].filter((p): p is Micros => p !== undefined);
+        const estimatedPrice = asks.length > 0 ? Math.min(...asks) : ONE_SHARE - tick;
+        return applyBps(notional(estimatedPrice, quantity), MARKET_ORDER_BUFFER_BPS);
       }
-      return price! * quantity;
+      return notional(price!, quantity); // LIMIT and STOP_LIMIT
     } else {
       // Seller needs: (1 - price) * quantity (their potential loss)
       if (orderType === OrderType.MARKET) {
-        const estimatedPrice = book.bestBid ?? 0.01;
-        return (1 - estimatedPrice) * quantity * 1.05;
+        const impliedBid = complement?.bestAsk !== undefined
+          ? complementPrice(complement.bestAsk)
+          : undefined;
+        const bids = [book.bestBid, impliedBid].filter((p): p is Micros => p !== undefined);
+        const estimatedPrice = bids.length > 0 ? Math.max(...bids) : tick;
+        return applyBps(notional(complementPrice(estimatedPrice), quantity), MARKET_ORDER_BUFFER_BPS);
       }
-      return (1 - price!) * quantity;
+      return notional(complementPrice(price!), quantity);
     }
   }
 
   /**
-   * Calculate escrow actually used after fills
+   * Release an order's remaining locked escrow back to available (cancel,
+   * expiry, or price improvement and unused fee headroom after a full fill)
    */
-  private calculateUsedEscrow(order: Order): number {
-    if (!order.avg_fill_price) return 0;
+  private async releaseOrderEscrow(order: Order): Promise<void> {
+    if (order.locked_amount <= 0) return;
 
-    if (order.side === OrderSide.BUY) {
-      return order.avg_fill_price * order.filled_qty;
-    } else {
-      return (1 - order.avg_fill_price) * order.filled_qty;
+    try {
+      await this.escrow.release(order.agent_id, order.locked_amount, 'order', order.id);
+      order.locked_amount = 0;
+    } catch {
+      // Wallet may not exist or funds already released
     }
   }
 
   /**
-   * Calculate weighted average fill price
+   * Calculate weighted average fill price (nearest micro)
    */
-  private calculateAvgFillPrice(order: Order, trades: Trade[]): number {
+  private calculateAvgFillPrice(order: Order, trades: Trade[]): Micros {
     if (trades.length === 0) return 0;
 
     let totalValue = 0;
     let totalQty = 0;
 
     for (const trade of trades) {
-      totalValue += trade.price * trade.quantity;
+      totalValue += notional(trade.price, trade.quantity);
       totalQty += trade.quantity;
     }
 
-    return totalQty > 0 ? totalValue / totalQty : 0;
+    return divRound(totalValue, totalQty);
+  }
+
+  // -------------------------------------------------------------------------
+  // Journal and Snapshots
+  // -------------------------------------------------------------------------
+
+  /**
+   * Journal every order command and include the books in snapshots
+   */
+  attachJournal(journal: EngineJournal): void {
+    this.journal = journal;
+
+    journal.register('order.place', (agentId: string, marketId: string, request: PlaceOrderRequest, options?: PlaceOrderOptions) =>
+      this.processOrder(agentId, marketId, request, options ?? {}));
+    journal.register('order.cancel', (orderId: string, agentId: string) =>
+      this.cancelOrder(orderId, agentId));
+    journal.register('order.amend', (orderId: string, agentId: string, amendment: AmendOrderRequest) =>
+      this.amendOrder(orderId, agentId, amendment));
+    journal.register('order.expire', (now: string) =>
+      this.sweepExpiredOrders(new Date(now)));
+    journal.register('order.clear_market', (marketId: string, reason: string) =>
+      this.clearMarket(marketId, reason));
+
+    journal.addParticipant('matching_engine', this);
+    this.fees.attachJournal(journal);
+  }
+
+  private journaled<T>(type: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    return this.journal ? this.journal.record(type, args, fn) : fn();
+  }
+
+  /**
+   * Serializable state of every non-empty book (markets sorted by id,
+   * orders in price-time priority) and untriggered stop orders
+   */
+  toSnapshot(): unknown {
+    const markets = [...this.markets.keys()]
+      .filter(id => this.hasState(id))
+      .sort()
+      .map(marketId => {
+        const books = this.markets.get(marketId)!;
+        return {
+          market_id: marketId,
+          outcomes: books.isBinary ? null : books.outcomes,
+          books: Object.fromEntries(books.getBooks().map(b => [b.outcome, {
+            orders: b.getAllOrders(),
+            last_trade_price: b.lastTradePrice ?? null,
+            last_trade_time: b.lastTradeTime ?? null,
+          }])),
+          stops: this.stopOrders.get(marketId) ?? [],
+        };
+      });
+
+    return { markets };
+  }
+
+  restoreSnapshot(state: unknown): void {
+    const { markets } = state as { markets: any[] };
+    const orderDates = ['created_at', 'updated_at', 'filled_at', 'expires_at', 'triggered_at'];
+
+    this.markets.clear();
+    this.stopOrders.clear();
+
+    for (const market of markets) {
+      const books = new MarketOrderBooks(market.market_id, market.outcomes ?? undefined);
+      for (const book of books.getBooks()) {
+        const { orders, last_trade_price, last_trade_time } = market.books[book.outcome];
+        for (const order of orders as Order[]) {
+          book.addOrder(reviveDates(order, orderDates));
+        }
+        book.restoreLastTrade(
+          last_trade_price ?? undefined,
+          last_trade_time ? new Date(last_trade_time) : undefined
+        );
+      }
+      this.markets.set(market.market_id, books);
+
+      if (market.stops.length > 0) {
+        this.stopOrders.set(market.market_id, (market.stops as Order[]).map(o => reviveDates(o, orderDates)));
+      }
+    }
+  }
+
+  /**
+   * Categorical markets are always kept, so their outcomes survive a restore
+   */
+  private hasState(marketId: string): boolean {
+    const books = this.markets.get(marketId)!;
+    return !books.isBinary
+      || books.getBooks().some(b => b.lastTradePrice !== undefined || b.getAllOrders().length > 0)
+      || (this.stopOrders.get(marketId) ?? []).length > 0;
   }
 
   // -------------------------------------------------------------------------
   // Getters
   // -------------------------------------------------------------------------
 
+  /**
+   * Get a resting or untriggered stop order by id
+   */
+  getOrder(orderId: string): Order | undefined {
+    const resting = this.findRestingOrder(orderId);
+    if (resting) return resting.order;
+
+    for (const stops of this.stopOrders.values()) {
+      const stop = stops.find(o => o.id === orderId);
+      if (stop) return stop;
+    }
+    return undefined;
+  }
+
   /**
    * Get order book snapshot for a market
    */
-  getOrderBookSnapshot(marketId: string, outcome: OutcomeToken, maxLevels: number = 50) {
+  getOrderBookSnapshot(marketId: string, outcome: Outcome, maxLevels: number = 50) {
     const books = this.markets.get(marketId);
-    if (!books) return null;
+    if (!books?.hasOutcome(outcome)) return null;
     return books.getBook(outcome).getSnapshot(maxLevels);
   }
 
   /**
    * Get best bid/ask for a market
    */
-  getBestPrices(marketId: string, outcome: OutcomeToken) {
+  getBestPrices(marketId: string, outcome: Outcome) {
     const books = this.markets.get(marketId);
-    if (!books) return null;
+    if (!books?.hasOutcome(outcome)) return null;
 
     const book = books.getBook(outcome);
     return {
@@ -453,3 +1414,21 @@ export class MatchingEngine {
     };
   }
 }
+
+function clearingLeg(marketId: string, side: OrderSide, outcome: Outcome, quantity: number): ClearingLeg {
+  return {
+    market_id: marketId,
+    outcome: side === OrderSide.BUY ? outcome : oppositeOutcome(outcome),
+    quantity,
+  };
+}
+
+/**
+ * An amendment adds exposure when it raises the quantity or makes the price
+ * more aggressive: a buy paying more, a sell accepting less
+ */
+function addsExposure(order: Order, amendment: AmendOrderRequest): boolean {
+  if (amendment.quantity !== undefined && amendment.quantity > order.quantity) return true;
+  if (amendment.price === undefined || order.price === undefined) return false;
+  return order.side === OrderSide.BUY ? amendment.price > order.price : amendment.price < order.price;
+}
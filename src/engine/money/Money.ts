@@ -0,0 +1,164 @@
+/**
+ * TRUTH-NET Fixed-Point Money
+ * Integer representation of amounts and prices inside the engine
+ *
+ * Every amount the engine stores or moves is a whole number of micros
+ * (1 USDC = 1_000_000 micros). A price is the micros paid for one share,
+ * so 0.60 is 600_000 and a winning share pays ONE_SHARE. Quantities are
+ * whole shares. With integers only, escrow, fees and payouts add up
+ * exactly and the double-entry ledger needs no tolerance.
+ *
+ * Decimals exist only at the API boundary: requests go through toMicros,
+ * responses through fromMicros (see api/formatters.ts).
+ *
+ * Rounding rules:
+ * - toMicros       nearest micro, halves away from zero
+ * - notional       price x shares is exact, never rounded
+ * - complete set   the seller leg is shareValue(qty) minus the buyer leg,
+ *                  so the two legs always sum to the payout exactly
+ * - applyBps       rounded up (fees, fee reserves, margin and buffers are
+ *                  never understated)
+ * - applyBpsDown   rounded down (rebates are never overstated)
+ * - divRound       nearest micro, halves away from zero (averages, mids)
+ */
+
+export type Micros = number;
+
+export const MICROS_PER_UNIT = 1_000_000;
+
+/** Payout of one winning share (1.00) */
+export const ONE_SHARE: Micros = MICROS_PER_UNIT;
+
+export const BPS_PER_UNIT = 10_000;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function isMicros(value: unknown): value is Micros {
+  return Number.isSafeInteger(value);
+}
+
+/**
+ * Throw unless value is a whole number of micros
+ */
+export function assertMicros(value: number, label: string = 'amount'): Micros {
+  if (!isMicros(value)) {
+    throw new Error(`${label} must be a whole number of micros: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Throw unless quantity is a whole number of shares
+ */
+export function assertShares(quantity: number, label: string = 'quantity'): number {
+  if (!Number.isSafeInteger(quantity)) {
+    throw new Error(`${label} must be a whole number of shares: ${quantity}`);
+  }
+  return quantity;
+}
+
+// ============================================================================
+// API BOUNDARY CONVERSION
+// ============================================================================
+
+/**
+ * Decimal amount or price (e.g. 12.5 or 0.6) to micros
+ */
+export function toMicros(amount: number): Micros;
+export function toMicros(amount: number | undefined): Micros | undefined;
+export function toMicros(amount: number | undefined): Micros | undefined {
+  if (amount === undefined) return undefined;
+  if (!Number.isFinite(amount)) {
+    throw new Error(`Cannot convert ${amount} to micros`);
+  }
+  const micros = Math.sign(amount) * Math.round(Math.abs(amount) * MICROS_PER_UNIT);
+  return assertMicros(micros === 0 ? 0 : micros);
+}
+
+/**
+ * Micros to a decimal amount or price for API responses
+ */
+export function fromMicros(micros: Micros): number;
+export function fromMicros(micros: Micros | undefined): number | undefined;
+export function fromMicros(micros: Micros | undefined): number | undefined {
+  return micros === undefined ? undefined : micros / MICROS_PER_UNIT;
+}
+
+/**
+ * Human-readable amount for log and error messages
+ */
+export function formatMicros(micros: Micros): string {
+  return (micros / MICROS_PER_UNIT).toFixed(6);
+}
+
+/**
+ * Decimal rate (e.g. 0.002) to basis points, rounded to the nearest bp
+ */
+export function rateToBps(rate: number): number {
+  return Math.round(rate * BPS_PER_UNIT);
+}
+
+// ============================================================================
+// ARITHMETIC
+// ============================================================================
+
+/**
+ * Cost of quantity shares at price (exact)
+ */
+export function notional(price: Micros, quantity: number): Micros {
+  return assertMicros(price * assertShares(quantity), 'notional');
+}
+
+/**
+ * Payout of quantity winning shares, i.e. one complete YES + NO set each
+ */
+export function shareValue(quantity: number): Micros {
+  return notional(ONE_SHARE, quantity);
+}
+
+/**
+ * Price of the other outcome: a YES at p and a NO at ONE_SHARE - p make
+ * one complete set
+ */
+export function complementPrice(price: Micros): Micros {
+  return ONE_SHARE - price;
+}
+
+/**
+ * amount x bps / 10_000, rounded up to the next micro
+ */
+export function applyBps(amount: Micros, bps: number): Micros {
+  if (amount <= 0 || bps <= 0) return 0;
+  const product = amount * bps;
+  if (Number.isSafeInteger(product)) {
+    return Math.ceil(product / BPS_PER_UNIT);
+  }
+  const big = BigInt(amount) * BigInt(Math.round(bps));
+  const denominator = BigInt(BPS_PER_UNIT);
+  return assertMicros(Number((big + denominator - 1n) / denominator));
+}
+
+/**
+ * amount x bps / 10_000, rounded down to the micro
+ */
+export function applyBpsDown(amount: Micros, bps: number): Micros {
+  if (amount <= 0 || bps <= 0) return 0;
+  const product = amount * bps;
+  if (Number.isSafeInteger(product)) {
+    return Math.floor(product / BPS_PER_UNIT);
+  }
+  return assertMicros(Number(BigInt(amount) * BigInt(Math.round(bps)) / BigInt(BPS_PER_UNIT)));
+}
+
+/**
+ * numerator / denominator rounded to the nearest micro (halves away from zero)
+ */
+export function divRound(numerator: number, denominator: number): Micros {
+  if (denominator === 0) return 0;
+  const quotient = Math.abs(numerator) / Math.abs(denominator);
+  const sign = Math.sign(numerator) * Math.sign(denominator);
+  const rounded = sign * Math.round(quotient);
+  return rounded === 0 ? 0 : rounded;
+}
@@ -6,9 +6,13 @@
  * - Price-time priority matching
  * - Limit and market orders
  * - Real-time best bid/ask tracking
+ *
+ * Prices are integer micros per share (engine/money/Money.ts).
  */
 
-import { Order, OrderSide, OrderStatus, OutcomeToken, OrderBookLevel, OrderBookSnapshot } from '../../types.js';
+import { Order, OrderSide, OrderStatus, OrderType, Outcome, OutcomeToken, OrderBookLevel, OrderBookSnapshot } from '../../types.js';
+import { engineClock } from '../journal/EngineClock.js';
+import { Micros, divRound } from '../money/Money.js';
 
 /**
  * Price level in the order book
@@ -242,6 +246,15 @@ export class OrderBookSide {
     }
   }
 
+  /**
+   * Iterate through all orders from best to worst price, FIFO within a level
+   */
+  *iterateOrders(): Generator<Order> {
+    for (const level of this.iterateLevels()) {
+      yield* level;
+    }
+  }
+
   /**
    * Binary search insert for sorted prices
    */
@@ -263,17 +276,17 @@ export class OrderBookSide {
 }
 
 /**
- * Central Limit Order Book for a single outcome token (YES or NO)
+ * Central Limit Order Book for a single outcome token
  */
 export class OrderBook {
   public readonly marketId: string;
-  public readonly outcome: OutcomeToken;
+  public readonly outcome: Outcome;
   private bids: OrderBookSide;
   private asks: OrderBookSide;
   private _lastTradePrice?: number;
   private _lastTradeTime?: Date;
 
-  constructor(marketId: string, outcome: OutcomeToken) {
+  constructor(marketId: string, outcome: Outcome) {
     this.marketId = marketId;
     this.outcome = outcome;
     this.bids = new OrderBookSide(OrderSide.BUY);
@@ -297,9 +310,12 @@ export class OrderBook {
     return this.bestAsk - this.bestBid;
   }
 
-  get midPrice(): number | undefined {
+  /**
+   * Midpoint of the best bid and ask, rounded to the nearest micro
+   */
+  get midPrice(): Micros | undefined {
     if (this.bestBid === undefined || this.bestAsk === undefined) return undefined;
-    return (this.bestBid + this.bestAsk) / 2;
+    return divRound(this.bestBid + this.bestAsk, 2);
   }
 
   get lastTradePrice(): number | undefined {
@@ -318,7 +334,8 @@ export class OrderBook {
    * Add a limit order to the book
    */
   addOrder(order: Order): void {
-    if (order.order_type !== 'limit' || !order.price) {
+    const restable = order.order_type === OrderType.LIMIT || order.order_type === OrderType.STOP_LIMIT;
+    if (!restable || !order.price) {
       throw new Error('Only limit orders with a price can be added to the book');
     }
 
@@ -357,12 +374,27 @@ export class OrderBook {
     return this.bids.getOrder(orderId) ?? this.asks.getOrder(orderId);
   }
 
+  /**
+   * Get all resting orders on both sides
+   */
+  getAllOrders(): Order[] {
+    return [...this.bids.iterateOrders(), ...this.asks.iterateOrders()];
+  }
+
   /**
    * Record a trade (updates last trade info)
    */
   recordTrade(price: number): void {
     this._lastTradePrice = price;
-    this._lastTradeTime = new Date();
+    this._lastTradeTime = engineClock.now();
+  }
+
+  /**
+   * Restore last trade info (journal recovery)
+   */
+  restoreLastTrade(price: number | undefined, time: Date | undefined): void {
+    this._lastTradePrice = price;
+    this._lastTradeTime = time;
   }
 
   // -------------------------------------------------------------------------
@@ -439,30 +471,59 @@ export class OrderBook {
 
 /**
  * Market Order Book Manager
- * Manages both YES and NO order books for a market
+ * One book per outcome token: YES and NO for binary and scalar markets,
+ * one per outcome id for a categorical market
  */
 export class MarketOrderBooks {
   public readonly marketId: string;
-  public readonly yes: OrderBook;
-  public readonly no: OrderBook;
+  public readonly outcomes: Outcome[];
+  private books: Map<Outcome, OrderBook>;
 
-  constructor(marketId: string) {
+  /** Categorical markets pass their outcome ids; YES / NO otherwise */
+  constructor(marketId: string, outcomes?: Outcome[]) {
     this.marketId = marketId;
-    this.yes = new OrderBook(marketId, OutcomeToken.YES);
-    this.no = new OrderBook(marketId, OutcomeToken.NO);
+    this.outcomes = outcomes ?? [OutcomeToken.YES, OutcomeToken.NO];
+    this.books = new Map(this.outcomes.map(outcome => [outcome, new OrderBook(marketId, outcome)]));
+  }
+
+  /**
+   * Whether the books are YES / NO (binary and scalar markets)
+   */
+  get isBinary(): boolean {
+    return this.books.has(OutcomeToken.YES) && this.books.has(OutcomeToken.NO);
+  }
+
+  hasOutcome(outcome: Outcome): boolean {
+    return this.books.has(outcome);
+  }
+
+  getBook(outcome: Outcome): OrderBook {
+    const book = this.books.get(outcome);
+    if (!book) {
+      throw new Error(`Market ${this.marketId} has no outcome '${outcome}'`);
+    }
+    return book;
   }
 
-  getBook(outcome: OutcomeToken): OrderBook {
-    return outcome === OutcomeToken.YES ? this.yes : this.no;
+  getBooks(): OrderBook[] {
+    return [...this.books.values()];
   }
 
   /**
-   * Get full market snapshot
+   * Get the book for the other outcome (YES <-> NO).
+   * A YES and a NO share always pay out exactly 1.00 together, so a price
+   * p in one book is equivalent to 1 - p in its complement. Categorical
+   * outcomes have no complement book: selling one is the complement.
    */
-  getSnapshot(maxLevels: number = 50): { yes: OrderBookSnapshot; no: OrderBookSnapshot } {
-    return {
-      yes: this.yes.getSnapshot(maxLevels),
-      no: this.no.getSnapshot(maxLevels),
-    };
+  getComplementBook(outcome: Outcome): OrderBook | undefined {
+    if (!this.isBinary) return undefined;
+    return outcome === OutcomeToken.YES ? this.books.get(OutcomeToken.NO) : this.books.get(OutcomeToken.YES);
+  }
+
+  /**
+   * Get full market snapshot, by outcome
+   */
+  getSnapshot(maxLevels: number = 50): Record<Outcome, OrderBookSnapshot> {
+    return Object.fromEntries(this.getBooks().map(book => [book.outcome, book.getSnapshot(maxLevels)]));
   }
 }
@@ -20,7 +20,7 @@ import 'dotenv/config';
 
 import { healthRoutes } from './api/routes/health.js';
 import { createAgentRoutes } from './api/routes/agents.js';
-import { createMarketRoutes } from './api/routes/markets.js';
+import { createMarketRoutes, markets } from './api/routes/markets.js';
 import { createOrderRoutes } from './api/routes/orders.js';
 import { createHeadlinesRoutes } from './api/routes/headlines.js';
 import { createNewsRoutes } from './api/routes/news.js';
@@ -28,7 +28,10 @@ import { createLiveNewsRoutes } from './api/routes/liveNews.js';
 import { createHeadlineFactoryRoutes } from './oracle/HeadlineFactory.js';
 import { createDiscoveryRoutes } from './oracle/DiscoveryService.js';
 import { createResolverRoutes } from './oracle/ProductionResolver.js';
-import { createLedgerRoutes } from './persistence/PostgresLedger.js';
+import { createResolverRegistry } from './oracle/resolvers/ResolverRegistry.js';
+import { EvidenceStore } from './oracle/EvidenceStore.js';
+import { SourceReputation } from './oracle/resolvers/SourceReputation.js';
+import { createLedgerRoutes, getPostgresLedger } from './persistence/PostgresLedger.js';
 import { washTradingDetector } from './core/CircuitBreaker.js';
 import { createA2ARoutes } from './a2a/AgentDiscovery.js';
 import { createMCPRoutes } from './mcp/MCPToolset.js';
@@ -44,15 +47,25 @@ import { createApiKeyRoutes } from './api/routes/apiKeys.js';
 import { createWebhookRoutes } from './api/routes/webhooks.js';
 import { createBenchmarkRoutes } from './api/routes/benchmark.js';
 import { getRatingEngine } from './rating/RatingEngine.js';
+import { createRatingStore } from './rating/RatingStore.js';
 import { createExternalAgentRoutes } from './api/routes/externalAgents.js';
+import { createAdminRoutes } from './api/routes/admin.js';
+import { createFeeRoutes } from './api/routes/fees.js';
+import { createMarginRoutes } from './api/routes/margin.js';
 
 import { EscrowLedger } from './engine/escrow/EscrowLedger.js';
 import { MatchingEngine } from './engine/matcher/MatchingEngine.js';
 import { OracleEngine } from './oracle/OracleEngine.js';
+import { AttestationService } from './oracle/AttestationService.js';
+import { ResolutionChallenges } from './oracle/ResolutionChallenges.js';
 import { EventBus } from './events/EventBus.js';
 import { TruthNetWebSocket } from './api/websocket/WebSocketServer.js';
 import { circuitBreakers } from './core/CircuitBreaker.js';
 import { seedPlatform } from './boot/PlatformSeeder.js';
+import { EngineJournal } from './engine/journal/EngineJournal.js';
+import { MarketRegistry } from './markets/MarketRegistry.js';
+import { PositionKeeper } from './settlement/PositionKeeper.js';
+import { fromMicros, toMicros } from './engine/money/Money.js';
 
 // ============================================================================
 // CONFIGURATION
@@ -79,11 +92,92 @@ const eventBus = new EventBus();
 // Escrow Ledger - Manages agent wallets and fund locking
 const escrow = new EscrowLedger();
 
+// Position Keeper - Live positions and realized P&L from every trade
+const positionKeeper = new PositionKeeper(eventBus);
+
+// Persist wallets and positions through PostgresLedger when LEDGER_DRIVER=postgres
+const persistWallets = process.env.LEDGER_DRIVER === 'postgres';
+if (persistWallets && process.env.ENGINE_JOURNAL_DIR) {
+  // Both would restore the same wallets: journal replay re-creates the ones already loaded
+  throw new Error(
+    'FATAL: LEDGER_DRIVER=postgres and ENGINE_JOURNAL_DIR are mutually exclusive. ' +
+    'Persist the engine through one of them.'
+  );
+}
+if (persistWallets) {
+  escrow.attachStore(getPostgresLedger());
+  positionKeeper.attachStore(getPostgresLedger());
+}
+
 // Matching Engine - CLOB and order matching
 const matchingEngine = new MatchingEngine(escrow, eventBus);
+matchingEngine.startExpirySweeper();
+
+// Margin Engine - CCP clearinghouse; clears every trade on margin when MARGIN_TRADING=true
+const marginTrading = process.env.MARGIN_TRADING === 'true';
+const marginEngine = getMarginEngine(eventBus, escrow, positionKeeper);
+marginEngine.attachMarkets(markets);
+if (marginTrading) {
+  matchingEngine.attachClearing(marginEngine);
+  marginEngine.attachMatchingEngine(matchingEngine);
+}
+
+// Market Registry - Lifecycle state machine and trading-window gate
+const marketRegistry = new MarketRegistry(matchingEngine, eventBus);
+matchingEngine.attachTradingGate(marketRegistry);
+marketRegistry.startSweeper();
+
+// Doctrine Engine - Pre-trade risk gate: doctrine, kill switch and paused agents
+const doctrineEngine = getDoctrineEngine(eventBus);
+doctrineEngine.attachMarkets(markets);
+doctrineEngine.attachPositions(positionKeeper);
+doctrineEngine.attachMatchingEngine(matchingEngine);
+doctrineEngine.attachEscrow(escrow);
+matchingEngine.attachPreTradeCheck(doctrineEngine);
+doctrineEngine.startEscalationSweeper();
+
+// Engine Journal - Command log + snapshots for deterministic recovery (opt-in)
+const engineJournal = process.env.ENGINE_JOURNAL_DIR
+  ? new EngineJournal({ dir: process.env.ENGINE_JOURNAL_DIR })
+  : undefined;
+if (engineJournal) {
+  escrow.attachJournal(engineJournal);
+  matchingEngine.attachJournal(engineJournal);
+  marketRegistry.attachJournal(engineJournal);
+  doctrineEngine.attachJournal(engineJournal);
+  marginEngine.attachJournal(engineJournal);
+}
+
+// Resolver Registry - One adapter per resolution schema type, shared by both resolvers
+const sourceReputation = new SourceReputation(eventBus);
+const resolverRegistry = createResolverRegistry(sourceReputation);
 
 // Oracle Engine - External data fetching and market resolution
-const oracleEngine = new OracleEngine(eventBus);
+const oracleEngine = new OracleEngine(eventBus, {}, resolverRegistry);
+
+// Attestation Service - Binary markets are decided by signed resolver attestations; disputes are bonded
+const attestationService = new AttestationService(eventBus, escrow, {
+  disputeWindowMs: parseInt(process.env.ORACLE_DISPUTE_WINDOW_MS || '86400000'),
+  bondAmount: toMicros(parseFloat(process.env.RESOLUTION_BOND_USDC || '100')),
+});
+oracleEngine.attachAttestations(attestationService);
+
+// Resolution Challenges - Oracle outcomes stay provisional through a bonded challenge window
+const resolutionChallenges = new ResolutionChallenges(escrow, eventBus, oracleEngine, {
+  challengeWindowMs: parseInt(process.env.ORACLE_CHALLENGE_WINDOW_MS || '3600000'),
+  bondAmount: toMicros(parseFloat(process.env.RESOLUTION_BOND_USDC || '100')),
+});
+oracleEngine.attachChallenges(resolutionChallenges);
+if (engineJournal) {
+  resolutionChallenges.attachJournal(engineJournal);
+}
+
+// Evidence Store - Signed, content-addressed archive of every resolution fetch
+const evidenceStore = new EvidenceStore({
+  dir: process.env.EVIDENCE_DIR || 'data/evidence',
+  signingKey: process.env.EVIDENCE_SIGNING_KEY || undefined,
+});
+oracleEngine.attachEvidence(evidenceStore);
 
 // WebSocket Server - Real-time event streaming
 const wsServer = new TruthNetWebSocket(eventBus);
@@ -95,13 +189,26 @@ const oracleCircuit = circuitBreakers.get('oracle', { failureThreshold: 3, timeo
 // Subscribe to key events for logging
 eventBus.subscribe('trades.executed', (data: any) => {
   const trade = data.trade || data;
-  console.log(`[TRADE] ${trade.buyer_id} bought ${trade.quantity} ${trade.outcome} @ ${trade.price} on ${trade.market_id?.substring(0,8)}`);
+  console.log(`[TRADE] ${trade.buyer_id} bought ${trade.quantity} ${trade.outcome} @ ${fromMicros(trade.price)} on ${trade.market_id?.substring(0,8)}`);
 });
 
 eventBus.subscribe('markets.resolved', (data) => {
   console.log(`[ORACLE] Market resolved: ${JSON.stringify(data)}`);
 });
 
+// Subscription plans unlock fee tiers (a user's wallet is keyed by user id)
+eventBus.subscribe('payment.subscription.created', (data: any) => {
+  matchingEngine.getFeeSchedule().setAgentPlan(data.userId, data.plan).catch(err => {
+    console.error(`[FEES] Failed to set plan for ${data.userId}: ${err.message}`);
+  });
+});
+
+eventBus.subscribe('payment.subscription.cancelled', (data: any) => {
+  matchingEngine.getFeeSchedule().setAgentPlan(data.userId, 'free').catch(err => {
+    console.error(`[FEES] Failed to reset plan for ${data.userId}: ${err.message}`);
+  });
+});
+
 // ============================================================================
 // CREATE FASTIFY SERVER
 // ============================================================================
@@ -134,7 +241,7 @@ async function registerPlugins() {
       'http://localhost:5173',
       'http://localhost:5174',
     ],
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Agent-ID', 'X-API-Key'],
     credentials: true,
   });
@@ -185,14 +292,20 @@ async function registerRoutes() {
   // V1 API routes
   await fastify.register(async (app) => {
     // Agent management
-    await app.register(createAgentRoutes(escrow));
+    await app.register(createAgentRoutes(escrow, positionKeeper));
 
     // Market operations
-    await app.register(createMarketRoutes(matchingEngine, oracleEngine, eventBus));
+    await app.register(createMarketRoutes(matchingEngine, oracleEngine, eventBus, marketRegistry, attestationService, resolutionChallenges, evidenceStore));
 
     // Order management
     await app.register(createOrderRoutes(matchingEngine));
 
+    // Fee schedule
+    await app.register(createFeeRoutes(matchingEngine));
+
+    // CCP clearinghouse: margin accounts and novated trades
+    await app.register(createMarginRoutes(marginEngine, marginTrading));
+
     // Headline factory (Sourcing Agent)
     await app.register(createHeadlinesRoutes(eventBus));
 
@@ -209,7 +322,7 @@ async function registerRoutes() {
     await app.register(createDiscoveryRoutes(eventBus));
 
     // Production resolver (automated oracle resolution)
-    await app.register(createResolverRoutes(eventBus));
+    await app.register(createResolverRoutes(eventBus, resolutionChallenges, resolverRegistry, sourceReputation, evidenceStore));
 
     // PostgreSQL persistence ledger
     await app.register(createLedgerRoutes());
@@ -218,13 +331,21 @@ async function registerRoutes() {
     await app.register(createA2ARoutes(eventBus));
 
     // MCP Toolset for external LLM integration
-    await app.register(createMCPRoutes(eventBus));
+    await app.register(createMCPRoutes(eventBus, evidenceStore, matchingEngine, marginTrading ? marginEngine : undefined));
 
-    // Initialize Margin Engine, Reputation Ledger, and Rating Engine
-    const marginEngine = getMarginEngine(eventBus);
+    // Initialize Reputation Ledger and Rating Engine
     const reputationLedger = getReputationLedger(eventBus);
     const ratingEngine = getRatingEngine(eventBus);
-    console.log('[TRUTH-NET] Margin Engine, Reputation Ledger, and Rating Engine initialized');
+    doctrineEngine.attachRatings(ratingEngine);
+    console.log(`[TRUTH-NET] Reputation Ledger and Rating Engine initialized (margin trading ${marginTrading ? 'on' : 'off'})`);
+
+    // Persist ratings, history and certifications when RATING_STORE is set
+    const ratingStore = createRatingStore();
+    if (ratingStore) {
+      ratingEngine.attachStore(ratingStore);
+      const ratings = await ratingEngine.loadFromStore();
+      console.log(`[TRUTH-NET] Loaded ${ratings} agent ratings from the ${process.env.RATING_STORE} rating store`);
+    }
 
     // Wire ReputationLedger → RatingEngine: Brier score updates flow into TruthScore
     eventBus.subscribe('reputation.prediction_verified', (data: any) => {
@@ -265,6 +386,9 @@ async function registerRoutes() {
     // Authentication
     await app.register(createAuthRoutes(escrow, eventBus));
 
+    // Admin: ledger invariants and reconciliation
+    await app.register(createAdminRoutes(escrow, marketRegistry, attestationService, resolutionChallenges, marginEngine));
+
     // API Key Management
     await app.register(createApiKeyRoutes());
 
@@ -277,10 +401,9 @@ async function registerRoutes() {
     // External Agent API (the core product API for real users)
     await app.register(createExternalAgentRoutes(matchingEngine, escrow, eventBus));
     
-    // Initialize Doctrine Engine and Agent Manager (side-effect: register listeners / singletons)
-    void getDoctrineEngine(eventBus);
+    // Initialize Agent Manager (side-effect: register listeners / singletons)
     void getAgentManager(eventBus);
-    console.log('[TRUTH-NET] Doctrine Engine and Agent Manager initialized');
+    console.log('[TRUTH-NET] Agent Manager initialized');
 
     // Wash trading status endpoint
     app.get('/wash-trading/status', async () => {
@@ -389,8 +512,16 @@ async function start() {
     // In dev, use a separate port so Vite proxy can reach the API.
     const isProduction = process.env.NODE_ENV === 'production';
 
+    if (persistWallets) {
+      const loaded = await escrow.loadFromStore();
+      const positions = await positionKeeper.loadFromStore();
+      console.log(`[TRUTH-NET] Loaded ${loaded} wallets and ${positions} positions from PostgreSQL`);
+    }
+
     // Seed the platform: agents, markets, trading loop, settlement
-    const seedResult = await seedPlatform(matchingEngine, escrow, eventBus);
+    const seedResult = await seedPlatform(matchingEngine, escrow, eventBus, engineJournal, marketRegistry, positionKeeper);
+    // Challenge windows and re-resolutions interrupted by a restart pick up again
+    await resolutionChallenges.resume();
     console.log(`[TRUTH-NET] Platform seeded — settlement: ${seedResult.settlement ? 'online' : 'off'}, trading: ${seedResult.tradingLoop ? 'active' : 'off'}`);
 
     // Add LLM reasoning and trading stats endpoints (requires trading loop reference)
@@ -406,14 +537,17 @@ async function start() {
       timestamp: new Date().toISOString(),
     }));
 
-    fastify.get('/v1/trading/stats', async () => ({
-      success: true,
-      data: {
-        ...seedResult.tradingLoop.getStats(),
-        settlement: seedResult.settlement.getStats(),
-      },
-      timestamp: new Date().toISOString(),
-    }));
+    fastify.get('/v1/trading/stats', async () => {
+      const settlement = seedResult.settlement.getStats();
+      return {
+        success: true,
+        data: {
+          ...seedResult.tradingLoop.getStats(),
+          settlement: { ...settlement, totalPayoutValue: fromMicros(settlement.totalPayoutValue) },
+        },
+        timestamp: new Date().toISOString(),
+      };
+    });
 
     fastify.get('/v1/settlements/agent/:agentId', async (request: any) => {
       const pnl = seedResult.settlement.getAgentPnL(request.params.agentId);
@@ -421,12 +555,16 @@ async function start() {
         success: true,
         data: {
           agent_id: request.params.agentId,
-          settlements: pnl.settlements,
+          settlements: pnl.settlements.map(s => ({
+            ...s,
+            payout: fromMicros(s.payout),
+            profit_loss: fromMicros(s.profit_loss),
+          })),
           summary: {
             markets_participated: pnl.markets_participated,
             wins: pnl.markets_won,
             losses: pnl.markets_lost,
-            total_pnl: pnl.total_pnl,
+            total_pnl: fromMicros(pnl.total_pnl),
           },
         },
         timestamp: new Date().toISOString(),
@@ -463,6 +601,18 @@ process.on('SIGINT', async () => {
   console.log('\nShutting down gracefully...');
   wsServer.stop();
   oracleEngine.clearAll();
+  attestationService.clearAll();
+  resolutionChallenges.clearAll();
+  matchingEngine.stopExpirySweeper();
+  doctrineEngine.stopEscalationSweeper();
+  if (engineJournal) {
+    engineJournal.stopSnapshots();
+    await engineJournal.snapshot();
+  }
+  if (persistWallets) {
+    await escrow.flushStore();
+    await getPostgresLedger().disconnect();
+  }
   await fastify.close();
   console.log('Shutdown complete.');
   process.exit(0);
@@ -472,6 +622,18 @@ process.on('SIGTERM', async () => {
   console.log('\nShutting down gracefully...');
   wsServer.stop();
   oracleEngine.clearAll();
+  attestationService.clearAll();
+  resolutionChallenges.clearAll();
+  matchingEngine.stopExpirySweeper();
+  doctrineEngine.stopEscalationSweeper();
+  if (engineJournal) {
+    engineJournal.stopSnapshots();
+    await engineJournal.snapshot();
+  }
+  if (persistWallets) {
+    await escrow.flushStore();
+    await getPostgresLedger().disconnect();
+  }
   await fastify.close();
   console.log('Shutdown complete.');
   process.exit(0);
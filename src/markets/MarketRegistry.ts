@@ -0,0 +1,310 @@
+/**
+ * TRUTH-NET Market Registry
+ * Central lifecycle state machine for markets
+ *
+ *   PENDING ──> ACTIVE <──> HALTED
+ *      │          │           │
+ *      │          └──> RESOLVING <──┘
+ *      │                  │
+ *      │                  └──> SETTLED
+ *      └──> CANCELLED (from any non-terminal state)
+ *
+ * The registry is the matching engine's trading gate: a registered market
+ * accepts orders only while ACTIVE and inside its opens_at/closes_at
+ * window. Markets the registry does not know are not gated.
+ *
+ * Side effects of a transition:
+ * - RESOLVING (close): resting orders are cancelled and their escrow released
+ * - CANCELLED: resting orders are cancelled and SettlementService unwinds
+ *   every trade at cost
+ * - SETTLED: any order left on the book is cancelled
+ *
+ * Every transition publishes markets.status_changed. A sweeper opens
+ * PENDING markets at opens_at and closes trading markets at closes_at;
+ * markets.resolving and settlements.completed move markets along as the
+ * oracle and settlement progress.
+ */
+
+import { MarketStatus, Outcome } from '../types.js';
+import { EventBus } from '../events/EventBus.js';
+import { MatchingEngine, TradingGate } from '../engine/matcher/MatchingEngine.js';
+import { engineClock } from '../engine/journal/EngineClock.js';
+import { EngineJournal, reviveDates } from '../engine/journal/EngineJournal.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MarketLifecycle {
+  market_id: string;
+  status: MarketStatus;
+  opens_at: Date;
+  closes_at: Date;
+  outcomes?: Outcome[]; // Categorical markets: one order book per outcome
+  reason?: string;      // Why the market entered its current status
+  updated_at: Date;
+}
+
+export interface MarketStatusChange {
+  market_id: string;
+  from: MarketStatus;
+  to: MarketStatus;
+  reason?: string;
+  changed_at: string;
+}
+
+const TRANSITIONS: Record<MarketStatus, MarketStatus[]> = {
+  [MarketStatus.PENDING]: [MarketStatus.ACTIVE, MarketStatus.CANCELLED],
+  [MarketStatus.ACTIVE]: [MarketStatus.HALTED, MarketStatus.RESOLVING, MarketStatus.CANCELLED],
+  [MarketStatus.HALTED]: [MarketStatus.ACTIVE, MarketStatus.RESOLVING, MarketStatus.CANCELLED],
+  [MarketStatus.RESOLVING]: [MarketStatus.SETTLED, MarketStatus.CANCELLED],
+  [MarketStatus.SETTLED]: [],
+  [MarketStatus.CANCELLED]: [],
+};
+
+const CLEAR_REASONS: Partial<Record<MarketStatus, string>> = {
+  [MarketStatus.RESOLVING]: 'market_closed',
+  [MarketStatus.CANCELLED]: 'market_cancelled',
+  [MarketStatus.SETTLED]: 'market_settled',
+};
+
+/**
+ * Whether a market may move from one status to another
+ */
+export function canTransition(from: MarketStatus, to: MarketStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+// ============================================================================
+// MARKET REGISTRY
+// ============================================================================
+
+export class MarketRegistry implements TradingGate {
+  private markets: Map<string, MarketLifecycle> = new Map();
+  private sweepInterval: ReturnType<typeof setInterval> | null = null;
+  private journal?: EngineJournal;
+
+  constructor(
+    private engine: MatchingEngine,
+    private eventBus: EventBus,
+  ) {
+    // The oracle has started resolving: stop trading
+    this.eventBus.subscribe('markets.resolving', async (data: any) => {
+      const market = this.markets.get(data.market_id);
+      if (market && (market.status === MarketStatus.ACTIVE || market.status === MarketStatus.HALTED)) {
+        await this.transition(data.market_id, MarketStatus.RESOLVING, 'oracle_resolving');
+      }
+    });
+
+    // Payouts are done
+    this.eventBus.subscribe('settlements.completed', async (data: any) => {
+      const market = this.markets.get(data.market_id);
+      if (!market) return;
+      if (market.status === MarketStatus.ACTIVE || market.status === MarketStatus.HALTED) {
+        await this.transition(data.market_id, MarketStatus.RESOLVING, 'settlement_started');
+      }
+      if (this.markets.get(data.market_id)!.status === MarketStatus.RESOLVING) {
+        await this.transition(data.market_id, MarketStatus.SETTLED, 'settled');
+      }
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Registration
+  // -------------------------------------------------------------------------
+
+  /**
+   * Register a market and its trading window. It starts ACTIVE when the
+   * window is already open, PENDING otherwise. A categorical market also
+   * registers its outcomes. Registering a known market is a no-op.
+   */
+  async register(
+    marketId: string,
+    window: { opens_at: Date; closes_at: Date; outcomes?: Outcome[] }
+  ): Promise<MarketLifecycle> {
+    const existing = this.markets.get(marketId);
+    if (existing) return existing;
+
+    return this.journaled(
+      'market.register',
+      [marketId, window.opens_at.toISOString(), window.closes_at.toISOString(), window.outcomes ?? null],
+      async () => this.applyRegister(marketId, window.opens_at, window.closes_at, window.outcomes)
+    );
+  }
+
+  private applyRegister(marketId: string, opensAt: Date, closesAt: Date, outcomes?: Outcome[]): MarketLifecycle {
+    if (closesAt <= opensAt) {
+      throw new Error(`Market ${marketId} closes_at must be after opens_at`);
+    }
+
+    const now = engineClock.now();
+    const market: MarketLifecycle = {
+      market_id: marketId,
+      status: opensAt <= now ? MarketStatus.ACTIVE : MarketStatus.PENDING,
+      opens_at: new Date(opensAt),
+      closes_at: new Date(closesAt),
+      outcomes,
+      updated_at: now,
+    };
+    this.markets.set(marketId, market);
+    this.engine.initializeMarket(marketId, outcomes);
+    return market;
+  }
+
+  // -------------------------------------------------------------------------
+  // Transitions
+  // -------------------------------------------------------------------------
+
+  /**
+   * Move a market to a new status, applying the transition's side effects
+   * and publishing markets.status_changed
+   */
+  async transition(marketId: string, to: MarketStatus, reason?: string): Promise<MarketLifecycle> {
+    return this.journaled('market.transition', [marketId, to, reason ?? null], () =>
+      this.applyTransition(marketId, to, reason)
+    );
+  }
+
+  private async applyTransition(marketId: string, to: MarketStatus, reason?: string): Promise<MarketLifecycle> {
+    const market = this.markets.get(marketId);
+    if (!market) {
+      throw new Error(`Market ${marketId} is not registered`);
+    }
+
+    const from = market.status;
+    if (!canTransition(from, to)) {
+      throw new Error(`Illegal market transition ${from} -> ${to} for ${marketId}`);
+    }
+
+    const now = engineClock.now();
+    market.status = to;
+    market.reason = reason;
+    market.updated_at = now;
+
+    const clearReason = CLEAR_REASONS[to];
+    if (clearReason) {
+      await this.engine.clearMarket(marketId, clearReason);
+    }
+
+    const change: MarketStatusChange = { market_id: marketId, from, to, reason, changed_at: now.toISOString() };
+    await this.eventBus.publish('markets.status_changed', change);
+
+    return market;
+  }
+
+  /**
+   * Open PENDING markets whose window has started and close trading
+   * markets whose window has ended
+   */
+  async sweep(now: Date = engineClock.now()): Promise<MarketStatusChange[]> {
+    const changes: MarketStatusChange[] = [];
+
+    for (const market of [...this.markets.values()]) {
+      const from = market.status;
+      let to: MarketStatus | undefined;
+      let reason: string | undefined;
+
+      if (from === MarketStatus.PENDING && market.opens_at <= now && market.closes_at > now) {
+        to = MarketStatus.ACTIVE;
+        reason = 'window_opened';
+      } else if ((from === MarketStatus.ACTIVE || from === MarketStatus.HALTED) && market.closes_at <= now) {
+        to = MarketStatus.RESOLVING;
+        reason = 'window_closed';
+      }
+
+      if (to) {
+        await this.transition(market.market_id, to, reason);
+        changes.push({ market_id: market.market_id, from, to, reason, changed_at: now.toISOString() });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Sweep trading windows periodically
+   */
+  startSweeper(intervalMs: number = 1000): void {
+    if (this.sweepInterval) return;
+
+    this.sweepInterval = setInterval(() => {
+      this.sweep().catch(err => {
+        console.error(`[MarketRegistry] Sweep failed: ${err.message}`);
+      });
+    }, intervalMs);
+  }
+
+  stopSweeper(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Trading Gate
+  // -------------------------------------------------------------------------
+
+  rejectionReason(marketId: string, now: Date): string | undefined {
+    const market = this.markets.get(marketId);
+    if (!market) return undefined;
+
+    if (market.status !== MarketStatus.ACTIVE) return `market is ${market.status}`;
+    if (now < market.opens_at) return `trading opens at ${market.opens_at.toISOString()}`;
+    if (now >= market.closes_at) return `trading closed at ${market.closes_at.toISOString()}`;
+    return undefined;
+  }
+
+  // -------------------------------------------------------------------------
+  // Getters
+  // -------------------------------------------------------------------------
+
+  get(marketId: string): MarketLifecycle | undefined {
+    return this.markets.get(marketId);
+  }
+
+  getStatus(marketId: string): MarketStatus | undefined {
+    return this.markets.get(marketId)?.status;
+  }
+
+  list(status?: MarketStatus): MarketLifecycle[] {
+    const all = [...this.markets.values()];
+    return status ? all.filter(m => m.status === status) : all;
+  }
+
+  // -------------------------------------------------------------------------
+  // Journal and Snapshots
+  // -------------------------------------------------------------------------
+
+  /**
+   * Journal registrations and transitions and include every market's
+   * lifecycle in snapshots
+   */
+  attachJournal(journal: EngineJournal): void {
+    this.journal = journal;
+
+    journal.register('market.register', (marketId: string, opensAt: string, closesAt: string, outcomes?: Outcome[] | null) =>
+      this.register(marketId, { opens_at: new Date(opensAt), closes_at: new Date(closesAt), outcomes: outcomes ?? undefined }));
+    journal.register('market.transition', (marketId: string, to: MarketStatus, reason: string | null) =>
+      this.transition(marketId, to, reason ?? undefined));
+
+    journal.addParticipant('market_registry', this);
+  }
+
+  private journaled<T>(type: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    return this.journal ? this.journal.record(type, args, fn) : fn();
+  }
+
+  toSnapshot(): unknown {
+    return {
+      markets: [...this.markets.values()].sort((a, b) => a.market_id.localeCompare(b.market_id)),
+    };
+  }
+
+  restoreSnapshot(state: unknown): void {
+    const saved = state as { markets: MarketLifecycle[] };
+    this.markets = new Map(saved.markets.map(m =>
+      [m.market_id, reviveDates({ ...m }, ['opens_at', 'closes_at', 'updated_at'])]
+    ));
+  }
+}
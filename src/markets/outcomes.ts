@@ -0,0 +1,268 @@
+/**
+ * TRUTH-NET Market Outcomes
+ * Outcome tokens and payouts of binary, categorical and scalar markets
+ *
+ * - binary       YES / NO; the schema's condition decides which pays 1.00
+ * - categorical  One token per outcome id (Market.outcomes). Selling an
+ *                outcome is holding its negation "!id", which pays 1.00
+ *                when any other outcome happens
+ * - scalar       YES is long and NO short a value. A long share pays
+ *                (value - lower) / (upper - lower), clamped to 0..1.00,
+ *                and a short share pays the rest
+ *
+ * Every trade locks exactly 1.00 a share between buyer and seller, so the
+ * payouts of a resolved market always sum to its trade escrow.
+ */
+
+import { Micros, ONE_SHARE } from '../engine/money/Money.js';
+import {
+  Market,
+  MarketType,
+  OracleResolutionResult,
+  Outcome,
+  OutcomeToken,
+  ResolutionSchema,
+  ResolutionTerms,
+  ScalarRange,
+  SourceResolutionSchema,
+} from '../types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MarketTerms = Pick<Market, 'market_type' | 'outcomes' | 'scalar_range'>;
+
+/** A decided outcome, with the value and long payout of a scalar market */
+export interface ResolvedOutcome {
+  outcome: Outcome;
+  value?: number;
+  long_payout?: Micros;
+}
+
+/** An operator's decision: an outcome, or the value of a scalar market */
+export interface OutcomeVerdict {
+  outcome?: Outcome;
+  value?: number;
+}
+
+export const BINARY_OUTCOMES: Outcome[] = [OutcomeToken.YES, OutcomeToken.NO];
+
+export const MAX_CATEGORICAL_OUTCOMES = 20;
+
+/** Lowercase slugs, so they never collide with a negation or with YES / NO */
+const OUTCOME_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/** Schema types that extract a value a categorical or scalar market can resolve from */
+const VALUE_SCHEMAS: Record<Exclude<MarketType, MarketType.BINARY>, string[]> = {
+  [MarketType.CATEGORICAL]: ['http_json', 'graphql', 'manual'],
+  [MarketType.SCALAR]: ['http_json', 'graphql', 'github', 'weather', 'manual'],
+};
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+export function marketTypeOf(market: MarketTerms): MarketType {
+  return market.market_type ?? MarketType.BINARY;
+}
+
+/**
+ * Tokens with an order book: YES / NO, or a categorical market's outcomes
+ */
+export function marketOutcomes(market: MarketTerms): Outcome[] {
+  return marketTypeOf(market) === MarketType.CATEGORICAL ? [...(market.outcomes ?? [])] : [...BINARY_OUTCOMES];
+}
+
+/**
+ * What the other side of a trade in an outcome holds: YES <-> NO, id <-> !id
+ */
+export function oppositeOutcome(outcome: Outcome): Outcome {
+  if (outcome === OutcomeToken.YES) return OutcomeToken.NO;
+  if (outcome === OutcomeToken.NO) return OutcomeToken.YES;
+  return outcome.startsWith('!') ? outcome.slice(1) : `!${outcome}`;
+}
+
+/**
+ * Whether a token (possibly a negated categorical outcome) is on the
+ * resolved outcome's side
+ */
+export function holdsOutcome(outcome: Outcome, resolved: Outcome): boolean {
+  return outcome.startsWith('!') ? outcome.slice(1) !== resolved : outcome === resolved;
+}
+
+// ============================================================================
+// PAYOUTS
+// ============================================================================
+
+/**
+ * What a long share of a scalar market pays at a value, to the micro
+ */
+export function longPayout(range: ScalarRange, value: number): Micros {
+  const fraction = (value - range.lower) / (range.upper - range.lower);
+  return Math.round(Math.min(1, Math.max(0, fraction)) * ONE_SHARE);
+}
+
+/**
+ * What one share of a token pays once the market has resolved
+ */
+export function sharePayout(
+  outcome: Outcome,
+  resolution: Pick<ResolutionTerms, 'long_payout'> & { outcome: Outcome }
+): Micros {
+  if (resolution.long_payout !== undefined) {
+    return outcome === OutcomeToken.YES ? resolution.long_payout : ONE_SHARE - resolution.long_payout;
+  }
+  return holdsOutcome(outcome, resolution.outcome) ? ONE_SHARE : 0;
+}
+
+/**
+ * The terms a markets.resolved event carries for a market (nothing for a
+ * binary market)
+ */
+export function resolutionTerms(market: MarketTerms, resolved: Omit<ResolvedOutcome, 'outcome'> = {}): ResolutionTerms {
+  const type = marketTypeOf(market);
+  if (type === MarketType.CATEGORICAL) {
+    return { market_type: type, outcomes: marketOutcomes(market) };
+  }
+  if (type === MarketType.SCALAR) {
+    return { market_type: type, value: resolved.value, long_payout: resolved.long_payout };
+  }
+  return {};
+}
+
+// ============================================================================
+// DECIDING OUTCOMES
+// ============================================================================
+
+/**
+ * The outcome a source's extracted value decides: the categorical outcome
+ * it names (case-insensitive), or the scalar value. A scalar market's
+ * outcome is the side paid more, YES at the midpoint.
+ */
+export function outcomeFromValue(market: MarketTerms, value: unknown): ResolvedOutcome | { error: string } {
+  if (marketTypeOf(market) === MarketType.SCALAR) {
+    const number = typeof value === 'number' ? value
+      : typeof value === 'string' && value.trim() !== '' ? Number(value)
+      : NaN;
+    if (!Number.isFinite(number)) {
+      return { error: `Scalar market needs a number, got ${JSON.stringify(value)}` };
+    }
+    const payout = longPayout(market.scalar_range!, number);
+    return {
+      outcome: payout * 2 >= ONE_SHARE ? OutcomeToken.YES : OutcomeToken.NO,
+      value: number,
+      long_payout: payout,
+    };
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    const id = String(value).trim().toLowerCase();
+    if (marketOutcomes(market).includes(id)) return { outcome: id };
+  }
+  return { error: `${JSON.stringify(value)} is not an outcome of this market` };
+}
+
+/**
+ * An operator's verdict on a market (forced resolution, challenge verdict)
+ */
+export function decideOutcome(market: MarketTerms, verdict: OutcomeVerdict): ResolvedOutcome | { error: string } {
+  if (marketTypeOf(market) === MarketType.SCALAR) {
+    if (verdict.value === undefined) return { error: 'A scalar market is decided by its value' };
+    return outcomeFromValue(market, verdict.value);
+  }
+
+  const outcomes = marketOutcomes(market);
+  if (verdict.outcome === undefined || !outcomes.includes(verdict.outcome)) {
+    return { error: `outcome must be one of: ${outcomes.join(', ')}` };
+  }
+  return { outcome: verdict.outcome };
+}
+
+/**
+ * Turn a source's result into the market's outcome: binary markets keep
+ * what their condition decided, categorical and scalar markets resolve
+ * from the extracted value
+ */
+export function applyMarketTerms(market: MarketTerms, result: OracleResolutionResult): OracleResolutionResult {
+  if (!result.success || result.pending) return result;
+
+  if (marketTypeOf(market) === MarketType.BINARY) {
+    return result.outcome !== undefined
+      ? result
+      : { ...result, success: false, error: 'No condition decides this binary market' };
+  }
+
+  const resolved = outcomeFromValue(market, result.evaluated_value);
+  if ('error' in resolved) {
+    return { ...result, success: false, outcome: undefined, error: resolved.error };
+  }
+  return { ...result, ...resolved };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Why a market's type, outcomes, range and resolution schema do not fit
+ * together, or undefined when they do
+ */
+export function validateMarketTerms(market: MarketTerms, schema: ResolutionSchema): string | undefined {
+  const type = marketTypeOf(market);
+
+  if (type === MarketType.CATEGORICAL) {
+    const outcomes = market.outcomes ?? [];
+    if (outcomes.length < 2 || outcomes.length > MAX_CATEGORICAL_OUTCOMES) {
+      return `Categorical markets need 2 to ${MAX_CATEGORICAL_OUTCOMES} outcomes`;
+    }
+    const invalid = outcomes.find(o => !OUTCOME_ID.test(o) || BINARY_OUTCOMES.includes(o));
+    if (invalid !== undefined) {
+      return `Invalid outcome id '${invalid}': lowercase letters, digits, _ and -, and not yes / no`;
+    }
+    if (new Set(outcomes).size !== outcomes.length) return 'Outcome ids must be unique';
+  } else if (market.outcomes !== undefined) {
+    return 'outcomes only apply to categorical markets';
+  }
+
+  if (type === MarketType.SCALAR) {
+    const range = market.scalar_range;
+    if (!range || !Number.isFinite(range.lower) || !Number.isFinite(range.upper) || range.lower >= range.upper) {
+      return 'Scalar markets need a scalar_range with lower < upper';
+    }
+  } else if (market.scalar_range !== undefined) {
+    return 'scalar_range only applies to scalar markets';
+  }
+
+  if (type === MarketType.BINARY) {
+    const unconditioned = conditionedSources(schema).find(source => source.condition === undefined);
+    return unconditioned ? `Binary markets need a condition on every ${unconditioned.type} source` : undefined;
+  }
+
+  if (!VALUE_SCHEMAS[type].includes(schema.type)) {
+    return `${type} markets resolve through ${VALUE_SCHEMAS[type].join(', ')}, not ${schema.type}`;
+  }
+  if (conditionedSources(schema).some(source => source.condition !== undefined)) {
+    return `${type} markets resolve from the extracted value; conditions only apply to binary markets`;
+  }
+  return undefined;
+}
+
+/**
+ * Every schema in a resolution schema that can carry a condition: the
+ * primary, its alternate sources and a multi_source's sources
+ */
+function conditionedSources(schema: ResolutionSchema): Array<{ type: string; condition?: unknown }> {
+  switch (schema.type) {
+    case 'http_json':
+    case 'graphql':
+      return [schema, ...(schema.alternate_sources ?? [])];
+    case 'multi_source':
+      return schema.sources as SourceResolutionSchema[];
+    case 'github':
+    case 'weather':
+      return [schema];
+    default:
+      return [];
+  }
+}
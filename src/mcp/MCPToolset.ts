@@ -6,13 +6,20 @@
  * 
  * Tools:
  * - get_consensus_odds: Get current market consensus
- * - place_margin_hedge: Place a hedged position
+ * - place_margin_hedge: Buy YES or NO shares as a hedge, through the
+ *   matching engine and its pre-trade doctrine check
  * - fetch_truth_audit: Get resolution audit trail
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { EventBus } from '../events/EventBus.js';
-import { v4 as uuidv4 } from 'uuid';
+import { EvidenceStore } from '../oracle/EvidenceStore.js';
+import { MatchingEngine } from '../engine/matcher/MatchingEngine.js';
+import { MarginEngine } from '../clearinghouse/MarginEngine.js';
+import { DoctrineViolationError, OrderEscalatedError } from '../core/DoctrineEngine.js';
+import { OrderSide, OrderType } from '../types.js';
+import { toMicros } from '../engine/money/Money.js';
+import { formatDoctrineViolation, formatEscalation, formatMarginAccount, formatOrder } from '../api/formatters.js';
 
 // ============================================================================
 // MCP TYPES (1.0 Standard)
@@ -76,10 +83,14 @@ const MCP_TOOLS: MCPTool[] = [
   },
   {
     name: 'place_margin_hedge',
-    description: 'Place a margin-backed hedge position on a market. Requires 20% initial margin. Use to protect against specific outcomes.',
+    description: 'Buy YES or NO shares on a market to protect against a specific outcome. The order passes the agent\'s doctrine checks; with margin trading on, the clearinghouse finances what the agent does not post.',
     inputSchema: {
       type: 'object',
       properties: {
+        agent_id: {
+          type: 'string',
+          description: 'The agent placing the hedge',
+        },
         market_id: {
           type: 'string',
           description: 'The market to trade',
@@ -102,12 +113,12 @@ const MCP_TOOLS: MCPTool[] = [
           description: 'Reason for the hedge (for audit trail)',
         },
       },
-      required: ['market_id', 'side', 'size'],
+      required: ['agent_id', 'market_id', 'side', 'size'],
     },
   },
   {
     name: 'fetch_truth_audit',
-    description: 'Fetch the complete audit trail for a market resolution. Shows oracle sources, verification steps, and final determination.',
+    description: 'Fetch the complete audit trail for a market resolution from its signed, archived evidence. Shows oracle sources, verification steps, and final determination.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -198,7 +209,12 @@ const MCP_TOOLS: MCPTool[] = [
 // ============================================================================
 
 export class MCPToolsetService {
-  constructor(private eventBus: EventBus) {}
+  constructor(
+    private eventBus: EventBus,
+    private evidence?: EvidenceStore,
+    private engine?: MatchingEngine,
+    private margin?: MarginEngine
+  ) {}
   
   /**
    * Get all available tools
@@ -275,81 +291,130 @@ export class MCPToolsetService {
     };
   }
   
+  /**
+   * Buy the side's shares: a limit order at max_price, or a market order.
+   * Size is in dollars, so a market order buys as many shares as size
+   * pays for at 1.00.
+   */
   private async placeMarginHedge(args: Record<string, unknown>): Promise<MCPToolResult> {
+    const agentId = args.agent_id as string;
     const marketId = args.market_id as string;
     const side = args.side as string;
     const size = args.size as number;
     const maxPrice = args.max_price as number | undefined;
-    
-    // Calculate margin requirements
-    const initialMargin = size * 0.20; // 20%
-    const executionPrice = maxPrice || (0.4 + Math.random() * 0.2);
-    
-    const order = {
-      order_id: uuidv4(),
-      market_id: marketId,
-      side,
-      size,
-      execution_price: executionPrice,
-      margin_locked: initialMargin,
-      status: 'filled',
-      hedge_reason: args.hedge_reason || 'Portfolio hedge',
-      created_at: new Date().toISOString(),
-    };
-    
-    this.eventBus.publish('mcp.hedge_placed', order);
-    
-    return {
-      content: [{
-        type: 'json',
-        json: {
-          success: true,
-          order,
-          margin_summary: {
-            initial_margin_required: initialMargin,
-            maintenance_margin: size * 0.10, // 10%
-            available_margin: size * 0.80,
-          },
+
+    if (!this.engine) {
+      return {
+        content: [{ type: 'text', text: 'Trading is not available on this server' }],
+        isError: true,
+      };
+    }
+
+    const quantity = Math.floor(size / (maxPrice ?? 1));
+    if (quantity < 1) {
+      return {
+        content: [{ type: 'text', text: `Size $${size} buys no shares at ${maxPrice ?? 1}` }],
+        isError: true,
+      };
+    }
+
+    try {
+      const { order, result } = await this.engine.processOrder(agentId, marketId, {
+        market_id: marketId,
+        side: OrderSide.BUY,
+        outcome: side,
+        order_type: maxPrice !== undefined ? OrderType.LIMIT : OrderType.MARKET,
+        price: toMicros(maxPrice),
+        quantity,
+        metadata: {
+          source: 'mcp',
+          hedge_reason: args.hedge_reason || 'Portfolio hedge',
         },
-      }],
-    };
+      });
+
+      const hedge = {
+        ...formatOrder(order),
+        hedge_reason: args.hedge_reason || 'Portfolio hedge',
+        trades: result.trades.length,
+      };
+      this.eventBus.publish('mcp.hedge_placed', hedge);
+
+      return {
+        content: [{
+          type: 'json',
+          json: {
+            success: true,
+            order: hedge,
+            margin_account: this.margin ? formatMarginAccount(this.margin.getAccount(agentId)) : null,
+          },
+        }],
+      };
+    } catch (error) {
+      if (error instanceof DoctrineViolationError) {
+        return {
+          content: [{
+            type: 'json',
+            json: {
+              success: false,
+              error: { code: error.code, message: error.message, violation: formatDoctrineViolation(error.violation) },
+            },
+          }],
+          isError: true,
+        };
+      }
+      if (error instanceof OrderEscalatedError) {
+        return {
+          content: [{
+            type: 'json',
+            json: { success: true, escalation: formatEscalation(error.escalation) },
+          }],
+        };
+      }
+      throw error;
+    }
   }
   
+  /**
+   * The market's signed resolution evidence, one verification step per
+   * archived fetch
+   */
   private async fetchTruthAudit(args: Record<string, unknown>): Promise<MCPToolResult> {
     const marketId = args.market_id as string;
-    
+    const bundles = this.evidence?.list(marketId) ?? [];
+
+    if (bundles.length === 0) {
+      return {
+        content: [{ type: 'text', text: `No resolution evidence for market ${marketId}` }],
+        isError: true,
+      };
+    }
+
+    const latest = bundles[bundles.length - 1].bundle;
+    let step = 0;
+
     const audit = {
       market_id: marketId,
-      resolution_status: 'resolved',
-      outcome: Math.random() > 0.5 ? 'YES' : 'NO',
-      resolution_timestamp: new Date().toISOString(),
-      verification_chain: [
-        {
-          step: 1,
-          source: 'Primary Oracle (NOAA API)',
-          status: 'verified',
-          data: { temperature: 42.3, threshold: 40 },
-          timestamp: new Date(Date.now() - 3600000).toISOString(),
-        },
-        {
-          step: 2,
-          source: 'Secondary Oracle (Weather.gov)',
-          status: 'verified',
-          data: { temperature: 42.1, threshold: 40 },
-          timestamp: new Date(Date.now() - 3500000).toISOString(),
-        },
-        {
-          step: 3,
-          source: 'Consensus Engine',
-          status: 'confirmed',
-          agreement: '2/2 oracles agree',
-          timestamp: new Date(Date.now() - 3400000).toISOString(),
-        },
-      ],
-      oracle_responses: args.include_oracle_responses ? [
-        { source: 'noaa', raw: { data: 'temperature reading' } },
-        { source: 'weather.gov', raw: { data: 'backup reading' } },
-      ] : undefined,
+      resolution_status: latest.success ? 'resolved' : 'unresolved',
+      outcome: latest.outcome?.toUpperCase() ?? null,
+      resolution_timestamp: latest.created_at,
+      evidence_url: `/v1/markets/${marketId}/resolution-evidence`,
+      public_key: this.evidence!.getPublicKey(),
+      verification_chain: bundles.flatMap(({ hash, bundle }) => bundle.fetches.map(fetch => ({
+        step: ++step,
+        source: fetch.request.url,
+        status: fetch.error ? 'failed' : 'fetched',
+        purpose: bundle.purpose,
+        response_status: fetch.response?.status,
+        body_sha256: fetch.response?.body_sha256,
+        bundle_hash: hash,
+        timestamp: fetch.fetched_at,
+      }))),
+      oracle_responses: args.include_oracle_responses !== false
+        ? bundles.flatMap(({ bundle }) => bundle.fetches.flatMap(fetch => {
+          const hash = fetch.response?.body_sha256;
+          return hash ? [{ source: fetch.request.url, body_sha256: hash, raw: this.evidence!.getBody(hash) }] : [];
+        }))
+        : undefined,
     };
     
     return {
@@ -481,8 +546,13 @@ export class MCPToolsetService {
 // FASTIFY ROUTES
 // ============================================================================
 
-export function createMCPRoutes(eventBus: EventBus) {
-  const mcp = new MCPToolsetService(eventBus);
+export function createMCPRoutes(
+  eventBus: EventBus,
+  evidence?: EvidenceStore,
+  engine?: MatchingEngine,
+  margin?: MarginEngine
+) {
+  const mcp = new MCPToolsetService(eventBus, evidence, engine, margin);
   
   return async function mcpRoutes(fastify: FastifyInstance): Promise<void> {
     /**
@@ -0,0 +1,513 @@
+/**
+ * TRUTH-NET Attestation Service
+ * Committee resolution of binary markets
+ *
+ * A binary market has no machine-readable source, so it is decided by
+ * designated resolvers:
+ *
+ *   collecting ──(quorum on one outcome)──> dispute_window ──(window ends)──> finalized
+ *                                                 │                              ▲
+ *                                                 └──(dispute / conflict)──> disputed ──(adjudication)
+ *
+ * 1. When the market reaches resolves_at the oracle opens a round
+ * 2. Each resolver signs {market_id, resolver_id, outcome, attested_at}
+ *    with its Ed25519 key and submits the attestation
+ * 3. Once `quorum` attestations agree, that outcome is proposed and a
+ *    dispute window opens
+ * 4. If nobody disputes it before the window ends, markets.resolved fires
+ *    with the proposed outcome. A dispute (or the other outcome also
+ *    reaching quorum) stops the clock until an admin adjudicates.
+ *
+ * A disputer posts the resolution bond, locked in its wallet through
+ * EscrowLedger as a resolution challenge's is. Adjudication slashes it to
+ * the CCP fund if the proposed outcome stands and returns it otherwise.
+ *
+ * The round, including every attestation and dispute, is kept in the
+ * market's resolution_data.
+ */
+
+import { createPublicKey, randomUUID, verify, KeyObject } from 'crypto';
+import { BinaryResolutionSchema, Market, MarketResolvedEvent, OutcomeToken } from '../types.js';
+import { EventBus } from '../events/EventBus.js';
+import { EscrowLedger } from '../engine/escrow/EscrowLedger.js';
+import { Micros, MICROS_PER_UNIT } from '../engine/money/Money.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AttestationRoundStatus = 'collecting' | 'dispute_window' | 'disputed' | 'finalized';
+
+export interface Resolver {
+  id: string;
+  name?: string;
+  public_key: string;   // Ed25519 public key, SPKI PEM
+  registered_at: Date;
+}
+
+export interface Attestation {
+  resolver_id: string;
+  outcome: OutcomeToken;
+  attested_at: string;  // Signed along with the outcome
+  signature: string;    // Base64 Ed25519 signature of attestationMessage()
+  evidence_url?: string;
+  received_at: string;
+}
+
+export interface Dispute {
+  id: string;
+  disputer_id: string;
+  reason: string;
+  bond?: Micros;        // None for a conflict the service raises itself
+  bond_status?: 'locked' | 'returned' | 'slashed';
+  filed_at: string;
+}
+
+export interface AttestationRound {
+  market_id: string;
+  status: AttestationRoundStatus;
+  resolvers: string[];
+  quorum: number;
+  dispute_window_ms: number;
+  attestations: Attestation[];
+  disputes: Dispute[];
+  proposed_outcome?: OutcomeToken;
+  quorum_reached_at?: string;
+  dispute_window_ends_at?: string;
+  outcome?: OutcomeToken;
+  finalized_by?: 'quorum' | 'adjudication';
+  adjudication_reason?: string;
+  opened_at: string;
+  finalized_at?: string;
+}
+
+export interface AttestationSubmission {
+  resolver_id: string;
+  outcome: OutcomeToken;
+  attested_at: string;
+  signature: string;
+  evidence_url?: string;
+}
+
+export interface AttestationServiceConfig {
+  disputeWindowMs: number;  // Used when the schema sets none
+  maxClockSkewMs: number;   // How far in the future attested_at may be
+  bondAmount: Micros;       // Posted by each disputer
+}
+
+const DEFAULT_CONFIG: AttestationServiceConfig = {
+  disputeWindowMs: 24 * 60 * 60 * 1000,
+  maxClockSkewMs: 5 * 60 * 1000,
+  bondAmount: 100 * MICROS_PER_UNIT,
+};
+
+/**
+ * Rejected attestation, dispute or adjudication
+ */
+export class AttestationError extends Error {
+  constructor(
+    public readonly code:
+      | 'UNKNOWN_RESOLVER'
+      | 'RESOLVER_NOT_DESIGNATED'
+      | 'INVALID_SIGNATURE'
+      | 'INVALID_ATTESTATION'
+      | 'DUPLICATE_ATTESTATION'
+      | 'ROUND_NOT_FOUND'
+      | 'ROUND_CLOSED'
+      | 'INSUFFICIENT_BALANCE',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'AttestationError';
+  }
+}
+
+/**
+ * The exact bytes a resolver signs
+ */
+export function attestationMessage(
+  marketId: string,
+  resolverId: string,
+  outcome: OutcomeToken,
+  attestedAt: string,
+): Buffer {
+  return Buffer.from(JSON.stringify({
+    market_id: marketId,
+    resolver_id: resolverId,
+    outcome,
+    attested_at: attestedAt,
+  }));
+}
+
+// ============================================================================
+// ATTESTATION SERVICE
+// ============================================================================
+
+export class AttestationService {
+  private config: AttestationServiceConfig;
+  private resolvers: Map<string, Resolver> = new Map();
+  private keys: Map<string, KeyObject> = new Map();
+  private rounds: Map<string, AttestationRound> = new Map();
+  private markets: Map<string, Market> = new Map();
+  private windows: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(
+    private eventBus: EventBus,
+    private escrow: EscrowLedger,
+    config: Partial<AttestationServiceConfig> = {},
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // -------------------------------------------------------------------------
+  // Resolvers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Register (or rotate the key of) a resolver
+   */
+  registerResolver(id: string, publicKey: string, name?: string): Resolver {
+    let key: KeyObject;
+    try {
+      key = createPublicKey(publicKey);
+    } catch {
+      throw new Error(`Resolver ${id} public key is not a valid PEM key`);
+    }
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Resolver ${id} public key must be Ed25519, got ${key.asymmetricKeyType}`);
+    }
+
+    const resolver: Resolver = { id, name, public_key: publicKey, registered_at: new Date() };
+    this.resolvers.set(id, resolver);
+    this.keys.set(id, key);
+    return resolver;
+  }
+
+  removeResolver(id: string): boolean {
+    this.keys.delete(id);
+    return this.resolvers.delete(id);
+  }
+
+  getResolver(id: string): Resolver | undefined {
+    return this.resolvers.get(id);
+  }
+
+  listResolvers(): Resolver[] {
+    return [...this.resolvers.values()];
+  }
+
+  /**
+   * Check a binary schema's committee against the registered resolvers
+   */
+  validateSchema(schema: BinaryResolutionSchema): { valid: boolean; error?: string } {
+    const unknown = (schema.resolvers ?? []).filter(id => !this.resolvers.has(id));
+    if (unknown.length > 0) {
+      return { valid: false, error: `Unknown resolvers: ${unknown.join(', ')}` };
+    }
+
+    const committee = this.committeeFor(schema);
+    if (committee.length === 0) {
+      return { valid: false, error: 'Binary markets need at least one registered resolver' };
+    }
+    if (schema.quorum !== undefined && schema.quorum > committee.length) {
+      return { valid: false, error: `Quorum ${schema.quorum} exceeds the ${committee.length} designated resolvers` };
+    }
+    return { valid: true };
+  }
+
+  private committeeFor(schema: BinaryResolutionSchema): string[] {
+    return schema.resolvers?.length ? [...new Set(schema.resolvers)] : [...this.resolvers.keys()];
+  }
+
+  // -------------------------------------------------------------------------
+  // Rounds
+  // -------------------------------------------------------------------------
+
+  /**
+   * Start collecting attestations for a market. Opening a market that
+   * already has a round returns the existing round.
+   */
+  openRound(market: Market): AttestationRound {
+    const existing = this.rounds.get(market.id);
+    if (existing) return existing;
+
+    const schema = market.resolution_schema as BinaryResolutionSchema;
+    const resolvers = this.committeeFor(schema);
+    const round: AttestationRound = {
+      market_id: market.id,
+      status: 'collecting',
+      resolvers,
+      quorum: schema.quorum ?? Math.floor(resolvers.length / 2) + 1,
+      dispute_window_ms: schema.dispute_window_ms ?? this.config.disputeWindowMs,
+      attestations: [],
+      disputes: [],
+      opened_at: new Date().toISOString(),
+    };
+
+    this.rounds.set(market.id, round);
+    this.markets.set(market.id, market);
+    this.record(round);
+    return round;
+  }
+
+  /**
+   * Verify and store a resolver's signed attestation, proposing an outcome
+   * once it reaches quorum
+   */
+  async submitAttestation(marketId: string, submission: AttestationSubmission): Promise<AttestationRound> {
+    const round = this.requireRound(marketId);
+    if (round.status === 'finalized') {
+      throw new AttestationError('ROUND_CLOSED', `Market ${marketId} is already resolved`);
+    }
+
+    const { resolver_id, outcome, attested_at, signature } = submission;
+    const key = this.keys.get(resolver_id);
+    if (!key) {
+      throw new AttestationError('UNKNOWN_RESOLVER', `Resolver ${resolver_id} is not registered`);
+    }
+    if (!round.resolvers.includes(resolver_id)) {
+      throw new AttestationError('RESOLVER_NOT_DESIGNATED', `Resolver ${resolver_id} is not designated for market ${marketId}`);
+    }
+    if (round.attestations.some(a => a.resolver_id === resolver_id)) {
+      throw new AttestationError('DUPLICATE_ATTESTATION', `Resolver ${resolver_id} has already attested market ${marketId}`);
+    }
+
+    const attestedAt = new Date(attested_at);
+    if (isNaN(attestedAt.getTime()) || attestedAt.getTime() > Date.now() + this.config.maxClockSkewMs) {
+      throw new AttestationError('INVALID_ATTESTATION', `attested_at is not a valid past timestamp: ${attested_at}`);
+    }
+
+    const message = attestationMessage(marketId, resolver_id, outcome, attested_at);
+    if (!verify(null, message, key, Buffer.from(signature, 'base64'))) {
+      throw new AttestationError('INVALID_SIGNATURE', `Signature does not match resolver ${resolver_id}'s key`);
+    }
+
+    const attestation: Attestation = {
+      resolver_id,
+      outcome,
+      attested_at,
+      signature,
+      evidence_url: submission.evidence_url,
+      received_at: new Date().toISOString(),
+    };
+    round.attestations.push(attestation);
+    this.record(round);
+
+    await this.eventBus.publish('markets.attestation_submitted', { market_id: marketId, attestation });
+    await this.tally(round);
+    return round;
+  }
+
+  /**
+   * Contest the proposed outcome while the dispute window is open. The
+   * bond is locked in the disputer's wallet until adjudication.
+   */
+  async dispute(marketId: string, disputerId: string, reason: string): Promise<AttestationRound> {
+    const round = this.requireRound(marketId);
+    this.requireDisputable(round);
+
+    const dispute: Dispute = {
+      id: randomUUID(),
+      disputer_id: disputerId,
+      reason,
+      bond: this.config.bondAmount,
+      bond_status: 'locked',
+      filed_at: new Date().toISOString(),
+    };
+
+    const lock = await this.escrow.lock(disputerId, dispute.bond!, 'resolution_bond', dispute.id);
+    if (!lock.success) {
+      throw new AttestationError('INSUFFICIENT_BALANCE', `Cannot post resolution bond: ${lock.error}`);
+    }
+
+    // The window may have closed, or another dispute landed, while the bond was locked
+    if (round.status !== 'dispute_window') {
+      await this.escrow.release(disputerId, dispute.bond!, 'resolution_bond', dispute.id);
+      this.requireDisputable(round);
+    }
+
+    round.disputes.push(dispute);
+    await this.markDisputed(round, dispute);
+    return round;
+  }
+
+  /**
+   * Decide a disputed or stalled round. The adjudicated outcome is final.
+   */
+  async adjudicate(marketId: string, outcome: OutcomeToken, reason: string): Promise<AttestationRound> {
+    const round = this.requireRound(marketId);
+    if (round.status === 'finalized') {
+      throw new AttestationError('ROUND_CLOSED', `Market ${marketId} is already resolved`);
+    }
+
+    round.adjudication_reason = reason;
+    await this.settleBonds(round, outcome);
+    await this.finalize(round, outcome, 'adjudication');
+    return round;
+  }
+
+  /**
+   * Slash the bonds of disputes against an outcome that stands; return the rest
+   */
+  private async settleBonds(round: AttestationRound, outcome: OutcomeToken): Promise<void> {
+    const upheld = outcome === round.proposed_outcome;
+    for (const dispute of round.disputes) {
+      if (!dispute.bond || dispute.bond_status !== 'locked') continue;
+      if (upheld) {
+        await this.escrow.slashBond(dispute.disputer_id, dispute.bond, dispute.id);
+        dispute.bond_status = 'slashed';
+      } else {
+        await this.escrow.release(dispute.disputer_id, dispute.bond, 'resolution_bond', dispute.id);
+        dispute.bond_status = 'returned';
+      }
+    }
+  }
+
+  private async tally(round: AttestationRound): Promise<void> {
+    const reached = [OutcomeToken.YES, OutcomeToken.NO].filter(outcome =>
+      round.attestations.filter(a => a.outcome === outcome).length >= round.quorum
+    );
+
+    // Both outcomes at quorum: the committee contradicts itself
+    if (reached.length > 1 && round.status !== 'disputed') {
+      const conflict: Dispute = {
+        id: randomUUID(),
+        disputer_id: 'system',
+        reason: 'conflicting_quorum',
+        filed_at: new Date().toISOString(),
+      };
+      round.disputes.push(conflict);
+      await this.markDisputed(round, conflict);
+      return;
+    }
+
+    if (reached.length === 1 && round.status === 'collecting') {
+      const now = new Date();
+      const endsAt = new Date(now.getTime() + round.dispute_window_ms);
+      round.status = 'dispute_window';
+      round.proposed_outcome = reached[0];
+      round.quorum_reached_at = now.toISOString();
+      round.dispute_window_ends_at = endsAt.toISOString();
+      this.record(round);
+
+      await this.eventBus.publish('markets.resolution_proposed', {
+        market_id: round.market_id,
+        outcome: round.proposed_outcome,
+        dispute_window_ends_at: round.dispute_window_ends_at,
+      });
+
+      this.windows.set(round.market_id, setTimeout(() => {
+        this.closeWindow(round.market_id).catch(err => {
+          console.error(`[Attestation] Failed to finalize market ${round.market_id}: ${err.message}`);
+        });
+      }, round.dispute_window_ms));
+    }
+  }
+
+  /**
+   * Finalize a round whose dispute window has passed undisputed
+   */
+  async closeWindow(marketId: string): Promise<void> {
+    this.windows.delete(marketId);
+    const round = this.rounds.get(marketId);
+    if (round?.status === 'dispute_window' && round.proposed_outcome) {
+      await this.finalize(round, round.proposed_outcome, 'quorum');
+    }
+  }
+
+  private async markDisputed(round: AttestationRound, dispute: Dispute): Promise<void> {
+    this.clearWindow(round.market_id);
+    round.status = 'disputed';
+    this.record(round);
+
+    await this.eventBus.publish('markets.resolution_disputed', {
+      market_id: round.market_id,
+      proposed_outcome: round.proposed_outcome ?? null,
+      dispute,
+    });
+  }
+
+  private async finalize(
+    round: AttestationRound,
+    outcome: OutcomeToken,
+    finalizedBy: 'quorum' | 'adjudication',
+  ): Promise<void> {
+    this.clearWindow(round.market_id);
+    round.status = 'finalized';
+    round.outcome = outcome;
+    round.finalized_by = finalizedBy;
+    round.finalized_at = new Date().toISOString();
+    this.record(round);
+
+    const market = this.markets.get(round.market_id);
+    if (market) market.outcome = outcome;
+
+    const event: MarketResolvedEvent = {
+      market_id: round.market_id,
+      outcome,
+      source: 'binary',
+      confidence: 1,
+      resolution_data: market?.resolution_data ?? { ...round },
+      resolved_at: round.finalized_at,
+    };
+    await this.eventBus.publish('markets.resolved', event);
+  }
+
+  private clearWindow(marketId: string): void {
+    const timeout = this.windows.get(marketId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.windows.delete(marketId);
+    }
+  }
+
+  /**
+   * Mirror the round into the market's resolution_data
+   */
+  private record(round: AttestationRound): void {
+    const market = this.markets.get(round.market_id);
+    if (!market) return;
+
+    market.resolution_data = {
+      ...market.resolution_data,
+      ...structuredClone(round),
+    };
+    market.updated_at = new Date();
+  }
+
+  private requireDisputable(round: AttestationRound): void {
+    if (round.status !== 'dispute_window') {
+      throw new AttestationError('ROUND_CLOSED', `Market ${round.market_id} has no outcome open to dispute (${round.status})`);
+    }
+  }
+
+  private requireRound(marketId: string): AttestationRound {
+    const round = this.rounds.get(marketId);
+    if (!round) {
+      throw new AttestationError('ROUND_NOT_FOUND', `Market ${marketId} has no open attestation round`);
+    }
+    return round;
+  }
+
+  // -------------------------------------------------------------------------
+  // Getters
+  // -------------------------------------------------------------------------
+
+  getRound(marketId: string): AttestationRound | undefined {
+    return this.rounds.get(marketId);
+  }
+
+  getBondAmount(): Micros {
+    return this.config.bondAmount;
+  }
+
+  /**
+   * Stop every dispute window timer
+   */
+  clearAll(): void {
+    for (const timeout of this.windows.values()) {
+      clearTimeout(timeout);
+    }
+    this.windows.clear();
+  }
+}
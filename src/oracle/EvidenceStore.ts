@@ -0,0 +1,233 @@
+/**
+ * TRUTH-NET Evidence Store
+ * Signed, content-addressed archive of every resolution fetch
+ *
+ * Each resolution attempt that made HTTP requests is archived as an
+ * evidence bundle: the schema, the outcome, and for every exchange the
+ * request (secrets redacted), response status and headers, the SHA-256
+ * of the exact response body and when it was fetched. Bundles are
+ * serialized canonically and signed with the platform's Ed25519 key.
+ *
+ * On disk (EVIDENCE_DIR):
+ *   objects/<sha256>          Bundles and response bodies, named by hash
+ *   signatures/<sha256>.sig   Base64 Ed25519 signature of a bundle
+ *   markets/<market_id>.log   Bundle hashes of a market, oldest first
+ *   signing-key.pem           Platform key, unless EVIDENCE_SIGNING_KEY is set
+ *
+ * Anyone can check a bundle with the public key alone (verifyEvidence),
+ * check each body against its hash, and re-evaluate the schema on it.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, KeyObject } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { FetchRecord, OracleResolutionResult, Outcome } from '../types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EvidencePurpose = 'resolution' | 'challenge';
+
+export interface EvidenceBundle {
+  version: 1;
+  market_id: string;
+  purpose: EvidencePurpose;   // challenge = alternate source re-resolution
+  schema: { type: string };
+  success: boolean;
+  outcome: Outcome | null;
+  evaluated_value?: unknown;
+  error?: string;
+  fetches: Omit<FetchRecord, 'body'>[];
+  created_at: string;
+}
+
+export interface SignedEvidence {
+  hash: string;        // SHA-256 of payload, its content address
+  payload: string;     // The exact bytes that were signed
+  signature: string;   // Base64 Ed25519 signature of payload
+  algorithm: 'ed25519';
+  bundle: EvidenceBundle;
+}
+
+export interface EvidenceStoreConfig {
+  dir: string;
+  signingKey?: string;  // Ed25519 private key, PKCS#8 PEM
+}
+
+const KEY_FILE = 'signing-key.pem';
+
+/**
+ * JSON with object keys sorted, so a bundle always serializes to the same bytes
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Check a bundle's hash and signature against the platform public key
+ */
+export function verifyEvidence(evidence: Pick<SignedEvidence, 'hash' | 'payload' | 'signature'>, publicKey: string): boolean {
+  if (sha256(evidence.payload) !== evidence.hash) return false;
+  try {
+    return verify(null, Buffer.from(evidence.payload), createPublicKey(publicKey), Buffer.from(evidence.signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// EVIDENCE STORE
+// ============================================================================
+
+export class EvidenceStore {
+  private dir: string;
+  private privateKey: KeyObject;
+  private publicKey: string;
+
+  constructor(config: EvidenceStoreConfig) {
+    this.dir = config.dir;
+    for (const sub of ['objects', 'signatures', 'markets']) {
+      fs.mkdirSync(path.join(this.dir, sub), { recursive: true });
+    }
+
+    this.privateKey = this.loadSigningKey(config.signingKey);
+    if (this.privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Evidence signing key must be Ed25519, got ${this.privateKey.asymmetricKeyType}`);
+    }
+    this.publicKey = createPublicKey(this.privateKey).export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  /**
+   * Platform public key (SPKI PEM) that verifies every bundle
+   */
+  getPublicKey(): string {
+    return this.publicKey;
+  }
+
+  // -------------------------------------------------------------------------
+  // Archiving
+  // -------------------------------------------------------------------------
+
+  /**
+   * Archive and sign the evidence of one resolution attempt. Attempts
+   * that fetched nothing (attestation rounds, manual markets) have no
+   * evidence. Never throws: a failed write is logged and skipped.
+   */
+  archive(
+    marketId: string,
+    schema: { type: string },
+    result: OracleResolutionResult,
+    purpose: EvidencePurpose = 'resolution'
+  ): SignedEvidence | undefined {
+    const fetches = result.fetches ?? [];
+    if (fetches.length === 0) return undefined;
+
+    try {
+      for (const fetch of fetches) {
+        if (fetch.body !== undefined && fetch.response) {
+          this.writeObject(fetch.response.body_sha256, fetch.body);
+        }
+      }
+
+      const bundle: EvidenceBundle = {
+        version: 1,
+        market_id: marketId,
+        purpose,
+        schema,
+        success: result.success,
+        outcome: result.outcome ?? null,
+        evaluated_value: result.evaluated_value,
+        error: result.error,
+        fetches: fetches.map(({ body: _body, ...record }) => record),
+        created_at: new Date().toISOString(),
+      };
+
+      const payload = canonicalJson(bundle);
+      const hash = sha256(payload);
+      const signature = sign(null, Buffer.from(payload), this.privateKey).toString('base64');
+
+      this.writeObject(hash, payload);
+      fs.writeFileSync(path.join(this.dir, 'signatures', `${hash}.sig`), signature);
+      fs.appendFileSync(this.marketLog(marketId), `${hash}\n`);
+
+      return { hash, payload, signature, algorithm: 'ed25519', bundle };
+    } catch (error) {
+      console.error(`[Evidence] Failed to archive evidence for ${marketId}: ${error}`);
+      return undefined;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Reading
+  // -------------------------------------------------------------------------
+
+  /**
+   * Signed bundles of a market, oldest first
+   */
+  list(marketId: string): SignedEvidence[] {
+    const log = this.marketLog(marketId);
+    if (!fs.existsSync(log)) return [];
+
+    return fs.readFileSync(log, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .flatMap(hash => {
+        const payload = this.readObject(hash);
+        if (payload === undefined) return [];
+        const signature = fs.readFileSync(path.join(this.dir, 'signatures', `${hash}.sig`), 'utf8');
+        return [{ hash, payload, signature, algorithm: 'ed25519' as const, bundle: JSON.parse(payload) }];
+      });
+  }
+
+  /**
+   * An archived response body by its SHA-256
+   */
+  getBody(hash: string): string | undefined {
+    return this.readObject(hash);
+  }
+
+  // -------------------------------------------------------------------------
+  // Internals
+  // -------------------------------------------------------------------------
+
+  private loadSigningKey(pem?: string): KeyObject {
+    if (pem) return createPrivateKey(pem);
+
+    const file = path.join(this.dir, KEY_FILE);
+    if (fs.existsSync(file)) return createPrivateKey(fs.readFileSync(file, 'utf8'));
+
+    const { privateKey } = generateKeyPairSync('ed25519');
+    fs.writeFileSync(file, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    console.log(`[Evidence] Generated a platform signing key at ${file}`);
+    return privateKey;
+  }
+
+  /**
+   * Objects are immutable: an existing hash is never rewritten
+   */
+  private writeObject(hash: string, content: string): void {
+    const file = path.join(this.dir, 'objects', hash);
+    if (fs.existsSync(file)) return;
+    fs.writeFileSync(`${file}.tmp`, content);
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  private readObject(hash: string): string | undefined {
+    if (!/^[0-9a-f]{64}$/.test(hash)) return undefined;
+    const file = path.join(this.dir, 'objects', hash);
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : undefined;
+  }
+
+  private marketLog(marketId: string): string {
+    return path.join(this.dir, 'markets', `${encodeURIComponent(marketId)}.log`);
+  }
+}
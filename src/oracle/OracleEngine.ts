@@ -4,21 +4,30 @@
  *
  * Responsibilities:
  * - Validate resolution schemas at market creation
- * - Poll external APIs at expiry
- * - Evaluate conditions and determine outcomes
+ * - Resolve markets at expiry through the resolver registry's adapters
+ * - Open attestation rounds for binary markets (decided by resolvers)
+ * - Propose outcomes for a challenge window before they are final
+ * - Archive signed evidence of every resolution fetch
+ * - Dry-run schemas (live or against JSON fixtures) without side effects
  * - Trigger settlement process
  */
 
-import { JSONPath } from 'jsonpath-plus';
 import {
   Market,
-  OutcomeToken,
+  MarketResolvedEvent,
   ResolutionSchema,
-  HttpJsonResolutionSchema,
-  ConditionOperator,
+  SourceResolutionSchema,
   OracleResolutionResult,
 } from '../types.js';
 import { EventBus } from '../events/EventBus.js';
+import { AttestationService } from './AttestationService.js';
+import { EvidenceStore } from './EvidenceStore.js';
+import { ResolutionChallenges } from './ResolutionChallenges.js';
+import { AttestationAdapter } from './resolvers/AttestationAdapter.js';
+import { ResolverRegistry, ValidationResult, createResolverRegistry } from './resolvers/ResolverRegistry.js';
+import { Fixtures, fixtureTransport } from './resolvers/shared.js';
+import { DRY_RUN_EGRESS, guardedTransport } from './resolvers/egress.js';
+import { resolutionTerms } from '../markets/outcomes.js';
 
 export interface OracleEngineConfig {
   defaultTimeout: number;
@@ -26,6 +35,13 @@ export interface OracleEngineConfig {
   retryDelayMs: number;
 }
 
+export interface DryRunResult {
+  valid: boolean;
+  error?: string;                          // Why the schema is invalid
+  resolution?: OracleResolutionResult;     // What resolving now would decide
+  alternate_sources?: OracleResolutionResult[];
+}
+
 const DEFAULT_CONFIG: OracleEngineConfig = {
   defaultTimeout: 10000,
   maxRetries: 3,
@@ -38,11 +54,48 @@ const DEFAULT_CONFIG: OracleEngineConfig = {
 export class OracleEngine {
   private config: OracleEngineConfig;
   private eventBus: EventBus;
+  private registry: ResolverRegistry;
   private pendingResolutions: Map<string, NodeJS.Timeout> = new Map();
-
-  constructor(eventBus: EventBus, config: Partial<OracleEngineConfig> = {}) {
+  private challenges?: ResolutionChallenges;
+  private evidence?: EvidenceStore;
+
+  constructor(
+    eventBus: EventBus,
+    config: Partial<OracleEngineConfig> = {},
+    registry: ResolverRegistry = createResolverRegistry(),
+  ) {
     this.eventBus = eventBus;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.registry = registry;
+  }
+
+  /**
+   * Resolve binary markets through resolver attestations
+   */
+  attachAttestations(attestations: AttestationService): void {
+    this.registry.unregister('binary');
+    this.registry.register(new AttestationAdapter(attestations));
+  }
+
+  /**
+   * Archive the fetches behind every resolution attempt
+   */
+  attachEvidence(evidence: EvidenceStore): void {
+    this.evidence = evidence;
+  }
+
+  /**
+   * The adapters this engine resolves with (register new sources here)
+   */
+  getRegistry(): ResolverRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Make resolved outcomes provisional until their challenge window ends
+   */
+  attachChallenges(challenges: ResolutionChallenges): void {
+    this.challenges = challenges;
   }
 
   // -------------------------------------------------------------------------
@@ -56,78 +109,47 @@ export class OracleEngine {
   async validateSchema(
     schema: ResolutionSchema,
     testConnection: boolean = false
-  ): Promise<{ valid: boolean; error?: string }> {
-    try {
-      // Validate required fields
-      if (!schema.type) {
-        return { valid: false, error: 'Missing schema type' };
-      }
-
-      if (schema.type === 'binary') {
-        return { valid: true };
-      }
-
-      if (schema.type === 'http_json') {
-        return this.validateHttpJsonSchema(schema as HttpJsonResolutionSchema, testConnection);
-      }
-
-      if (schema.type === 'graphql') {
-        return { valid: false, error: 'GraphQL schemas not yet implemented' };
-      }
-
-      return { valid: false, error: `Unknown schema type: ${schema.type}` };
-    } catch (error) {
-      return { valid: false, error: `Schema validation error: ${error}` };
+  ): Promise<ValidationResult> {
+    const primary = await this.registry.validate(schema, testConnection);
+    if (!primary.valid) return primary;
+
+    const alternates = (schema as SourceResolutionSchema).alternate_sources ?? [];
+    for (const [i, alternate] of alternates.entries()) {
+      const result = await this.registry.validate(alternate, testConnection);
+      if (!result.valid) return { valid: false, error: `alternate_sources[${i}]: ${result.error}` };
     }
+
+    return { valid: true };
   }
 
   /**
-   * Validate HTTP JSON resolution schema
+   * Run the resolver pipeline on a schema (and its alternate sources)
+   * without publishing events, opening attestation rounds, recording
+   * source votes or archiving evidence. With fixtures, nothing is fetched;
+   * otherwise fetches are held to the dry-run egress policy.
    */
-  private async validateHttpJsonSchema(
-    schema: HttpJsonResolutionSchema,
-    testConnection: boolean
-  ): Promise<{ valid: boolean; error?: string }> {
-    // Validate URL
-    try {
-      new URL(schema.source_url);
-    } catch {
-      return { valid: false, error: 'Invalid source_url' };
-    }
-
-    // Validate method
-    if (!['GET', 'POST'].includes(schema.method)) {
-      return { valid: false, error: 'Method must be GET or POST' };
+  async dryRun(schema: ResolutionSchema, fixtures?: Fixtures): Promise<DryRunResult> {
+    const validation = await this.validateSchema(schema, false);
+    if (!validation.valid) {
+      return { valid: false, error: validation.error };
     }
 
-    // Validate json_path
-    if (!schema.json_path || !schema.json_path.startsWith('$')) {
-      return { valid: false, error: 'Invalid json_path - must start with $' };
-    }
-
-    // Validate condition
-    if (!schema.condition || !schema.condition.operator) {
-      return { valid: false, error: 'Missing resolution condition' };
-    }
-
-    const validOperators: ConditionOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists'];
-    if (!validOperators.includes(schema.condition.operator)) {
-      return { valid: false, error: `Invalid condition operator: ${schema.condition.operator}` };
-    }
-
-    // Test connection if requested
-    if (testConnection) {
-      try {
-        const result = await this.fetchData(schema);
-        if (result.error) {
-          return { valid: false, error: `Connection test failed: ${result.error}` };
-        }
-      } catch (error) {
-        return { valid: false, error: `Connection test failed: ${error}` };
-      }
-    }
+    const context = {
+      timeoutMs: this.config.defaultTimeout,
+      transport: fixtures ? fixtureTransport(fixtures) : guardedTransport(DRY_RUN_EGRESS),
+      dryRun: true,
+    };
+    const run = async (source: { type: string }) => {
+      const { fetches, ...result } = await this.registry.resolve(source, context);
+      return { ...result, fetches: fetches?.map(({ body: _body, ...record }) => record) };
+    };
 
-    return { valid: true };
+    const alternates = (schema as SourceResolutionSchema).alternate_sources;
+    return {
+      valid: true,
+      resolution: await run(schema),
+      alternate_sources: alternates ? await Promise.all(alternates.map(run)) : undefined,
+    };
   }
 
   // -------------------------------------------------------------------------
@@ -188,15 +210,48 @@ export class OracleEngine {
 
       try {
         const result = await this.executeResolution(market.resolution_schema, market);
+        this.evidence?.archive(market.id, market.resolution_schema, result);
 
-        if (result.success && result.outcome !== undefined) {
-          // Emit success event
-          await this.eventBus.publish('markets.resolved', {
+        // Resolvers or an operator will decide and publish the outcome later
+        if (result.success && result.pending) {
+          return result;
+        }
+
+        // Retrying would not settle a disagreement between sources
+        if (result.escalated) {
+          await this.eventBus.publish('markets.resolution_escalated', {
             market_id: market.id,
+            reason: result.error,
+            raw_data: result.raw_data,
+          });
+          return result;
+        }
+
+        if (result.success && result.outcome !== undefined && this.challenges) {
+          await this.challenges.propose(market, {
             outcome: result.outcome,
+            value: result.value,
+            long_payout: result.long_payout,
+            source: market.resolution_schema.type,
+            confidence: result.confidence ?? 1,
             raw_data: result.raw_data,
             evaluated_value: result.evaluated_value,
           });
+          return result;
+        }
+
+        if (result.success && result.outcome !== undefined) {
+          const event: MarketResolvedEvent = {
+            market_id: market.id,
+            outcome: result.outcome,
+            ...resolutionTerms(market, result),
+            source: market.resolution_schema.type,
+            confidence: result.confidence ?? 1,
+            raw_data: result.raw_data,
+            evaluated_value: result.evaluated_value,
+            resolved_at: new Date().toISOString(),
+          };
+          await this.eventBus.publish('markets.resolved', event);
 
           return result;
         }
@@ -227,180 +282,23 @@ export class OracleEngine {
   }
 
   /**
-   * Execute resolution for a schema
-   */
-  private async executeResolution(schema: ResolutionSchema, market?: Market): Promise<OracleResolutionResult> {
-    if (schema.type === 'binary') {
-      return this.resolveBinary(market);
-    }
-
-    if (schema.type === 'http_json') {
-      return this.resolveHttpJson(schema as HttpJsonResolutionSchema);
-    }
-
-    return { success: false, error: `Unsupported schema type: ${schema.type}` };
-  }
-
-  /**
-   * Resolve a binary market using the current majority position (last traded price).
-   * YES wins if last_price_yes >= 0.50, otherwise NO wins.
+   * Execute resolution for a schema with its adapter. A binary market's
+   * own price never decides it: the attestation adapter opens a round and
+   * markets.resolved fires once an attested outcome survives the dispute
+   * window.
    */
-  private resolveBinary(market?: Market): OracleResolutionResult {
-    const yesPrice = market?.last_price_yes ?? 0.50;
-    const outcome = yesPrice >= 0.50 ? OutcomeToken.YES : OutcomeToken.NO;
-    return {
-      success: true,
-      outcome,
-      evaluated_value: yesPrice,
-    };
+  private executeResolution(schema: ResolutionSchema, market?: Market): Promise<OracleResolutionResult> {
+    return this.registry.resolve(schema, { market, timeoutMs: this.config.defaultTimeout });
   }
 
   /**
-   * Resolve using HTTP JSON schema
+   * Resolve one external source on its own (challenge re-resolution),
+   * as an outcome of the market when given one
    */
-  private async resolveHttpJson(schema: HttpJsonResolutionSchema): Promise<OracleResolutionResult> {
-    // Fetch data
-    const fetchResult = await this.fetchData(schema);
-    if (fetchResult.error) {
-      return { success: false, error: fetchResult.error };
-    }
-
-    const rawData = fetchResult.data;
-
-    // Extract value using JSONPath
-    let extractedValue: unknown;
-    try {
-      const result = JSONPath({
-        path: schema.json_path,
-        json: rawData as any,
-      }) as unknown as any[];
-      extractedValue = result.length > 0 ? result[0] : undefined;
-
-      if (extractedValue === undefined) {
-        return { success: false, error: `JSONPath ${schema.json_path} returned no results` };
-      }
-    } catch (error) {
-      return { success: false, error: `JSONPath evaluation error: ${error}` };
-    }
-
-    // Evaluate condition
-    const conditionResult = this.evaluateCondition(
-      extractedValue,
-      schema.condition.operator,
-      schema.condition.value
-    );
-
-    return {
-      success: true,
-      outcome: conditionResult ? OutcomeToken.YES : OutcomeToken.NO,
-      raw_data: rawData,
-      evaluated_value: extractedValue,
-    };
-  }
-
-  // -------------------------------------------------------------------------
-  // Data Fetching
-  // -------------------------------------------------------------------------
-
-  /**
-   * Fetch data from HTTP endpoint
-   */
-  private async fetchData(schema: HttpJsonResolutionSchema): Promise<{ data?: unknown; error?: string }> {
-    const timeout = schema.timeout_ms ?? this.config.defaultTimeout;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    try {
-      const headers: Record<string, string> = {
-        'Accept': 'application/json',
-        'User-Agent': 'TRUTH-NET/1.0',
-        ...(schema.headers ?? {}),
-      };
-
-      // Replace environment variables in headers
-      for (const [key, value] of Object.entries(headers)) {
-        if (value.includes('${ENV.')) {
-          headers[key] = this.resolveEnvVars(value);
-        }
-      }
-
-      const response = await fetch(schema.source_url, {
-        method: schema.method,
-        headers,
-        body: schema.body ? JSON.stringify(schema.body) : undefined,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        return { error: `HTTP ${response.status}: ${response.statusText}` };
-      }
-
-      const data = await response.json();
-      return { data };
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === 'AbortError') {
-        return { error: `Request timeout after ${timeout}ms` };
-      }
-
-      return { error: `Fetch error: ${error}` };
-    }
-  }
-
-  /**
-   * Resolve environment variables in string
-   */
-  private resolveEnvVars(str: string): string {
-    return str.replace(/\$\{ENV\.([^}]+)\}/g, (_, varName) => {
-      return process.env[varName] ?? '';
-    });
-  }
-
-  // -------------------------------------------------------------------------
-  // Condition Evaluation
-  // -------------------------------------------------------------------------
-
-  /**
-   * Evaluate a condition against extracted data
-   */
-  private evaluateCondition(
-    actual: unknown,
-    operator: ConditionOperator,
-    expected: string | number | boolean
-  ): boolean {
-    switch (operator) {
-      case 'eq':
-        return actual === expected || String(actual) === String(expected);
-
-      case 'neq':
-        return actual !== expected && String(actual) !== String(expected);
-
-      case 'gt':
-        return Number(actual) > Number(expected);
-
-      case 'gte':
-        return Number(actual) >= Number(expected);
-
-      case 'lt':
-        return Number(actual) < Number(expected);
-
-      case 'lte':
-        return Number(actual) <= Number(expected);
-
-      case 'contains':
-        return String(actual).includes(String(expected));
-
-      case 'exists':
-        return actual !== undefined && actual !== null;
-
-      default:
-        console.warn(`Unknown operator: ${operator}`);
-        return false;
-    }
+  async resolveSource(schema: SourceResolutionSchema, market?: Market): Promise<OracleResolutionResult> {
+    const result = await this.executeResolution(schema, market);
+    if (market) this.evidence?.archive(market.id, schema, result, 'challenge');
+    return result;
   }
 
   // -------------------------------------------------------------------------
@@ -1,16 +1,24 @@
 /**
  * TRUTH-NET Production Resolver v1.0
  * 
- * Automated oracle resolution by polling real data sources:
- * - GitHub API (repo stats, issues, releases)
- * - Weather APIs (NOAA, OpenWeatherMap)
- * - MarineTraffic / VesselFinder (shipping data)
- * - News APIs (for event verification)
- * - Custom HTTP endpoints
+ * Automated oracle resolution by polling the markets that are due and
+ * resolving each through the resolver registry's adapters:
+ * - Custom HTTP endpoints and GraphQL endpoints
+ * - Weighted votes of several sources (multi_source); a disagreement
+ *   escalates the market to an operator
+ * - GitHub API (repo stats)
+ * - Weather (OpenWeatherMap)
+ * - Manual markets, which wait for forceResolve
  */
 
 import { EventBus } from '../events/EventBus.js';
-import { Market, MarketStatus } from '../types.js';
+import { Micros } from '../engine/money/Money.js';
+import { decideOutcome, OutcomeVerdict, resolutionTerms } from '../markets/outcomes.js';
+import { Market, MarketResolvedEvent, MarketStatus, Outcome } from '../types.js';
+import { ResolutionChallenges } from './ResolutionChallenges.js';
+import { EvidenceStore } from './EvidenceStore.js';
+import { ResolverRegistry, createResolverRegistry } from './resolvers/ResolverRegistry.js';
+import { SourceReputation } from './resolvers/SourceReputation.js';
 
 // ============================================================================
 // TYPES
@@ -18,229 +26,18 @@ import { Market, MarketStatus } from '../types.js';
 
 export interface ResolutionResult {
   marketId: string;
-  outcome: boolean | null;  // true = YES wins, false = NO wins, null = invalid
-  confidence: number;       // 0-1 confidence in the resolution
-  source: string;
+  outcome: Outcome | null;       // null = not (yet) resolvable
+  value?: number;                // Scalar markets: the resolved value
+  longPayout?: Micros;           // Scalar markets: what a long share pays
+  confidence: number;            // 0-1 confidence in the resolution
+  source: string;                // Resolver adapter type, or 'manual'
   rawData: unknown;
+  evaluatedValue?: unknown;
   resolvedAt: Date;
+  escalated?: boolean;           // Sources disagree: waits for forceResolve
   error?: string;
 }
 
-export interface DataSource {
-  id: string;
-  name: string;
-  baseUrl: string;
-  apiKey?: string;
-  rateLimit: number;  // requests per minute
-}
-
-// ============================================================================
-// DATA SOURCE CONFIGURATIONS
-// ============================================================================
-
-/** Reserved data-source registry for future specialized resolvers. */
-export const _DATA_SOURCES: Record<string, DataSource> = {
-  github: {
-    id: 'github',
-    name: 'GitHub API',
-    baseUrl: 'https://api.github.com',
-    rateLimit: 60,
-  },
-  noaa: {
-    id: 'noaa',
-    name: 'NOAA Weather',
-    baseUrl: 'https://api.weather.gov',
-    rateLimit: 30,
-  },
-  openweather: {
-    id: 'openweather',
-    name: 'OpenWeatherMap',
-    baseUrl: 'https://api.openweathermap.org/data/2.5',
-    rateLimit: 60,
-  },
-  newsapi: {
-    id: 'newsapi',
-    name: 'NewsAPI',
-    baseUrl: 'https://newsapi.org/v2',
-    rateLimit: 100,
-  },
-};
-
-// ============================================================================
-// RESOLVER IMPLEMENTATIONS
-// ============================================================================
-
-/**
- * Resolve via HTTP JSON endpoint (generic)
- */
-async function resolveHttpJson(
-  schema: { source_url: string; method: string; json_path: string; condition: { operator: string; value: unknown } },
-  headers?: Record<string, string>
-): Promise<{ outcome: boolean | null; rawData: unknown }> {
-  try {
-    const response = await fetch(schema.source_url, {
-      method: schema.method || 'GET',
-      headers: {
-        'Accept': 'application/json',
-        ...headers,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-
-    const data = await response.json();
-    const value = getJsonPath(data, schema.json_path);
-    
-    const outcome = evaluateCondition(value, schema.condition);
-
-    return { outcome, rawData: data };
-  } catch (error) {
-    console.error('[Resolver] HTTP JSON error:', error);
-    return { outcome: null, rawData: { error: String(error) } };
-  }
-}
-
-/**
- * Get value from JSON using path (e.g., "$.data.value")
- */
-function getJsonPath(obj: unknown, path: string): unknown {
-  const parts = path.replace(/^\$\.?/, '').split('.');
-  let current: any = obj;
-
-  for (const part of parts) {
-    if (current === null || current === undefined) return undefined;
-    
-    // Handle array indexing
-    const arrayMatch = part.match(/^(\w+)\[(\d+)\]$/);
-    if (arrayMatch) {
-      current = current[arrayMatch[1]]?.[parseInt(arrayMatch[2])];
-    } else {
-      current = current[part];
-    }
-  }
-
-  return current;
-}
-
-/**
- * Evaluate condition
- */
-function evaluateCondition(
-  value: unknown,
-  condition: { operator: string; value: unknown }
-): boolean | null {
-  if (value === undefined) return null;
-
-  switch (condition.operator) {
-    case 'eq':
-      return value === condition.value;
-    case 'neq':
-      return value !== condition.value;
-    case 'gt':
-      return typeof value === 'number' && value > (condition.value as number);
-    case 'gte':
-      return typeof value === 'number' && value >= (condition.value as number);
-    case 'lt':
-      return typeof value === 'number' && value < (condition.value as number);
-    case 'lte':
-      return typeof value === 'number' && value <= (condition.value as number);
-    case 'contains':
-      return typeof value === 'string' && value.includes(condition.value as string);
-    case 'exists':
-      return value !== null && value !== undefined;
-    default:
-      return null;
-  }
-}
-
-/**
- * Resolve GitHub-based market
- */
-export async function _resolveGitHub(
-  repoPath: string,
-  metric: 'stars' | 'issues' | 'releases' | 'commits',
-  threshold: number,
-  operator: 'gt' | 'lt' | 'eq'
-): Promise<{ outcome: boolean | null; rawData: unknown }> {
-  try {
-    const apiKey = process.env.GITHUB_TOKEN;
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3+json',
-    };
-    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
-
-    const response = await fetch(`https://api.github.com/repos/${repoPath}`, { headers });
-    const data = (await response.json()) as any;
-
-    let value: number;
-    switch (metric) {
-      case 'stars':
-        value = data.stargazers_count;
-        break;
-      case 'issues':
-        value = data.open_issues_count;
-        break;
-      default:
-        value = 0;
-    }
-
-    const outcome = evaluateCondition(value, { operator, value: threshold }) as boolean;
-    return { outcome, rawData: data };
-  } catch (error) {
-    console.error('[Resolver] GitHub error:', error);
-    return { outcome: null, rawData: { error: String(error) } };
-  }
-}
-
-/**
- * Resolve weather-based market
- */
-export async function _resolveWeather(
-  lat: number,
-  lon: number,
-  metric: 'temp' | 'wind' | 'precip' | 'hurricane',
-  threshold: number,
-  operator: 'gt' | 'lt'
-): Promise<{ outcome: boolean | null; rawData: unknown }> {
-  try {
-    const apiKey = process.env.OPENWEATHER_API_KEY;
-    if (!apiKey) {
-      // Fallback to NOAA (no key needed)
-      const response = await fetch(`https://api.weather.gov/points/${lat},${lon}`);
-      const data = (await response.json()) as any;
-      return { outcome: null, rawData: data };
-    }
-
-    const response = await fetch(
-      `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lon}&appid=${apiKey}&units=imperial`
-    );
-    const data = (await response.json()) as any;
-
-    let value: number;
-    switch (metric) {
-      case 'temp':
-        value = data.main?.temp || 0;
-        break;
-      case 'wind':
-        value = data.wind?.speed || 0;
-        break;
-      case 'precip':
-        value = data.rain?.['1h'] || data.snow?.['1h'] || 0;
-        break;
-      default:
-        value = 0;
-    }
-
-    const outcome = evaluateCondition(value, { operator, value: threshold }) as boolean;
-    return { outcome, rawData: data };
-  } catch (error) {
-    console.error('[Resolver] Weather error:', error);
-    return { outcome: null, rawData: { error: String(error) } };
-  }
-}
-
 // ============================================================================
 // PRODUCTION RESOLVER SERVICE
 // ============================================================================
@@ -249,6 +46,7 @@ export interface ProductionResolverConfig {
   pollIntervalMs: number;
   maxRetries: number;
   retryDelayMs: number;
+  timeoutMs: number;
 }
 
 export class ProductionResolver {
@@ -256,16 +54,26 @@ export class ProductionResolver {
   private eventBus: EventBus;
   private pendingMarkets: Map<string, Market> = new Map();
   private resolvedMarkets: Map<string, ResolutionResult> = new Map();
+  private escalatedMarkets: Set<string> = new Set();
+  private evidence?: EvidenceStore;
   private pollInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
-
-  constructor(eventBus: EventBus, config?: Partial<ProductionResolverConfig>) {
+  private challenges?: ResolutionChallenges;
+  private registry: ResolverRegistry;
+
+  constructor(
+    eventBus: EventBus,
+    config?: Partial<ProductionResolverConfig>,
+    registry: ResolverRegistry = createResolverRegistry(),
+  ) {
     this.config = {
       pollIntervalMs: config?.pollIntervalMs || 60000, // 1 minute
       maxRetries: config?.maxRetries || 3,
       retryDelayMs: config?.retryDelayMs || 5000,
+      timeoutMs: config?.timeoutMs || 10000,
     };
     this.eventBus = eventBus;
+    this.registry = registry;
 
     // Subscribe to market events
     this.eventBus.subscribe('markets.created', (market: Market) => {
@@ -273,6 +81,21 @@ export class ProductionResolver {
     });
   }
 
+  /**
+   * Make resolutions (including forced ones) provisional until their
+   * challenge window ends
+   */
+  attachChallenges(challenges: ResolutionChallenges): void {
+    this.challenges = challenges;
+  }
+
+  /**
+   * Archive the fetches behind every resolution attempt
+   */
+  attachEvidence(evidence: EvidenceStore): void {
+    this.evidence = evidence;
+  }
+
   /**
    * Start the resolver
    */
@@ -325,126 +148,139 @@ export class ProductionResolver {
       // Skip if not yet at resolution time
       if (market.resolves_at > now) continue;
 
+      // Escalated markets wait for an operator
+      if (this.escalatedMarkets.has(id)) continue;
+
       console.log(`[Resolver] Attempting resolution: ${market.ticker}`);
       
       const result = await this.resolveMarket(market);
+
+      if (result.escalated) {
+        this.escalatedMarkets.add(id);
+        await this.eventBus.publish('markets.resolution_escalated', {
+          market_id: id,
+          reason: result.error,
+          raw_data: result.rawData,
+        });
+        console.log(`[Resolver] Escalated ${market.ticker}: ${result.error}`);
+        continue;
+      }
       
       if (result.outcome !== null) {
         this.resolvedMarkets.set(id, result);
         this.pendingMarkets.delete(id);
         
-        // Emit resolution event
-        this.eventBus.publish('markets.resolved', {
-          market,
-          result,
-        });
+        await this.publishResolution(market, result);
 
-        console.log(`[Resolver] Resolved ${market.ticker}: ${result.outcome ? 'YES' : 'NO'} (confidence: ${(result.confidence * 100).toFixed(0)}%)`);
+        console.log(`[Resolver] Resolved ${market.ticker}: ${result.outcome.toUpperCase()} (confidence: ${(result.confidence * 100).toFixed(0)}%)`);
       }
     }
   }
 
   /**
-   * Resolve a single market
+   * Resolve a single market with the adapter for its schema type. Pending
+   * results (manual markets, attestation rounds) leave the outcome null.
    */
   async resolveMarket(market: Market): Promise<ResolutionResult> {
     const schema = market.resolution_schema;
-    let outcome: boolean | null = null;
-    let rawData: unknown = null;
-    let confidence = 0;
-    let source = 'unknown';
-
-    try {
-      switch (schema.type) {
-        case 'http_json':
-          const httpResult = await resolveHttpJson(schema as any);
-          outcome = httpResult.outcome;
-          rawData = httpResult.rawData;
-          confidence = outcome !== null ? 0.95 : 0;
-          source = (schema as any).source_url;
-          break;
-
-        case 'multi_source':
-          // Multi-source resolution (consensus of multiple APIs)
-          const sources = (schema as any).sources || [];
-          const results: boolean[] = [];
-          
-          for (const src of sources) {
-            const srcResult = await resolveHttpJson(src);
-            if (srcResult.outcome !== null) {
-              results.push(srcResult.outcome);
-            }
-          }
-
-          if (results.length > 0) {
-            const yesCount = results.filter(r => r).length;
-            outcome = yesCount > results.length / 2;
-            confidence = yesCount / results.length;
-            source = 'multi_source';
-            rawData = { results, sources: sources.length };
-          }
-          break;
-
-        default:
-          // Fallback: try as HTTP JSON
-          if ((schema as any).source_url) {
-            const fallbackResult = await resolveHttpJson(schema as any);
-            outcome = fallbackResult.outcome;
-            rawData = fallbackResult.rawData;
-            confidence = outcome !== null ? 0.85 : 0;
-            source = (schema as any).source_url;
-          }
-      }
-    } catch (error) {
-      console.error(`[Resolver] Error resolving ${market.ticker}:`, error);
-      return {
-        marketId: market.id,
-        outcome: null,
-        confidence: 0,
-        source: 'error',
-        rawData: { error: String(error) },
-        resolvedAt: new Date(),
-        error: String(error),
-      };
+    const result = await this.registry.resolve(schema, { market, timeoutMs: this.config.timeoutMs });
+    this.evidence?.archive(market.id, schema, result);
+
+    if (!result.success) {
+      console.error(`[Resolver] Error resolving ${market.ticker}: ${result.error}`);
     }
 
     return {
       marketId: market.id,
-      outcome,
-      confidence,
-      source,
-      rawData,
+      outcome: result.outcome ?? null,
+      value: result.value,
+      longPayout: result.long_payout,
+      confidence: result.outcome !== undefined ? result.confidence ?? 0 : 0,
+      source: schema.type,
+      rawData: result.raw_data ?? null,
+      evaluatedValue: result.evaluated_value,
       resolvedAt: new Date(),
+      escalated: result.escalated,
+      error: result.error,
     };
   }
 
   /**
-   * Force resolve a market (manual override)
+   * Force resolve a market (manual override) with an outcome, or the value
+   * of a scalar market. An invalid verdict leaves the market pending and
+   * comes back with an error.
    */
-  async forceResolve(marketId: string, outcome: boolean, reason: string): Promise<ResolutionResult> {
+  async forceResolve(marketId: string, verdict: OutcomeVerdict, reason: string): Promise<ResolutionResult> {
     const market = this.pendingMarkets.get(marketId);
+
+    const decided = decideOutcome(market ?? {}, verdict);
+    if ('error' in decided) {
+      return {
+        marketId,
+        outcome: null,
+        confidence: 0,
+        source: 'manual',
+        rawData: null,
+        resolvedAt: new Date(),
+        error: decided.error,
+      };
+    }
     
     const result: ResolutionResult = {
       marketId,
-      outcome,
+      outcome: decided.outcome,
+      value: decided.value,
+      longPayout: decided.long_payout,
       confidence: 1.0,
-      source: 'manual_override',
+      source: 'manual',
       rawData: { reason, operator: 'system' },
       resolvedAt: new Date(),
     };
 
     this.resolvedMarkets.set(marketId, result);
     this.pendingMarkets.delete(marketId);
+    this.escalatedMarkets.delete(marketId);
 
     if (market) {
-      this.eventBus.publish('markets.resolved', { market, result });
+      await this.publishResolution(market, result);
     }
 
-    console.log(`[Resolver] Force resolved ${marketId}: ${outcome ? 'YES' : 'NO'} - ${reason}`);
+    console.log(`[Resolver] Force resolved ${marketId}: ${decided.outcome.toUpperCase()} - ${reason}`);
 
     return result;
   }
 
+  /**
+   * Propose the outcome for challenge, or resolve at once without challenges
+   */
+  private async publishResolution(market: Market, result: ResolutionResult): Promise<void> {
+    const outcome = result.outcome as Outcome;
+    const resolved = { outcome, value: result.value, long_payout: result.longPayout };
+
+    if (!this.challenges) {
+      const event: MarketResolvedEvent = {
+        market_id: market.id,
+        outcome,
+        ...resolutionTerms(market, resolved),
+        source: result.source,
+        confidence: result.confidence,
+        raw_data: result.rawData,
+        evaluated_value: result.evaluatedValue,
+        resolved_at: result.resolvedAt.toISOString(),
+      };
+      await this.eventBus.publish('markets.resolved', event);
+      return;
+    }
+
+    await this.challenges.propose(market, {
+      ...resolved,
+      source: result.source,
+      confidence: result.confidence,
+      raw_data: result.rawData,
+      evaluated_value: result.evaluatedValue,
+    });
+  }
+
   // ============================================================================
   // PUBLIC API
   // ============================================================================
@@ -465,6 +301,10 @@ export class ProductionResolver {
     return Array.from(this.resolvedMarkets.values());
   }
 
+  getEscalatedMarkets(): Market[] {
+    return [...this.escalatedMarkets].flatMap(id => this.pendingMarkets.get(id) ?? []);
+  }
+
   getResult(marketId: string): ResolutionResult | undefined {
     return this.resolvedMarkets.get(marketId);
   }
@@ -474,6 +314,7 @@ export class ProductionResolver {
       isRunning: this.isRunning,
       pending: this.pendingMarkets.size,
       resolved: this.resolvedMarkets.size,
+      escalated: this.escalatedMarkets.size,
       pollInterval: this.config.pollIntervalMs,
     };
   }
@@ -485,8 +326,16 @@ export class ProductionResolver {
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 
-export function createResolverRoutes(eventBus: EventBus) {
-  const resolver = new ProductionResolver(eventBus);
+export function createResolverRoutes(
+  eventBus: EventBus,
+  challenges?: ResolutionChallenges,
+  registry?: ResolverRegistry,
+  reputation?: SourceReputation,
+  evidence?: EvidenceStore
+) {
+  const resolver = new ProductionResolver(eventBus, {}, registry);
+  if (challenges) resolver.attachChallenges(challenges);
+  if (evidence) resolver.attachEvidence(evidence);
 
   return async function resolverRoutes(fastify: FastifyInstance): Promise<void> {
     // Start resolver
@@ -518,6 +367,26 @@ export function createResolverRoutes(eventBus: EventBus) {
       });
     });
 
+    // Get markets escalated for a source disagreement
+    fastify.get('/resolver/escalated', async (_req: FastifyRequest, reply: FastifyReply) => {
+      const markets = resolver.getEscalatedMarkets();
+      return reply.send({
+        success: true,
+        data: { markets, total: markets.length },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    // Get multi_source source reliability
+    fastify.get('/resolver/sources', async (_req: FastifyRequest, reply: FastifyReply) => {
+      const sources = reputation?.getRecords() ?? [];
+      return reply.send({
+        success: true,
+        data: { sources, total: sources.length },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
     // Get resolved markets
     fastify.get('/resolver/resolved', async (_req: FastifyRequest, reply: FastifyReply) => {
       return reply.send({
@@ -529,11 +398,18 @@ export function createResolverRoutes(eventBus: EventBus) {
 
     // Force resolve
     fastify.post('/resolver/force', async (
-      request: FastifyRequest<{ Body: { market_id: string; outcome: boolean; reason: string } }>,
+      request: FastifyRequest<{ Body: { market_id: string; outcome?: Outcome; value?: number; reason: string } }>,
       reply: FastifyReply
     ) => {
-      const { market_id, outcome, reason } = request.body;
-      const result = await resolver.forceResolve(market_id, outcome, reason);
+      const { market_id, outcome, value, reason } = request.body;
+      const result = await resolver.forceResolve(market_id, { outcome, value }, reason);
+      if (result.outcome === null) {
+        return reply.status(400).send({
+          success: false,
+          error: { code: 'INVALID_OUTCOME', message: result.error },
+          timestamp: new Date().toISOString(),
+        });
+      }
       return reply.send({
         success: true,
         data: { result },
@@ -0,0 +1,590 @@
+/**
+ * TRUTH-NET Resolution Challenges
+ * Provisional resolutions, resolution bonds and re-resolution
+ *
+ *   provisional ──(window ends)──────────────────────────────> final
+ *        │                                                       ▲
+ *        └──(bonded challenge)──> challenged ──(alternate sources agree)
+ *                                     │                          │
+ *                                     └──(no verdict)──> escalated ──(admin verdict)
+ *
+ * An outcome from the oracle (OracleEngine or ProductionResolver) is only
+ * provisional. During the challenge window any agent may dispute it by
+ * posting a bond, locked in its wallet through EscrowLedger. A challenge
+ * re-resolves the market from the schema's alternate_sources; when they
+ * give no majority the challenge is escalated to an admin verdict.
+ *
+ * - Upheld (the verdict matches the provisional outcome): the bond is
+ *   slashed to the CCP fund
+ * - Overturned: the bond is returned and the verdict's outcome stands
+ *
+ * A scalar market's verdict is its long payout, so alternate sources
+ * agree when they put the value at the same payout.
+ *
+ * markets.resolved, and therefore settlement, fires only once the window
+ * passes unchallenged or the verdict is in. Binary markets go through
+ * their resolvers' own dispute window instead (see AttestationService).
+ *
+ * Bonds are integer micros.
+ */
+
+import { EventBus } from '../events/EventBus.js';
+import { EscrowLedger } from '../engine/escrow/EscrowLedger.js';
+import { engineClock } from '../engine/journal/EngineClock.js';
+import { EngineJournal, reviveDates } from '../engine/journal/EngineJournal.js';
+import { Micros, MICROS_PER_UNIT } from '../engine/money/Money.js';
+import {
+  decideOutcome,
+  OutcomeVerdict,
+  ResolvedOutcome,
+  resolutionTerms,
+} from '../markets/outcomes.js';
+import {
+  Market,
+  MarketResolvedEvent,
+  OracleResolutionResult,
+  Outcome,
+  SourceResolutionSchema,
+} from '../types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProvisionalStatus = 'provisional' | 'challenged' | 'escalated' | 'final';
+
+export interface AlternateSourceResult {
+  source: string;
+  outcome?: Outcome;
+  value?: number;
+  long_payout?: Micros;
+  error?: string;
+}
+
+export interface ResolutionChallenge {
+  id: string;
+  challenger_id: string;
+  reason: string;
+  bond: Micros;
+  filed_at: Date;
+  alternate_results: AlternateSourceResult[];
+  verdict?: 'upheld' | 'overturned';
+  decided_by?: 'alternate_sources' | 'admin';
+  verdict_reason?: string;
+  decided_at?: Date;
+}
+
+export interface ProvisionalResolution {
+  market_id: string;
+  status: ProvisionalStatus;
+  outcome: Outcome;               // Provisional outcome
+  value?: number;                 // Scalar markets: provisional value
+  long_payout?: Micros;
+  source: string;
+  confidence: number;
+  raw_data?: unknown;
+  evaluated_value?: unknown;
+  proposed_at: Date;
+  challenge_window_ends_at: Date;
+  challenge?: ResolutionChallenge;
+  final_outcome?: Outcome;
+  final_value?: number;
+  finalized_at?: Date;
+}
+
+export interface ProposedOutcome {
+  outcome: Outcome;
+  value?: number;
+  long_payout?: Micros;
+  source: string;
+  confidence: number;
+  raw_data?: unknown;
+  evaluated_value?: unknown;
+}
+
+/**
+ * Resolves a single external source (OracleEngine.resolveSource); the
+ * market decides the source's outcome and files its fetches under that
+ * market's evidence
+ */
+export interface SourceResolver {
+  resolveSource(schema: SourceResolutionSchema, market?: Market): Promise<OracleResolutionResult>;
+}
+
+export interface ResolutionChallengesConfig {
+  challengeWindowMs: number;  // Used when the schema sets none
+  bondAmount: Micros;
+}
+
+const DEFAULT_CONFIG: ResolutionChallengesConfig = {
+  challengeWindowMs: 60 * 60 * 1000,
+  bondAmount: 100 * MICROS_PER_UNIT,
+};
+
+const MARKET_DATES = ['opens_at', 'closes_at', 'resolves_at', 'created_at', 'updated_at', 'settled_at'];
+
+/**
+ * Rejected challenge or verdict
+ */
+export class ChallengeError extends Error {
+  constructor(
+    public readonly code:
+      | 'RESOLUTION_NOT_FOUND'
+      | 'CHALLENGE_WINDOW_CLOSED'
+      | 'INSUFFICIENT_BALANCE'
+      | 'NO_OPEN_CHALLENGE'
+      | 'INVALID_VERDICT',
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ChallengeError';
+  }
+}
+
+// ============================================================================
+// RESOLUTION CHALLENGES
+// ============================================================================
+
+export class ResolutionChallenges {
+  private config: ResolutionChallengesConfig;
+  private resolutions: Map<string, ProvisionalResolution> = new Map();
+  private markets: Map<string, Market> = new Map();
+  private windows: Map<string, NodeJS.Timeout> = new Map();
+  private journal?: EngineJournal;
+
+  constructor(
+    private escrow: EscrowLedger,
+    private eventBus: EventBus,
+    private sources: SourceResolver,
+    config: Partial<ResolutionChallengesConfig> = {},
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // -------------------------------------------------------------------------
+  // Provisional Resolution
+  // -------------------------------------------------------------------------
+
+  /**
+   * Record an oracle outcome as provisional and open its challenge window.
+   * A market that already has a resolution keeps it.
+   */
+  async propose(market: Market, proposed: ProposedOutcome): Promise<ProvisionalResolution> {
+    const existing = this.resolutions.get(market.id);
+    if (existing) return existing;
+
+    const resolution = await this.journaled('resolution.propose', [market, proposed], async () =>
+      this.applyPropose(market, proposed)
+    );
+
+    await this.eventBus.publish('markets.resolution_provisional', {
+      market_id: market.id,
+      outcome: resolution.outcome,
+      value: resolution.value,
+      source: resolution.source,
+      challenge_window_ends_at: resolution.challenge_window_ends_at.toISOString(),
+    });
+
+    await this.armWindow(resolution);
+    return resolution;
+  }
+
+  private applyPropose(market: Market, proposed: ProposedOutcome): ProvisionalResolution {
+    const existing = this.resolutions.get(market.id);
+    if (existing) return existing;
+
+    const schema = market.resolution_schema as Partial<SourceResolutionSchema>;
+    const windowMs = schema.challenge_window_ms ?? this.config.challengeWindowMs;
+    const now = engineClock.now();
+    const resolution: ProvisionalResolution = {
+      market_id: market.id,
+      status: 'provisional',
+      outcome: proposed.outcome,
+      value: proposed.value,
+      long_payout: proposed.long_payout,
+      source: proposed.source,
+      confidence: proposed.confidence,
+      raw_data: proposed.raw_data,
+      evaluated_value: proposed.evaluated_value,
+      proposed_at: now,
+      challenge_window_ends_at: new Date(now.getTime() + windowMs),
+    };
+
+    this.resolutions.set(market.id, resolution);
+    this.markets.set(market.id, market);
+    return resolution;
+  }
+
+  /**
+   * Finalize a provisional resolution whose window passed unchallenged
+   */
+  async closeWindow(marketId: string): Promise<void> {
+    this.windows.delete(marketId);
+    if (this.resolutions.get(marketId)?.status !== 'provisional') return;
+
+    const resolved = await this.journaled('resolution.close_window', [marketId], async () =>
+      this.applyCloseWindow(marketId)
+    );
+    if (resolved) {
+      await this.eventBus.publish('markets.resolved', resolved);
+    }
+  }
+
+  private applyCloseWindow(marketId: string): MarketResolvedEvent | null {
+    const resolution = this.resolutions.get(marketId);
+    return resolution?.status === 'provisional' ? this.finalize(resolution, resolution) : null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Challenges
+  // -------------------------------------------------------------------------
+
+  /**
+   * Dispute a provisional outcome. The bond is locked in the challenger's
+   * wallet and the market is re-resolved from its alternate sources in the
+   * background.
+   */
+  async challenge(marketId: string, challengerId: string, reason: string): Promise<ProvisionalResolution> {
+    const resolution = await this.journaled('resolution.challenge', [marketId, challengerId, reason], () =>
+      this.applyChallenge(marketId, challengerId, reason)
+    );
+    this.clearWindow(marketId);
+
+    const challenge = resolution.challenge!;
+    await this.eventBus.publish('markets.resolution_challenged', {
+      market_id: marketId,
+      challenge_id: challenge.id,
+      challenger_id: challengerId,
+      provisional_outcome: resolution.outcome,
+      provisional_value: resolution.value,
+      bond: challenge.bond,
+    });
+
+    this.startReresolve(resolution);
+    return resolution;
+  }
+
+  private async applyChallenge(marketId: string, challengerId: string, reason: string): Promise<ProvisionalResolution> {
+    const resolution = this.resolutions.get(marketId);
+    if (!resolution) {
+      throw new ChallengeError('RESOLUTION_NOT_FOUND', `Market ${marketId} has no provisional resolution`);
+    }
+    if (resolution.status !== 'provisional' || engineClock.now() >= resolution.challenge_window_ends_at) {
+      throw new ChallengeError('CHALLENGE_WINDOW_CLOSED', `Market ${marketId} can no longer be challenged (${resolution.status})`);
+    }
+
+    const challenge: ResolutionChallenge = {
+      id: engineClock.newId(),
+      challenger_id: challengerId,
+      reason,
+      bond: this.config.bondAmount,
+      filed_at: engineClock.now(),
+      alternate_results: [],
+    };
+
+    // Claim the market before the bond's await so a second challenge fails
+    resolution.status = 'challenged';
+    resolution.challenge = challenge;
+
+    const lock = await this.escrow.lock(challengerId, challenge.bond, 'resolution_bond', challenge.id);
+    if (!lock.success) {
+      resolution.status = 'provisional';
+      resolution.challenge = undefined;
+      throw new ChallengeError('INSUFFICIENT_BALANCE', `Cannot post resolution bond: ${lock.error}`);
+    }
+
+    return resolution;
+  }
+
+  /**
+   * Admin verdict on a challenged or escalated resolution: an outcome of
+   * the market, or the value of a scalar market
+   */
+  async decide(marketId: string, verdict: OutcomeVerdict, reason: string): Promise<ProvisionalResolution> {
+    const resolution = this.openChallenge(marketId);
+
+    const decided = decideOutcome(this.markets.get(marketId) ?? {}, verdict);
+    if ('error' in decided) {
+      throw new ChallengeError('INVALID_VERDICT', decided.error);
+    }
+
+    const resolved = await this.journaled('resolution.decide', [marketId, decided, reason], async () =>
+      this.applyVerdict(this.openChallenge(marketId), decided, 'admin', reason)
+    );
+    await this.eventBus.publish('markets.resolved', resolved);
+    return resolution;
+  }
+
+  private openChallenge(marketId: string): ProvisionalResolution {
+    const resolution = this.resolutions.get(marketId);
+    if (!resolution?.challenge || (resolution.status !== 'challenged' && resolution.status !== 'escalated')) {
+      throw new ChallengeError('NO_OPEN_CHALLENGE', `Market ${marketId} has no open challenge`);
+    }
+    return resolution;
+  }
+
+  private startReresolve(resolution: ProvisionalResolution): void {
+    const marketId = resolution.market_id;
+    this.reresolve(resolution).catch(async err => {
+      console.error(`[Challenges] Re-resolution of market ${marketId} failed: ${err.message}`);
+      const escalated = await this.journaled('resolution.escalate', [marketId], async () =>
+        this.applyEscalate(marketId)
+      );
+      if (escalated) {
+        await this.publishEscalated(resolution);
+      }
+    });
+  }
+
+  /**
+   * Resolve each alternate source, then journal the results; a unique
+   * plurality decides the verdict
+   */
+  private async reresolve(resolution: ProvisionalResolution): Promise<void> {
+    const market = this.markets.get(resolution.market_id);
+    const schema = market?.resolution_schema as Partial<SourceResolutionSchema> | undefined;
+    const results: AlternateSourceResult[] = [];
+
+    for (const alternate of schema?.alternate_sources ?? []) {
+      const source = alternate.type === 'graphql' ? alternate.endpoint : alternate.source_url;
+      const result = await this.sources.resolveSource(alternate, market);
+      results.push(
+        result.success && result.outcome !== undefined
+          ? { source, outcome: result.outcome, value: result.value, long_payout: result.long_payout }
+          : { source, error: result.error ?? 'No outcome' }
+      );
+    }
+
+    const outcome = await this.journaled('resolution.reresolve', [resolution.market_id, results], () =>
+      this.applyReresolve(resolution.market_id, results)
+    );
+    if (outcome === 'escalated') {
+      await this.publishEscalated(resolution);
+    } else if (outcome) {
+      await this.eventBus.publish('markets.resolved', outcome);
+    }
+  }
+
+  private async applyReresolve(
+    marketId: string,
+    results: AlternateSourceResult[],
+  ): Promise<MarketResolvedEvent | 'escalated' | null> {
+    const resolution = this.resolutions.get(marketId)!;
+    const challenge = resolution.challenge!;
+    challenge.alternate_results = results;
+
+    // An admin may have ruled while the sources were being polled
+    if (resolution.status !== 'challenged') return null;
+
+    const tally = new Map<Outcome | Micros, { votes: number; verdict: ResolvedOutcome }>();
+    for (const result of results) {
+      if (result.outcome === undefined) continue;
+      const key = verdictKey(result as ResolvedOutcome);
+      const entry = tally.get(key) ?? { votes: 0, verdict: result as ResolvedOutcome };
+      entry.votes++;
+      tally.set(key, entry);
+    }
+
+    const ranked = [...tally.values()].sort((a, b) => b.votes - a.votes);
+    if (ranked.length === 0 || ranked[1]?.votes === ranked[0].votes) {
+      return this.applyEscalate(marketId) ? 'escalated' : null;
+    }
+
+    const { votes, verdict } = ranked[0];
+    return this.applyVerdict(
+      resolution,
+      { outcome: verdict.outcome, value: verdict.value, long_payout: verdict.long_payout },
+      'alternate_sources',
+      `${votes} of ${results.length} alternate sources`,
+    );
+  }
+
+  private applyEscalate(marketId: string): boolean {
+    const resolution = this.resolutions.get(marketId);
+    if (resolution?.status !== 'challenged') return false;
+    resolution.status = 'escalated';
+    return true;
+  }
+
+  private async publishEscalated(resolution: ProvisionalResolution): Promise<void> {
+    await this.eventBus.publish('markets.resolution_escalated', {
+      market_id: resolution.market_id,
+      challenge_id: resolution.challenge!.id,
+      alternate_results: resolution.challenge!.alternate_results,
+    });
+  }
+
+  private async applyVerdict(
+    resolution: ProvisionalResolution,
+    verdict: ResolvedOutcome,
+    decidedBy: 'alternate_sources' | 'admin',
+    reason: string,
+  ): Promise<MarketResolvedEvent> {
+    const challenge = resolution.challenge!;
+    const upheld = verdictKey(verdict) === verdictKey(resolution);
+
+    challenge.verdict = upheld ? 'upheld' : 'overturned';
+    challenge.decided_by = decidedBy;
+    challenge.verdict_reason = reason;
+    challenge.decided_at = engineClock.now();
+    resolution.status = 'final';
+
+    if (upheld) {
+      await this.escrow.slashBond(challenge.challenger_id, challenge.bond, challenge.id);
+    } else {
+      await this.escrow.release(challenge.challenger_id, challenge.bond, 'resolution_bond', challenge.id);
+    }
+
+    return this.finalize(resolution, verdict);
+  }
+
+  /**
+   * Mark the resolution final; the caller publishes the returned
+   * markets.resolved once the command is journaled
+   */
+  private finalize(resolution: ProvisionalResolution, verdict: ResolvedOutcome): MarketResolvedEvent {
+    resolution.status = 'final';
+    resolution.final_outcome = verdict.outcome;
+    resolution.final_value = verdict.value;
+    resolution.finalized_at = engineClock.now();
+
+    const { challenge } = resolution;
+    return {
+      market_id: resolution.market_id,
+      outcome: verdict.outcome,
+      ...resolutionTerms(this.markets.get(resolution.market_id) ?? {}, verdict),
+      source: resolution.source,
+      // An admin verdict is certain; otherwise the source's confidence stands
+      confidence: challenge?.decided_by === 'admin' ? 1 : resolution.confidence,
+      raw_data: resolution.raw_data,
+      evaluated_value: resolution.evaluated_value,
+      provisional_outcome: resolution.outcome,
+      challenge_verdict: challenge?.verdict ?? null,
+      resolved_at: resolution.finalized_at.toISOString(),
+    };
+  }
+
+  /**
+   * Finalize when the challenge window ends (at once if it already has)
+   */
+  private async armWindow(resolution: ProvisionalResolution): Promise<void> {
+    const remaining = resolution.challenge_window_ends_at.getTime() - Date.now();
+    if (remaining <= 0) {
+      await this.closeWindow(resolution.market_id);
+      return;
+    }
+    this.windows.set(resolution.market_id, setTimeout(() => {
+      this.closeWindow(resolution.market_id).catch(err => {
+        console.error(`[Challenges] Failed to finalize market ${resolution.market_id}: ${err.message}`);
+      });
+    }, remaining));
+  }
+
+  private clearWindow(marketId: string): void {
+    const timeout = this.windows.get(marketId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.windows.delete(marketId);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Journal and Snapshots
+  // -------------------------------------------------------------------------
+
+  /**
+   * Journal proposals, challenges and verdicts and include every resolution
+   * in snapshots. Timers and source fetches are not replayed: the fetched
+   * results are journaled, and resume() re-arms windows after recovery.
+   */
+  attachJournal(journal: EngineJournal): void {
+    this.journal = journal;
+
+    journal.register('resolution.propose', (market: Market, proposed: ProposedOutcome) =>
+      this.applyPropose(reviveDates(market, MARKET_DATES), proposed));
+    journal.register('resolution.close_window', (marketId: string) =>
+      this.applyCloseWindow(marketId));
+    journal.register('resolution.challenge', (marketId: string, challengerId: string, reason: string) =>
+      this.applyChallenge(marketId, challengerId, reason));
+    journal.register('resolution.reresolve', (marketId: string, results: AlternateSourceResult[]) =>
+      this.applyReresolve(marketId, results));
+    journal.register('resolution.escalate', (marketId: string) =>
+      this.applyEscalate(marketId));
+    journal.register('resolution.decide', (marketId: string, verdict: ResolvedOutcome, reason: string) =>
+      this.applyVerdict(this.openChallenge(marketId), verdict, 'admin', reason));
+
+    journal.addParticipant('resolution_challenges', this);
+  }
+
+  private journaled<T>(type: string, args: unknown[], fn: () => Promise<T>): Promise<T> {
+    return this.journal ? this.journal.record(type, args, fn) : fn();
+  }
+
+  /**
+   * After recovery: re-arm the window of every provisional resolution and
+   * restart re-resolution of challenges that had no verdict yet
+   */
+  async resume(): Promise<void> {
+    for (const resolution of this.resolutions.values()) {
+      if (resolution.status === 'provisional' && !this.windows.has(resolution.market_id)) {
+        await this.armWindow(resolution);
+      } else if (resolution.status === 'challenged') {
+        this.startReresolve(resolution);
+      }
+    }
+  }
+
+  toSnapshot(): unknown {
+    const sorted = <V>(map: Map<string, V>) => [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
+    return {
+      resolutions: sorted(this.resolutions),
+      markets: sorted(this.markets),
+    };
+  }
+
+  restoreSnapshot(state: unknown): void {
+    const saved = state as {
+      resolutions: Array<[string, ProvisionalResolution]>;
+      markets: Array<[string, Market]>;
+    };
+
+    this.resolutions = new Map(saved.resolutions.map(([marketId, r]) => {
+      const resolution = reviveDates({ ...r }, ['proposed_at', 'challenge_window_ends_at', 'finalized_at']);
+      if (resolution.challenge) {
+        resolution.challenge = reviveDates({ ...resolution.challenge }, ['filed_at', 'decided_at']);
+      }
+      return [marketId, resolution];
+    }));
+    this.markets = new Map(saved.markets.map(([marketId, m]) => [marketId, reviveDates({ ...m }, MARKET_DATES)]));
+  }
+
+  // -------------------------------------------------------------------------
+  // Getters
+  // -------------------------------------------------------------------------
+
+  getResolution(marketId: string): ProvisionalResolution | undefined {
+    return this.resolutions.get(marketId);
+  }
+
+  getBondAmount(): Micros {
+    return this.config.bondAmount;
+  }
+
+  /**
+   * Stop every challenge window timer
+   */
+  clearAll(): void {
+    for (const timeout of this.windows.values()) {
+      clearTimeout(timeout);
+    }
+    this.windows.clear();
+  }
+}
+
+/**
+ * What two verdicts must share to agree: a scalar market's long payout,
+ * otherwise the outcome
+ */
+function verdictKey(verdict: Pick<ResolvedOutcome, 'outcome' | 'long_payout'>): Outcome | Micros {
+  return verdict.long_payout ?? verdict.outcome;
+}
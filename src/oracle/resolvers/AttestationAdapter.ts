@@ -0,0 +1,32 @@
+/**
+ * TRUTH-NET Attestation Resolver
+ * Binary markets: opens an attestation round whose outcome the
+ * AttestationService publishes once its dispute window ends
+ */
+
+import { BinaryResolutionSchema, OracleResolutionResult } from '../../types.js';
+import { AttestationService } from '../AttestationService.js';
+import { ResolverAdapter, ResolverContext, ValidationResult } from './ResolverRegistry.js';
+
+export class AttestationAdapter implements ResolverAdapter<BinaryResolutionSchema> {
+  readonly type = 'binary';
+  readonly confidence = 1;
+
+  constructor(private attestations: AttestationService) {}
+
+  async validate(schema: BinaryResolutionSchema): Promise<ValidationResult> {
+    return this.attestations.validateSchema(schema);
+  }
+
+  async resolve(_schema: BinaryResolutionSchema, context: ResolverContext): Promise<OracleResolutionResult> {
+    if (context.dryRun) {
+      return { success: true, pending: true };
+    }
+    if (!context.market) {
+      return { success: false, error: 'Binary resolution needs the market' };
+    }
+
+    const round = this.attestations.openRound(context.market);
+    return { success: true, pending: true, raw_data: { attestation_round: round.status } };
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * TRUTH-NET GitHub Resolver
+ * Repository metrics from the GitHub REST API (GITHUB_TOKEN raises the
+ * rate limit but is optional)
+ */
+
+import { GitHubResolutionSchema, OracleResolutionResult } from '../../types.js';
+import { ResolverAdapter, ResolverContext, ValidationResult } from './ResolverRegistry.js';
+import { FetchContext, FetchResult, fetchJson, outcomeOf, testConnection } from './shared.js';
+import { validateCondition } from './conditions.js';
+
+const API_URL = 'https://api.github.com';
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const METRIC_FIELDS: Record<GitHubResolutionSchema['metric'], string> = {
+  stars: 'stargazers_count',
+  forks: 'forks_count',
+  open_issues: 'open_issues_count',
+  watchers: 'subscribers_count',
+};
+
+export class GitHubAdapter implements ResolverAdapter<GitHubResolutionSchema> {
+  readonly type = 'github';
+  readonly confidence = 0.99;
+
+  async validate(schema: GitHubResolutionSchema, connect: boolean): Promise<ValidationResult> {
+    if (!/^[\w.-]+\/[\w.-]+$/.test(schema.repo ?? '')) {
+      return { valid: false, error: 'repo must be owner/name' };
+    }
+    if (!(schema.metric in METRIC_FIELDS)) {
+      return { valid: false, error: `Invalid metric: ${schema.metric}` };
+    }
+
+    if (schema.condition !== undefined) {
+      const condition = validateCondition(schema.condition);
+      if (!condition.valid) return condition;
+    }
+
+    return connect ? testConnection(() => this.fetch(schema, DEFAULT_TIMEOUT_MS)) : { valid: true };
+  }
+
+  async resolve(schema: GitHubResolutionSchema, context: ResolverContext): Promise<OracleResolutionResult> {
+    const fetched = await this.fetch(schema, context.timeoutMs, context);
+    if (fetched.error) {
+      return { success: false, error: fetched.error };
+    }
+
+    const value = (fetched.data as Record<string, unknown>)[METRIC_FIELDS[schema.metric]];
+    if (typeof value !== 'number') {
+      return { success: false, error: `GitHub response has no ${METRIC_FIELDS[schema.metric]}`, raw_data: fetched.raw };
+    }
+
+    return outcomeOf(value, fetched.raw, schema.condition);
+  }
+
+  private fetch(schema: GitHubResolutionSchema, timeoutMs: number, context?: FetchContext): Promise<FetchResult> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github+json',
+      'User-Agent': 'TRUTH-NET/1.0',
+    };
+    if (process.env.GITHUB_TOKEN) {
+      headers['Authorization'] = `Bearer ${process.env.GITHUB_TOKEN}`;
+    }
+
+    return fetchJson(`${API_URL}/repos/${schema.repo}`, { method: 'GET', headers }, timeoutMs, context);
+  }
+}
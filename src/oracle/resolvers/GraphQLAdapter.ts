@@ -0,0 +1,87 @@
+/**
+ * TRUTH-NET GraphQL Resolver
+ * JSONPath over a GraphQL response's `data`, so `$.repository.stargazerCount`
+ * reads `data.repository.stargazerCount`
+ */
+
+import { GraphQLResolutionSchema, OracleResolutionResult } from '../../types.js';
+import { ResolverAdapter, ResolverContext, ValidationResult } from './ResolverRegistry.js';
+import { FetchContext, FetchResult, buildHeaders, extractOutcome, fetchRecorded, testConnection, validateExtraction } from './shared.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export class GraphQLAdapter implements ResolverAdapter<GraphQLResolutionSchema> {
+  readonly type = 'graphql';
+  readonly confidence = 0.95;
+
+  async validate(schema: GraphQLResolutionSchema, connect: boolean): Promise<ValidationResult> {
+    try {
+      new URL(schema.endpoint);
+    } catch {
+      return { valid: false, error: 'Invalid endpoint' };
+    }
+
+    // An operation always has a selection set
+    if (!schema.query || !schema.query.includes('{')) {
+      return { valid: false, error: 'Invalid query - must be a GraphQL operation' };
+    }
+
+    if (schema.variables !== undefined && (typeof schema.variables !== 'object' || Array.isArray(schema.variables))) {
+      return { valid: false, error: 'Variables must be an object' };
+    }
+
+    const extraction = validateExtraction(schema.json_path, schema.condition);
+    if (!extraction.valid) return extraction;
+
+    return connect ? testConnection(() => this.fetch(schema, DEFAULT_TIMEOUT_MS)) : { valid: true };
+  }
+
+  async resolve(schema: GraphQLResolutionSchema, context: ResolverContext): Promise<OracleResolutionResult> {
+    const fetched = await this.fetch(schema, context.timeoutMs, context);
+    if (fetched.error) {
+      return { success: false, error: fetched.error, raw_data: fetched.raw };
+    }
+
+    return extractOutcome(fetched.data, fetched.raw, schema.json_path, schema.condition);
+  }
+
+  /**
+   * POST the query. A response carrying an `errors` array is a failure
+   * even when it also has (partial) data.
+   */
+  private async fetch(schema: GraphQLResolutionSchema, defaultTimeoutMs: number, context?: FetchContext): Promise<FetchResult> {
+    const exchange = await fetchRecorded(schema.endpoint, {
+      method: 'POST',
+      headers: buildHeaders({ 'Content-Type': 'application/json', ...(schema.headers ?? {}) }),
+      body: JSON.stringify({ query: schema.query, variables: schema.variables ?? {} }),
+    }, schema.timeout_ms ?? defaultTimeoutMs, context);
+
+    if (exchange.error) {
+      return { error: exchange.error };
+    }
+
+    // GraphQL servers may report errors with a non-2xx status and a body
+    const response = exchange.response!;
+    let raw: { data?: unknown; errors?: Array<{ message?: string }> } | undefined;
+    try {
+      raw = JSON.parse(exchange.body!);
+    } catch {
+      raw = undefined;
+    }
+
+    if (Array.isArray(raw?.errors) && raw.errors.length > 0) {
+      const messages = raw.errors.map(e => e?.message ?? JSON.stringify(e)).join('; ');
+      return { raw, error: `GraphQL errors: ${messages}` };
+    }
+
+    if (!response.ok) {
+      return { raw, error: `HTTP ${response.status}: ${response.statusText}` };
+    }
+
+    if (raw?.data === undefined || raw.data === null) {
+      return { raw, error: 'GraphQL response has no data' };
+    }
+
+    return { data: raw.data, raw };
+  }
+}
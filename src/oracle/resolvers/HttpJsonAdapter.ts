@@ -0,0 +1,49 @@
+/**
+ * TRUTH-NET HTTP JSON Resolver
+ * JSONPath over the JSON response of an HTTP endpoint
+ */
+
+import { HttpJsonResolutionSchema, OracleResolutionResult } from '../../types.js';
+import { ResolverAdapter, ResolverContext, ValidationResult } from './ResolverRegistry.js';
+import { FetchContext, FetchResult, buildHeaders, extractOutcome, fetchJson, testConnection, validateExtraction } from './shared.js';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export class HttpJsonAdapter implements ResolverAdapter<HttpJsonResolutionSchema> {
+  readonly type = 'http_json';
+  readonly confidence = 0.95;
+
+  async validate(schema: HttpJsonResolutionSchema, connect: boolean): Promise<ValidationResult> {
+    try {
+      new URL(schema.source_url);
+    } catch {
+      return { valid: false, error: 'Invalid source_url' };
+    }
+
+    if (!['GET', 'POST'].includes(schema.method)) {
+      return { valid: false, error: 'Method must be GET or POST' };
+    }
+
+    const extraction = validateExtraction(schema.json_path, schema.condition);
+    if (!extraction.valid) return extraction;
+
+    return connect ? testConnection(() => this.fetch(schema, DEFAULT_TIMEOUT_MS)) : { valid: true };
+  }
+
+  async resolve(schema: HttpJsonResolutionSchema, context: ResolverContext): Promise<OracleResolutionResult> {
+    const fetched = await this.fetch(schema, context.timeoutMs, context);
+    if (fetched.error) {
+      return { success: false, error: fetched.error };
+    }
+
+    return extractOutcome(fetched.data, fetched.raw, schema.json_path, schema.condition);
+  }
+
+  private fetch(schema: HttpJsonResolutionSchema, timeoutMs: number, context?: FetchContext): Promise<FetchResult> {
+    return fetchJson(schema.source_url, {
+      method: schema.method,
+      headers: buildHeaders(schema.headers),
+      body: schema.body ? JSON.stringify(schema.body) : undefined,
+    }, schema.timeout_ms ?? timeoutMs, context);
+  }
+}
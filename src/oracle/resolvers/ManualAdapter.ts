@@ -0,0 +1,24 @@
+/**
+ * TRUTH-NET Manual Resolver
+ * Never decides on its own: the market waits for an operator
+ * (ProductionResolver.forceResolve / POST /resolver/force)
+ */
+
+import { ManualResolutionSchema, OracleResolutionResult } from '../../types.js';
+import { ResolverAdapter, ValidationResult } from './ResolverRegistry.js';
+
+export class ManualAdapter implements ResolverAdapter<ManualResolutionSchema> {
+  readonly type = 'manual';
+  readonly confidence = 1;
+
+  async validate(schema: ManualResolutionSchema): Promise<ValidationResult> {
+    if (schema.description !== undefined && typeof schema.description !== 'string') {
+      return { valid: false, error: 'description must be a string' };
+    }
+    return { valid: true };
+  }
+
+  async resolve(): Promise<OracleResolutionResult> {
+    return { success: true, pending: true };
+  }
+}
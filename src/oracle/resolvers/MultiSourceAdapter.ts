@@ -0,0 +1,171 @@
+/**
+ * TRUTH-NET Multi-Source Resolver
+ * Resolves each source with its own adapter and takes the weighted vote,
+ * with sources weighted by their learned reliability (SourceReputation)
+ */
+
+import {
+  MultiSourceResolutionSchema,
+  OracleResolutionResult,
+  OutcomeToken,
+  WeightedSourceSchema,
+} from '../../types.js';
+import { ResolverAdapter, ResolverContext, ResolverRegistry, ValidationResult } from './ResolverRegistry.js';
+import { SourceReputation } from './SourceReputation.js';
+
+const MAX_SOURCES = 10;
+const DEFAULT_MIN_SOURCES = 2;
+const DEFAULT_MAX_DISAGREEMENT = 1 / 3;
+
+export class MultiSourceAdapter implements ResolverAdapter<MultiSourceResolutionSchema> {
+  readonly type = 'multi_source';
+  readonly confidence = 1;  // Replaced per result by the winning share of the weight
+
+  constructor(
+    private registry: ResolverRegistry,
+    private reputation: SourceReputation = new SourceReputation(),
+  ) {}
+
+  async validate(schema: MultiSourceResolutionSchema, connect: boolean): Promise<ValidationResult> {
+    if (!Array.isArray(schema.sources) || schema.sources.length < 2) {
+      return { valid: false, error: 'multi_source needs at least 2 sources' };
+    }
+    if (schema.sources.length > MAX_SOURCES) {
+      return { valid: false, error: `multi_source allows at most ${MAX_SOURCES} sources` };
+    }
+
+    if (schema.min_agreement !== undefined
+      && (!Number.isInteger(schema.min_agreement)
+        || schema.min_agreement < 1
+        || schema.min_agreement > schema.sources.length)) {
+      return { valid: false, error: 'min_agreement must be between 1 and the number of sources' };
+    }
+
+    if (schema.min_sources !== undefined
+      && (!Number.isInteger(schema.min_sources)
+        || schema.min_sources < 1
+        || schema.min_sources > schema.sources.length)) {
+      return { valid: false, error: 'min_sources must be between 1 and the number of sources' };
+    }
+
+    if (schema.max_disagreement !== undefined
+      && (typeof schema.max_disagreement !== 'number' || schema.max_disagreement < 0 || schema.max_disagreement > 0.5)) {
+      return { valid: false, error: 'max_disagreement must be between 0 and 0.5' };
+    }
+
+    for (const [i, source] of schema.sources.entries()) {
+      if (source?.type !== 'http_json' && source?.type !== 'graphql') {
+        return { valid: false, error: `sources[${i}]: must be http_json or graphql` };
+      }
+      if (source.weight !== undefined && !(typeof source.weight === 'number' && source.weight > 0 && isFinite(source.weight))) {
+        return { valid: false, error: `sources[${i}]: weight must be a positive number` };
+      }
+      if (source.condition === undefined) {
+        return { valid: false, error: `sources[${i}]: needs a condition to vote yes or no` };
+      }
+      const result = await this.registry.validate(source, connect);
+      if (!result.valid) {
+        return { valid: false, error: `sources[${i}]: ${result.error}` };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Sources that fail do not vote; each answer weighs its schema weight
+   * times the source's reliability. The heavier side wins once at least
+   * min_sources answered (and min_agreement sources agree). A tie, or a
+   * dissenting share of the weight above max_disagreement, escalates to
+   * an operator instead of resolving.
+   */
+  async resolve(schema: MultiSourceResolutionSchema, context: ResolverContext): Promise<OracleResolutionResult> {
+    const results = await Promise.all(
+      schema.sources.map(source => this.registry.resolve(source, { ...context, market: undefined }))
+    );
+
+    const sourceIds = schema.sources.map(sourceIdOf);
+    const weights = results.map((r, i) => (r.success && r.outcome !== undefined)
+      ? (schema.sources[i].weight ?? 1) * this.reputation.reliability(sourceIds[i])
+      : 0);
+
+    const votes = results.flatMap((r, i) => (r.success && r.outcome !== undefined)
+      ? [{ source_id: sourceIds[i], outcome: r.outcome, weight: weights[i] }]
+      : []);
+
+    const yesWeight = sum(votes.filter(v => v.outcome === OutcomeToken.YES).map(v => v.weight));
+    const noWeight = sum(votes.filter(v => v.outcome === OutcomeToken.NO).map(v => v.weight));
+    const totalWeight = yesWeight + noWeight;
+
+    const rawData = {
+      sources: results.map((r, i) => ({
+        source_id: sourceIds[i],
+        type: schema.sources[i].type,
+        outcome: r.outcome ?? null,
+        weight: weights[i],
+        evaluated_value: r.evaluated_value,
+        error: r.error,
+      })),
+      yes_weight: yesWeight,
+      no_weight: noWeight,
+    };
+
+    const minSources = schema.min_sources ?? DEFAULT_MIN_SOURCES;
+    if (votes.length < minSources) {
+      return {
+        success: false,
+        error: `Only ${votes.length} of ${schema.sources.length} sources resolved (${minSources} needed)`,
+        raw_data: rawData,
+      };
+    }
+    if (totalWeight <= 0) {
+      return { success: false, error: 'Responding sources carry no weight', raw_data: rawData };
+    }
+
+    if (context.market && !context.dryRun) {
+      this.reputation.recordVotes(context.market.id, votes.map(({ source_id, outcome }) => ({ source_id, outcome })));
+    }
+
+    const outcome = yesWeight > noWeight ? OutcomeToken.YES : OutcomeToken.NO;
+    const winningWeight = Math.max(yesWeight, noWeight);
+    const dissent = 1 - winningWeight / totalWeight;
+    const maxDisagreement = schema.max_disagreement ?? DEFAULT_MAX_DISAGREEMENT;
+
+    if (yesWeight === noWeight || dissent > maxDisagreement) {
+      return {
+        success: false,
+        escalated: true,
+        error: `Sources disagree: ${(dissent * 100).toFixed(0)}% of the weight dissents `
+          + `(at most ${(maxDisagreement * 100).toFixed(0)}% allowed)`,
+        raw_data: rawData,
+      };
+    }
+
+    const agreeing = votes.filter(v => v.outcome === outcome).length;
+    if (schema.min_agreement !== undefined && agreeing < schema.min_agreement) {
+      return {
+        success: false,
+        error: `Only ${agreeing} sources agree (${schema.min_agreement} needed)`,
+        raw_data: rawData,
+      };
+    }
+
+    return {
+      success: true,
+      outcome,
+      raw_data: rawData,
+      confidence: winningWeight / totalWeight,
+    };
+  }
+}
+
+/**
+ * Reliability is tracked per source id, or per URL when it has none
+ */
+function sourceIdOf(source: WeightedSourceSchema): string {
+  return source.source_id ?? (source.type === 'graphql' ? source.endpoint : source.source_url);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, v) => total + v, 0);
+}
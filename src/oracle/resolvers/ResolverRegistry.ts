@@ -0,0 +1,153 @@
+/**
+ * TRUTH-NET Resolver Registry
+ * One resolution framework: a registry of typed adapters, one per
+ * resolution schema type
+ *
+ * Built-in adapters:
+ * - http_json     JSONPath over an HTTP JSON response
+ * - graphql       JSONPath over a GraphQL response's data
+ * - multi_source  Weighted vote of several sources (each resolved by its adapter)
+ * - github        Repository metrics from the GitHub API
+ * - weather       Current conditions from OpenWeatherMap
+ * - manual        Waits for an operator
+ * - binary        Resolver attestations (registered with AttestationService)
+ *
+ * Third parties add a source by registering an adapter for a new schema
+ * type. Whatever adapter decides a market, OracleEngine and
+ * ProductionResolver publish the same MarketResolvedEvent.
+ */
+
+import { FetchRecord, Market, OracleResolutionResult } from '../../types.js';
+import { HttpJsonAdapter } from './HttpJsonAdapter.js';
+import { GraphQLAdapter } from './GraphQLAdapter.js';
+import { MultiSourceAdapter } from './MultiSourceAdapter.js';
+import { GitHubAdapter } from './GitHubAdapter.js';
+import { WeatherAdapter } from './WeatherAdapter.js';
+import { ManualAdapter } from './ManualAdapter.js';
+import { SourceReputation } from './SourceReputation.js';
+import { Transport } from './shared.js';
+import { applyMarketTerms } from '../../markets/outcomes.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export interface ResolverContext {
+  market?: Market;     // Absent when a lone source is re-resolved
+  timeoutMs: number;   // Applies when the schema sets no timeout
+  fetches?: FetchRecord[];  // Collects every HTTP exchange (see EvidenceStore)
+  transport?: Transport;    // Replaces fetch (fixtures in a dry run)
+  dryRun?: boolean;         // No side effects: no rounds opened, no votes recorded
+}
+
+/**
+ * Resolves every schema of one type
+ */
+export interface ResolverAdapter<S extends { type: string } = { type: string }> {
+  readonly type: string;
+  readonly confidence: number;  // Confidence (0-1) in an outcome this adapter returns
+
+  validate(schema: S, testConnection: boolean): Promise<ValidationResult>;
+  resolve(schema: S, context: ResolverContext): Promise<OracleResolutionResult>;
+}
+
+// ============================================================================
+// RESOLVER REGISTRY
+// ============================================================================
+
+export class ResolverRegistry {
+  private adapters: Map<string, ResolverAdapter<any>> = new Map();
+
+  /**
+   * Add an adapter for a schema type that has none yet
+   */
+  register(adapter: ResolverAdapter<any>): void {
+    if (this.adapters.has(adapter.type)) {
+      throw new Error(`A resolver adapter for '${adapter.type}' is already registered`);
+    }
+    this.adapters.set(adapter.type, adapter);
+  }
+
+  unregister(type: string): boolean {
+    return this.adapters.delete(type);
+  }
+
+  get(type: string): ResolverAdapter<any> | undefined {
+    return this.adapters.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.adapters.has(type);
+  }
+
+  types(): string[] {
+    return [...this.adapters.keys()];
+  }
+
+  /**
+   * Validate a schema with its adapter, optionally testing the source
+   */
+  async validate(schema: { type: string }, testConnection: boolean = false): Promise<ValidationResult> {
+    if (!schema?.type) {
+      return { valid: false, error: 'Missing schema type' };
+    }
+
+    const adapter = this.adapters.get(schema.type);
+    if (!adapter) {
+      return { valid: false, error: `Unknown schema type: ${schema.type}` };
+    }
+
+    try {
+      return await adapter.validate(schema, testConnection);
+    } catch (error) {
+      return { valid: false, error: `Schema validation error: ${error}` };
+    }
+  }
+
+  /**
+   * Resolve a schema with its adapter. Never throws: failures come back
+   * as unsuccessful results. Either way the result carries the HTTP
+   * exchanges made on the way. With a market, the result is that market's
+   * outcome (a categorical or scalar market resolves from the value).
+   */
+  async resolve(schema: { type: string }, context: ResolverContext): Promise<OracleResolutionResult> {
+    const adapter = this.adapters.get(schema.type);
+    if (!adapter) {
+      return { success: false, error: `Unsupported schema type: ${schema.type}` };
+    }
+
+    const fetches = context.fetches ?? [];
+    try {
+      let result = await adapter.resolve(schema, { ...context, fetches });
+      if (context.market) {
+        result = applyMarketTerms(context.market, result);
+      }
+      if (result.success && result.outcome !== undefined) {
+        return { ...result, confidence: result.confidence ?? adapter.confidence, fetches };
+      }
+      return { ...result, fetches };
+    } catch (error) {
+      return { success: false, error: `Exception: ${error}`, fetches };
+    }
+  }
+}
+
+/**
+ * A registry with every built-in source adapter. multi_source weighs its
+ * sources by the given reputation's reliability scores.
+ */
+export function createResolverRegistry(reputation: SourceReputation = new SourceReputation()): ResolverRegistry {
+  const registry = new ResolverRegistry();
+  registry.register(new HttpJsonAdapter());
+  registry.register(new GraphQLAdapter());
+  registry.register(new MultiSourceAdapter(registry, reputation));
+  registry.register(new GitHubAdapter());
+  registry.register(new WeatherAdapter());
+  registry.register(new ManualAdapter());
+  return registry;
+}
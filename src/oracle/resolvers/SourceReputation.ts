@@ -0,0 +1,94 @@
+/**
+ * TRUTH-NET Source Reputation
+ * Reliability of multi_source sources, learned from how often each one
+ * agrees with the final outcome of the markets it voted on
+ *
+ * Votes are held per market until markets.resolved fires, so an outcome
+ * overturned in the challenge window counts against the sources that
+ * backed it. Reliability is the Laplace-smoothed agreement rate, which
+ * starts at 0.5 and scales a source's vote weight.
+ */
+
+import { EventBus } from '../../events/EventBus.js';
+import { MarketResolvedEvent, Outcome } from '../../types.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SourceVote {
+  source_id: string;
+  outcome: Outcome;
+}
+
+export interface SourceRecord {
+  source_id: string;
+  agreed: number;
+  disagreed: number;
+  reliability: number;  // 0-1
+  last_outcome_at?: string;
+}
+
+// ============================================================================
+// SOURCE REPUTATION
+// ============================================================================
+
+export class SourceReputation {
+  private records: Map<string, SourceRecord> = new Map();
+  private pendingVotes: Map<string, SourceVote[]> = new Map();  // market_id -> votes
+
+  constructor(eventBus?: EventBus) {
+    eventBus?.subscribe('markets.resolved', (event: MarketResolvedEvent) => {
+      this.recordOutcome(event.market_id, event.outcome);
+    });
+  }
+
+  /**
+   * Reliability of a source (0.5 until it has a track record)
+   */
+  reliability(sourceId: string): number {
+    return this.records.get(sourceId)?.reliability ?? 0.5;
+  }
+
+  /**
+   * Hold a market's votes until its final outcome is known. A later
+   * resolution attempt replaces the earlier votes.
+   */
+  recordVotes(marketId: string, votes: SourceVote[]): void {
+    this.pendingVotes.set(marketId, votes);
+  }
+
+  /**
+   * Score each source that voted on the market against its final outcome
+   */
+  recordOutcome(marketId: string, outcome: Outcome): void {
+    const votes = this.pendingVotes.get(marketId);
+    if (!votes) return;
+    this.pendingVotes.delete(marketId);
+
+    const now = new Date().toISOString();
+    for (const vote of votes) {
+      const record = this.records.get(vote.source_id)
+        ?? { source_id: vote.source_id, agreed: 0, disagreed: 0, reliability: 0.5 };
+
+      if (vote.outcome === outcome) {
+        record.agreed++;
+      } else {
+        record.disagreed++;
+        console.log(`[SourceReputation] ${vote.source_id} disagreed with the final outcome of ${marketId}`);
+      }
+      record.reliability = (record.agreed + 1) / (record.agreed + record.disagreed + 2);
+      record.last_outcome_at = now;
+
+      this.records.set(vote.source_id, record);
+    }
+  }
+
+  getRecords(): SourceRecord[] {
+    return [...this.records.values()].sort((a, b) => b.reliability - a.reliability);
+  }
+
+  getPendingCount(): number {
+    return this.pendingVotes.size;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * TRUTH-NET Weather Resolver
+ * Current conditions from OpenWeatherMap (OPENWEATHER_API_KEY), in
+ * imperial units: °F, mph and mm of rain or snow in the last hour
+ */
+
+import { OracleResolutionResult, WeatherResolutionSchema } from '../../types.js';
+import { ResolverAdapter, ResolverContext, ValidationResult } from './ResolverRegistry.js';
+import { FetchContext, FetchResult, fetchJson, outcomeOf, testConnection } from './shared.js';
+import { validateCondition } from './conditions.js';
+
+const API_URL = 'https://api.openweathermap.org/data/2.5/weather';
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export class WeatherAdapter implements ResolverAdapter<WeatherResolutionSchema> {
+  readonly type = 'weather';
+  readonly confidence = 0.9;
+
+  async validate(schema: WeatherResolutionSchema, connect: boolean): Promise<ValidationResult> {
+    if (typeof schema.lat !== 'number' || schema.lat < -90 || schema.lat > 90) {
+      return { valid: false, error: 'lat must be between -90 and 90' };
+    }
+    if (typeof schema.lon !== 'number' || schema.lon < -180 || schema.lon > 180) {
+      return { valid: false, error: 'lon must be between -180 and 180' };
+    }
+    if (!['temp', 'wind', 'precip'].includes(schema.metric)) {
+      return { valid: false, error: `Invalid metric: ${schema.metric}` };
+    }
+
+    if (schema.condition !== undefined) {
+      const condition = validateCondition(schema.condition);
+      if (!condition.valid) return condition;
+    }
+
+    return connect ? testConnection(() => this.fetch(schema, DEFAULT_TIMEOUT_MS)) : { valid: true };
+  }
+
+  async resolve(schema: WeatherResolutionSchema, context: ResolverContext): Promise<OracleResolutionResult> {
+    const fetched = await this.fetch(schema, context.timeoutMs, context);
+    if (fetched.error) {
+      return { success: false, error: fetched.error };
+    }
+
+    const data = fetched.data as any;
+    let value: unknown;
+    switch (schema.metric) {
+      case 'temp':
+        value = data.main?.temp;
+        break;
+      case 'wind':
+        value = data.wind?.speed;
+        break;
+      case 'precip':
+        // OpenWeatherMap omits rain and snow when there was none
+        value = (data.rain?.['1h'] ?? 0) + (data.snow?.['1h'] ?? 0);
+        break;
+    }
+
+    if (typeof value !== 'number') {
+      return { success: false, error: `Weather response has no ${schema.metric}`, raw_data: fetched.raw };
+    }
+
+    return outcomeOf(value, fetched.raw, schema.condition);
+  }
+
+  private async fetch(schema: WeatherResolutionSchema, timeoutMs: number, context?: FetchContext): Promise<FetchResult> {
+    // Fixtures (dry runs) need no key
+    const apiKey = process.env.OPENWEATHER_API_KEY ?? '';
+    if (!apiKey && !context?.transport) {
+      return { error: 'OPENWEATHER_API_KEY is not set' };
+    }
+
+    const url = `${API_URL}?lat=${schema.lat}&lon=${schema.lon}&appid=${apiKey}&units=imperial`;
+    return fetchJson(url, { method: 'GET', headers: { 'Accept': 'application/json' } }, timeoutMs, context);
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * TRUTH-NET Resolution Conditions
+ * The condition language every resolver adapter evaluates
+ *
+ * A condition compares `left` (default: the value the schema extracts)
+ * with `value`, or composes conditions with all / any / not. Operands are
+ * literals, `{ path }` (another JSONPath into the same response) or
+ * `{ expr }`, arithmetic over JSONPaths and numbers:
+ *
+ *   { left: { expr: '$.close / $.open' }, operator: 'gt', value: 1.05 }
+ *   { all: [{ operator: 'between', value: [10, 20] }, { not: { operator: 'exists', left: { path: '$.halted' } } }] }
+ *
+ * Numbers and numeric strings compare as numbers everywhere. An operand
+ * that cannot be evaluated (a missing path, a non-number in arithmetic or
+ * an ordering, an unparseable date) fails the resolution rather than
+ * deciding it.
+ *
+ * `matches` runs on the one event loop, so its patterns may not backtrack
+ * catastrophically: no backreferences and no repeated group that holds a
+ * quantifier or an alternation, and the text matched is capped in length.
+ */
+
+import { JSONPath } from 'jsonpath-plus';
+import {
+  ComparisonCondition,
+  ConditionOperator,
+  ConditionValue,
+  ResolutionCondition,
+} from '../../types.js';
+import { ValidationResult } from './ResolverRegistry.js';
+
+export const OPERATORS: ConditionOperator[] = [
+  'eq', 'neq', 'ieq', 'gt', 'gte', 'lt', 'lte', 'between', 'contains', 'matches', 'before', 'after', 'exists',
+];
+
+const MAX_DEPTH = 8;
+const MAX_BRANCHES = 20;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_MATCH_LENGTH = 1000;
+const REGEX_FLAGS = /^[imsu]*$/;
+const NUMERIC = /^\s*[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?\s*$/i;
+
+/**
+ * Thrown when an operand cannot be evaluated against the response
+ */
+export class ConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConditionError';
+  }
+}
+
+/** What operands are evaluated against */
+export interface ConditionScope {
+  value: unknown;   // The schema's extracted value
+  json: unknown;    // The document JSONPaths are read from
+}
+
+// ============================================================================
+// ARITHMETIC EXPRESSIONS
+// ============================================================================
+
+type Expression =
+  | { kind: 'number'; value: number }
+  | { kind: 'path'; path: string }
+  | { kind: 'negate'; operand: Expression }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/'; left: Expression; right: Expression };
+
+/** Dot, index and quoted-bracket JSONPaths; use { path } for anything richer */
+const TOKEN = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+)|(\$(?:\.[A-Za-z_]\w*|\[\d+\]|\['[^']*'\]|\["[^"]*"\])*)|([-+*/()]))/iy;
+
+/**
+ * Parse "$.close / $.open" style arithmetic (+ - * / and parentheses)
+ */
+export function parseExpression(source: string): Expression {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      if (source.slice(start).trim() === '') break;
+      throw new ConditionError(`Unexpected input in expression at ${start}: '${source.slice(start, start + 10)}'`);
+    }
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const factor = (): Expression => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new ConditionError('Expression ends unexpectedly');
+    if (token === '-') return { kind: 'negate', operand: factor() };
+    if (token === '(') {
+      const inner = sum();
+      if (tokens[pos++] !== ')') throw new ConditionError('Missing ) in expression');
+      return inner;
+    }
+    if (token.startsWith('$')) return { kind: 'path', path: token };
+    if (NUMERIC.test(token)) return { kind: 'number', value: Number(token) };
+    throw new ConditionError(`Unexpected '${token}' in expression`);
+  };
+
+  const product = (): Expression => {
+    let left = factor();
+    while (peek() === '*' || peek() === '/') {
+      const op = tokens[pos++] as '*' | '/';
+      left = { kind: 'binary', op, left, right: factor() };
+    }
+    return left;
+  };
+
+  const sum = (): Expression => {
+    let left = product();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[pos++] as '+' | '-';
+      left = { kind: 'binary', op, left, right: product() };
+    }
+    return left;
+  };
+
+  const expression = sum();
+  if (pos < tokens.length) {
+    throw new ConditionError(`Unexpected '${tokens[pos]}' in expression`);
+  }
+  return expression;
+}
+
+function evaluateExpression(expression: Expression, json: unknown): number {
+  switch (expression.kind) {
+    case 'number':
+      return expression.value;
+    case 'path': {
+      const value = readPath(json, expression.path);
+      if (value === undefined) throw new ConditionError(`${expression.path} returned no results`);
+      return requireNumber(value, expression.path);
+    }
+    case 'negate':
+      return -evaluateExpression(expression.operand, json);
+    case 'binary': {
+      const left = evaluateExpression(expression.left, json);
+      const right = evaluateExpression(expression.right, json);
+      switch (expression.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) throw new ConditionError('Division by zero in expression');
+          return left / right;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a condition and every operand in it
+ */
+export function validateCondition(condition: ResolutionCondition, depth: number = 0): ValidationResult {
+  if (!condition || typeof condition !== 'object') {
+    return { valid: false, error: 'Missing resolution condition' };
+  }
+  if (depth > MAX_DEPTH) {
+    return { valid: false, error: `Conditions nest at most ${MAX_DEPTH} deep` };
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const branches = 'all' in condition ? condition.all : condition.any;
+    if (!Array.isArray(branches) || branches.length === 0 || branches.length > MAX_BRANCHES) {
+      return { valid: false, error: `all / any need 1 to ${MAX_BRANCHES} conditions` };
+    }
+    for (const branch of branches) {
+      const result = validateCondition(branch, depth + 1);
+      if (!result.valid) return result;
+    }
+    return { valid: true };
+  }
+
+  if ('not' in condition) {
+    return validateCondition(condition.not, depth + 1);
+  }
+
+  return validateComparison(condition);
+}
+
+function validateComparison(condition: ComparisonCondition): ValidationResult {
+  const { operator, left, value, flags } = condition;
+
+  if (!operator) {
+    return { valid: false, error: 'Missing resolution condition' };
+  }
+  if (!OPERATORS.includes(operator)) {
+    return { valid: false, error: `Invalid condition operator: ${operator}` };
+  }
+
+  if (left !== undefined) {
+    const result = validateOperand(left);
+    if (!result.valid) return result;
+  }
+
+  if (flags !== undefined && (operator !== 'matches' || typeof flags !== 'string' || !REGEX_FLAGS.test(flags))) {
+    return { valid: false, error: 'flags apply to matches only and may be i, m, s or u' };
+  }
+
+  switch (operator) {
+    case 'exists':
+      return { valid: true };
+
+    case 'between': {
+      if (!Array.isArray(value) || value.length !== 2) {
+        return { valid: false, error: 'between needs value: [low, high]' };
+      }
+      for (const bound of value) {
+        const result = validateOperand(bound);
+        if (!result.valid) return result;
+        if (isLiteral(bound) && Number.isNaN(toNumber(bound))) {
+          return { valid: false, error: `between bound is not a number: ${bound}` };
+        }
+      }
+      return { valid: true };
+    }
+
+    case 'matches': {
+      if (typeof value !== 'string' || value.length > MAX_PATTERN_LENGTH) {
+        return { valid: false, error: `matches needs a pattern of at most ${MAX_PATTERN_LENGTH} characters` };
+      }
+      try {
+        new RegExp(value, flags);
+      } catch (error) {
+        return { valid: false, error: `Invalid pattern: ${(error as Error).message}` };
+      }
+      const unsafe = backtrackingRisk(value);
+      return unsafe ? { valid: false, error: `Unsafe pattern: ${unsafe}` } : { valid: true };
+    }
+
+    default: {
+      if (value === undefined || Array.isArray(value)) {
+        return { valid: false, error: `${operator} needs a single value` };
+      }
+      const result = validateOperand(value);
+      if (!result.valid) return result;
+
+      if ((operator === 'before' || operator === 'after') && isLiteral(value) && Number.isNaN(toTime(value))) {
+        return { valid: false, error: `${operator} needs a date, got ${value}` };
+      }
+      if (['gt', 'gte', 'lt', 'lte'].includes(operator) && isLiteral(value) && Number.isNaN(toNumber(value))) {
+        return { valid: false, error: `${operator} needs a number, got ${value}` };
+      }
+      return { valid: true };
+    }
+  }
+}
+
+/**
+ * Why a pattern could backtrack catastrophically, or undefined. Any
+ * quantifier or alternation inside a group makes repeating that group unsafe.
+ */
+function backtrackingRisk(pattern: string): string | undefined {
+  const groups: boolean[] = [];  // Per open group: holds a quantifier or alternation
+
+  for (let i = 0; i < pattern.length; i++) {
+    let complexGroup = false;
+
+    switch (pattern[i]) {
+      case '\\':
+        if (/[1-9k]/.test(pattern[i + 1] ?? '')) return 'backreferences are not allowed';
+        i++;
+        break;
+      case '[':
+        for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+          if (pattern[i] === '\\') i++;
+        }
+        break;
+      case '(':
+        groups.push(false);
+        if (pattern[i + 1] === '?') {
+          // (?:  (?=  (?!  (?<=  (?<!  (?<name>
+          i += pattern[i + 2] === '<' && !'=!'.includes(pattern[i + 3]) ? pattern.indexOf('>', i) - i : 2;
+          if (pattern[i] === '<') i++;
+        }
+        continue;
+      case ')':
+        complexGroup = groups.pop() ?? false;
+        break;
+      case '|':
+        if (groups.length > 0) groups[groups.length - 1] = true;
+        continue;
+    }
+
+    const quantifier = quantifierAt(pattern, i + 1);
+    if (!quantifier) continue;
+    if (quantifier.repeats && complexGroup) return 'a repeated group may not hold a quantifier or alternation';
+    groups.fill(true);
+    i = quantifier.end;
+  }
+
+  return undefined;
+}
+
+/** The quantifier starting at `i`: whether it repeats, and its last index (a lazy ? included) */
+function quantifierAt(pattern: string, i: number): { repeats: boolean; end: number } | undefined {
+  let repeats: boolean;
+  let end = i;
+
+  if (pattern[i] === '*' || pattern[i] === '+') {
+    repeats = true;
+  } else if (pattern[i] === '?') {
+    repeats = false;
+  } else {
+    const range = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+    if (!range) return undefined;
+    const [text, min, comma, max] = range;
+    repeats = comma ? max === '' || Number(max) > 1 : Number(min) > 1;
+    end = i + text.length - 1;
+  }
+
+  if (pattern[end + 1] === '?') end++;
+  return { repeats, end };
+}
+
+function validateOperand(operand: ConditionValue): ValidationResult {
+  if (isLiteral(operand)) return { valid: true };
+
+  if (operand && typeof operand === 'object') {
+    if ('path' in operand) {
+      return typeof operand.path === 'string' && operand.path.startsWith('$')
+        ? { valid: true }
+        : { valid: false, error: `Invalid path ${operand.path} - must start with $` };
+    }
+    if ('expr' in operand) {
+      try {
+        parseExpression(String(operand.expr));
+        return { valid: true };
+      } catch (error) {
+        return { valid: false, error: `Invalid expression: ${(error as Error).message}` };
+      }
+    }
+  }
+
+  return { valid: false, error: `Invalid operand: ${JSON.stringify(operand)}` };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate a (validated) condition. Throws ConditionError when an operand
+ * cannot be evaluated.
+ */
+export function evaluateCondition(condition: ResolutionCondition, scope: ConditionScope): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, scope));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, scope));
+  if ('not' in condition) return !evaluateCondition(condition.not, scope);
+
+  const { operator, value, flags } = condition;
+  const actual = condition.left === undefined ? scope.value : resolveOperand(condition.left, scope.json);
+
+  if (operator === 'exists') {
+    return actual !== undefined && actual !== null;
+  }
+  if (actual === undefined) {
+    throw new ConditionError(`${describe(condition.left)} returned no results`);
+  }
+
+  if (operator === 'between') {
+    const [low, high] = (value as [ConditionValue, ConditionValue]).map(bound => requireNumber(resolveOperand(bound, scope.json)));
+    const n = requireNumber(actual);
+    return n >= low && n <= high;
+  }
+
+  const expected = resolveOperand(value as ConditionValue, scope.json);
+  if (expected === undefined) {
+    throw new ConditionError(`${describe(value as ConditionValue)} returned no results`);
+  }
+
+  switch (operator) {
+    case 'eq':
+      return looseEquals(actual, expected);
+
+    case 'neq':
+      return !looseEquals(actual, expected);
+
+    case 'ieq':
+      return String(actual).toLowerCase() === String(expected).toLowerCase();
+
+    case 'gt':
+      return requireNumber(actual) > requireNumber(expected);
+
+    case 'gte':
+      return requireNumber(actual) >= requireNumber(expected);
+
+    case 'lt':
+      return requireNumber(actual) < requireNumber(expected);
+
+    case 'lte':
+      return requireNumber(actual) <= requireNumber(expected);
+
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(element => looseEquals(element, expected))
+        : String(actual).includes(String(expected));
+
+    case 'matches': {
+      const text = String(actual);
+      if (text.length > MAX_MATCH_LENGTH) {
+        throw new ConditionError(`Value of ${text.length} characters is too long to match (max ${MAX_MATCH_LENGTH})`);
+      }
+      return new RegExp(String(expected), flags).test(text);
+    }
+
+    case 'before':
+      return requireTime(actual) < requireTime(expected);
+
+    case 'after':
+      return requireTime(actual) > requireTime(expected);
+
+    default:
+      throw new ConditionError(`Unknown operator: ${operator}`);
+  }
+}
+
+function resolveOperand(operand: ConditionValue, json: unknown): unknown {
+  if (isLiteral(operand)) return operand;
+  if ('path' in operand) return readPath(json, operand.path);
+  return evaluateExpression(parseExpression(operand.expr), json);
+}
+
+function readPath(json: unknown, path: string): unknown {
+  try {
+    const results = JSONPath({ path, json: json as any }) as unknown as unknown[];
+    return results.length > 0 ? results[0] : undefined;
+  } catch (error) {
+    throw new ConditionError(`JSONPath evaluation error: ${error}`);
+  }
+}
+
+// ============================================================================
+// COERCION
+// ============================================================================
+
+function isLiteral(operand: ConditionValue): operand is string | number | boolean {
+  return typeof operand === 'string' || typeof operand === 'number' || typeof operand === 'boolean';
+}
+
+function describe(operand: ConditionValue | undefined): string {
+  if (operand === undefined) return 'The extracted value';
+  if (isLiteral(operand)) return String(operand);
+  return 'path' in operand ? operand.path : operand.expr;
+}
+
+/**
+ * A number, or a string that is exactly a number; NaN otherwise
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && NUMERIC.test(value)) return Number(value);
+  return NaN;
+}
+
+function requireNumber(value: unknown, label: string = JSON.stringify(value)): number {
+  const n = toNumber(value);
+  if (Number.isNaN(n)) throw new ConditionError(`Expected a number, got ${label}`);
+  return n;
+}
+
+/**
+ * Epoch milliseconds of a number or a date string; NaN otherwise
+ */
+function toTime(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return NUMERIC.test(value) ? Number(value) : Date.parse(value);
+  return NaN;
+}
+
+function requireTime(value: unknown): number {
+  const t = toTime(value);
+  if (Number.isNaN(t)) throw new ConditionError(`Expected a date, got ${JSON.stringify(value)}`);
+  return t;
+}
+
+/**
+ * Numbers (and numeric strings) compare numerically, anything else as strings
+ */
+function looseEquals(a: unknown, b: unknown): boolean {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (!Number.isNaN(x) && !Number.isNaN(y)) return x === y;
+  return a === b || String(a) === String(b);
+}
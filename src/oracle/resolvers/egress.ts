@@ -0,0 +1,132 @@
+/**
+ * TRUTH-NET Resolver Egress Policy
+ * Where a caller-supplied resolution schema may fetch from in a dry run
+ *
+ * Dry runs fetch URLs the caller chose, so the transport only reaches
+ * allowlisted schemes and hosts, refuses hosts that resolve to loopback,
+ * private, link-local or other non-public addresses, does not follow
+ * redirects, and caps the time and bytes a response may take.
+ *
+ *   ORACLE_DRY_RUN_HOSTS=api.github.com,.example.com   (a leading '.' allows subdomains)
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { Transport } from './shared.js';
+
+export interface EgressPolicy {
+  schemes: string[];     // URL protocols, e.g. 'https:'
+  hosts: string[];       // Exact hosts, or '.suffix' for a domain and its subdomains
+  timeoutMs: number;     // Upper bound whatever timeout the schema asks for
+  maxBytes: number;      // Largest response body read
+}
+
+/** Hosts of the built-in adapters */
+const DEFAULT_DRY_RUN_HOSTS = ['api.github.com', 'api.openweathermap.org'];
+
+export const DRY_RUN_EGRESS: EgressPolicy = {
+  schemes: ['https:'],
+  hosts: process.env.ORACLE_DRY_RUN_HOSTS
+    ? process.env.ORACLE_DRY_RUN_HOSTS.split(',').map(h => h.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_DRY_RUN_HOSTS,
+  timeoutMs: 10_000,
+  maxBytes: 1024 * 1024,
+};
+
+/**
+ * Thrown by a guarded transport for a request the policy refuses
+ */
+export class EgressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EgressError';
+  }
+}
+
+/**
+ * A transport that makes only the requests the policy allows
+ */
+export function guardedTransport(policy: EgressPolicy, transport: Transport = fetch): Transport {
+  return async (url: string, init: RequestInit) => {
+    const parsed = new URL(url);
+    if (!policy.schemes.includes(parsed.protocol)) {
+      throw new EgressError(`Scheme ${parsed.protocol} is not allowed`);
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (!hostAllowed(host, policy.hosts)) {
+      throw new EgressError(`Host ${host} is not allowed`);
+    }
+
+    const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(a => a.address);
+    const blocked = addresses.find(a => !isPublicAddress(a));
+    if (blocked) {
+      throw new EgressError(`Host ${host} resolves to non-public address ${blocked}`);
+    }
+
+    const signals = [AbortSignal.timeout(policy.timeoutMs), init.signal].filter((s): s is AbortSignal => !!s);
+    const response = await transport(url, { ...init, redirect: 'error', signal: AbortSignal.any(signals) });
+    return new Response(await readCapped(response, policy.maxBytes), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+function hostAllowed(host: string, allowed: string[]): boolean {
+  return allowed.some(entry => entry.startsWith('.')
+    ? host === entry.slice(1) || host.endsWith(entry)
+    : host === entry);
+}
+
+async function readCapped(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new EgressError(`Response of ${declared} bytes exceeds ${maxBytes}`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  if (response.body) {
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        // Leaving the loop cancels the stream
+        throw new EgressError(`Response exceeds ${maxBytes} bytes`);
+      }
+      chunks.push(chunk);
+    }
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * False for unspecified, loopback, private, shared (CGNAT), link-local,
+ * benchmarking, multicast and reserved addresses, in IPv4 or IPv6
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return !(
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+
+  const v6 = address.toLowerCase();
+  return !(
+    v6 === '::' || v6 === '::1' ||
+    /^f[cd]/.test(v6) ||          // unique local fc00::/7
+    /^fe[89ab]/.test(v6) ||       // link-local fe80::/10
+    v6.startsWith('ff')           // multicast
+  );
+}
@@ -0,0 +1,271 @@
+/**
+ * TRUTH-NET Resolver Helpers
+ * Fetching (with a FetchRecord of every exchange for the evidence store)
+ * and JSONPath extraction shared by the source adapters; conditions are
+ * evaluated by conditions.ts
+ */
+
+import { createHash } from 'node:crypto';
+import { JSONPath } from 'jsonpath-plus';
+import {
+  FetchRecord,
+  OracleResolutionResult,
+  OutcomeToken,
+  ResolutionCondition,
+} from '../../types.js';
+import { ResolverContext, ValidationResult } from './ResolverRegistry.js';
+import { ConditionError, evaluateCondition, validateCondition } from './conditions.js';
+
+/** How a resolution fetch is made and recorded */
+export type FetchContext = Pick<ResolverContext, 'fetches' | 'transport'>;
+
+/** Makes the HTTP request (fetch, or fixtures in a dry run) */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface FetchResult {
+  data?: unknown;
+  raw?: unknown;
+  error?: string;
+}
+
+/** Header and query parameter names whose values never reach the evidence store */
+const SECRET_NAME = /authorization|cookie|secret|token|api[-_]?key|appid/i;
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Fetch and parse a JSON response, giving up after timeoutMs. The
+ * exchange is appended to the context's fetches.
+ */
+export async function fetchJson(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  context: FetchContext = {}
+): Promise<FetchResult> {
+  const exchange = await fetchRecorded(url, init, timeoutMs, context);
+  if (exchange.error) {
+    return { error: exchange.error };
+  }
+
+  const { response, body } = exchange;
+  if (!response!.ok) {
+    return { error: `HTTP ${response!.status}: ${response!.statusText}` };
+  }
+
+  try {
+    const data = JSON.parse(body!);
+    return { data, raw: data };
+  } catch (error) {
+    return { error: `Fetch error: ${error}` };
+  }
+}
+
+/**
+ * Fetch a response body as text and record the exchange: the request
+ * (secrets redacted), response status and headers, and the SHA-256 of the
+ * exact body bytes. Never throws.
+ */
+export async function fetchRecorded(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  { fetches, transport = fetch }: FetchContext = {}
+): Promise<{ response?: Response; body?: string; error?: string }> {
+  const record: FetchRecord = {
+    request: {
+      url: redactUrl(url),
+      method: init.method ?? 'GET',
+      headers: redactHeaders(init.headers as Record<string, string> | undefined),
+      body: typeof init.body === 'string' ? init.body : undefined,
+    },
+    fetched_at: new Date().toISOString(),
+  };
+  fetches?.push(record);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await transport(url, { ...init, signal: controller.signal });
+    const bytes = Buffer.from(await response.arrayBuffer());
+    clearTimeout(timeoutId);
+
+    record.response = {
+      status: response.status,
+      status_text: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      body_sha256: createHash('sha256').update(bytes).digest('hex'),
+      body_bytes: bytes.length,
+    };
+    record.body = bytes.toString('utf8');
+
+    return { response, body: record.body };
+  } catch (error) {
+    clearTimeout(timeoutId);
+
+    record.error = error instanceof Error && error.name === 'AbortError'
+      ? `Request timeout after ${timeoutMs}ms`
+      : `Fetch error: ${error}`;
+    return { error: record.error };
+  }
+}
+
+function redactHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, SECRET_NAME.test(name) ? '[redacted]' : value])
+  );
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (SECRET_NAME.test(name)) parsed.searchParams.set(name, '[redacted]');
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * JSON fixtures to resolve against offline: the body served for a URL
+ * (matched with or without its query string), else the default body
+ */
+export interface Fixtures {
+  body?: unknown;
+  bodies?: Record<string, unknown>;
+}
+
+/**
+ * A transport that answers every request with a fixture (200, JSON)
+ */
+export function fixtureTransport({ body, bodies = {} }: Fixtures): Transport {
+  return async (url: string) => {
+    const withoutQuery = url.split('?')[0];
+    const fixture = url in bodies ? bodies[url] : withoutQuery in bodies ? bodies[withoutQuery] : body;
+    if (fixture === undefined) {
+      throw new Error(`No fixture for ${url}`);
+    }
+    return new Response(JSON.stringify(fixture), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+/**
+ * Default request headers plus the schema's, with ${ENV.NAME} resolved
+ */
+export function buildHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+    'User-Agent': 'TRUTH-NET/1.0',
+    ...extra,
+  };
+
+  for (const [key, value] of Object.entries(headers)) {
+    if (value.includes('${ENV.')) {
+      headers[key] = resolveEnvVars(value);
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Replace ${ENV.NAME} placeholders (e.g. in auth headers)
+ */
+export function resolveEnvVars(str: string): string {
+  return str.replace(/\$\{ENV\.([^}]+)\}/g, (_, varName) => process.env[varName] ?? '');
+}
+
+/**
+ * Validation result of a connection test
+ */
+export async function testConnection(fetcher: () => Promise<FetchResult>): Promise<ValidationResult> {
+  try {
+    const result = await fetcher();
+    if (result.error) {
+      return { valid: false, error: `Connection test failed: ${result.error}` };
+    }
+  } catch (error) {
+    return { valid: false, error: `Connection test failed: ${error}` };
+  }
+  return { valid: true };
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Validate a JSONPath and condition (if any)
+ */
+export function validateExtraction(jsonPath: string, condition?: ResolutionCondition): ValidationResult {
+  if (!jsonPath || !jsonPath.startsWith('$')) {
+    return { valid: false, error: 'Invalid json_path - must start with $' };
+  }
+  return condition === undefined ? { valid: true } : validateCondition(condition);
+}
+
+/**
+ * Extract a value with JSONPath and evaluate the condition on it
+ */
+export function extractOutcome(
+  json: unknown,
+  rawData: unknown,
+  jsonPath: string,
+  condition?: ResolutionCondition
+): OracleResolutionResult {
+  let extractedValue: unknown;
+  try {
+    const result = JSONPath({
+      path: jsonPath,
+      json: json as any,
+    }) as unknown as any[];
+    extractedValue = result.length > 0 ? result[0] : undefined;
+
+    if (extractedValue === undefined) {
+      return { success: false, error: `JSONPath ${jsonPath} returned no results` };
+    }
+  } catch (error) {
+    return { success: false, error: `JSONPath evaluation error: ${error}` };
+  }
+
+  return outcomeOf(extractedValue, rawData, condition, json);
+}
+
+/**
+ * Outcome of a condition on an already extracted value. Other JSONPaths
+ * in the condition read json (default: rawData). Without a condition the
+ * value alone comes back, for the market to decide (see markets/outcomes.ts).
+ */
+export function outcomeOf(
+  value: unknown,
+  rawData: unknown,
+  condition: ResolutionCondition | undefined,
+  json: unknown = rawData
+): OracleResolutionResult {
+  if (condition === undefined) {
+    return { success: true, raw_data: rawData, evaluated_value: value };
+  }
+
+  let holds: boolean;
+  try {
+    holds = evaluateCondition(condition, { value, json });
+  } catch (error) {
+    if (!(error instanceof ConditionError)) throw error;
+    return { success: false, error: `Condition error: ${error.message}`, raw_data: rawData, evaluated_value: value };
+  }
+
+  return {
+    success: true,
+    outcome: holds ? OutcomeToken.YES : OutcomeToken.NO,
+    raw_data: rawData,
+    evaluated_value: value,
+  };
+}
@@ -1,15 +1,32 @@
 /**
  * TRUTH-NET PostgreSQL Persistence Layer v1.0
- * 
+ *
  * Production-grade persistence for:
  * - Agent balances and positions
  * - Order history
  * - Trade records
  * - Market state
- * 
- * Uses connection pooling and prepared statements for performance.
+ *
+ * Uses connection pooling, transactions and row locks (SELECT ... FOR UPDATE)
+ * so concurrent balance changes never interleave. Schema lives in
+ * src/db/migrations (apply with `npm run db:migrate`).
+ *
+ * Drivers (LEDGER_DRIVER):
+ * - memory   (default): in-process mock, no database needed
+ * - postgres : real PostgreSQL via `pg`; also persists EscrowLedger wallets
+ *              and escrow state, and PositionKeeper positions
  */
 
+import { v4 as uuidv4 } from 'uuid';
+import pg from 'pg';
+import { Market, Outcome, Wallet, WalletTransaction, TransactionType, Position as LivePosition } from '../types.js';
+import { PersistedEscrowState, WalletStore } from '../engine/escrow/EscrowLedger.js';
+import { PositionStore } from '../settlement/PositionKeeper.js';
+import { fromMicros, toMicros } from '../engine/money/Money.js';
+import { DBConfig, createPool, resolveDBConfig, withTransaction } from '../db/pool.js';
+
+export type { DBConfig } from '../db/pool.js';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -26,7 +43,7 @@ export interface Position {
   id: string;
   agent_id: string;
   market_id: string;
-  outcome: 'yes' | 'no';
+  outcome: Outcome;
   quantity: number;
   avg_price: number;
   unrealized_pnl: number;
@@ -41,30 +58,78 @@ export interface TradeRecord {
   seller_id: string;
   price: number;
   quantity: number;
-  outcome: 'yes' | 'no';
+  outcome: Outcome;
   created_at: Date;
 }
 
-export interface DBConfig {
-  host: string;
-  port: number;
-  database: string;
-  user: string;
-  password: string;
-  maxConnections: number;
-  ssl?: boolean;
+export type LedgerDriver = 'memory' | 'postgres';
+
+/**
+ * Operations every ledger backend implements
+ */
+interface LedgerClient extends WalletStore, PositionStore {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  isConnected(): boolean;
+
+  initializeAgent(agentId: string, initialBalance: number): Promise<AgentBalance>;
+  getBalance(agentId: string): Promise<AgentBalance | null>;
+  getAllBalances(): Promise<AgentBalance[]>;
+  lockFunds(agentId: string, amount: number): Promise<boolean>;
+  unlockFunds(agentId: string, amount: number): Promise<boolean>;
+
+  settleTrade(
+    buyerId: string,
+    sellerId: string,
+    marketId: string,
+    outcome: Outcome,
+    price: number,
+    quantity: number
+  ): Promise<TradeRecord>;
+  settleMarket(marketId: string, winningOutcome: 'yes' | 'no'): Promise<void>;
+  liquidateAgent(agentId: string): Promise<{ balance: AgentBalance; positions: Position[] }>;
+
+  saveMarket(market: Market): Promise<void>;
+  getAgentPositions(agentId: string): Promise<Position[]>;
+  getRecentTrades(limit: number): Promise<TradeRecord[]>;
+}
+
+/**
+ * Apply a signed quantity change to a position.
+ * Adding to a position moves the average entry price; reducing it keeps the
+ * average; flipping through zero starts a new average at the trade price.
+ */
+function nextPosition(
+  quantity: number,
+  avgPrice: number,
+  delta: number,
+  price: number
+): { quantity: number; avg_price: number } {
+  const newQty = quantity + delta;
+
+  if (newQty === 0) return { quantity: 0, avg_price: 0 };
+  if (quantity === 0 || Math.sign(quantity) === Math.sign(delta)) {
+    return { quantity: newQty, avg_price: (avgPrice * quantity + price * delta) / newQty };
+  }
+  if (Math.sign(newQty) === Math.sign(quantity)) {
+    return { quantity: newQty, avg_price: avgPrice };
+  }
+  return { quantity: newQty, avg_price: price };
 }
 
 // ============================================================================
 // MOCK POSTGRES CLIENT (for development without real DB)
-// Replace with 'pg' package for production
 // ============================================================================
 
-class MockPostgresClient {
+class MockPostgresClient implements LedgerClient {
   private connected = false;
   private balances: Map<string, AgentBalance> = new Map();
   private positions: Map<string, Position> = new Map();
   private trades: TradeRecord[] = [];
+  private markets: Map<string, Market> = new Map();
+  private wallets: Map<string, { wallet: Wallet; transactions: WalletTransaction[] }> = new Map();
+  private escrowState?: PersistedEscrowState;
+  private livePositions: Map<string, LivePosition> = new Map();
 
   async connect(): Promise<void> {
     this.connected = true;
@@ -85,11 +150,7 @@ class MockPostgresClient {
     return this.balances.get(agentId) || null;
   }
 
-  async setBalance(balance: AgentBalance): Promise<void> {
-    this.balances.set(balance.agent_id, { ...balance, updated_at: new Date() });
-  }
-
-  async updateBalance(agentId: string, delta: number, type: 'available' | 'locked'): Promise<AgentBalance | null> {
+  private updateBalance(agentId: string, delta: number, type: 'available' | 'locked'): AgentBalance | null {
     const balance = this.balances.get(agentId);
     if (!balance) return null;
 
@@ -99,7 +160,6 @@ class MockPostgresClient {
       balance.locked += delta;
     }
     balance.updated_at = new Date();
-    this.balances.set(agentId, balance);
     return balance;
   }
 
@@ -107,40 +167,111 @@ class MockPostgresClient {
     return Array.from(this.balances.values());
   }
 
-  // Position operations
-  async getPosition(agentId: string, marketId: string, outcome: 'yes' | 'no'): Promise<Position | null> {
-    const key = `${agentId}:${marketId}:${outcome}`;
-    return this.positions.get(key) || null;
-  }
+  async lockFunds(agentId: string, amount: number): Promise<boolean> {
+    const balance = this.balances.get(agentId);
+    if (!balance || balance.available < amount) {
+      return false;
+    }
 
-  async setPosition(position: Position): Promise<void> {
-    const key = `${position.agent_id}:${position.market_id}:${position.outcome}`;
-    this.positions.set(key, { ...position, updated_at: new Date() });
+    this.updateBalance(agentId, -amount, 'available');
+    this.updateBalance(agentId, amount, 'locked');
+    return true;
   }
 
-  async getAgentPositions(agentId: string): Promise<Position[]> {
-    return Array.from(this.positions.values()).filter(p => p.agent_id === agentId);
-  }
+  async unlockFunds(agentId: string, amount: number): Promise<boolean> {
+    const balance = this.balances.get(agentId);
+    if (!balance || balance.locked < amount) {
+      return false;
+    }
 
-  async getMarketPositions(marketId: string): Promise<Position[]> {
-    return Array.from(this.positions.values()).filter(p => p.market_id === marketId);
+    this.updateBalance(agentId, amount, 'available');
+    this.updateBalance(agentId, -amount, 'locked');
+    return true;
   }
 
   // Trade operations
-  async recordTrade(trade: TradeRecord): Promise<void> {
+  async settleTrade(
+    buyerId: string,
+    sellerId: string,
+    marketId: string,
+    outcome: Outcome,
+    price: number,
+    quantity: number
+  ): Promise<TradeRecord> {
+    const cost = price * quantity;
+
+    // Deduct from buyer's locked funds, credit seller
+    this.updateBalance(buyerId, -cost, 'locked');
+    this.updateBalance(sellerId, cost, 'available');
+
+    this.updatePosition(buyerId, marketId, outcome, quantity, price);
+    this.updatePosition(sellerId, marketId, outcome, -quantity, price);
+
+    const trade: TradeRecord = {
+      id: `trade-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      market_id: marketId,
+      buyer_id: buyerId,
+      seller_id: sellerId,
+      price,
+      quantity,
+      outcome,
+      created_at: new Date(),
+    };
+
     this.trades.push(trade);
+    return trade;
+  }
+
+  private updatePosition(
+    agentId: string,
+    marketId: string,
+    outcome: Outcome,
+    quantityDelta: number,
+    price: number
+  ): void {
+    const key = `${agentId}:${marketId}:${outcome}`;
+    const existing = this.positions.get(key);
+
+    if (existing) {
+      const next = nextPosition(existing.quantity, existing.avg_price, quantityDelta, price);
+      existing.quantity = next.quantity;
+      existing.avg_price = next.avg_price;
+      existing.updated_at = new Date();
+    } else if (quantityDelta > 0) {
+      this.positions.set(key, {
+        id: `pos-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        agent_id: agentId,
+        market_id: marketId,
+        outcome,
+        quantity: quantityDelta,
+        avg_price: price,
+        unrealized_pnl: 0,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+    }
+  }
+
+  async settleMarket(marketId: string, winningOutcome: 'yes' | 'no'): Promise<void> {
+    for (const position of this.positions.values()) {
+      if (position.market_id !== marketId || position.quantity === 0) continue;
+
+      const payout = position.outcome === winningOutcome ? position.quantity * 1 : 0;
+      if (payout > 0) {
+        this.updateBalance(position.agent_id, payout, 'available');
+      }
+
+      position.quantity = 0;
+      position.updated_at = new Date();
+    }
   }
 
-  async getAgentTrades(agentId: string, limit: number = 100): Promise<TradeRecord[]> {
-    return this.trades
-      .filter(t => t.buyer_id === agentId || t.seller_id === agentId)
-      .slice(-limit);
+  async saveMarket(market: Market): Promise<void> {
+    this.markets.set(market.id, { ...market });
   }
 
-  async getMarketTrades(marketId: string, limit: number = 100): Promise<TradeRecord[]> {
-    return this.trades
-      .filter(t => t.market_id === marketId)
-      .slice(-limit);
+  async getAgentPositions(agentId: string): Promise<Position[]> {
+    return Array.from(this.positions.values()).filter(p => p.agent_id === agentId);
   }
 
   async getRecentTrades(limit: number = 100): Promise<TradeRecord[]> {
@@ -179,31 +310,706 @@ class MockPostgresClient {
 
     return { balance: balance!, positions };
   }
+
+  // Wallet store (EscrowLedger write-behind)
+  async saveWallet(wallet: Wallet, transactions: WalletTransaction[]): Promise<void> {
+    const saved = this.wallets.get(wallet.agent_id);
+    this.wallets.set(wallet.agent_id, {
+      wallet: { ...wallet },
+      transactions: [...(saved?.transactions ?? []), ...transactions],
+    });
+    this.balances.set(wallet.agent_id, {
+      agent_id: wallet.agent_id,
+      available: fromMicros(wallet.available),
+      locked: fromMicros(wallet.locked),
+      total_pnl: this.balances.get(wallet.agent_id)?.total_pnl ?? 0,
+      updated_at: wallet.updated_at,
+    });
+  }
+
+  async loadWallets(): Promise<Array<{ wallet: Wallet; transactions: WalletTransaction[] }>> {
+    return Array.from(this.wallets.values());
+  }
+
+  async saveEscrowState(state: PersistedEscrowState): Promise<void> {
+    this.escrowState = structuredClone(state);
+  }
+
+  async loadEscrowState(): Promise<PersistedEscrowState | undefined> {
+    return this.escrowState && structuredClone(this.escrowState);
+  }
+
+  // Position store (PositionKeeper write-behind)
+  async savePosition(position: LivePosition): Promise<void> {
+    this.livePositions.set(position.id, { ...position });
+  }
+
+  async loadPositions(): Promise<LivePosition[]> {
+    return Array.from(this.livePositions.values());
+  }
+}
+
+// ============================================================================
+// PG CLIENT
+// ============================================================================
+
+interface WalletRow {
+  id: string;
+  agent_id: string;
+  currency: string;
+  available: string;
+  locked: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const CURRENCY = 'USDC';
+
+function toBalance(row: { agent_id: string; available: string; locked: string; total_pnl: string | null; updated_at: Date }): AgentBalance {
+  return {
+    agent_id: row.agent_id,
+    available: Number(row.available),
+    locked: Number(row.locked),
+    total_pnl: Number(row.total_pnl ?? 0),
+    updated_at: row.updated_at,
+  };
+}
+
+function toPosition(row: any): Position {
+  return {
+    id: row.id,
+    agent_id: row.agent_id,
+    market_id: row.market_id,
+    outcome: row.outcome,
+    quantity: Number(row.quantity),
+    avg_price: Number(row.avg_entry_price ?? 0),
+    unrealized_pnl: 0,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function toTradeRecord(row: any): TradeRecord {
+  return {
+    id: row.id,
+    market_id: row.market_id,
+    buyer_id: row.buyer_id,
+    seller_id: row.seller_id,
+    price: Number(row.price),
+    quantity: Number(row.quantity),
+    outcome: row.outcome,
+    created_at: row.executed_at,
+  };
+}
+
+// EscrowLedger wallets and PositionKeeper positions are integer micros;
+// the tables hold decimals
+
+function toLivePosition(row: any): LivePosition {
+  return {
+    id: row.id,
+    agent_id: row.agent_id,
+    market_id: row.market_id,
+    outcome: row.outcome,
+    quantity: Number(row.quantity),
+    avg_entry_price: row.avg_entry_price === null ? undefined : toMicros(Number(row.avg_entry_price)),
+    total_cost: toMicros(Number(row.total_cost ?? 0)),
+    realized_pnl: toMicros(Number(row.realized_pnl ?? 0)),
+    redeemable: toMicros(Number(row.redeemable ?? 0)),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function toWallet(row: WalletRow): Wallet {
+  return {
+    id: row.id,
+    agent_id: row.agent_id,
+    currency: row.currency,
+    available: toMicros(Number(row.available)),
+    locked: toMicros(Number(row.locked)),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function toWalletTransaction(row: any): WalletTransaction {
+  return {
+    id: row.id,
+    wallet_id: row.wallet_id,
+    tx_type: row.tx_type,
+    amount: toMicros(Number(row.amount)),
+    balance_before: toMicros(Number(row.balance_before)),
+    balance_after: toMicros(Number(row.balance_after)),
+    reference_type: row.reference_type ?? undefined,
+    reference_id: row.reference_id ?? undefined,
+    description: row.description ?? undefined,
+    metadata: row.metadata ?? {},
+    created_at: row.created_at,
+  };
+}
+
+class PgLedgerClient implements LedgerClient {
+  private pool: pg.Pool | null = null;
+
+  constructor(private config: DBConfig) {}
+
+  async connect(): Promise<void> {
+    const pool = createPool(this.config);
+    try {
+      await pool.query('SELECT 1');
+    } catch (error) {
+      await pool.end().catch(() => undefined);
+      throw error;
+    }
+    this.pool = pool;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.pool?.end();
+    this.pool = null;
+  }
+
+  isConnected(): boolean {
+    return this.pool !== null;
+  }
+
+  private get db(): pg.Pool {
+    if (!this.pool) {
+      throw new Error('PostgresLedger is not connected');
+    }
+    return this.pool;
+  }
+
+  // -------------------------------------------------------------------------
+  // Row helpers (all run inside a transaction)
+  // -------------------------------------------------------------------------
+
+  private async ensureAgent(client: pg.PoolClient, agentId: string): Promise<void> {
+    await client.query(
+      'INSERT INTO agents (id, name) VALUES ($1, $1) ON CONFLICT (id) DO NOTHING',
+      [agentId]
+    );
+  }
+
+  /**
+   * Fetch and row-lock an agent's wallet
+   */
+  private async lockWallet(client: pg.PoolClient, agentId: string): Promise<WalletRow | null> {
+    const { rows } = await client.query<WalletRow>(
+      'SELECT * FROM wallets WHERE agent_id = $1 AND currency = $2 FOR UPDATE',
+      [agentId, CURRENCY]
+    );
+    return rows[0] ?? null;
+  }
+
+  private async setWalletBalance(
+    client: pg.PoolClient,
+    walletId: string,
+    available: number,
+    locked: number
+  ): Promise<void> {
+    await client.query(
+      'UPDATE wallets SET available = $2, locked = $3, updated_at = NOW() WHERE id = $1',
+      [walletId, available, locked]
+    );
+  }
+
+  private async insertTransaction(
+    client: pg.PoolClient,
+    walletId: string,
+    txType: TransactionType,
+    amount: number,
+    balanceBefore: number,
+    balanceAfter: number,
+    description: string,
+    referenceType?: string,
+    referenceId?: string
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO wallet_transactions
+         (id, wallet_id, tx_type, amount, balance_before, balance_after, reference_type, reference_id, description)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [uuidv4(), walletId, txType, amount, balanceBefore, balanceAfter, description, referenceType ?? null, referenceId ?? null]
+    );
+  }
+
+  private async readBalance(client: pg.PoolClient | pg.Pool, agentId: string): Promise<AgentBalance | null> {
+    const { rows } = await client.query(
+      `SELECT w.agent_id, w.available, w.locked, w.updated_at, a.total_pnl
+         FROM wallets w JOIN agents a ON a.id = w.agent_id
+        WHERE w.agent_id = $1 AND w.currency = $2`,
+      [agentId, CURRENCY]
+    );
+    return rows[0] ? toBalance(rows[0]) : null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Balances
+  // -------------------------------------------------------------------------
+
+  async initializeAgent(agentId: string, initialBalance: number): Promise<AgentBalance> {
+    return withTransaction(this.db, async client => {
+      await this.ensureAgent(client, agentId);
+
+      let wallet = await this.lockWallet(client, agentId);
+      if (!wallet) {
+        const { rows } = await client.query<WalletRow>(
+          'INSERT INTO wallets (id, agent_id, currency) VALUES ($1, $2, $3) RETURNING *',
+          [uuidv4(), agentId, CURRENCY]
+        );
+        wallet = rows[0];
+      }
+
+      const before = Number(wallet.available);
+      await this.setWalletBalance(client, wallet.id, initialBalance, 0);
+      await this.insertTransaction(
+        client, wallet.id, TransactionType.DEPOSIT, initialBalance - before, before, initialBalance,
+        'Initial balance'
+      );
+
+      return (await this.readBalance(client, agentId))!;
+    });
+  }
+
+  async getBalance(agentId: string): Promise<AgentBalance | null> {
+    return this.readBalance(this.db, agentId);
+  }
+
+  async getAllBalances(): Promise<AgentBalance[]> {
+    const { rows } = await this.db.query(
+      `SELECT w.agent_id, w.available, w.locked, w.updated_at, a.total_pnl
+         FROM wallets w JOIN agents a ON a.id = w.agent_id
+        WHERE w.currency = $1
+        ORDER BY w.agent_id`,
+      [CURRENCY]
+    );
+    return rows.map(toBalance);
+  }
+
+  async lockFunds(agentId: string, amount: number): Promise<boolean> {
+    return withTransaction(this.db, async client => {
+      const wallet = await this.lockWallet(client, agentId);
+      if (!wallet || Number(wallet.available) < amount) return false;
+
+      const before = Number(wallet.available);
+      await this.setWalletBalance(client, wallet.id, before - amount, Number(wallet.locked) + amount);
+      await this.insertTransaction(
+        client, wallet.id, TransactionType.ESCROW_LOCK, -amount, before, before - amount, 'Escrow lock'
+      );
+      return true;
+    });
+  }
+
+  async unlockFunds(agentId: string, amount: number): Promise<boolean> {
+    return withTransaction(this.db, async client => {
+      const wallet = await this.lockWallet(client, agentId);
+      if (!wallet || Number(wallet.locked) < amount) return false;
+
+      const before = Number(wallet.available);
+      await this.setWalletBalance(client, wallet.id, before + amount, Number(wallet.locked) - amount);
+      await this.insertTransaction(
+        client, wallet.id, TransactionType.ESCROW_RELEASE, amount, before, before + amount, 'Escrow release'
+      );
+      return true;
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Trades and settlement
+  // -------------------------------------------------------------------------
+
+  async settleTrade(
+    buyerId: string,
+    sellerId: string,
+    marketId: string,
+    outcome: Outcome,
+    price: number,
+    quantity: number
+  ): Promise<TradeRecord> {
+    const cost = price * quantity;
+
+    return withTransaction(this.db, async client => {
+      // Lock both wallets in a fixed order so opposing trades cannot deadlock
+      const locked = new Map<string, WalletRow>();
+      for (const agentId of [...new Set([buyerId, sellerId])].sort()) {
+        const wallet = await this.lockWallet(client, agentId);
+        if (!wallet) {
+          throw new Error(`No wallet found for agent ${agentId}`);
+        }
+        locked.set(agentId, wallet);
+      }
+
+      const buyer = locked.get(buyerId)!;
+      if (Number(buyer.locked) < cost) {
+        throw new Error(`Insufficient locked balance for trade: ${buyer.locked} < ${cost}`);
+      }
+
+      const tradeId = uuidv4();
+
+      await this.setWalletBalance(client, buyer.id, Number(buyer.available), Number(buyer.locked) - cost);
+      await this.insertTransaction(
+        client, buyer.id, TransactionType.TRADE_DEBIT, -cost,
+        Number(buyer.available) + Number(buyer.locked), Number(buyer.available) + Number(buyer.locked) - cost,
+        'Trade settlement', 'trade', tradeId
+      );
+
+      // Re-read the seller in case buyer and seller are the same wallet
+      const seller = buyerId === sellerId ? (await this.lockWallet(client, sellerId))! : locked.get(sellerId)!;
+      await this.setWalletBalance(client, seller.id, Number(seller.available) + cost, Number(seller.locked));
+      await this.insertTransaction(
+        client, seller.id, TransactionType.TRADE_CREDIT, cost,
+        Number(seller.available), Number(seller.available) + cost,
+        'Trade settlement', 'trade', tradeId
+      );
+
+      await this.updatePosition(client, buyerId, marketId, outcome, quantity, price);
+      await this.updatePosition(client, sellerId, marketId, outcome, -quantity, price);
+
+      const { rows } = await client.query(
+        `INSERT INTO trades (id, market_id, buyer_id, seller_id, outcome, price, quantity)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [tradeId, marketId, buyerId, sellerId, outcome, price, quantity]
+      );
+      return toTradeRecord(rows[0]);
+    });
+  }
+
+  private async updatePosition(
+    client: pg.PoolClient,
+    agentId: string,
+    marketId: string,
+    outcome: Outcome,
+    quantityDelta: number,
+    price: number
+  ): Promise<void> {
+    // Shorts against a position the agent never held are not tracked
+    if (quantityDelta > 0) {
+      await client.query(
+        `INSERT INTO positions (id, agent_id, market_id, outcome, quantity)
+         VALUES ($1, $2, $3, $4, 0)
+         ON CONFLICT (agent_id, market_id, outcome) DO NOTHING`,
+        [uuidv4(), agentId, marketId, outcome]
+      );
+    }
+
+    const { rows } = await client.query(
+      'SELECT * FROM positions WHERE agent_id = $1 AND market_id = $2 AND outcome = $3 FOR UPDATE',
+      [agentId, marketId, outcome]
+    );
+    if (!rows[0]) return;
+
+    const next = nextPosition(Number(rows[0].quantity), Number(rows[0].avg_entry_price ?? 0), quantityDelta, price);
+    await client.query(
+      'UPDATE positions SET quantity = $2, avg_entry_price = $3, total_cost = $4 WHERE id = $1',
+      [rows[0].id, next.quantity, next.avg_price, next.quantity * next.avg_price]
+    );
+  }
+
+  async settleMarket(marketId: string, winningOutcome: 'yes' | 'no'): Promise<void> {
+    await withTransaction(this.db, async client => {
+      const { rows } = await client.query(
+        `SELECT * FROM positions
+          WHERE market_id = $1 AND quantity <> 0
+          ORDER BY agent_id, outcome
+          FOR UPDATE`,
+        [marketId]
+      );
+
+      for (const position of rows) {
+        const quantity = Number(position.quantity);
+        const payout = position.outcome === winningOutcome ? quantity * 1 : 0;
+
+        if (payout > 0) {
+          const wallet = await this.lockWallet(client, position.agent_id);
+          if (wallet) {
+            const before = Number(wallet.available);
+            await this.setWalletBalance(client, wallet.id, before + payout, Number(wallet.locked));
+            await this.insertTransaction(
+              client, wallet.id, TransactionType.SETTLEMENT_PAYOUT, payout, before, before + payout,
+              `Settlement payout for market ${marketId}`, 'settlement', marketId
+            );
+          }
+        }
+
+        const realized = payout - quantity * Number(position.avg_entry_price ?? 0);
+        await client.query(
+          'UPDATE positions SET quantity = 0, realized_pnl = realized_pnl + $2 WHERE id = $1',
+          [position.id, realized]
+        );
+      }
+
+      await client.query(
+        `UPDATE markets SET status = 'settled', outcome = $2, settled_at = NOW()
+          WHERE id = $1 AND status <> 'settled'`,
+        [marketId, winningOutcome]
+      );
+      await client.query(
+        'UPDATE trades SET is_settled = TRUE, settled_at = NOW() WHERE market_id = $1 AND NOT is_settled',
+        [marketId]
+      );
+    });
+  }
+
+  async liquidateAgent(agentId: string): Promise<{ balance: AgentBalance; positions: Position[] }> {
+    return withTransaction(this.db, async client => {
+      const wallet = await this.lockWallet(client, agentId);
+
+      const { rows } = await client.query(
+        'SELECT * FROM positions WHERE agent_id = $1 AND quantity <> 0 FOR UPDATE',
+        [agentId]
+      );
+      await client.query('UPDATE positions SET quantity = 0 WHERE agent_id = $1', [agentId]);
+
+      if (wallet) {
+        const before = Number(wallet.available);
+        await this.setWalletBalance(client, wallet.id, 0, 0);
+        await this.insertTransaction(
+          client, wallet.id, TransactionType.WITHDRAWAL, -(before + Number(wallet.locked)), before, 0,
+          'Emergency liquidation'
+        );
+      }
+
+      return {
+        balance: (await this.readBalance(client, agentId))!,
+        positions: rows.map(toPosition),
+      };
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Markets, positions and trades
+  // -------------------------------------------------------------------------
+
+  async saveMarket(market: Market): Promise<void> {
+    await this.db.query(
+      `INSERT INTO markets (
+         id, ticker, title, description, resolution_schema, opens_at, closes_at, resolves_at,
+         status, outcome, resolution_data, min_order_size, max_position, fee_rate,
+         volume_yes, volume_no, open_interest, last_price_yes, last_price_no,
+         category, tags, metadata, created_at, settled_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
+       ON CONFLICT (id) DO UPDATE SET
+         title = EXCLUDED.title,
+         description = EXCLUDED.description,
+         status = EXCLUDED.status,
+         outcome = EXCLUDED.outcome,
+         resolution_data = EXCLUDED.resolution_data,
+         volume_yes = EXCLUDED.volume_yes,
+         volume_no = EXCLUDED.volume_no,
+         open_interest = EXCLUDED.open_interest,
+         last_price_yes = EXCLUDED.last_price_yes,
+         last_price_no = EXCLUDED.last_price_no,
+         tags = EXCLUDED.tags,
+         metadata = EXCLUDED.metadata,
+         settled_at = EXCLUDED.settled_at`,
+      [
+        market.id, market.ticker, market.title, market.description ?? null,
+        JSON.stringify(market.resolution_schema), market.opens_at, market.closes_at, market.resolves_at,
+        market.status, market.outcome ?? null,
+        market.resolution_data ? JSON.stringify(market.resolution_data) : null,
+        market.min_order_size, market.max_position, market.fee_rate,
+        market.volume_yes, market.volume_no, market.open_interest,
+        market.last_price_yes ?? null, market.last_price_no ?? null,
+        market.category ?? null, market.tags, JSON.stringify(market.metadata ?? {}),
+        market.created_at, market.settled_at ?? null,
+      ]
+    );
+  }
+
+  async getAgentPositions(agentId: string): Promise<Position[]> {
+    const { rows } = await this.db.query(
+      'SELECT * FROM positions WHERE agent_id = $1 ORDER BY market_id, outcome',
+      [agentId]
+    );
+    return rows.map(toPosition);
+  }
+
+  async getRecentTrades(limit: number = 100): Promise<TradeRecord[]> {
+    const { rows } = await this.db.query(
+      'SELECT * FROM trades ORDER BY executed_at DESC LIMIT $1',
+      [limit]
+    );
+    return rows.map(toTradeRecord).reverse();
+  }
+
+  // -------------------------------------------------------------------------
+  // Wallet store (EscrowLedger write-behind)
+  // -------------------------------------------------------------------------
+
+  async saveWallet(wallet: Wallet, transactions: WalletTransaction[]): Promise<void> {
+    await withTransaction(this.db, async client => {
+      await this.ensureAgent(client, wallet.agent_id);
+      // One wallet per agent and currency; a row saved under another id keeps it
+      const { rows: [{ id: walletId }] } = await client.query<{ id: string }>(
+        `INSERT INTO wallets (id, agent_id, currency, available, locked, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (agent_id, currency) DO UPDATE SET
+           available = EXCLUDED.available,
+           locked = EXCLUDED.locked,
+           updated_at = EXCLUDED.updated_at
+         RETURNING id`,
+        [
+          wallet.id, wallet.agent_id, wallet.currency,
+          fromMicros(wallet.available), fromMicros(wallet.locked),
+          wallet.created_at, wallet.updated_at,
+        ]
+      );
+
+      for (const tx of transactions) {
+        await client.query(
+          `INSERT INTO wallet_transactions
+             (id, wallet_id, tx_type, amount, balance_before, balance_after,
+              reference_type, reference_id, description, metadata, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+           ON CONFLICT (id) DO NOTHING`,
+          [
+            tx.id, walletId, tx.tx_type,
+            fromMicros(tx.amount), fromMicros(tx.balance_before), fromMicros(tx.balance_after),
+            tx.reference_type ?? null, tx.reference_id ?? null, tx.description ?? null,
+            JSON.stringify(tx.metadata ?? {}), tx.created_at,
+          ]
+        );
+      }
+    });
+  }
+
+  async loadWallets(): Promise<Array<{ wallet: Wallet; transactions: WalletTransaction[] }>> {
+    const wallets = await this.db.query<WalletRow>(
+      'SELECT * FROM wallets WHERE currency = $1 ORDER BY agent_id',
+      [CURRENCY]
+    );
+    const txs = await this.db.query(
+      `SELECT t.* FROM wallet_transactions t
+         JOIN wallets w ON w.id = t.wallet_id
+        WHERE w.currency = $1
+        ORDER BY t.seq`,
+      [CURRENCY]
+    );
+
+    const byWallet = new Map<string, WalletTransaction[]>();
+    for (const row of txs.rows) {
+      const list = byWallet.get(row.wallet_id) ?? [];
+      list.push(toWalletTransaction(row));
+      byWallet.set(row.wallet_id, list);
+    }
+
+    return wallets.rows.map(row => ({
+      wallet: toWallet(row),
+      transactions: byWallet.get(row.id) ?? [],
+    }));
+  }
+
+  async saveEscrowState(state: PersistedEscrowState): Promise<void> {
+    await withTransaction(this.db, async client => {
+      await client.query('DELETE FROM trade_escrows');
+      await client.query('DELETE FROM margin_loans');
+      await client.query('DELETE FROM ledger_balances');
+
+      for (const e of state.trade_escrows) {
+        await client.query(
+          `INSERT INTO trade_escrows
+             (trade_id, buyer_id, seller_id, buyer_amount, seller_amount, match_type,
+              buyer_financed, seller_financed, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            e.trade_id, e.buyer_id, e.seller_id, fromMicros(e.buyer_amount), fromMicros(e.seller_amount),
+            e.match_type, fromMicros(e.buyer_financed) ?? null, fromMicros(e.seller_financed) ?? null, e.created_at,
+          ]
+        );
+      }
+      for (const loan of state.margin_loans) {
+        await client.query(
+          'INSERT INTO margin_loans (market_id, agent_id, amount, updated_at) VALUES ($1, $2, $3, $4)',
+          [loan.market_id, loan.agent_id, fromMicros(loan.amount), loan.updated_at]
+        );
+      }
+      for (const { account, balance } of state.balances) {
+        await client.query(
+          'INSERT INTO ledger_balances (account, balance) VALUES ($1, $2)',
+          [account, fromMicros(balance)]
+        );
+      }
+    });
+  }
+
+  async loadEscrowState(): Promise<PersistedEscrowState | undefined> {
+    const balances = await this.db.query('SELECT account, balance FROM ledger_balances ORDER BY account');
+    if (balances.rows.length === 0) return undefined;
+
+    const escrows = await this.db.query('SELECT * FROM trade_escrows ORDER BY trade_id');
+    const loans = await this.db.query('SELECT * FROM margin_loans ORDER BY market_id, agent_id');
+    return {
+      trade_escrows: escrows.rows.map(row => ({
+        trade_id: row.trade_id,
+        buyer_id: row.buyer_id,
+        seller_id: row.seller_id,
+        buyer_amount: toMicros(Number(row.buyer_amount)),
+        seller_amount: toMicros(Number(row.seller_amount)),
+        match_type: row.match_type,
+        buyer_financed: row.buyer_financed === null ? undefined : toMicros(Number(row.buyer_financed)),
+        seller_financed: row.seller_financed === null ? undefined : toMicros(Number(row.seller_financed)),
+        created_at: row.created_at,
+      })),
+      margin_loans: loans.rows.map(row => ({
+        market_id: row.market_id,
+        agent_id: row.agent_id,
+        amount: toMicros(Number(row.amount)),
+        updated_at: row.updated_at,
+      })),
+      balances: balances.rows.map(row => ({ account: row.account, balance: toMicros(Number(row.balance)) })),
+    };
+  }
+
+  async savePosition(position: LivePosition): Promise<void> {
+    await withTransaction(this.db, async client => {
+      await this.ensureAgent(client, position.agent_id);
+      await client.query(
+        `INSERT INTO positions
+           (id, agent_id, market_id, outcome, quantity, avg_entry_price, total_cost,
+            realized_pnl, redeemable, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (agent_id, market_id, outcome) DO UPDATE SET
+           quantity = EXCLUDED.quantity,
+           avg_entry_price = EXCLUDED.avg_entry_price,
+           total_cost = EXCLUDED.total_cost,
+           realized_pnl = EXCLUDED.realized_pnl,
+           redeemable = EXCLUDED.redeemable,
+           updated_at = EXCLUDED.updated_at`,
+        [
+          position.id, position.agent_id, position.market_id, position.outcome, position.quantity,
+          fromMicros(position.avg_entry_price) ?? null, fromMicros(position.total_cost),
+          fromMicros(position.realized_pnl), fromMicros(position.redeemable),
+          position.created_at, position.updated_at,
+        ]
+      );
+    });
+  }
+
+  async loadPositions(): Promise<LivePosition[]> {
+    const { rows } = await this.db.query('SELECT * FROM positions ORDER BY agent_id, market_id, outcome');
+    return rows.map(toLivePosition);
+  }
 }
 
 // ============================================================================
 // POSTGRES LEDGER SERVICE
 // ============================================================================
 
-export class PostgresLedger {
-  private client: MockPostgresClient;
+export class PostgresLedger implements WalletStore, PositionStore {
+  private client: LedgerClient;
   private config: DBConfig;
+  private driver: LedgerDriver;
   private isConnected = false;
 
-  constructor(config?: Partial<DBConfig>) {
-    this.config = {
-      host: config?.host || process.env.DB_HOST || 'localhost',
-      port: config?.port || parseInt(process.env.DB_PORT || '5432'),
-      database: config?.database || process.env.DB_NAME || 'truthnet',
-      user: config?.user || process.env.DB_USER || 'truthnet',
-      password: config?.password || process.env.DB_PASSWORD || '',
-      maxConnections: config?.maxConnections || 20,
-      ssl: config?.ssl ?? (process.env.DB_SSL === 'true'),
-    };
+  constructor(config?: Partial<DBConfig> & { driver?: LedgerDriver }) {
+    this.config = resolveDBConfig(config);
+    this.driver = config?.driver ?? (process.env.LEDGER_DRIVER === 'postgres' ? 'postgres' : 'memory');
 
-    // Use mock client for now
-    // Replace with: this.client = new Pool(this.config) for real Postgres
-    this.client = new MockPostgresClient();
+    this.client = this.driver === 'postgres'
+      ? new PgLedgerClient(this.config)
+      : new MockPostgresClient();
   }
 
   /**
@@ -215,7 +1021,7 @@ export class PostgresLedger {
     try {
       await this.client.connect();
       this.isConnected = true;
-      console.log('[PostgresLedger] Connected to database');
+      console.log(`[PostgresLedger] Connected to database (${this.driver})`);
     } catch (error) {
       console.error('[PostgresLedger] Connection failed:', error);
       throw error;
@@ -254,15 +1060,7 @@ export class PostgresLedger {
    */
   async lockFunds(agentId: string, amount: number): Promise<boolean> {
     await this.ensureConnected();
-    
-    const balance = await this.client.getBalance(agentId);
-    if (!balance || balance.available < amount) {
-      return false;
-    }
-
-    await this.client.updateBalance(agentId, -amount, 'available');
-    await this.client.updateBalance(agentId, amount, 'locked');
-    return true;
+    return this.client.lockFunds(agentId, amount);
   }
 
   /**
@@ -270,15 +1068,7 @@ export class PostgresLedger {
    */
   async unlockFunds(agentId: string, amount: number): Promise<boolean> {
     await this.ensureConnected();
-    
-    const balance = await this.client.getBalance(agentId);
-    if (!balance || balance.locked < amount) {
-      return false;
-    }
-
-    await this.client.updateBalance(agentId, amount, 'available');
-    await this.client.updateBalance(agentId, -amount, 'locked');
-    return true;
+    return this.client.unlockFunds(agentId, amount);
   }
 
   /**
@@ -288,84 +1078,12 @@ export class PostgresLedger {
     buyerId: string,
     sellerId: string,
     marketId: string,
-    outcome: 'yes' | 'no',
+    outcome: Outcome,
     price: number,
     quantity: number
   ): Promise<TradeRecord> {
     await this.ensureConnected();
-
-    const cost = price * quantity;
-
-    // Deduct from buyer's locked funds
-    await this.client.updateBalance(buyerId, -cost, 'locked');
-
-    // Credit seller
-    await this.client.updateBalance(sellerId, cost, 'available');
-
-    // Update positions
-    await this.updatePosition(buyerId, marketId, outcome, quantity, price);
-    await this.updatePosition(sellerId, marketId, outcome, -quantity, price);
-
-    // Record trade
-    const trade: TradeRecord = {
-      id: `trade-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      market_id: marketId,
-      buyer_id: buyerId,
-      seller_id: sellerId,
-      price,
-      quantity,
-      outcome,
-      created_at: new Date(),
-    };
-
-    await this.client.recordTrade(trade);
-
-    return trade;
-  }
-
-  /**
-   * Update agent position
-   */
-  private async updatePosition(
-    agentId: string,
-    marketId: string,
-    outcome: 'yes' | 'no',
-    quantityDelta: number,
-    price: number
-  ): Promise<void> {
-    const existing = await this.client.getPosition(agentId, marketId, outcome);
-
-    if (existing) {
-      const newQty = existing.quantity + quantityDelta;
-      
-      if (newQty === 0) {
-        // Position closed
-        existing.quantity = 0;
-        existing.avg_price = 0;
-      } else {
-        // Update average price
-        const totalCost = existing.avg_price * existing.quantity + price * quantityDelta;
-        existing.quantity = newQty;
-        existing.avg_price = totalCost / newQty;
-      }
-
-      await this.client.setPosition(existing);
-    } else if (quantityDelta > 0) {
-      // New position
-      const position: Position = {
-        id: `pos-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-        agent_id: agentId,
-        market_id: marketId,
-        outcome,
-        quantity: quantityDelta,
-        avg_price: price,
-        unrealized_pnl: 0,
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
-
-      await this.client.setPosition(position);
-    }
+    return this.client.settleTrade(buyerId, sellerId, marketId, outcome, price, quantity);
   }
 
   /**
@@ -373,25 +1091,7 @@ export class PostgresLedger {
    */
   async settleMarket(marketId: string, winningOutcome: 'yes' | 'no'): Promise<void> {
     await this.ensureConnected();
-
-    const positions = await this.client.getMarketPositions(marketId);
-
-    for (const position of positions) {
-      if (position.quantity === 0) continue;
-
-      const payout = position.outcome === winningOutcome 
-        ? position.quantity * 1  // Full payout for winners
-        : 0;                      // Nothing for losers
-
-      if (payout > 0) {
-        await this.client.updateBalance(position.agent_id, payout, 'available');
-      }
-
-      // Clear position
-      position.quantity = 0;
-      await this.client.setPosition(position);
-    }
-
+    await this.client.settleMarket(marketId, winningOutcome);
     console.log(`[PostgresLedger] Settled market ${marketId}, winner: ${winningOutcome}`);
   }
 
@@ -403,6 +1103,14 @@ export class PostgresLedger {
     return this.client.liquidateAgent(agentId);
   }
 
+  /**
+   * Insert or update a market (trades and positions reference it)
+   */
+  async saveMarket(market: Market): Promise<void> {
+    await this.ensureConnected();
+    return this.client.saveMarket(market);
+  }
+
   /**
    * Get all balances
    */
@@ -427,6 +1135,54 @@ export class PostgresLedger {
     return this.client.getRecentTrades(limit);
   }
 
+  /**
+   * Persist an EscrowLedger wallet and its new transactions
+   */
+  async saveWallet(wallet: Wallet, transactions: WalletTransaction[]): Promise<void> {
+    await this.ensureConnected();
+    return this.client.saveWallet(wallet, transactions);
+  }
+
+  /**
+   * Load all persisted wallets with their transaction logs
+   */
+  async loadWallets(): Promise<Array<{ wallet: Wallet; transactions: WalletTransaction[] }>> {
+    await this.ensureConnected();
+    return this.client.loadWallets();
+  }
+
+  /**
+   * Replace the persisted EscrowLedger state outside wallets
+   */
+  async saveEscrowState(state: PersistedEscrowState): Promise<void> {
+    await this.ensureConnected();
+    return this.client.saveEscrowState(state);
+  }
+
+  /**
+   * Load the persisted EscrowLedger state outside wallets
+   */
+  async loadEscrowState(): Promise<PersistedEscrowState | undefined> {
+    await this.ensureConnected();
+    return this.client.loadEscrowState();
+  }
+
+  /**
+   * Persist a PositionKeeper position
+   */
+  async savePosition(position: LivePosition): Promise<void> {
+    await this.ensureConnected();
+    return this.client.savePosition(position);
+  }
+
+  /**
+   * Load all persisted positions
+   */
+  async loadPositions(): Promise<LivePosition[]> {
+    await this.ensureConnected();
+    return this.client.loadPositions();
+  }
+
   /**
    * Ensure connected
    */
@@ -442,7 +1198,8 @@ export class PostgresLedger {
   getStatus() {
     return {
       isConnected: this.isConnected,
-      host: this.config.host,
+      driver: this.driver,
+      host: this.config.connectionString ? undefined : this.config.host,
       database: this.config.database,
       maxConnections: this.config.maxConnections,
     };
@@ -0,0 +1,88 @@
+/**
+ * TRUTH-NET PostgreSQL Rating Store
+ *
+ * RatingStore backend on the tables of migration 0005_ratings. Agent state
+ * and open predictions are JSONB documents upserted whole; rating inputs
+ * are appended in order to rating_inputs.
+ */
+
+import pg from 'pg';
+import { DBConfig, createPool, resolveDBConfig, withTransaction } from '../db/pool.js';
+import { reviveDates } from '../engine/journal/EngineJournal.js';
+import type { AgentPrediction } from '../rating/RatingEngine.js';
+import { reviveAgentRating, type RatingInput, type RatingStore, type StoredAgentRating } from '../rating/RatingStore.js';
+
+export class PostgresRatingStore implements RatingStore {
+  private pool: pg.Pool | null = null;
+  private config: DBConfig;
+
+  constructor(config?: Partial<DBConfig>) {
+    this.config = resolveDBConfig(config);
+  }
+
+  private get db(): pg.Pool {
+    this.pool ??= createPool(this.config);
+    return this.pool;
+  }
+
+  async saveAgent(state: StoredAgentRating): Promise<void> {
+    await this.db.query(
+      `INSERT INTO rating_agents (agent_id, state, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (agent_id) DO UPDATE SET state = EXCLUDED.state, updated_at = EXCLUDED.updated_at`,
+      [state.rating.agent_id, JSON.stringify(state)]
+    );
+  }
+
+  async savePredictions(marketId: string, predictions: AgentPrediction[]): Promise<void> {
+    if (predictions.length === 0) {
+      await this.db.query('DELETE FROM rating_predictions WHERE market_id = $1', [marketId]);
+      return;
+    }
+    await this.db.query(
+      `INSERT INTO rating_predictions (market_id, predictions, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (market_id) DO UPDATE SET predictions = EXCLUDED.predictions, updated_at = EXCLUDED.updated_at`,
+      [marketId, JSON.stringify(predictions)]
+    );
+  }
+
+  async appendInput(input: RatingInput): Promise<void> {
+    await this.db.query(
+      'INSERT INTO rating_inputs (kind, payload, recorded_at) VALUES ($1, $2, $3)',
+      [input.kind, JSON.stringify(input.payload), input.recorded_at]
+    );
+  }
+
+  async load(): Promise<{ agents: StoredAgentRating[]; predictions: AgentPrediction[] }> {
+    const agents = await this.db.query('SELECT state FROM rating_agents ORDER BY agent_id');
+    const predictions = await this.db.query('SELECT predictions FROM rating_predictions ORDER BY market_id');
+    return {
+      agents: agents.rows.map(row => reviveAgentRating(row.state)),
+      predictions: predictions.rows
+        .flatMap(row => row.predictions as AgentPrediction[])
+        .map(p => reviveDates(p, ['timestamp'])),
+    };
+  }
+
+  async loadInputs(): Promise<RatingInput[]> {
+    const { rows } = await this.db.query('SELECT kind, payload, recorded_at FROM rating_inputs ORDER BY seq');
+    return rows.map(row => ({
+      kind: row.kind,
+      payload: row.payload,
+      recorded_at: new Date(row.recorded_at).toISOString(),
+    }));
+  }
+
+  async clear(): Promise<void> {
+    await withTransaction(this.db, async client => {
+      await client.query('DELETE FROM rating_agents');
+      await client.query('DELETE FROM rating_predictions');
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.pool?.end();
+    this.pool = null;
+  }
+}
@@ -5,12 +5,24 @@
  * based on oracle-verified prediction market performance.
  * 
  * TruthScore = (Brier × 0.35) + (Sharpe × 0.25) + (WinRate × 0.20) + (Consistency × 0.10) + (Risk × 0.10)
+ *
+ * Forecast accuracy is the Brier score of binary markets, the multi-class
+ * Brier score (halved to 0-1) of categorical markets and the CRPS of the
+ * resolved value of scalar markets.
+ *
+ * Score history is unbounded but downsampled with age: every point for a
+ * week, the last point of each day for a year, then of each week. With a
+ * store attached (see RatingStore) ratings, history and certifications are
+ * written behind and survive restarts.
  * 
  * Grade Scale:
  *   AAA (90-100) | AA (80-89) | A (70-79) | BBB (60-69) | BB (50-59) | B (40-49) | CCC (<40) | NR (unrated)
  */
 
 import { EventBus } from '../events/EventBus.js';
+import { fromMicros, ONE_SHARE } from '../engine/money/Money.js';
+import { MarketType, OutcomeToken } from '../types.js';
+import type { RatingInput, RatingStore, StoredAgentRating } from './RatingStore.js';
 import { v4 as uuidv4 } from 'uuid';
 
 // ============================================================================
@@ -34,7 +46,7 @@ export interface AgentRating {
   risk_component: number;      // 10% — drawdown management
 
   // Raw metrics
-  brier_score: number;         // 0 = perfect, 1 = worst
+  brier_score: number;         // 0 = perfect, 1 = worst (Brier, or CRPS on scalar markets)
   sharpe_ratio: number;
   win_rate: number;
   max_drawdown: number;
@@ -42,8 +54,8 @@ export interface AgentRating {
   winning_trades: number;
   total_pnl: number;
 
-  // History
-  score_history: { date: string; score: number; grade: RatingGrade }[];
+  // History, oldest first
+  score_history: ScorePoint[];
   
   // Meta
   last_updated: Date;
@@ -51,6 +63,13 @@ export interface AgentRating {
   rating_period_end?: Date;
 }
 
+export interface ScorePoint {
+  at: string;                  // ISO timestamp of the recalculation
+  date: string;                // YYYY-MM-DD
+  score: number;
+  grade: RatingGrade;
+}
+
 export interface RatingSnapshot {
   id: string;
   agent_id: string;
@@ -81,6 +100,7 @@ export interface Certification {
 export interface AgentPrediction {
   agentId: string;
   marketId: string;
+  outcome: string;                // Traded outcome token
   predictedProbability: number;
   side: 'buy' | 'sell';
   timestamp: Date;
@@ -92,6 +112,12 @@ const MIN_TRADES_FOR_RATING = 20;
 const MIN_TRADES_FOR_CERTIFICATION = 50;
 // Certification validity in days
 const CERTIFICATION_VALIDITY_DAYS = 90;
+// Score history points the consistency component looks back over
+const CONSISTENCY_WINDOW = 90;
+// Score history keeps every point this recent, then one a day
+const RECENT_HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+// ...and one a week beyond this age
+const DAILY_HISTORY_MS = 365 * 24 * 60 * 60 * 1000;
 
 // ============================================================================
 // GRADE CALCULATOR
@@ -130,18 +156,25 @@ export class RatingEngine {
   private certifications: Map<string, Certification[]> = new Map();
   private pnlHistory: Map<string, number[]> = new Map();
   private predictions: Map<string, AgentPrediction[]> = new Map(); // marketId -> predictions for Brier scoring
+  private store?: RatingStore;
+  private storeQueue: Promise<void> = Promise.resolve();
+  private dirtyAgents: Set<string> = new Set();
+  private dirtyMarkets: Set<string> = new Set();
+  private writeScheduled = false;
+  private replayAt?: Date;   // Time of the input being replayed by rebuild
 
   constructor(private eventBus: EventBus) {
     // Listen for trade settlements to update ratings
     this.eventBus.subscribe('settlements.completed', (data: any) => {
+      this.recordInput('settlement', data);
       this.processSettlement(data);
     });
 
     this.eventBus.subscribe('trades.executed', (data: any) => {
       // The event data may wrap the trade: { trade: { buyer_id, ... } } or be flat
       const trade = data.trade || data;
-      if (trade.buyer_id) this.recordTradeForAgent(trade.buyer_id, trade);
-      if (trade.seller_id) this.recordTradeForAgent(trade.seller_id, trade);
+      this.recordInput('trade', trade);
+      this.applyTrade(trade);
     });
 
     this.eventBus.subscribe('agents.reputation_updated', (data: any) => {
@@ -175,7 +208,7 @@ export class RatingEngine {
       winning_trades: 0,
       total_pnl: 0,
       score_history: [],
-      last_updated: new Date(),
+      last_updated: this.now(),
     };
 
     this.ratings.set(agentId, rating);
@@ -195,10 +228,12 @@ export class RatingEngine {
       rating = this.initializeRating(agentId);
     }
 
+    this.markDirty(agentId);
+
     // Not enough trades to rate
     if (rating.total_trades < MIN_TRADES_FOR_RATING) {
       rating.grade = 'NR';
-      rating.last_updated = new Date();
+      rating.last_updated = this.now();
       return rating;
     }
 
@@ -237,20 +272,17 @@ export class RatingEngine {
 
     // Assign grade
     rating.grade = computeGrade(rating.truth_score);
-    rating.last_updated = new Date();
+    rating.last_updated = this.now();
 
     // Record history
-    const today = new Date().toISOString().split('T')[0];
+    const at = rating.last_updated.toISOString();
     rating.score_history.push({
-      date: today,
+      at,
+      date: at.split('T')[0],
       score: rating.truth_score,
       grade: rating.grade,
     });
-
-    // Keep last 90 days
-    if (rating.score_history.length > 90) {
-      rating.score_history.shift();
-    }
+    rating.score_history = downsampleHistory(rating.score_history, rating.last_updated);
 
     // Check for grade change
     if (previousGrade !== rating.grade && previousGrade !== 'NR') {
@@ -274,7 +306,7 @@ export class RatingEngine {
           consistency: rating.consistency_component,
           risk: rating.risk_component,
         },
-        created_at: new Date(),
+        created_at: this.now(),
       };
 
       const agentSnapshots = this.snapshots.get(agentId) || [];
@@ -309,7 +341,7 @@ export class RatingEngine {
     const rating = this.ratings.get(agentId);
     if (!rating || rating.score_history.length < 5) return 0.5;
 
-    const scores = rating.score_history.map(h => h.score);
+    const scores = rating.score_history.slice(-CONSISTENCY_WINDOW).map(h => h.score);
     const mean = scores.reduce((a, b) => a + b, 0) / scores.length;
     const variance = scores.reduce((sum, s) => sum + Math.pow(s - mean, 2), 0) / scores.length;
     const stdDev = Math.sqrt(variance);
@@ -353,6 +385,11 @@ export class RatingEngine {
   // TRADE PROCESSING
   // =========================================================================
 
+  private applyTrade(trade: any): void {
+    if (trade.buyer_id) this.recordTradeForAgent(trade.buyer_id, trade);
+    if (trade.seller_id) this.recordTradeForAgent(trade.seller_id, trade);
+  }
+
   private recordTradeForAgent(agentId: string, tradeData: any): void {
     let rating = this.ratings.get(agentId);
     if (!rating) {
@@ -360,10 +397,12 @@ export class RatingEngine {
     }
 
     rating.total_trades++;
-    rating.last_updated = new Date();
+    rating.last_updated = this.now();
+    this.markDirty(agentId);
 
     const isBuyer = tradeData.buyer_id === agentId;
-    const price = tradeData.price || 0.5;
+    // Trade prices arrive in micros; ratings work with probabilities
+    const price = tradeData.price ? fromMicros(tradeData.price) : 0.5;
 
     const pnlProxy = isBuyer ? (0.5 - price) * (tradeData.quantity || 1) * 0.1
                               : (price - 0.5) * (tradeData.quantity || 1) * 0.1;
@@ -383,13 +422,15 @@ export class RatingEngine {
       const prediction: AgentPrediction = {
         agentId,
         marketId,
+        outcome: String(tradeData.outcome ?? OutcomeToken.YES).toLowerCase(),
         predictedProbability: price,
         side: isBuyer ? 'buy' : 'sell',
-        timestamp: new Date(),
+        timestamp: this.now(),
       };
       const marketPredictions = this.predictions.get(marketId) || [];
       marketPredictions.push(prediction);
       this.predictions.set(marketId, marketPredictions);
+      this.markDirty(undefined, marketId);
     }
 
     rating.sharpe_ratio = this.calculateSharpeRatio(agentId);
@@ -404,31 +445,12 @@ export class RatingEngine {
     if (!settlementData.payouts) return;
 
     const marketId = settlementData.market_id || settlementData.marketId;
-    const resolvedOutcome: 'yes' | 'no' = settlementData.winning_outcome || settlementData.outcome || settlementData.resolved_outcome;
-    const actualOutcome = resolvedOutcome === 'yes' ? 1 : 0;
 
-    // Compute Brier scores for all agents who made predictions on this market
+    // Score the forecasts of every agent who made predictions on this market
     if (marketId) {
       const marketPredictions = this.predictions.get(marketId) || [];
-      const agentScores = new Map<string, number[]>();
 
-      for (const pred of marketPredictions) {
-        // The agent's implied probability of YES:
-        // buyers believe YES is likely (their predicted prob IS the price they paid)
-        // sellers believe NO is likely (their implied YES prob is 1 - price)
-        const impliedYesProbability = pred.side === 'buy'
-          ? pred.predictedProbability
-          : 1 - pred.predictedProbability;
-
-        const brierScore = Math.pow(impliedYesProbability - actualOutcome, 2);
-
-        const scores = agentScores.get(pred.agentId) || [];
-        scores.push(brierScore);
-        agentScores.set(pred.agentId, scores);
-      }
-
-      for (const [agentId, scores] of agentScores) {
-        const avgBrier = scores.reduce((a, b) => a + b, 0) / scores.length;
+      for (const [agentId, score] of scoreForecasts(settlementData, marketPredictions)) {
         let rating = this.ratings.get(agentId);
         if (!rating) {
           rating = this.initializeRating(agentId);
@@ -436,10 +458,12 @@ export class RatingEngine {
 
         // Running average: blend new Brier score with existing
         const existingWeight = Math.min(rating.total_trades, 50);
-        rating.brier_score = (rating.brier_score * existingWeight + avgBrier) / (existingWeight + 1);
+        rating.brier_score = (rating.brier_score * existingWeight + score) / (existingWeight + 1);
+        this.markDirty(agentId);
       }
 
       this.predictions.delete(marketId);
+      this.markDirty(undefined, marketId);
     }
 
     for (const payout of settlementData.payouts) {
@@ -449,10 +473,11 @@ export class RatingEngine {
         rating = this.initializeRating(agentId);
       }
 
-      rating.total_pnl += payout.profit_loss;
+      const profitLoss = fromMicros(payout.profit_loss);
+      rating.total_pnl += profitLoss;
 
       const pnls = this.pnlHistory.get(agentId) || [];
-      pnls.push(payout.profit_loss);
+      pnls.push(profitLoss);
       this.pnlHistory.set(agentId, pnls);
 
       rating.sharpe_ratio = this.calculateSharpeRatio(agentId);
@@ -509,6 +534,7 @@ export class RatingEngine {
 
     rating.certified = true;
     rating.certified_at = cert.issued_at;
+    this.markDirty(agentId);
 
     this.eventBus.publish('ratings.certified', {
       agent_id: agentId,
@@ -581,6 +607,173 @@ export class RatingEngine {
     this.pnlHistory.clear();
     this.predictions.clear();
   }
+
+  // =========================================================================
+  // PERSISTENCE
+  // =========================================================================
+
+  /**
+   * Write every rating change behind to a store, and log each rating input
+   */
+  attachStore(store: RatingStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Load persisted ratings and open predictions (agents and markets
+   * already in memory are kept)
+   */
+  async loadFromStore(): Promise<number> {
+    if (!this.store) return 0;
+
+    const { agents, predictions } = await this.store.load();
+    let loaded = 0;
+    for (const state of agents) {
+      const agentId = state.rating.agent_id;
+      if (this.ratings.has(agentId)) continue;
+      this.ratings.set(agentId, state.rating);
+      this.pnlHistory.set(agentId, state.pnl_history);
+      this.snapshots.set(agentId, state.snapshots);
+      this.certifications.set(agentId, state.certifications);
+      loaded++;
+    }
+
+    const byMarket = new Map<string, AgentPrediction[]>();
+    for (const prediction of predictions) {
+      if (this.predictions.has(prediction.marketId)) continue;
+      byMarket.set(prediction.marketId, [...(byMarket.get(prediction.marketId) ?? []), prediction]);
+    }
+    for (const [marketId, marketPredictions] of byMarket) {
+      this.predictions.set(marketId, marketPredictions);
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Resolves once every queued write has reached the store
+   */
+  flushStore(): Promise<void> {
+    return this.storeQueue;
+  }
+
+  /**
+   * Recompute every rating from a log of rating inputs, oldest first.
+   * Certifications are issued records rather than derived from trades, so
+   * they are kept. Ratings fed by the reputation ledger are not replayed.
+   */
+  rebuild(inputs: RatingInput[]): void {
+    const certifications = this.certifications;
+    this.reset();
+
+    try {
+      for (const input of inputs) {
+        this.replayAt = new Date(input.recorded_at);
+        if (input.kind === 'trade') {
+          this.applyTrade(input.payload);
+        } else {
+          this.processSettlement(input.payload);
+        }
+      }
+    } finally {
+      this.replayAt = undefined;
+    }
+
+    for (const [agentId, certs] of certifications) {
+      if (certs.length === 0) continue;
+      const rating = this.ratings.get(agentId) ?? this.initializeRating(agentId);
+      this.certifications.set(agentId, certs);
+      const latest = certs.filter(c => !c.revoked).at(-1);
+      rating.certified = latest !== undefined;
+      rating.certified_at = latest?.issued_at;
+    }
+  }
+
+  /**
+   * Rebuild from the attached store's input log and replace the stored
+   * ratings with the result
+   */
+  async rebuildFromStore(): Promise<{ inputs: number; agents: number }> {
+    if (!this.store) throw new Error('No rating store attached');
+
+    await this.loadFromStore();
+    const inputs = await this.store.loadInputs();
+    this.rebuild(inputs);
+
+    await this.flushStore();
+    await this.store.clear();
+    for (const agentId of this.ratings.keys()) this.markDirty(agentId);
+    for (const marketId of this.predictions.keys()) this.markDirty(undefined, marketId);
+    await this.flushStore();
+
+    return { inputs: inputs.length, agents: this.ratings.size };
+  }
+
+  /**
+   * The replayed input's time during a rebuild, otherwise now
+   */
+  private now(): Date {
+    return this.replayAt ? new Date(this.replayAt) : new Date();
+  }
+
+  private recordInput(kind: RatingInput['kind'], payload: unknown): void {
+    const store = this.store;
+    if (!store) return;
+
+    const input: RatingInput = { kind, payload, recorded_at: new Date().toISOString() };
+    this.storeQueue = this.storeQueue
+      .then(() => store.appendInput(input))
+      .catch(err => {
+        console.error(`[RatingEngine] Failed to log rating input: ${err.message}`);
+      });
+  }
+
+  /**
+   * Queue an agent's state or a market's open predictions for writing.
+   * Changes from one event are written together once it is processed.
+   */
+  private markDirty(agentId?: string, marketId?: string): void {
+    if (!this.store || this.replayAt) return;
+    if (agentId) this.dirtyAgents.add(agentId);
+    if (marketId) this.dirtyMarkets.add(marketId);
+    if (this.writeScheduled) return;
+
+    this.writeScheduled = true;
+    this.storeQueue = this.storeQueue.then(() => this.writeDirty());
+  }
+
+  private async writeDirty(): Promise<void> {
+    const store = this.store!;
+    const agents = [...this.dirtyAgents];
+    const markets = [...this.dirtyMarkets];
+    this.dirtyAgents.clear();
+    this.dirtyMarkets.clear();
+    this.writeScheduled = false;
+
+    for (const agentId of agents) {
+      const state = this.exportAgent(agentId);
+      if (!state) continue;
+      await store.saveAgent(state).catch(err => {
+        console.error(`[RatingEngine] Failed to persist rating of ${agentId}: ${err.message}`);
+      });
+    }
+    for (const marketId of markets) {
+      await store.savePredictions(marketId, this.predictions.get(marketId) ?? []).catch(err => {
+        console.error(`[RatingEngine] Failed to persist predictions of ${marketId}: ${err.message}`);
+      });
+    }
+  }
+
+  private exportAgent(agentId: string): StoredAgentRating | undefined {
+    const rating = this.ratings.get(agentId);
+    if (!rating) return undefined;
+    return structuredClone({
+      rating,
+      pnl_history: this.pnlHistory.get(agentId) ?? [],
+      snapshots: this.snapshots.get(agentId) ?? [],
+      certifications: this.certifications.get(agentId) ?? [],
+    });
+  }
 }
 
 // Singleton
@@ -592,3 +785,116 @@ export function getRatingEngine(eventBus: EventBus): RatingEngine {
   }
   return ratingEngine;
 }
+
+// ============================================================================
+// SCORE HISTORY
+// ============================================================================
+
+/**
+ * Keep every recent point, the last point of each day for a year and the
+ * last point of each week (from Monday, UTC) beyond that
+ */
+function downsampleHistory(history: ScorePoint[], now: Date): ScorePoint[] {
+  const kept: ScorePoint[] = [];
+  let lastBucket: string | undefined;
+
+  for (const point of history) {
+    const bucket = historyBucket(point, now);
+    if (bucket !== undefined && bucket === lastBucket) {
+      kept[kept.length - 1] = point;
+    } else {
+      kept.push(point);
+    }
+    lastBucket = bucket;
+  }
+  return kept;
+}
+
+function historyBucket(point: ScorePoint, now: Date): string | undefined {
+  const at = new Date(point.at);
+  const age = now.getTime() - at.getTime();
+  if (age <= RECENT_HISTORY_MS) return undefined;
+  if (age <= DAILY_HISTORY_MS) return `day:${point.date}`;
+
+  at.setUTCDate(at.getUTCDate() - ((at.getUTCDay() + 6) % 7));
+  return `week:${at.toISOString().split('T')[0]}`;
+}
+
+// ============================================================================
+// FORECAST SCORING
+// ============================================================================
+
+/**
+ * Each agent's forecast score on a settled market, 0 = perfect, 1 = worst
+ *
+ * A trade implies a probability for the traded outcome: the price for the
+ * buyer and its complement for the seller. Binary and categorical markets
+ * average a Brier score per prediction; a scalar market scores the agent's
+ * implied values (the long payout they traded at) together by CRPS.
+ */
+function scoreForecasts(settlement: any, predictions: AgentPrediction[]): Map<string, number> {
+  const byAgent = new Map<string, AgentPrediction[]>();
+  for (const pred of predictions) {
+    byAgent.set(pred.agentId, [...(byAgent.get(pred.agentId) ?? []), pred]);
+  }
+
+  const resolved: string = settlement.winning_outcome || settlement.outcome || settlement.resolved_outcome;
+  const scores = new Map<string, number>();
+
+  for (const [agentId, preds] of byAgent) {
+    if (settlement.market_type === MarketType.SCALAR && settlement.long_payout !== undefined) {
+      const values = preds.map(impliedYesProbability);
+      scores.set(agentId, crps(values, settlement.long_payout / ONE_SHARE));
+      continue;
+    }
+
+    const briers = settlement.market_type === MarketType.CATEGORICAL
+      ? preds.map(pred => categoricalBrier(pred, settlement.outcomes ?? [], resolved))
+      : preds.map(pred => Math.pow(impliedYesProbability(pred) - (resolved === OutcomeToken.YES ? 1 : 0), 2));
+    scores.set(agentId, briers.reduce((a, b) => a + b, 0) / briers.length);
+  }
+
+  return scores;
+}
+
+/**
+ * Implied probability of YES (a scalar market's implied long payout):
+ * buying YES or selling NO at p implies p, the other two 1 - p
+ */
+function impliedYesProbability(pred: AgentPrediction): number {
+  const long = (pred.outcome === OutcomeToken.NO) !== (pred.side === 'buy');
+  return long ? pred.predictedProbability : 1 - pred.predictedProbability;
+}
+
+/**
+ * Multi-class Brier score halved to 0-1. The traded outcome gets the
+ * implied probability and the rest of the mass is spread evenly.
+ */
+function categoricalBrier(pred: AgentPrediction, outcomes: string[], resolved: string): number {
+  if (outcomes.length < 2) return 0.25;
+
+  const traded = pred.side === 'buy' ? pred.predictedProbability : 1 - pred.predictedProbability;
+  const others = (1 - traded) / (outcomes.length - 1);
+
+  let sum = 0;
+  for (const outcome of outcomes) {
+    const p = outcome === pred.outcome ? traded : others;
+    sum += Math.pow(p - (outcome === resolved ? 1 : 0), 2);
+  }
+  return sum / 2;
+}
+
+/**
+ * Continuous ranked probability score of an ensemble of forecasts in
+ * [0, 1] against the observation: E|X - y| - E|X - X'| / 2
+ */
+function crps(values: number[], observed: number): number {
+  const n = values.length;
+  let error = 0;
+  let spread = 0;
+  for (const x of values) {
+    error += Math.abs(x - observed);
+    for (const other of values) spread += Math.abs(x - other);
+  }
+  return error / n - spread / (2 * n * n);
+}
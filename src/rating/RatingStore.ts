@@ -0,0 +1,158 @@
+/**
+ * TRUTH-NET Rating Store
+ * Durable ratings, rating history, certifications and rating inputs
+ *
+ * RatingEngine writes every changed agent behind to a store, so grades and
+ * certifications survive a redeploy. It also appends each input it rates
+ * from (trades.executed, settlements.completed) to an input log: replaying
+ * that log through a fresh engine (`npm run ratings:rebuild`) recomputes
+ * every rating from the settled-trade history.
+ *
+ * Backends (RATING_STORE):
+ * - file     (default): JSON documents and a JSON-lines input log in RATING_DIR
+ * - postgres : rating_agents, rating_predictions and rating_inputs tables
+ *              (migration 0005_ratings; see persistence/PostgresRatingStore)
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { reviveDates } from '../engine/journal/EngineJournal.js';
+import { PostgresRatingStore } from '../persistence/PostgresRatingStore.js';
+import type { AgentPrediction, AgentRating, Certification, RatingSnapshot } from './RatingEngine.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Everything RatingEngine holds about one agent
+ */
+export interface StoredAgentRating {
+  rating: AgentRating;
+  pnl_history: number[];
+  snapshots: RatingSnapshot[];
+  certifications: Certification[];
+}
+
+/**
+ * An event the ratings were computed from, as the engine received it
+ */
+export interface RatingInput {
+  kind: 'trade' | 'settlement';
+  payload: any;
+  recorded_at: string;
+}
+
+export interface RatingStore {
+  saveAgent(state: StoredAgentRating): Promise<void>;
+  /** Replace the open predictions of a market; none deletes them */
+  savePredictions(marketId: string, predictions: AgentPrediction[]): Promise<void>;
+  appendInput(input: RatingInput): Promise<void>;
+  load(): Promise<{ agents: StoredAgentRating[]; predictions: AgentPrediction[] }>;
+  /** Inputs, oldest first */
+  loadInputs(): Promise<RatingInput[]>;
+  /** Drop agents and predictions, keeping the input log (before a rebuild) */
+  clear(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export type RatingStoreDriver = 'file' | 'postgres';
+
+/**
+ * Store selected by RATING_STORE, or undefined when ratings are not persisted
+ */
+export function createRatingStore(
+  driver: string | undefined = process.env.RATING_STORE,
+  dir: string = process.env.RATING_DIR || 'data/ratings'
+): RatingStore | undefined {
+  if (driver === 'postgres') return new PostgresRatingStore();
+  if (driver === 'file') return new FileRatingStore(dir);
+  if (driver) throw new Error(`Unknown RATING_STORE '${driver}' (file or postgres)`);
+  return undefined;
+}
+
+/**
+ * Dates come back from JSON as strings
+ */
+export function reviveAgentRating(state: StoredAgentRating): StoredAgentRating {
+  reviveDates(state.rating, ['certified_at', 'last_updated', 'rating_period_start', 'rating_period_end']);
+  state.snapshots.forEach(s => reviveDates(s, ['created_at']));
+  state.certifications.forEach(c => reviveDates(c, ['issued_at', 'expires_at']));
+  return state;
+}
+
+// ============================================================================
+// FILE STORE
+// ============================================================================
+
+/**
+ * On disk (RATING_DIR):
+ *   agents/<agent_id>.json        StoredAgentRating
+ *   predictions/<market_id>.json  Open predictions of an unsettled market
+ *   inputs.log                    One RatingInput per line, oldest first
+ */
+export class FileRatingStore implements RatingStore {
+  constructor(private dir: string) {
+    for (const sub of ['agents', 'predictions']) {
+      fs.mkdirSync(path.join(this.dir, sub), { recursive: true });
+    }
+  }
+
+  async saveAgent(state: StoredAgentRating): Promise<void> {
+    this.writeJson(path.join(this.dir, 'agents', fileName(state.rating.agent_id)), state);
+  }
+
+  async savePredictions(marketId: string, predictions: AgentPrediction[]): Promise<void> {
+    const file = path.join(this.dir, 'predictions', fileName(marketId));
+    if (predictions.length > 0) {
+      this.writeJson(file, predictions);
+    } else {
+      fs.rmSync(file, { force: true });
+    }
+  }
+
+  async appendInput(input: RatingInput): Promise<void> {
+    fs.appendFileSync(path.join(this.dir, 'inputs.log'), `${JSON.stringify(input)}\n`);
+  }
+
+  async load(): Promise<{ agents: StoredAgentRating[]; predictions: AgentPrediction[] }> {
+    const agents = this.readAll<StoredAgentRating>('agents').map(reviveAgentRating);
+    const predictions = this.readAll<AgentPrediction[]>('predictions')
+      .flat()
+      .map(p => reviveDates(p, ['timestamp']));
+    return { agents, predictions };
+  }
+
+  async loadInputs(): Promise<RatingInput[]> {
+    const file = path.join(this.dir, 'inputs.log');
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line));
+  }
+
+  async clear(): Promise<void> {
+    for (const sub of ['agents', 'predictions']) {
+      fs.rmSync(path.join(this.dir, sub), { recursive: true, force: true });
+      fs.mkdirSync(path.join(this.dir, sub), { recursive: true });
+    }
+  }
+
+  private writeJson(file: string, value: unknown): void {
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(value));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  private readAll<T>(sub: string): T[] {
+    const dir = path.join(this.dir, sub);
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+  }
+}
+
+function fileName(id: string): string {
+  return `${encodeURIComponent(id)}.json`;
+}
@@ -0,0 +1,41 @@
+/**
+ * TRUTH-NET Rating Rebuild
+ *
+ * Recomputes every rating from the rating store's input log (the trades
+ * and settlements RatingEngine has rated) and replaces the stored ratings
+ * with the result. Certifications are kept. Run it with the API stopped,
+ * or the running engine will overwrite the rebuilt ratings.
+ *
+ * Usage:
+ *   RATING_STORE=file npm run ratings:rebuild      # RATING_DIR, default data/ratings
+ *   RATING_STORE=postgres npm run ratings:rebuild  # after `npm run db:migrate`
+ */
+
+import 'dotenv/config';
+import { pathToFileURL } from 'node:url';
+import { EventBus } from '../events/EventBus.js';
+import { RatingEngine } from './RatingEngine.js';
+import { createRatingStore } from './RatingStore.js';
+
+async function main(): Promise<void> {
+  const store = createRatingStore();
+  if (!store) {
+    throw new Error('Set RATING_STORE to file or postgres');
+  }
+
+  try {
+    const engine = new RatingEngine(new EventBus());
+    engine.attachStore(store);
+    const { inputs, agents } = await engine.rebuildFromStore();
+    console.log(`[Ratings] Rebuilt ${agents} agent ratings from ${inputs} inputs`);
+  } finally {
+    await store.close?.();
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(error => {
+    console.error(`[Ratings] ${error.message}`);
+    process.exit(1);
+  });
+}
@@ -11,6 +11,7 @@
 
 import { SettlementResult } from '../types.js';
 import { EventBus } from '../events/EventBus.js';
+import { fromMicros } from '../engine/money/Money.js';
 
 export interface ReputationConfig {
   // Base truth score for new agents
@@ -191,9 +192,15 @@ export class ReputationEngine {
    * Process a market settlement and update agent reputations
    */
   private processSettlement(result: SettlementResult): void {
-    const totalVolume = result.payouts.reduce((sum, p) => sum + Math.abs(p.amount), 0);
-
-    for (const payout of result.payouts) {
+    // Settlement amounts arrive in micros
+    const payouts = result.payouts.map(p => ({
+      ...p,
+      amount: fromMicros(p.amount),
+      profit_loss: fromMicros(p.profit_loss),
+    }));
+    const totalVolume = payouts.reduce((sum, p) => sum + Math.abs(p.amount), 0);
+
+    for (const payout of payouts) {
       const agentId = payout.agent_id;
       this.initializeAgent(agentId);
 
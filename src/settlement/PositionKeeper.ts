@@ -0,0 +1,331 @@
+/**
+ * TRUTH-NET Position Keeper
+ * Live per-agent, per-market, per-outcome positions
+ *
+ * Every trades.executed updates both sides: the buyer acquires shares of
+ * the traded outcome at the trade price, the seller acquires the opposite
+ * outcome at the complement (selling YES is buying NO, exactly as escrow
+ * collateralises it). In a categorical market the opposite of outcome
+ * "id" is its negation "!id" (see markets/outcomes).
+ *
+ * Holding YES and NO in the same market is netted: shares acquired against
+ * an opposite holding close complete sets. Each closed set is worth one
+ * share value at settlement whatever the outcome, so closing realizes
+ * P&L on the reduced position and the set value becomes `redeemable`.
+ *
+ * Settlement pays each position what its shares pay (1.00 for a winning
+ * share, the linear payout in a scalar market) plus its redeemable sets;
+ * the sum equals the market's trade escrow.
+ *
+ * Amounts and prices are integer micros.
+ */
+
+import { EventBus } from '../events/EventBus.js';
+import { Outcome, Position } from '../types.js';
+import { holdsOutcome, oppositeOutcome, ResolvedOutcome, sharePayout } from '../markets/outcomes.js';
+import { engineClock } from '../engine/journal/EngineClock.js';
+import { EngineJournal, reviveDates } from '../engine/journal/EngineJournal.js';
+import { Micros, complementPrice, divRound, notional, shareValue } from '../engine/money/Money.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Durable storage for positions, written behind like wallets
+ */
+export interface PositionStore {
+  savePosition(position: Position): Promise<void>;
+  loadPositions(): Promise<Position[]>;
+}
+
+export interface PositionSettlement {
+  position: Position;
+  won: boolean;
+  payout: Micros;       // What the shares pay plus redeemable sets
+  profit_loss: Micros;  // Realized over the life of the position
+}
+
+// ============================================================================
+// POSITION KEEPER
+// ============================================================================
+
+export class PositionKeeper {
+  private positions: Map<string, Position> = new Map(); // agent:market:outcome → position
+  private marks: Map<string, Micros> = new Map();       // market:outcome → last trade price
+  private store?: PositionStore;
+  private storeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private eventBus: EventBus) {
+    this.eventBus.subscribe('trades.executed', (data: any) => {
+      this.applyTrade(data.trade || data);
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // Trades
+  // -------------------------------------------------------------------------
+
+  private applyTrade(trade: any): void {
+    const outcome = toOutcome(trade.outcome);
+    const opposite = oppositeOutcome(outcome);
+    const cost = notional(trade.price, trade.quantity);
+
+    this.acquire(trade.buyer_id, trade.market_id, outcome, trade.quantity, cost);
+    this.acquire(trade.seller_id, trade.market_id, opposite, trade.quantity, shareValue(trade.quantity) - cost);
+
+    this.marks.set(markKey(trade.market_id, outcome), trade.price);
+    this.marks.set(markKey(trade.market_id, opposite), complementPrice(trade.price));
+  }
+
+  /**
+   * Add shares to an agent's position, first closing complete sets against
+   * any opposite holding
+   */
+  private acquire(agentId: string, marketId: string, outcome: Outcome, quantity: number, cost: Micros): void {
+    const opposite = this.positions.get(positionKey(agentId, marketId, oppositeOutcome(outcome)));
+    const closing = Math.min(quantity, opposite?.quantity ?? 0);
+    let remainingCost = cost;
+
+    if (opposite && closing > 0) {
+      const closingCost = divRound(cost * closing, quantity);
+      const basis = divRound(opposite.total_cost * closing, opposite.quantity);
+      const setValue = shareValue(closing);
+
+      opposite.quantity -= closing;
+      opposite.total_cost -= basis;
+      opposite.avg_entry_price = opposite.quantity > 0 ? divRound(opposite.total_cost, opposite.quantity) : undefined;
+      opposite.redeemable += setValue;
+      opposite.realized_pnl += setValue - basis - closingCost;
+      this.touch(opposite);
+
+      remainingCost -= closingCost;
+    }
+
+    const rest = quantity - closing;
+    if (rest > 0) {
+      const position = this.getOrCreate(agentId, marketId, outcome);
+      position.quantity += rest;
+      position.total_cost += remainingCost;
+      position.avg_entry_price = divRound(position.total_cost, position.quantity);
+      this.touch(position);
+    }
+  }
+
+  private getOrCreate(agentId: string, marketId: string, outcome: Outcome): Position {
+    const key = positionKey(agentId, marketId, outcome);
+    let position = this.positions.get(key);
+    if (!position) {
+      const now = engineClock.now();
+      position = {
+        id: engineClock.newId(),
+        agent_id: agentId,
+        market_id: marketId,
+        outcome,
+        quantity: 0,
+        total_cost: 0,
+        realized_pnl: 0,
+        redeemable: 0,
+        created_at: now,
+        updated_at: now,
+      };
+      this.positions.set(key, position);
+    }
+    return position;
+  }
+
+  private touch(position: Position): void {
+    position.updated_at = engineClock.now();
+    this.persist(position);
+  }
+
+  // -------------------------------------------------------------------------
+  // Settlement
+  // -------------------------------------------------------------------------
+
+  /**
+   * What every position in a resolved market would be paid, without closing
+   * any of them
+   */
+  previewSettlement(marketId: string, resolution: Omit<ResolvedOutcome, 'value'>): PositionSettlement[] {
+    return this.settlements(marketId, resolution).map(([, settlement]) => settlement);
+  }
+
+  /**
+   * Pay out and close every position in a resolved market
+   */
+  settle(marketId: string, resolution: Omit<ResolvedOutcome, 'value'>): PositionSettlement[] {
+    return this.settlements(marketId, resolution).map(([position, settlement]) => {
+      position.realized_pnl = settlement.profit_loss;
+      this.flatten(position);
+      return settlement;
+    });
+  }
+
+  private settlements(
+    marketId: string,
+    resolution: Omit<ResolvedOutcome, 'value'>
+  ): Array<[Position, PositionSettlement]> {
+    return this.getMarketPositions(marketId).map(position => {
+      const won = holdsOutcome(position.outcome, resolution.outcome);
+      const winnings = position.quantity > 0 ? notional(sharePayout(position.outcome, resolution), position.quantity) : 0;
+      const payout = winnings + position.redeemable;
+      const profit_loss = position.realized_pnl + winnings - position.total_cost;
+
+      return [position, { position: { ...position, realized_pnl: profit_loss }, won, payout, profit_loss }];
+    });
+  }
+
+  /**
+   * Close every position in a cancelled market at cost: all collateral is
+   * refunded, so nothing is realized
+   */
+  unwind(marketId: string): void {
+    for (const position of this.getMarketPositions(marketId)) {
+      position.realized_pnl = 0;
+      this.flatten(position);
+    }
+  }
+
+  private flatten(position: Position): void {
+    position.quantity = 0;
+    position.total_cost = 0;
+    position.avg_entry_price = undefined;
+    position.redeemable = 0;
+    this.touch(position);
+  }
+
+  // -------------------------------------------------------------------------
+  // Queries
+  // -------------------------------------------------------------------------
+
+  getPosition(agentId: string, marketId: string, outcome: Outcome): Position | undefined {
+    return this.positions.get(positionKey(agentId, marketId, outcome));
+  }
+
+  /**
+   * An agent's positions, including closed ones that carry realized P&L
+   */
+  getAgentPositions(agentId: string, marketId?: string): Position[] {
+    return [...this.positions.values()].filter(p =>
+      p.agent_id === agentId && (!marketId || p.market_id === marketId)
+    );
+  }
+
+  /**
+   * Positions in a market that still hold shares or redeemable sets
+   */
+  getMarketPositions(marketId: string): Position[] {
+    return [...this.positions.values()]
+      .filter(p => p.market_id === marketId && (p.quantity > 0 || p.redeemable > 0))
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Last traded price of an outcome (derived from either side's trades)
+   */
+  getMarkPrice(marketId: string, outcome: Outcome): Micros | undefined {
+    return this.marks.get(markKey(marketId, outcome));
+  }
+
+  /**
+   * Mark-to-market P&L of the shares still held
+   */
+  getUnrealizedPnl(position: Position): Micros {
+    const mark = this.getMarkPrice(position.market_id, position.outcome);
+    if (mark === undefined || position.quantity === 0) return 0;
+    return notional(mark, position.quantity) - position.total_cost;
+  }
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+
+  /**
+   * Write every position change through to a store
+   */
+  attachStore(store: PositionStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Load persisted positions (positions already in memory are kept)
+   */
+  async loadFromStore(): Promise<number> {
+    if (!this.store) return 0;
+
+    let loaded = 0;
+    for (const position of await this.store.loadPositions()) {
+      const key = positionKey(position.agent_id, position.market_id, position.outcome);
+      if (this.positions.has(key)) continue;
+      this.positions.set(key, position);
+      loaded++;
+    }
+    return loaded;
+  }
+
+  /**
+   * Resolves once every queued write has reached the store
+   */
+  flushStore(): Promise<void> {
+    return this.storeQueue;
+  }
+
+  private persist(position: Position): void {
+    const store = this.store;
+    if (!store) return;
+
+    const snapshot = { ...position };
+    this.storeQueue = this.storeQueue
+      .then(() => store.savePosition(snapshot))
+      .catch(err => {
+        console.error(`[PositionKeeper] Failed to persist position ${position.id}: ${err.message}`);
+      });
+  }
+
+  // -------------------------------------------------------------------------
+  // Journal and Snapshots
+  // -------------------------------------------------------------------------
+
+  /**
+   * Include positions in snapshots. Nothing is journaled here: positions
+   * are rebuilt from trades.executed and settlements as commands replay.
+   */
+  attachJournal(journal: EngineJournal): void {
+    journal.addParticipant('positions', this);
+  }
+
+  toSnapshot(): unknown {
+    const sorted = <V>(map: Map<string, V>) => [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
+    return {
+      positions: sorted(this.positions).map(([, p]) => p),
+      marks: sorted(this.marks),
+    };
+  }
+
+  restoreSnapshot(state: unknown): void {
+    const saved = state as { positions: Position[]; marks: Array<[string, Micros]> };
+
+    this.positions = new Map(saved.positions.map(p => {
+      const position = reviveDates({ ...p }, ['created_at', 'updated_at']);
+      return [positionKey(p.agent_id, p.market_id, p.outcome), position];
+    }));
+    this.marks = new Map(saved.marks);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function positionKey(agentId: string, marketId: string, outcome: string): string {
+  return `${agentId}:${marketId}:${outcome}`;
+}
+
+function markKey(marketId: string, outcome: string): string {
+  return `${marketId}:${outcome}`;
+}
+
+function toOutcome(outcome: unknown): Outcome {
+  return String(outcome ?? 'yes').toLowerCase();
+}
@@ -7,15 +7,29 @@
  *   markets.resolved → SettlementService → settlements.completed → RatingEngine
  *
  * When a market resolves:
- * 1. Collect all trades for that market
+ * 1. Take the market's live positions from the PositionKeeper
  * 2. Determine winners (held correct outcome) and losers
- * 3. Calculate payouts (winners get 1.0 per share, losers get 0)
+ * 3. Calculate payouts (winners get 1.0 per share, closed sets 1.0 each)
  * 4. Move funds via EscrowLedger
  * 5. Publish settlements.completed for RatingEngine
+ *
+ * Settlement is idempotent: a market is settled at most once however many
+ * times markets.resolved fires.
+ *
+ * A cancelled market is unwound instead: every trade is refunded at cost
+ * and settlements.unwound is published.
+ *
+ * Prices, costs, payouts and P&L are integer micros, as in the trades the
+ * matching engine emits.
  */
 
 import { EventBus } from '../events/EventBus.js';
 import { EscrowLedger } from '../engine/escrow/EscrowLedger.js';
+import { engineClock } from '../engine/journal/EngineClock.js';
+import { EngineJournal, reviveDates } from '../engine/journal/EngineJournal.js';
+import { Micros } from '../engine/money/Money.js';
+import { MarketResolvedEvent } from '../types.js';
+import { PositionKeeper } from './PositionKeeper.js';
 
 // ============================================================================
 // TYPES
@@ -27,35 +41,28 @@ interface TradeRecord {
   buyer_id: string;
   seller_id: string;
   outcome: string; // 'yes' | 'no'
-  price: number;
+  price: Micros;
   quantity: number;
+  match_type?: string; // 'direct' | 'mint' | 'burn'
   executed_at: Date;
 }
 
-interface Position {
-  agent_id: string;
-  outcome: string;
-  quantity: number;       // Net shares held
-  avg_price: number;      // Weighted average entry price
-  total_cost: number;     // Total capital deployed
-}
-
 interface SettlementPayout {
   agent_id: string;
   market_id: string;
   outcome: string;
   quantity: number;
-  entry_price: number;
-  payout: number;
-  profit_loss: number;
+  entry_price: Micros;
+  payout: Micros;
+  profit_loss: Micros;
   won: boolean;
 }
 
 interface AgentSettlementRecord {
   market_id: string;
-  outcome: 'yes' | 'no';
-  payout: number;
-  profit_loss: number;
+  outcome: string;
+  payout: Micros;
+  profit_loss: Micros;
   settled_at: string;
   won: boolean;
 }
@@ -66,13 +73,15 @@ interface AgentSettlementRecord {
 
 export class SettlementService {
   private trades: Map<string, TradeRecord[]> = new Map(); // marketId → trades
-  private settledMarkets: Set<string> = new Set();
+  private settledMarkets: Set<string> = new Set(); // Settled or unwound; never pruned
   private agentSettlements: Map<string, AgentSettlementRecord[]> = new Map(); // agentId → records
-  private totalPayoutValue = 0;
+  private totalPayoutValue: Micros = 0;
+  private journal?: EngineJournal;
 
   constructor(
     private escrow: EscrowLedger,
     private eventBus: EventBus,
+    private positions: PositionKeeper = new PositionKeeper(eventBus),
   ) {
     // Track all trades as they happen
     this.eventBus.subscribe('trades.executed', (data: any) => {
@@ -80,12 +89,19 @@ export class SettlementService {
     });
 
     // When a market resolves, settle it
-    this.eventBus.subscribe('markets.resolved', (data: any) => {
+    this.eventBus.subscribe('markets.resolved', (data: MarketResolvedEvent) => {
       this.settleMarket(data).catch(err => {
         console.error(`[Settlement] Failed to settle market: ${err.message}`);
       });
     });
 
+    // When a market is cancelled, unwind its trades
+    this.eventBus.subscribe('markets.status_changed', async (data: any) => {
+      if (data.to === 'cancelled') {
+        await this.unwindMarket(data.market_id);
+      }
+    });
+
     console.log('[Settlement] Service initialized — listening for trades and resolutions');
   }
 
@@ -102,6 +118,7 @@ export class SettlementService {
       outcome: trade.outcome?.toLowerCase() || 'yes',
       price: trade.price,
       quantity: trade.quantity,
+      match_type: trade.match_type || 'direct',
       executed_at: new Date(trade.executed_at || Date.now()),
     };
 
@@ -118,119 +135,79 @@ export class SettlementService {
   }
 
   // =========================================================================
-  // POSITION AGGREGATION
+  // SETTLEMENT
   // =========================================================================
 
-  private aggregatePositions(marketId: string): Map<string, Position> {
-    const trades = this.trades.get(marketId) || [];
-    const positions = new Map<string, Position>();
-
-    for (const trade of trades) {
-      // Buyer gets shares of the outcome
-      const buyerKey = `${trade.buyer_id}:${trade.outcome}`;
-      const buyerPos = positions.get(buyerKey) || {
-        agent_id: trade.buyer_id,
-        outcome: trade.outcome,
-        quantity: 0,
-        avg_price: 0,
-        total_cost: 0,
-      };
-      const newBuyerQty = buyerPos.quantity + trade.quantity;
-      buyerPos.total_cost += trade.price * trade.quantity;
-      buyerPos.avg_price = buyerPos.total_cost / newBuyerQty;
-      buyerPos.quantity = newBuyerQty;
-      positions.set(buyerKey, buyerPos);
-
-      // Seller gets shares of the OPPOSITE outcome (in prediction markets,
-      // selling YES = buying NO, effectively)
-      const sellerOutcome = trade.outcome === 'yes' ? 'no' : 'yes';
-      const sellerKey = `${trade.seller_id}:${sellerOutcome}`;
-      const sellerPos = positions.get(sellerKey) || {
-        agent_id: trade.seller_id,
-        outcome: sellerOutcome,
-        quantity: 0,
-        avg_price: 0,
-        total_cost: 0,
-      };
-      const newSellerQty = sellerPos.quantity + trade.quantity;
-      sellerPos.total_cost += (1 - trade.price) * trade.quantity;
-      sellerPos.avg_price = sellerPos.total_cost / newSellerQty;
-      sellerPos.quantity = newSellerQty;
-      positions.set(sellerKey, sellerPos);
-    }
-
-    return positions;
+  async settleMarket(resolution: MarketResolvedEvent): Promise<SettlementPayout[]> {
+    if (!this.journal) return this.applySettlement(resolution);
+    return this.journal.record('market.resolve', [resolution], () =>
+      this.applySettlement(resolution)
+    );
   }
 
-  // =========================================================================
-  // SETTLEMENT
-  // =========================================================================
-
-  async settleMarket(resolutionData: any): Promise<SettlementPayout[]> {
-    const marketId = resolutionData.market_id || resolutionData.marketId;
+  private async applySettlement(resolution: MarketResolvedEvent): Promise<SettlementPayout[]> {
+    const marketId = resolution.market_id;
     if (!marketId) {
       console.error('[Settlement] No market_id in resolution data');
       return [];
     }
 
-    // Prevent double settlement
+    // Prevent double settlement. Claimed before the first await so a
+    // concurrent duplicate resolution cannot slip past, and released again
+    // if the payouts fail so the market can be retried.
     if (this.settledMarkets.has(marketId)) {
       console.log(`[Settlement] Market ${marketId} already settled, skipping`);
       return [];
     }
+    this.settledMarkets.add(marketId);
 
-    const trades = this.trades.get(marketId);
-    if (!trades || trades.length === 0) {
-      console.log(`[Settlement] No trades for market ${marketId}`);
-      this.settledMarkets.add(marketId);
+    const trades = this.trades.get(marketId) || [];
+    const winningOutcome = resolution.outcome;
+    const settled = this.positions.previewSettlement(marketId, resolution);
+    if (settled.length === 0) {
+      console.log(`[Settlement] No positions for market ${marketId}`);
       return [];
     }
 
-    // Determine winning outcome
-    const winningOutcome = this.determineWinningOutcome(resolutionData);
     console.log(`[Settlement] Settling market ${marketId} — outcome: ${winningOutcome} — ${trades.length} trades`);
 
-    // Aggregate positions
-    const positions = this.aggregatePositions(marketId);
-
-    // Calculate payouts
-    const payouts: SettlementPayout[] = [];
-
-    for (const [_key, position] of positions) {
-      const won = position.outcome === winningOutcome;
-      const payout = won ? position.quantity * 1.0 : 0; // Winners get $1/share
-      const profitLoss = payout - position.total_cost;
-
-      payouts.push({
-        agent_id: position.agent_id,
-        market_id: marketId,
-        outcome: position.outcome,
-        quantity: position.quantity,
-        entry_price: position.avg_price,
-        payout,
-        profit_loss: profitLoss,
-        won,
-      });
-
-      // Process fund movements
-      try {
-        if (won && payout > 0) {
-          // Credit winner
-          await this.escrow.deposit(position.agent_id, payout, `Settlement win: market ${marketId}`);
-        }
-        // Losers already had funds locked/transferred during trade execution
-      } catch (err: any) {
-        console.error(`[Settlement] Failed to process payout for ${position.agent_id}: ${err.message}`);
-      }
+    // Calculate payouts: winning shares pay $1 each (a scalar market's
+    // shares their linear payout), closed sets $1 each
+    const payouts: SettlementPayout[] = settled.map(({ position, won, payout, profit_loss }) => ({
+      agent_id: position.agent_id,
+      market_id: marketId,
+      outcome: position.outcome,
+      quantity: position.quantity,
+      entry_price: position.avg_entry_price ?? 0,
+      payout,
+      profit_loss,
+      won,
+    }));
+
+    // Pay out of the trades' escrowed collateral. Losers already had their
+    // funds transferred into trade escrow during execution; a losing
+    // position still collects its redeemable sets and, in a scalar market,
+    // its share of the range. Positions are only closed once funds moved.
+    try {
+      await this.escrow.settleMarketEscrows(
+        marketId,
+        trades.map(t => t.id),
+        payouts.filter(p => p.payout > 0).map(p => ({ agent_id: p.agent_id, amount: p.payout }))
+      );
+    } catch (err: any) {
+      this.settledMarkets.delete(marketId);
+      console.error(`[Settlement] Failed to process payouts for market ${marketId}: ${err.message}`);
+      throw err;
     }
+    this.positions.settle(marketId, resolution);
 
     // Store per-agent settlement records
-    const settledAt = new Date().toISOString();
+    const settledAt = engineClock.now().toISOString();
     for (const p of payouts) {
       const records = this.agentSettlements.get(p.agent_id) || [];
       records.push({
         market_id: p.market_id,
-        outcome: p.outcome as 'yes' | 'no',
+        outcome: p.outcome,
         payout: p.payout,
         profit_loss: p.profit_loss,
         settled_at: settledAt,
@@ -240,15 +217,16 @@ export class SettlementService {
       this.totalPayoutValue += p.payout;
     }
 
-    // Mark as settled
-    this.settledMarkets.add(marketId);
-
     // Publish settlement event — this is what RatingEngine is waiting for
-    this.eventBus.publish('settlements.completed', {
+    await this.eventBus.publish('settlements.completed', {
       market_id: marketId,
       winning_outcome: winningOutcome,
+      market_type: resolution.market_type,
+      outcomes: resolution.outcomes,
+      value: resolution.value,
+      long_payout: resolution.long_payout,
       total_trades: trades.length,
-      total_positions: positions.size,
+      total_positions: payouts.length,
       payouts: payouts.map(p => ({
         agent_id: p.agent_id,
         market_id: p.market_id,
@@ -258,44 +236,106 @@ export class SettlementService {
         profit_loss: p.profit_loss,
         won: p.won,
       })),
-      settled_at: new Date().toISOString(),
+      settled_at: settledAt,
     });
 
     console.log(`[Settlement] Market ${marketId} settled — ${payouts.length} positions, ` +
       `${payouts.filter(p => p.won).length} winners, ${payouts.filter(p => !p.won).length} losers`);
 
-    // Clean up trade history for this market (save memory)
-    if (this.settledMarkets.size > 100) {
-      let removed = 0;
-      for (const id of this.settledMarkets) {
-        if (removed >= 20) break;
-        this.trades.delete(id);
-        this.settledMarkets.delete(id);
-        removed++;
-      }
-    }
+    // Settled trades are no longer needed; the market stays marked settled
+    this.trades.delete(marketId);
 
     return payouts;
   }
 
   // =========================================================================
-  // HELPERS
+  // CANCELLATION
   // =========================================================================
 
-  private determineWinningOutcome(resolutionData: any): string {
-    // The oracle resolution can come in several formats
-    if (resolutionData.outcome) return resolutionData.outcome.toLowerCase();
-    if (resolutionData.winning_outcome) return resolutionData.winning_outcome.toLowerCase();
-    if (resolutionData.result === true || resolutionData.result === 'yes') return 'yes';
-    if (resolutionData.result === false || resolutionData.result === 'no') return 'no';
-    // Default
-    return 'yes';
+  async unwindMarket(marketId: string): Promise<Array<{ agent_id: string; amount: Micros }>> {
+    if (!this.journal) return this.applyUnwind(marketId);
+    return this.journal.record('market.unwind', [marketId], () => this.applyUnwind(marketId));
+  }
+
+  private async applyUnwind(marketId: string): Promise<Array<{ agent_id: string; amount: Micros }>> {
+    if (this.settledMarkets.has(marketId)) {
+      console.log(`[Settlement] Market ${marketId} already settled, cannot unwind`);
+      return [];
+    }
+
+    // A cancelled market never settles
+    this.settledMarkets.add(marketId);
+
+    const trades = this.trades.get(marketId) || [];
+    this.positions.unwind(marketId);
+    const refunds = await this.escrow.refundMarketEscrows(marketId, trades.map(t => t.id));
+    this.trades.delete(marketId);
+
+    await this.eventBus.publish('settlements.unwound', {
+      market_id: marketId,
+      total_trades: trades.length,
+      refunds,
+      unwound_at: engineClock.now().toISOString(),
+    });
+
+    console.log(`[Settlement] Market ${marketId} cancelled — ${trades.length} trades unwound at cost`);
+    return refunds;
+  }
+
+  // =========================================================================
+  // JOURNAL AND SNAPSHOTS
+  // =========================================================================
+
+  /**
+   * Journal market resolutions and include settlement state (and live
+   * positions) in snapshots. Trades are not journaled here: they are
+   * rebuilt from trades.executed as the matching engine replays.
+   */
+  attachJournal(journal: EngineJournal): void {
+    this.journal = journal;
+    journal.register('market.resolve', (resolution: MarketResolvedEvent) => this.settleMarket(resolution));
+    journal.register('market.unwind', (marketId: string) => this.unwindMarket(marketId));
+    journal.addParticipant('settlement', this);
+    this.positions.attachJournal(journal);
+  }
+
+  toSnapshot(): unknown {
+    return {
+      trades: [...this.trades.entries()],
+      settled_markets: [...this.settledMarkets],
+      agent_settlements: [...this.agentSettlements.entries()],
+      total_payout_value: this.totalPayoutValue,
+    };
+  }
+
+  restoreSnapshot(state: unknown): void {
+    const saved = state as {
+      trades: Array<[string, TradeRecord[]]>;
+      settled_markets: string[];
+      agent_settlements: Array<[string, AgentSettlementRecord[]]>;
+      total_payout_value: number;
+    };
+
+    this.trades = new Map(saved.trades.map(([marketId, trades]) =>
+      [marketId, trades.map(t => reviveDates(t, ['executed_at']))]
+    ));
+    this.settledMarkets = new Set(saved.settled_markets);
+    this.agentSettlements = new Map(saved.agent_settlements);
+    this.totalPayoutValue = saved.total_payout_value;
   }
 
   // =========================================================================
   // PUBLIC API
   // =========================================================================
 
+  getPositionKeeper(): PositionKeeper {
+    return this.positions;
+  }
+
+  isSettled(marketId: string): boolean {
+    return this.settledMarkets.has(marketId);
+  }
+
   getTradesForMarket(marketId: string): TradeRecord[] {
     return this.trades.get(marketId) || [];
   }
@@ -342,7 +382,7 @@ export class SettlementService {
       totalSettlements: this.agentSettlements.size,
       totalMarketsResolved: this.settledMarkets.size,
       totalPayoutValue: this.totalPayoutValue,
-      active_markets: this.trades.size - this.settledMarkets.size,
+      active_markets: this.trades.size, // Trades are dropped once a market settles
       settled_markets: this.settledMarkets.size,
       total_trades_tracked: this.getTradeCount(),
     };
@@ -22,11 +22,13 @@ import { MatchingEngine } from '../engine/matcher/MatchingEngine.js';
 import { EscrowLedger } from '../engine/escrow/EscrowLedger.js';
 import { EventBus } from '../events/EventBus.js';
 import { getRatingEngine, RatingEngine } from '../rating/RatingEngine.js';
+import { fromMicros, toMicros } from '../engine/money/Money.js';
 
 // ============================================================================
 // MOCK AGENT STRATEGIES
 // ============================================================================
 
+// Strategies think in decimal prices; executeTick converts to micros
 type StrategyFunction = (
   agent: MockAgentConfig,
   market: Market,
@@ -34,6 +36,20 @@ type StrategyFunction = (
   engine: MatchingEngine
 ) => PlaceOrderRequest | null;
 
+/**
+ * Top of book in decimal prices
+ */
+function bestPrices(engine: MatchingEngine, marketId: string, outcome: OutcomeToken) {
+  const prices = engine.getBestPrices(marketId, outcome);
+  if (!prices) return null;
+  return {
+    bestBid: fromMicros(prices.bestBid),
+    bestAsk: fromMicros(prices.bestAsk),
+    midPrice: fromMicros(prices.midPrice),
+    lastTradePrice: fromMicros(prices.lastTradePrice),
+  };
+}
+
 /**
  * Random trading strategy - places random orders
  */
@@ -63,7 +79,7 @@ const randomStrategy: StrategyFunction = (agent, market) => {
  */
 const momentumStrategy: StrategyFunction = (agent, market, _state, engine) => {
   const outcome = Math.random() > 0.5 ? OutcomeToken.YES : OutcomeToken.NO;
-  const prices = engine.getBestPrices(market.id, outcome);
+  const prices = bestPrices(engine, market.id, outcome);
 
   if (!prices?.lastTradePrice) {
     return randomStrategy(agent, market, _state, engine);
@@ -93,7 +109,7 @@ const momentumStrategy: StrategyFunction = (agent, market, _state, engine) => {
  */
 const meanReversionStrategy: StrategyFunction = (agent, market, _state, engine) => {
   const outcome = Math.random() > 0.5 ? OutcomeToken.YES : OutcomeToken.NO;
-  const prices = engine.getBestPrices(market.id, outcome);
+  const prices = bestPrices(engine, market.id, outcome);
 
   const currentPrice = prices?.midPrice ?? prices?.lastTradePrice ?? 0.5;
 
@@ -127,7 +143,7 @@ const informedStrategy: StrategyFunction = (agent, market, _state, engine) => {
   const trueProbability = 0.5 + agent.confidence_bias;
   const outcome = OutcomeToken.YES;
 
-  const prices = engine.getBestPrices(market.id, outcome);
+  const prices = bestPrices(engine, market.id, outcome);
   const marketPrice = prices?.midPrice ?? 0.5;
 
   // If market undervalues YES, buy; if overvalues, sell
@@ -193,7 +209,7 @@ export class SimulationRunner {
     // Subscribe to trade events
     this.eventBus.subscribe<{ trade: Trade }>('trades.executed', (data) => {
       this.state.total_trades++;
-      this.state.total_volume += data.trade.price * data.trade.quantity;
+      this.state.total_volume += fromMicros(data.trade.price) * data.trade.quantity;
     });
   }
 
@@ -245,7 +261,7 @@ export class SimulationRunner {
     };
 
     // Create wallet
-    this.escrow.createWallet(agentId, initialBalance);
+    this.escrow.createWallet(agentId, toMicros(initialBalance));
 
     return config;
   }
@@ -353,7 +369,10 @@ export class SimulationRunner {
       if (!orderRequest) continue;
 
       try {
-        await this.engine.processOrder(agentConfig.id, market.id, orderRequest);
+        await this.engine.processOrder(agentConfig.id, market.id, {
+          ...orderRequest,
+          price: toMicros(orderRequest.price),
+        });
       } catch (error) {
         // Expected: insufficient funds, etc.
       }
@@ -406,7 +425,7 @@ export class SimulationRunner {
 
     for (const agent of sortedAgents.slice(0, 10)) {
       const wallet = wallets.get(agent.id);
-      const total = (wallet?.available ?? 0) + (wallet?.locked ?? 0);
+      const total = fromMicros((wallet?.available ?? 0) + (wallet?.locked ?? 0));
       const pnl = total - 10000; // Assuming 10k initial
       const pnlSign = pnl >= 0 ? '+' : '';
       console.log(
@@ -458,7 +477,7 @@ export class SimulationRunner {
     for (const agent of this.agents) {
       const balance = this.escrow.getBalance(agent.id);
       if (balance) {
-        total += balance.total;
+        total += fromMicros(balance.total);
       }
     }
     return total;
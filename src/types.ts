@@ -1,8 +1,13 @@
 /**
  * TRUTH-NET Core Type Definitions
  * AI Agent Rating Agency — All types designed for machine-readability and strict JSON schema compliance
+ *
+ * Engine entities (orders, trades, wallets, transactions) carry money and
+ * prices as integer micros; see engine/money/Money.ts.
  */
 
+import type { Micros } from './engine/money/Money.js';
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -30,6 +35,15 @@ export enum OrderSide {
 export enum OrderType {
   LIMIT = 'limit',
   MARKET = 'market',
+  STOP = 'stop',             // Becomes a market order once stop_price trades
+  STOP_LIMIT = 'stop_limit', // Becomes a limit order once stop_price trades
+}
+
+export enum TimeInForce {
+  GTC = 'gtc', // Good-til-cancelled (default)
+  IOC = 'ioc', // Immediate-or-cancel: fill what crosses, cancel the rest
+  FOK = 'fok', // Fill-or-kill: fill the whole quantity now or nothing
+  GTD = 'gtd', // Good-til-date: rests until expires_at
 }
 
 export enum OrderStatus {
@@ -42,11 +56,39 @@ export enum OrderStatus {
   REJECTED = 'rejected',
 }
 
+/**
+ * Outcomes of a binary market. A scalar market trades the same two tokens:
+ * YES is long the value and NO is short it.
+ */
 export enum OutcomeToken {
   YES = 'yes',
   NO = 'no',
 }
 
+/**
+ * An outcome token: YES / NO, or one of a categorical market's outcome ids.
+ * A categorical seller holds the negation "!id" (see markets/outcomes.ts).
+ */
+export type Outcome = OutcomeToken | string;
+
+export enum MarketType {
+  BINARY = 'binary',           // YES pays 1.00 when the condition holds
+  CATEGORICAL = 'categorical', // The one outcome that happens pays 1.00
+  SCALAR = 'scalar',           // Long / short a value, paid linearly between bounds
+}
+
+/**
+ * How a trade was matched:
+ * - direct: incoming order crossed the opposite side of the same outcome book
+ * - mint:   BUY YES crossed BUY NO (prices sum >= 1.00), a complete set is created
+ * - burn:   SELL YES crossed SELL NO (prices sum <= 1.00), the two shorts offset
+ */
+export enum MatchType {
+  DIRECT = 'direct',
+  MINT = 'mint',
+  BURN = 'burn',
+}
+
 export enum TransactionType {
   DEPOSIT = 'deposit',
   WITHDRAWAL = 'withdrawal',
@@ -56,19 +98,52 @@ export enum TransactionType {
   TRADE_CREDIT = 'trade_credit',
   SETTLEMENT_PAYOUT = 'settlement_payout',
   FEE = 'fee',
+  FEE_REBATE = 'fee_rebate',
+  BOND_SLASH = 'bond_slash',
+  MARGIN_REPAYMENT = 'margin_repayment',
 }
 
 // ============================================================================
 // RESOLUTION SCHEMA TYPES (Pillar A: Machine-Verifiable Oracle)
 // ============================================================================
 
-export type ConditionOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'exists';
+export type ConditionOperator =
+  | 'eq' | 'neq'              // Numeric when both sides are numbers (or numeric strings)
+  | 'ieq'                     // Case-insensitive string equality
+  | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'between'                 // value: [low, high], inclusive
+  | 'contains'                // Substring, or element of an array
+  | 'matches'                 // value: regular expression, with flags
+  | 'before' | 'after'        // Dates: ISO 8601 strings or epoch milliseconds
+  | 'exists';
 
-export interface ResolutionCondition {
+/**
+ * An operand: a literal, another JSONPath into the response, or
+ * arithmetic over JSONPaths and numbers (e.g. "$.close / $.open")
+ */
+export type ConditionValue =
+  | string
+  | number
+  | boolean
+  | { path: string }
+  | { expr: string };
+
+export interface ComparisonCondition {
   operator: ConditionOperator;
-  value: string | number | boolean;
+  left?: ConditionValue;    // Default: the value the schema extracts
+  value?: ConditionValue | [ConditionValue, ConditionValue];  // Pair for between; none for exists
+  flags?: string;           // matches only: any of i, m, s, u
 }
 
+/**
+ * A comparison, or AND / OR / NOT of conditions (see resolvers/conditions.ts)
+ */
+export type ResolutionCondition =
+  | ComparisonCondition
+  | { all: ResolutionCondition[] }
+  | { any: ResolutionCondition[] }
+  | { not: ResolutionCondition };
+
 export interface HttpJsonResolutionSchema {
   type: 'http_json';
   source_url: string;
@@ -76,9 +151,11 @@ export interface HttpJsonResolutionSchema {
   headers?: Record<string, string>;
   body?: Record<string, unknown>;
   json_path: string; // JSONPath expression e.g., "$.data.status"
-  condition: ResolutionCondition;
+  condition?: ResolutionCondition;  // Binary markets only; others resolve from the value
   retry_count?: number;
   timeout_ms?: number;
+  alternate_sources?: SourceResolutionSchema[]; // Re-resolve from these when challenged
+  challenge_window_ms?: number;                 // Overrides the default challenge window
 }
 
 export interface GraphQLResolutionSchema {
@@ -88,26 +165,73 @@ export interface GraphQLResolutionSchema {
   variables?: Record<string, unknown>;
   headers?: Record<string, string>;
   json_path: string;
-  condition: ResolutionCondition;
+  condition?: ResolutionCondition;  // Binary markets only; others resolve from the value
   retry_count?: number;
   timeout_ms?: number;
+  alternate_sources?: SourceResolutionSchema[];
+  challenge_window_ms?: number;
 }
 
+/** Schemas that resolve from an external source (see ResolutionChallenges). */
+export type SourceResolutionSchema = HttpJsonResolutionSchema | GraphQLResolutionSchema;
+
+/** Decided by signed resolver attestations (see AttestationService). */
 export interface BinaryResolutionSchema {
   type: 'binary';
   description?: string;
+  resolvers?: string[];       // Designated resolver ids (default: every registered resolver)
+  quorum?: number;            // Agreeing attestations needed (default: a majority)
+  dispute_window_ms?: number; // Time to contest a proposed outcome
 }
 
-/** Consensus across multiple HTTP JSON sources (see ProductionResolver). */
+/** One source of a multi_source schema. */
+export type WeightedSourceSchema = SourceResolutionSchema & {
+  weight?: number;     // Vote weight, scaled by the source's reliability (default 1)
+  source_id?: string;  // Identity for reliability tracking (default: its URL)
+};
+
+/** Weighted vote of several external sources. */
 export interface MultiSourceResolutionSchema {
   type: 'multi_source';
-  sources: HttpJsonResolutionSchema[];
+  sources: WeightedSourceSchema[];
+  min_agreement?: number;     // Sources that must agree (default: none beyond the weighted majority)
+  min_sources?: number;       // Sources that must respond (default 2)
+  max_disagreement?: number;  // Share of responding weight that may dissent before escalating (default 1/3)
+  challenge_window_ms?: number;
+}
+
+/** A metric of a public GitHub repository. */
+export interface GitHubResolutionSchema {
+  type: 'github';
+  repo: string;  // owner/name
+  metric: 'stars' | 'forks' | 'open_issues' | 'watchers';
+  condition?: ResolutionCondition;
+  challenge_window_ms?: number;
+}
+
+/** Current conditions at a location (OpenWeatherMap, imperial units). */
+export interface WeatherResolutionSchema {
+  type: 'weather';
+  lat: number;
+  lon: number;
+  metric: 'temp' | 'wind' | 'precip';
+  condition?: ResolutionCondition;
+  challenge_window_ms?: number;
+}
+
+/** Resolved by an operator (ProductionResolver.forceResolve). */
+export interface ManualResolutionSchema {
+  type: 'manual';
+  description?: string;
 }
 
 export type ResolutionSchema =
   | HttpJsonResolutionSchema
   | GraphQLResolutionSchema
   | MultiSourceResolutionSchema
+  | GitHubResolutionSchema
+  | WeatherResolutionSchema
+  | ManualResolutionSchema
   | BinaryResolutionSchema;
 
 // ============================================================================
@@ -142,8 +266,8 @@ export interface Wallet {
   id: string;
   agent_id: string;
   currency: string;
-  available: number;
-  locked: number;
+  available: Micros;
+  locked: Micros;
   created_at: Date;
   updated_at: Date;
 }
@@ -152,9 +276,9 @@ export interface WalletTransaction {
   id: string;
   wallet_id: string;
   tx_type: TransactionType;
-  amount: number;
-  balance_before: number;
-  balance_after: number;
+  amount: Micros;
+  balance_before: Micros;
+  balance_after: Micros;
   reference_type?: string;
   reference_id?: string;
   description?: string;
@@ -162,17 +286,44 @@ export interface WalletTransaction {
   created_at: Date;
 }
 
+/** Bounds of a scalar market; values outside them pay as the nearer bound */
+export interface ScalarRange {
+  lower: number;
+  upper: number;
+  unit?: string;
+}
+
+/**
+ * How a binary (or scalar) market's YES side relates to another's, as
+ * declared when it is created; the margin model only considers joint
+ * outcomes the declarations allow (clearinghouse/PortfolioRisk.ts)
+ */
+export type CorrelationRelation =
+  | 'same'       // This market resolves YES exactly when the other does
+  | 'opposite'   // This market resolves YES exactly when the other resolves NO
+  | 'implies'    // YES here means YES there
+  | 'excludes';  // Not both YES
+
+export interface MarketCorrelation {
+  market_id: string;
+  relation: CorrelationRelation;
+}
+
 export interface Market {
   id: string;
   ticker: string;
   title: string;
   description?: string;
+  market_type?: MarketType;     // Default binary
+  outcomes?: Outcome[];         // Categorical markets: the outcome ids
+  scalar_range?: ScalarRange;   // Scalar markets
   resolution_schema: ResolutionSchema;
   opens_at: Date;
   closes_at: Date;
   resolves_at: Date;
   status: MarketStatus;
-  outcome?: OutcomeToken;
+  outcome?: Outcome;
+  resolution_value?: number;    // Scalar markets: the resolved value
   resolution_data?: Record<string, unknown>;
   min_order_size: number;
   max_position: number;
@@ -184,6 +335,7 @@ export interface Market {
   last_price_no?: number;
   category?: string;
   tags: string[];
+  correlations?: MarketCorrelation[];
   metadata: Record<string, unknown>;
   created_at: Date;
   updated_at: Date;
@@ -195,15 +347,19 @@ export interface Order {
   agent_id: string;
   market_id: string;
   side: OrderSide;
-  outcome: OutcomeToken;
+  outcome: Outcome;
   order_type: OrderType;
-  price?: number; // 0.01 to 0.99 for limit orders
-  quantity: number;
+  price?: Micros; // 10_000 to 990_000 (0.01 to 0.99) for limit orders
+  quantity: number; // Whole shares
   filled_qty: number;
   remaining_qty: number;
-  locked_amount: number;
-  avg_fill_price?: number;
+  locked_amount: Micros;
+  avg_fill_price?: Micros;
   status: OrderStatus;
+  time_in_force: TimeInForce;
+  post_only?: boolean;
+  stop_price?: Micros; // Trigger price for stop / stop_limit orders
+  triggered_at?: Date;
   expires_at?: Date;
   client_order_id?: string;
   metadata: Record<string, unknown>;
@@ -219,11 +375,12 @@ export interface Trade {
   sell_order_id: string;
   buyer_id: string;
   seller_id: string;
-  outcome: OutcomeToken;
-  price: number;
+  outcome: Outcome;
+  price: Micros;
   quantity: number;
-  buyer_fee: number;
-  seller_fee: number;
+  buyer_fee: Micros;  // Negative for a maker rebate
+  seller_fee: Micros; // Negative for a maker rebate
+  match_type: MatchType;
   is_settled: boolean;
   settlement_id?: string;
   executed_at: Date;
@@ -234,11 +391,12 @@ export interface Position {
   id: string;
   agent_id: string;
   market_id: string;
-  outcome: OutcomeToken;
-  quantity: number;
-  avg_entry_price?: number;
-  total_cost: number;
-  realized_pnl: number;
+  outcome: Outcome;          // Includes negated categorical outcomes ("!id")
+  quantity: number;          // Shares held (never negative; see settlement/PositionKeeper.ts)
+  avg_entry_price?: Micros;  // Unset while flat
+  total_cost: Micros;        // Cost basis of the shares held
+  realized_pnl: Micros;
+  redeemable: Micros;        // Complete sets closed out, paid at settlement
   created_at: Date;
   updated_at: Date;
 }
@@ -263,6 +421,9 @@ export interface CreateMarketRequest {
   ticker: string;
   title: string;
   description?: string;
+  market_type?: MarketType;
+  outcomes?: Outcome[];
+  scalar_range?: ScalarRange;
   resolution_schema: ResolutionSchema;
   opens_at: string; // ISO 8601
   closes_at: string;
@@ -278,24 +439,32 @@ export interface CreateMarketRequest {
 export interface PlaceOrderRequest {
   market_id: string;
   side: OrderSide;
-  outcome: OutcomeToken;
+  outcome: Outcome;
   order_type: OrderType;
-  price?: number;
+  price?: Micros;
   quantity: number;
+  time_in_force?: TimeInForce;
+  post_only?: boolean;
+  stop_price?: Micros;
   expires_at?: string;
   client_order_id?: string;
   metadata?: Record<string, unknown>;
 }
 
+export interface AmendOrderRequest {
+  price?: Micros;
+  quantity?: number; // New total quantity (must exceed filled_qty)
+}
+
 export interface OrderBookLevel {
-  price: number;
+  price: Micros;
   quantity: number;
   order_count: number;
 }
 
 export interface OrderBookSnapshot {
   market_id: string;
-  outcome: OutcomeToken;
+  outcome: Outcome;
   bids: OrderBookLevel[]; // Sorted descending by price
   asks: OrderBookLevel[]; // Sorted ascending by price
   timestamp: Date;
@@ -306,7 +475,7 @@ export interface TradeEvent {
   market_id: string;
   price: number;
   quantity: number;
-  outcome: OutcomeToken;
+  outcome: Outcome;
   buyer_id: string;
   seller_id: string;
   executed_at: Date;
@@ -314,7 +483,7 @@ export interface TradeEvent {
 
 export interface SettlementResult {
   market_id: string;
-  outcome: OutcomeToken;
+  outcome: Outcome;
   resolution_data: Record<string, unknown>;
   total_payout: number;
   payouts: Array<{
@@ -338,17 +507,75 @@ export interface MatchResult {
 
 export interface EscrowLockResult {
   success: boolean;
-  locked_amount: number;
+  locked_amount: Micros;
   transaction_id?: string;
   error?: string;
 }
 
 export interface OracleResolutionResult {
   success: boolean;
-  outcome?: OutcomeToken;
+  outcome?: Outcome;
+  value?: number;        // Scalar markets: the resolved value
+  long_payout?: Micros;  // Scalar markets: what a long share pays
   raw_data?: unknown;
   evaluated_value?: unknown;
   error?: string;
+  pending?: boolean;    // Outcome will be published later (attestation round opened)
+  escalated?: boolean;  // Sources disagree too much: needs an operator, not a retry
+  confidence?: number;  // 0-1, set by the resolver adapter
+  fetches?: FetchRecord[];  // Every HTTP exchange behind the result
+}
+
+/**
+ * One HTTP exchange made while resolving, as archived in the evidence
+ * store. Secret headers and query parameters are redacted.
+ */
+export interface FetchRecord {
+  request: {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response?: {
+    status: number;
+    status_text: string;
+    headers: Record<string, string>;
+    body_sha256: string;
+    body_bytes: number;
+  };
+  body?: string;   // Exact response body; stored by hash, not in the bundle
+  error?: string;
+  fetched_at: string;
+}
+
+/**
+ * What settles a categorical or scalar market beyond its outcome; empty
+ * for a binary market
+ */
+export interface ResolutionTerms {
+  market_type?: MarketType;
+  outcomes?: Outcome[];  // Categorical: every outcome id
+  value?: number;        // Scalar: the resolved value
+  long_payout?: Micros;  // Scalar: what a long (YES) share pays; a short share pays the rest
+}
+
+/**
+ * The one payload published on markets.resolved, whichever resolver
+ * adapter decided the market. A scalar market's outcome is the side paid
+ * more (YES at the midpoint).
+ */
+export interface MarketResolvedEvent extends ResolutionTerms {
+  market_id: string;
+  outcome: Outcome;
+  source: string;       // Resolver adapter type, or 'manual' / 'seeder'
+  confidence: number;   // 0-1
+  raw_data?: unknown;
+  evaluated_value?: unknown;
+  provisional_outcome?: Outcome;                    // Set when a challenge window applied
+  challenge_verdict?: 'upheld' | 'overturned' | null;
+  resolution_data?: Record<string, unknown>;        // e.g. the attestation round
+  resolved_at: string;
 }
 
 // ============================================================================
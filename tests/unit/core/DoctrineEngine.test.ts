@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DoctrineEngine, DoctrineViolationError } from '../../../src/core/DoctrineEngine.js';
+import { EscrowLedger } from '../../../src/engine/escrow/EscrowLedger.js';
+import { MatchingEngine } from '../../../src/engine/matcher/MatchingEngine.js';
+import { EventBus } from '../../../src/events/EventBus.js';
+import { OrderSide, OrderType } from '../../../src/types.js';
+
+describe('DoctrineEngine amendments', () => {
+  let escrow: EscrowLedger;
+  let engine: MatchingEngine;
+  let doctrine: DoctrineEngine;
+
+  beforeEach(() => {
+    const eventBus = new EventBus();
+    escrow = new EscrowLedger();
+    engine = new MatchingEngine(escrow, eventBus);
+    doctrine = new DoctrineEngine(eventBus);
+    doctrine.attachMatchingEngine(engine);
+    doctrine.attachEscrow(escrow);
+    engine.attachPreTradeCheck(doctrine);
+
+    // $1,000 budget: positions up to $250, approval above $150
+    escrow.createWallet('agent-1', 1_000_000_000);
+    doctrine.setAgentDoctrine('agent-1', { min_trade_interval_ms: 0 });
+  });
+
+  async function restingBuy(quantity = 100) {
+    const { order } = await engine.processOrder('agent-1', 'market-1', {
+      market_id: 'market-1',
+      side: OrderSide.BUY,
+      outcome: 'yes',
+      order_type: OrderType.LIMIT,
+      price: 500_000,
+      quantity,
+    });
+    return order;
+  }
+
+  async function rejection(promise: Promise<unknown>): Promise<string> {
+    const error = await promise.then(() => undefined, (e: unknown) => e);
+    expect(error).toBeInstanceOf(DoctrineViolationError);
+    return (error as DoctrineViolationError).code;
+  }
+
+  it('rejects an amendment that takes the order past the position limit and leaves it untouched', async () => {
+    const order = await restingBuy();
+    const locked = escrow.getBalance('agent-1')!.locked;
+
+    expect(await rejection(engine.amendOrder(order.id, 'agent-1', { quantity: 600 }))).toBe('MAX_POSITION_SIZE');
+
+    expect(order.quantity).toBe(100);
+    expect(escrow.getBalance('agent-1')!.locked).toBe(locked);
+  });
+
+  it('refuses an amendment past an approval threshold instead of holding it', async () => {
+    const order = await restingBuy();
+
+    expect(await rejection(engine.amendOrder(order.id, 'agent-1', { quantity: 400 }))).toBe('AMENDMENT_NEEDS_APPROVAL');
+    expect(doctrine.getEscalations()).toHaveLength(0);
+  });
+
+  it('blocks a paused agent from raising its price but lets it reduce', async () => {
+    const order = await restingBuy();
+    doctrine.pauseAgent('agent-1', 'test');
+
+    expect(await rejection(engine.amendOrder(order.id, 'agent-1', { price: 550_000 }))).toBe('AGENT_PAUSED');
+
+    const amended = await engine.amendOrder(order.id, 'agent-1', { quantity: 50 });
+    expect(amended?.order.quantity).toBe(50);
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { EscrowLedger } from '../../../src/engine/escrow/EscrowLedger.js';
+import { Accounts } from '../../../src/engine/escrow/GeneralLedger.js';
+import { MatchingEngine } from '../../../src/engine/matcher/MatchingEngine.js';
+import { EventBus } from '../../../src/events/EventBus.js';
+import { MatchType, OrderSide, OrderType, Outcome } from '../../../src/types.js';
+
+const DEPOSIT = 1_000_000_000;
+
+describe('MatchingEngine complete-set accounting', () => {
+  let escrow: EscrowLedger;
+  let engine: MatchingEngine;
+
+  beforeEach(() => {
+    escrow = new EscrowLedger();
+    engine = new MatchingEngine(escrow, new EventBus());
+    escrow.createWallet('yes-buyer', DEPOSIT);
+    escrow.createWallet('no-buyer', DEPOSIT);
+  });
+
+  function buy(agentId: string, outcome: Outcome, price: number, quantity: number) {
+    return engine.processOrder(agentId, 'market-1', {
+      market_id: 'market-1',
+      side: OrderSide.BUY,
+      outcome,
+      order_type: OrderType.LIMIT,
+      price,
+      quantity,
+    });
+  }
+
+  function walletTotal(agentId: string): number {
+    return escrow.getBalance(agentId)!.total;
+  }
+
+  function fees(): number {
+    return escrow.getAccountBalances().find(b => b.account === Accounts.FEES)?.balance ?? 0;
+  }
+
+  it('mints a complete set from a YES and a NO bid and conserves every micro', async () => {
+    await buy('yes-buyer', 'yes', 600_000, 100);
+    const { result } = await buy('no-buyer', 'no', 400_000, 100);
+
+    const [trade] = result.trades;
+    expect(trade.match_type).toBe(MatchType.MINT);
+    const held = escrow.getTradeEscrow(trade.id)!;
+    expect(held.buyer_amount + held.seller_amount).toBe(100_000_000);
+
+    expect(walletTotal('yes-buyer') + walletTotal('no-buyer') + held.buyer_amount + held.seller_amount + fees())
+      .toBe(2 * DEPOSIT);
+    expect(escrow.verifyInvariants().ok).toBe(true);
+  });
+
+  it('collects the taker fee net of the maker rebate', async () => {
+    await engine.getFeeSchedule().setMarketMaker('no-buyer', true);
+    await buy('no-buyer', 'no', 400_000, 100);
+    const { result } = await buy('yes-buyer', 'yes', 600_000, 100);
+
+    const [trade] = result.trades;
+    expect(trade.buyer_fee).toBeGreaterThan(0);
+    expect(trade.seller_fee).toBeLessThan(0);
+    expect(fees()).toBe(trade.buyer_fee + trade.seller_fee);
+    expect(walletTotal('yes-buyer')).toBe(DEPOSIT - 60_000_000 - trade.buyer_fee);
+    expect(walletTotal('no-buyer')).toBe(DEPOSIT - 40_000_000 - trade.seller_fee);
+    expect(escrow.verifyInvariants().ok).toBe(true);
+  });
+
+  it('keeps the invariants through a fill, a cancel and settlement', async () => {
+    const { order } = await buy('yes-buyer', 'yes', 600_000, 100);
+    // Recorded in the incoming order's outcome: the YES bidder sells NO
+    const { result } = await buy('no-buyer', 'no', 400_000, 40);
+    const [trade] = result.trades;
+    expect(trade.seller_id).toBe('yes-buyer');
+    expect(escrow.verifyInvariants().ok).toBe(true);
+
+    await engine.cancelOrder(order.id, 'yes-buyer');
+    expect(escrow.getBalance('yes-buyer')!.locked).toBe(0);
+    expect(escrow.verifyInvariants().ok).toBe(true);
+
+    // YES wins: the 40 shares pay 1.00 each out of the trade's collateral
+    const settlement = await escrow.settleMarketEscrows('market-1', [trade.id],
+      [{ agent_id: 'yes-buyer', amount: 40_000_000 }]);
+    expect(settlement.shortfall).toBe(0);
+    expect(walletTotal('yes-buyer')).toBe(DEPOSIT + 16_000_000 - trade.seller_fee);
+    expect(walletTotal('yes-buyer') + walletTotal('no-buyer') + fees()).toBe(2 * DEPOSIT);
+    expect(escrow.verifyInvariants().ok).toBe(true);
+  });
+});
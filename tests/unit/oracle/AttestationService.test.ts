@@ -0,0 +1,74 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AttestationError, AttestationService, attestationMessage } from '../../../src/oracle/AttestationService.js';
+import { EscrowLedger } from '../../../src/engine/escrow/EscrowLedger.js';
+import { EventBus } from '../../../src/events/EventBus.js';
+import { Market, MarketStatus, OutcomeToken } from '../../../src/types.js';
+
+const BOND = 100_000_000;
+
+describe('AttestationService disputes', () => {
+  let escrow: EscrowLedger;
+  let service: AttestationService;
+
+  beforeEach(async () => {
+    escrow = new EscrowLedger();
+    service = new AttestationService(new EventBus(), escrow, { bondAmount: BOND });
+    escrow.createWallet('disputer', 500_000_000);
+    escrow.createWallet('broke', 10_000_000);
+
+    // One resolver, quorum of one: its attestation proposes YES
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    service.registerResolver('resolver-1', publicKey.export({ type: 'spki', format: 'pem' }).toString());
+    service.openRound({
+      id: 'market-1',
+      resolution_schema: { type: 'binary', quorum: 1 },
+      status: MarketStatus.ACTIVE,
+    } as Market);
+
+    const attestedAt = new Date().toISOString();
+    const message = attestationMessage('market-1', 'resolver-1', OutcomeToken.YES, attestedAt);
+    await service.submitAttestation('market-1', {
+      resolver_id: 'resolver-1',
+      outcome: OutcomeToken.YES,
+      attested_at: attestedAt,
+      signature: sign(null, message, privateKey).toString('base64'),
+    });
+  });
+
+  afterEach(() => service.clearAll());
+
+  it('locks the bond in the disputer\'s wallet', async () => {
+    const round = await service.dispute('market-1', 'disputer', 'Source was wrong');
+
+    expect(round.status).toBe('disputed');
+    expect(round.disputes[0]).toMatchObject({ disputer_id: 'disputer', bond: BOND, bond_status: 'locked' });
+    expect(escrow.getBalance('disputer')).toMatchObject({ available: 400_000_000, locked: BOND });
+  });
+
+  it('rejects a disputer who cannot post the bond and leaves the window open', async () => {
+    const error = await service.dispute('market-1', 'broke', 'No').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AttestationError);
+    expect((error as AttestationError).code).toBe('INSUFFICIENT_BALANCE');
+    expect(service.getRound('market-1')).toMatchObject({ status: 'dispute_window', disputes: [] });
+  });
+
+  it('slashes the bond when the proposed outcome stands', async () => {
+    await service.dispute('market-1', 'disputer', 'Source was wrong');
+    const round = await service.adjudicate('market-1', OutcomeToken.YES, 'Source was right');
+
+    expect(round.disputes[0].bond_status).toBe('slashed');
+    expect(escrow.getBalance('disputer')).toMatchObject({ available: 400_000_000, locked: 0 });
+    expect(escrow.verifyInvariants().ok).toBe(true);
+  });
+
+  it('returns the bond when the proposed outcome is overturned', async () => {
+    await service.dispute('market-1', 'disputer', 'Source was wrong');
+    const round = await service.adjudicate('market-1', OutcomeToken.NO, 'Source was wrong');
+
+    expect(round.disputes[0].bond_status).toBe('returned');
+    expect(escrow.getBalance('disputer')).toMatchObject({ available: 500_000_000, locked: 0 });
+    expect(escrow.verifyInvariants().ok).toBe(true);
+  });
+});
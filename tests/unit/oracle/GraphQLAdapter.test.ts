@@ -0,0 +1,198 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { GraphQLAdapter } from '../../../src/oracle/resolvers/GraphQLAdapter.js';
+import { fixtureTransport, resolveEnvVars } from '../../../src/oracle/resolvers/shared.js';
+import { FetchRecord, GraphQLResolutionSchema } from '../../../src/types.js';
+
+// ============================================================================
+// STUB SERVER
+// ============================================================================
+
+interface StubReply {
+  status?: number;
+  body: unknown;
+}
+
+interface StubRequest {
+  headers: IncomingMessage['headers'];
+  body: { query?: string; variables?: Record<string, unknown> };
+}
+
+let server: Server;
+let endpoint: string;
+let reply: StubReply = { body: {} };
+const received: StubRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: JSON.parse(body || '{}') });
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  received.length = 0;
+  delete process.env.TEST_GRAPHQL_TOKEN;
+});
+
+function schema(overrides: Partial<GraphQLResolutionSchema> = {}): GraphQLResolutionSchema {
+  return {
+    type: 'graphql',
+    endpoint,
+    query: 'query ($owner: String!) { repository(owner: $owner, name: "truth-net") { stargazerCount } }',
+    variables: { owner: 'truth-net' },
+    json_path: '$.repository.stargazerCount',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('GraphQLAdapter', () => {
+  const adapter = new GraphQLAdapter();
+
+  describe('data extraction', () => {
+    it('reads the JSONPath from the response data and evaluates the condition', async () => {
+      reply = { body: { data: { repository: { stargazerCount: 1500 } } } };
+
+      const result = await adapter.resolve(
+        schema({ condition: { operator: 'gte', value: 1000 } }),
+        { timeoutMs: 5000 }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.outcome).toBe('yes');
+      expect(result.evaluated_value).toBe(1500);
+      expect(received).toHaveLength(1);
+      expect(received[0].body.variables).toEqual({ owner: 'truth-net' });
+      expect(received[0].body.query).toContain('stargazerCount');
+    });
+
+    it('returns the bare value without a condition', async () => {
+      const result = await adapter.resolve(schema(), {
+        timeoutMs: 5000,
+        transport: fixtureTransport({ body: { data: { repository: { stargazerCount: 42 } } } }),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.outcome).toBeUndefined();
+      expect(result.evaluated_value).toBe(42);
+    });
+
+    it('fails when the JSONPath matches nothing', async () => {
+      const result = await adapter.resolve(schema({ json_path: '$.repository.forkCount' }), {
+        timeoutMs: 5000,
+        transport: fixtureTransport({ body: { data: { repository: { stargazerCount: 42 } } } }),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('returned no results');
+    });
+
+    it('records the exchange for the evidence store', async () => {
+      reply = { body: { data: { repository: { stargazerCount: 7 } } } };
+      const fetches: FetchRecord[] = [];
+
+      await adapter.resolve(schema(), { timeoutMs: 5000, fetches });
+
+      expect(fetches).toHaveLength(1);
+      expect(fetches[0].request.method).toBe('POST');
+      expect(fetches[0].response?.status).toBe(200);
+      expect(fetches[0].response?.body_sha256).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('errors', () => {
+    it('fails on a non-empty errors array, even with partial data', async () => {
+      reply = {
+        body: {
+          data: { repository: { stargazerCount: 1500 } },
+          errors: [{ message: 'Field "stargazerCount" is deprecated' }, { message: 'Rate limited' }],
+        },
+      };
+
+      const result = await adapter.resolve(schema(), { timeoutMs: 5000 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('GraphQL errors: Field "stargazerCount" is deprecated; Rate limited');
+      expect(result.raw_data).toMatchObject({ errors: expect.any(Array) });
+    });
+
+    it('ignores an empty errors array', async () => {
+      reply = { body: { data: { repository: { stargazerCount: 3 } }, errors: [] } };
+
+      const result = await adapter.resolve(schema(), { timeoutMs: 5000 });
+
+      expect(result.success).toBe(true);
+      expect(result.evaluated_value).toBe(3);
+    });
+
+    it('fails on a non-2xx response', async () => {
+      reply = { status: 503, body: { message: 'Service Unavailable' } };
+
+      const result = await adapter.resolve(schema(), { timeoutMs: 5000 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^HTTP 503/);
+    });
+
+    it('reports the errors of a non-2xx response that carries them', async () => {
+      reply = { status: 400, body: { errors: [{ message: 'Syntax Error: Unexpected Name' }] } };
+
+      const result = await adapter.resolve(schema(), { timeoutMs: 5000 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('GraphQL errors: Syntax Error: Unexpected Name');
+    });
+
+    it('fails when the response has no data', async () => {
+      reply = { body: { data: null } };
+
+      const result = await adapter.resolve(schema(), { timeoutMs: 5000 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('GraphQL response has no data');
+    });
+  });
+
+  describe('headers', () => {
+    it('resolves ${ENV.NAME} placeholders in schema headers', async () => {
+      process.env.TEST_GRAPHQL_TOKEN = 'ghp_test123';
+      reply = { body: { data: { repository: { stargazerCount: 1 } } } };
+      const fetches: FetchRecord[] = [];
+
+      await adapter.resolve(
+        schema({ headers: { Authorization: 'Bearer ${ENV.TEST_GRAPHQL_TOKEN}', 'X-Client': 'truth-net' } }),
+        { timeoutMs: 5000, fetches }
+      );
+
+      expect(received[0].headers.authorization).toBe('Bearer ghp_test123');
+      expect(received[0].headers['x-client']).toBe('truth-net');
+      expect(received[0].headers['content-type']).toBe('application/json');
+      // The secret never reaches the evidence store
+      expect(fetches[0].request.headers.Authorization).toBe('[redacted]');
+    });
+
+    it('resolveEnvVars replaces every placeholder and blanks unset variables', () => {
+      process.env.TEST_GRAPHQL_TOKEN = 'abc';
+
+      expect(resolveEnvVars('${ENV.TEST_GRAPHQL_TOKEN}:${ENV.TEST_GRAPHQL_TOKEN}')).toBe('abc:abc');
+      expect(resolveEnvVars('Bearer ${ENV.TEST_GRAPHQL_UNSET}')).toBe('Bearer ');
+      expect(resolveEnvVars('no placeholders')).toBe('no placeholders');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCondition, validateCondition } from '../../../src/oracle/resolvers/conditions.js';
+
+describe('matches', () => {
+  it.each(['(a+)+$', '(a|a)*b', '(.*a){12}', '(\\w+)\\1', '(?<x>a)\\k<x>'])(
+    'rejects %s, which could backtrack catastrophically',
+    pattern => {
+      expect(validateCondition({ operator: 'matches', value: pattern }).valid).toBe(false);
+    }
+  );
+
+  it.each(['^(up|down)$', '(?:ab)+', '\\d+\\.\\d+', '(?<n>a+)?', '[(+]+x{2,}'])('accepts %s', pattern => {
+    expect(validateCondition({ operator: 'matches', value: pattern })).toEqual({ valid: true });
+  });
+
+  it('fails rather than matching a value past the length cap', () => {
+    const condition = { operator: 'matches' as const, value: '^x' };
+    expect(evaluateCondition(condition, { value: 'x'.repeat(1000), json: {} })).toBe(true);
+    expect(() => evaluateCondition(condition, { value: 'x'.repeat(1001), json: {} })).toThrow(/too long to match/);
+  });
+});
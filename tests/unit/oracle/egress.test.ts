@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { EgressPolicy, guardedTransport, isPublicAddress } from '../../../src/oracle/resolvers/egress.js';
+import { Transport } from '../../../src/oracle/resolvers/shared.js';
+
+const policy: EgressPolicy = {
+  schemes: ['https:'],
+  hosts: ['203.0.113.7', '10.0.0.5', '169.254.169.254', '.example.org'],
+  timeoutMs: 1000,
+  maxBytes: 16,
+};
+
+function upstream(body: string): Transport & { calls: RequestInit[] } {
+  const calls: RequestInit[] = [];
+  return Object.assign(async (_url: string, init: RequestInit) => {
+    calls.push(init);
+    return new Response(body, { status: 200 });
+  }, { calls });
+}
+
+describe('guardedTransport', () => {
+  it('refuses other schemes and hosts off the allowlist without fetching', async () => {
+    const inner = upstream('{}');
+    const transport = guardedTransport(policy, inner);
+
+    await expect(transport('http://203.0.113.7/', {})).rejects.toThrow(/Scheme http: is not allowed/);
+    await expect(transport('https://api.github.com/', {})).rejects.toThrow(/Host api.github.com is not allowed/);
+    await expect(transport('https://example.org.evil.test/', {})).rejects.toThrow(/is not allowed/);
+    expect(inner.calls).toHaveLength(0);
+  });
+
+  it('refuses private and link-local addresses even when allowlisted', async () => {
+    const inner = upstream('{}');
+    const transport = guardedTransport(policy, inner);
+
+    await expect(transport('https://10.0.0.5/', {})).rejects.toThrow(/non-public address 10.0.0.5/);
+    await expect(transport('https://169.254.169.254/latest/meta-data', {})).rejects.toThrow(/non-public/);
+    expect(inner.calls).toHaveLength(0);
+  });
+
+  it('fetches an allowed host without following redirects and caps the body', async () => {
+    const small = upstream('{"ok":true}');
+    const response = await guardedTransport(policy, small)('https://203.0.113.7/data', {});
+    expect(await response.json()).toEqual({ ok: true });
+    expect(small.calls[0].redirect).toBe('error');
+    expect(small.calls[0].signal).toBeInstanceOf(AbortSignal);
+
+    const large = upstream('x'.repeat(17));
+    await expect(guardedTransport(policy, large)('https://203.0.113.7/data', {})).rejects.toThrow(/exceeds 16 bytes/);
+  });
+});
+
+describe('isPublicAddress', () => {
+  it.each([
+    ['127.0.0.1', false], ['10.1.2.3', false], ['172.16.0.1', false], ['192.168.1.1', false],
+    ['169.254.169.254', false], ['100.64.0.1', false], ['0.0.0.0', false], ['::1', false],
+    ['fd00::1', false], ['fe80::1', false], ['::ffff:127.0.0.1', false],
+    ['8.8.8.8', true], ['172.32.0.1', true], ['2606:4700::1111', true],
+  ])('%s → %s', (address, expected) => {
+    expect(isPublicAddress(address)).toBe(expected);
+  });
+});
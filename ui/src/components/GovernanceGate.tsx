@@ -3,9 +3,13 @@
  * 
  * High-stakes escalation system for trades exceeding risk thresholds.
  * Implements the "Commander's Verdict" pattern for 50/50 market splits.
+ *
+ * Lists the doctrine engine's pending escalations; approving submits the
+ * held order and vetoing releases its escrow. Both record who decided and why.
  */
 
 import { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   AlertTriangle, 
@@ -34,15 +38,15 @@ export interface EscalationCard {
     id: string;
     name: string;
     avatar: string;
-    truthScore: number;
-    brierScore: number;
+    truthScore?: number;
+    brierScore?: number;
   };
   trade: {
     marketId: string;
     marketTitle: string;
     marketTicker: string;
     side: 'buy' | 'sell';
-    outcome: 'yes' | 'no';
+    outcome: string;
     size: number;
     price: number;
     budgetPercentage: number;
@@ -63,89 +67,70 @@ export interface EscalationCard {
 }
 
 // ============================================================================
-// MOCK DATA
+// API
 // ============================================================================
 
-const mockEscalations: EscalationCard[] = [
-  {
-    id: 'esc-1',
-    timestamp: new Date(Date.now() - 30000),
-    agent: {
-      id: 'agent-geo-1',
-      name: 'Geopolitical Analyst',
-      avatar: '🌍',
-      truthScore: 0.78,
-      brierScore: 0.23,
-    },
-    trade: {
-      marketId: 'GEO-USCH-0129',
-      marketTitle: 'US-China Trade Negotiations Fail by Feb 15',
-      marketTicker: 'GEO-USCH-0129',
-      side: 'buy',
-      outcome: 'yes',
-      size: 45000,
-      price: 0.62,
-      budgetPercentage: 18,
-    },
-    reasoning: {
-      chainOfThought: [
-        'Detected diplomatic cable leak indicating stalled talks',
-        'Cross-referenced with Shenzhen port AIS data showing 12% throughput decline',
-        'Historical pattern matching suggests 73% probability of escalation',
-        'Risk-reward ratio favorable at current price point',
-      ],
-      confidenceScore: 0.82,
-      dataSources: ['Reuters API', 'MarineTraffic', 'State Dept. RSS'],
-      riskAssessment: 'HIGH CONVICTION - Multiple independent signals converging',
-    },
-    marketConsensus: {
-      yesPrice: 0.62,
-      noPrice: 0.38,
-      isSplit: false,
-    },
-    status: 'pending',
-    expiresAt: new Date(Date.now() + 300000), // 5 minutes
-  },
-  {
-    id: 'esc-2',
-    timestamp: new Date(Date.now() - 120000),
+/** GET /v1/doctrine/escalations item */
+interface ApiEscalation {
+  id: string;
+  agent_id: string;
+  market_id: string;
+  order: {
+    side: 'buy' | 'sell';
+    outcome: string;
+    price?: number;
+    quantity: number;
+    metadata?: Record<string, unknown>;
+  };
+  trade_details: { side: string; size: number; price: number };
+  budget_pct: number;
+  reasons: { rule: string; description: string }[];
+  status: EscalationCard['status'];
+  created_at: string;
+  expires_at: string;
+}
+
+function toCard(escalation: ApiEscalation): EscalationCard {
+  const { order, trade_details: trade } = escalation;
+  const metadata = order.metadata ?? {};
+  const yesPrice = trade.side === 'no' ? 1 - trade.price : trade.price;
+
+  return {
+    id: escalation.id,
+    timestamp: new Date(escalation.created_at),
     agent: {
-      id: 'agent-tech-1',
-      name: 'Tech Oracle',
-      avatar: '💻',
-      truthScore: 0.85,
-      brierScore: 0.18,
+      id: escalation.agent_id,
+      name: escalation.agent_id,
+      avatar: '🤖',
     },
     trade: {
-      marketId: 'TECH-GPT5-0129',
-      marketTitle: 'OpenAI GPT-5 Released in Q1 2026',
-      marketTicker: 'TECH-GPT5-0129',
-      side: 'buy',
-      outcome: 'yes',
-      size: 32000,
-      price: 0.51,
-      budgetPercentage: 16,
+      marketId: escalation.market_id,
+      marketTitle: escalation.market_id,
+      marketTicker: escalation.market_id,
+      side: order.side,
+      outcome: order.outcome,
+      size: trade.size * trade.price,
+      price: order.price ?? trade.price,
+      budgetPercentage: Math.round(escalation.budget_pct),
     },
     reasoning: {
       chainOfThought: [
-        'GitHub commit velocity in semantic-kernel repo spiked 340%',
-        'Azure spot pricing in Virginia indicates datacenter preparation',
-        'Insider Slack leak suggests internal demo scheduled',
-        'Market currently underpricing based on available signals',
+        ...(typeof metadata.reasoning === 'string' ? [metadata.reasoning] : []),
+        ...escalation.reasons.map(r => r.description),
       ],
-      confidenceScore: 0.73,
-      dataSources: ['GitHub API', 'Azure Pricing', 'Blind Forums'],
-      riskAssessment: 'MODERATE - Strong signals but timing uncertain',
+      confidenceScore: typeof metadata.confidence === 'number' ? metadata.confidence : 0,
+      dataSources: [],
+      riskAssessment: escalation.reasons.map(r => r.rule).join(', '),
     },
     marketConsensus: {
-      yesPrice: 0.51,
-      noPrice: 0.49,
-      isSplit: true, // This triggers Commander's Verdict
+      yesPrice,
+      noPrice: 1 - yesPrice,
+      isSplit: yesPrice >= 0.45 && yesPrice <= 0.55,
     },
-    status: 'pending',
-    expiresAt: new Date(Date.now() + 240000),
-  },
-];
+    status: escalation.status,
+    expiresAt: new Date(escalation.expires_at),
+  };
+}
 
 // ============================================================================
 // COMPONENTS
@@ -153,13 +138,14 @@ const mockEscalations: EscalationCard[] = [
 
 interface EscalationCardProps {
   escalation: EscalationCard;
-  onApprove: (id: string) => void;
-  onVeto: (id: string) => void;
+  onApprove: (id: string, reason: string) => void;
+  onVeto: (id: string, reason: string) => void;
 }
 
 function EscalationCardComponent({ escalation, onApprove, onVeto }: EscalationCardProps) {
   const [timeLeft, setTimeLeft] = useState(0);
   const [showFullReasoning, setShowFullReasoning] = useState(false);
+  const [reason, setReason] = useState('');
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -237,8 +223,12 @@ function EscalationCardComponent({ escalation, onApprove, onVeto }: EscalationCa
               <span className="text-xs text-gray-500">requests approval</span>
             </div>
             <div className="flex items-center gap-3 text-xs text-gray-400">
-              <span>Truth: <strong className="text-emerald-400">{(escalation.agent.truthScore * 100).toFixed(0)}%</strong></span>
-              <span>Brier: <strong className="text-cyan-400">{escalation.agent.brierScore.toFixed(2)}</strong></span>
+              {escalation.agent.truthScore !== undefined && (
+                <span>Truth: <strong className="text-emerald-400">{(escalation.agent.truthScore * 100).toFixed(0)}%</strong></span>
+              )}
+              {escalation.agent.brierScore !== undefined && (
+                <span>Brier: <strong className="text-cyan-400">{escalation.agent.brierScore.toFixed(2)}</strong></span>
+              )}
             </div>
           </div>
         </div>
@@ -346,18 +336,29 @@ function EscalationCardComponent({ escalation, onApprove, onVeto }: EscalationCa
           </AnimatePresence>
         </div>
 
+        {/* Decision Reason (audited) */}
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason for your decision (recorded in the audit trail)"
+          rows={2}
+          className="w-full bg-black/50 border border-gray-800 rounded-lg px-3 py-2 text-sm text-gray-300 placeholder-gray-600 focus:outline-none focus:border-gray-600"
+        />
+
         {/* Action Buttons */}
         <div className="flex gap-3">
           <button
-            onClick={() => onVeto(escalation.id)}
-            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 rounded-xl font-semibold transition-all"
+            onClick={() => onVeto(escalation.id, reason.trim())}
+            disabled={!reason.trim()}
+            className="flex-1 disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2 px-4 py-3 bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 text-red-400 rounded-xl font-semibold transition-all"
           >
             <XCircle className="w-5 h-5" />
             VETO & RE-PLAN
           </button>
           <button
-            onClick={() => onApprove(escalation.id)}
-            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-emerald-500/20 hover:bg-emerald-500/30 border border-emerald-500/50 text-emerald-400 rounded-xl font-semibold transition-all"
+            onClick={() => onApprove(escalation.id, reason.trim())}
+            disabled={!reason.trim()}
+            className="flex-1 disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2 px-4 py-3 bg-emerald-500/20 hover:bg-emerald-500/30 border border-emerald-500/50 text-emerald-400 rounded-xl font-semibold transition-all"
           >
             <CheckCircle2 className="w-5 h-5" />
             APPROVE & DISPATCH
@@ -373,33 +374,31 @@ function EscalationCardComponent({ escalation, onApprove, onVeto }: EscalationCa
 // ============================================================================
 
 export default function GovernanceGate() {
-  const [escalations, setEscalations] = useState<EscalationCard[]>(mockEscalations);
+  const queryClient = useQueryClient();
   const [resolvedCount, setResolvedCount] = useState({ approved: 0, vetoed: 0 });
 
-  const handleApprove = async (id: string) => {
-    // Send approval to backend
-    try {
-      await apiClient.post(`/doctrine/escalation/${id}/approve`, {});
-    } catch (e) {
-      console.log('Escalation API not available');
-    }
-    
-    setEscalations(prev => prev.filter(e => e.id !== id));
-    setResolvedCount(prev => ({ ...prev, approved: prev.approved + 1 }));
-  };
+  const { data } = useQuery({
+    queryKey: ['escalations', 'pending'],
+    queryFn: () => apiClient.get<{ escalations: ApiEscalation[]; total: number }>('/doctrine/escalations?status=pending'),
+    refetchInterval: 5_000,
+  });
+  const escalations = (data?.escalations ?? []).map(toCard);
 
-  const handleVeto = async (id: string) => {
-    // Send veto to backend
+  const decide = async (id: string, action: 'approve' | 'veto', reason: string) => {
     try {
-      await apiClient.post(`/doctrine/escalation/${id}/veto`, {});
+      await apiClient.post(`/doctrine/escalation/${id}/${action}`, { reason });
+      setResolvedCount(prev => action === 'approve'
+        ? { ...prev, approved: prev.approved + 1 }
+        : { ...prev, vetoed: prev.vetoed + 1 });
     } catch (e) {
-      console.log('Escalation API not available');
+      console.error(`Escalation ${action} failed:`, e);
     }
-    
-    setEscalations(prev => prev.filter(e => e.id !== id));
-    setResolvedCount(prev => ({ ...prev, vetoed: prev.vetoed + 1 }));
+    queryClient.invalidateQueries({ queryKey: ['escalations'] });
   };
 
+  const handleApprove = (id: string, reason: string) => decide(id, 'approve', reason);
+  const handleVeto = (id: string, reason: string) => decide(id, 'veto', reason);
+
   const pendingCount = escalations.filter(e => e.status === 'pending').length;
   const splitCount = escalations.filter(e => e.marketConsensus.isSplit).length;
 